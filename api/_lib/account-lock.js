@@ -0,0 +1,240 @@
+/**
+ * Account lockout (server only).
+ * `users.locked_until` blocks every sign-in until that time; `users.lock_reason` says why.
+ * Repeated failed sign-ins or MFA checks lock the account automatically and email the
+ * user a signed one-time unlock link, so the owner can clear the lock by proving access
+ * to the mailbox. Admins lock and unlock accounts from the Admin Panel through the
+ * /api/admin/users/{lock,unlock} handlers below; the browser cannot change the lock columns.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, APP_URL (unlock link origin; without it no
+ *      unlock email is sent), SMTP_* (./mailer.js)
+ */
+
+import { appOrigin, clientInfo } from './http.js';
+import { generateUnlockToken, verifyUnlockToken } from './jwt.js';
+import { sendMail } from './mailer.js';
+import { requireAdmin } from './sessions.js';
+import {
+  deleteRows,
+  eq,
+  insertAuditLog,
+  isSupabaseConfigured,
+  selectOne,
+  updateRows,
+} from './supabase.js';
+
+const MAX_ADMIN_LOCK_HOURS = 24 * 365;
+
+const LOCK_MESSAGES = {
+  failed_logins: 'too many failed sign-in attempts',
+  failed_mfa: 'too many failed verification codes',
+  admin: 'an administrator locked it',
+};
+
+/** Whether the `users` row (with `locked_until`) is locked right now. */
+export function isAccountLocked(row) {
+  return Boolean(row?.locked_until) && new Date(row.locked_until).getTime() > Date.now();
+}
+
+/** 423 response for a locked account. */
+export function accountLocked(res, row) {
+  return res.status(423).json({
+    success: false,
+    message:
+      row.lock_reason === 'admin'
+        ? 'This account has been locked. Contact an administrator.'
+        : 'This account is temporarily locked. Check your email for an unlock link.',
+    lockedUntil: row.locked_until,
+  });
+}
+
+/**
+ * Lock `userId` until `lockedUntil` after repeated failures (`reason` is `failed_logins`
+ * or `failed_mfa`) and email the unlock link. An existing longer lock is kept.
+ */
+export async function lockAccount(req, userId, reason, lockedUntil) {
+  const user = await selectOne('users', `select=email,locked_until&id=${eq(userId)}`);
+  if (!user) return;
+  if (isAccountLocked(user) && new Date(user.locked_until) >= lockedUntil) return;
+
+  const updated = await updateRows(
+    'users',
+    `id=${eq(userId)}`,
+    { locked_until: lockedUntil.toISOString(), lock_reason: reason },
+    { returnRows: true }
+  );
+  const lock = updated?.[0]?.locked_until ?? lockedUntil.toISOString();
+
+  const { ipAddress, userAgent } = clientInfo(req);
+  await insertAuditLog(userId, 'Account locked', ipAddress, userAgent, {
+    reason,
+    lockedUntil: lock,
+  });
+
+  const origin = appOrigin();
+  if (!origin) {
+    console.warn('account lock: APP_URL is not set, unlock email not sent');
+    return;
+  }
+  const expiresIn = Math.max(60, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+  const token = await generateUnlockToken(userId, lock, expiresIn);
+  const link = `${origin}/unlock-account?token=${encodeURIComponent(token)}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Your SecureAuth account has been locked',
+    html: `<p>Your SecureAuth account was locked after ${LOCK_MESSAGES[reason]}.</p>
+<p>If this was you, <a href="${link}">unlock your account</a>. The link works once and expires
+with the lock at ${new Date(lock).toUTCString()}.</p>
+<p>If this was not you, someone may know your password. Change it after unlocking.</p>`,
+  });
+}
+
+/**
+ * POST /api/auth/unlock — { token }
+ * Clears the lock named by an emailed unlock token, together with the failures that
+ * caused it. Locks set by an admin cannot be cleared this way.
+ */
+export async function handleUnlockAccount(req, res) {
+  try {
+    if (!isSupabaseConfigured()) {
+      return res.status(503).json({
+        error: 'Auth service not configured',
+        message: 'Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+      });
+    }
+
+    const token = (req.body?.token || '').toString().trim();
+    if (!token) {
+      return res.status(400).json({ error: 'token is required' });
+    }
+
+    const invalid = () =>
+      res.status(400).json({ success: false, message: 'This unlock link is invalid or has already been used' });
+
+    const payload = await verifyUnlockToken(token);
+    if (!payload?.userId || !payload.lockedUntil) return invalid();
+
+    const user = await selectOne(
+      'users',
+      `select=id,email,locked_until,lock_reason&id=${eq(payload.userId)}`
+    );
+    // Compared as instants: PostgREST returns `+00:00` where the token may hold `Z`
+    const sameLock =
+      user?.locked_until &&
+      new Date(user.locked_until).getTime() === new Date(payload.lockedUntil).getTime();
+    if (!user || user.lock_reason === 'admin' || !sameLock) {
+      return invalid();
+    }
+
+    // Conditional on the lock matched to the token, so the link works only once
+    const cleared = await updateRows(
+      'users',
+      `id=${eq(user.id)}&locked_until=${eq(user.locked_until)}`,
+      { locked_until: null, lock_reason: null },
+      { returnRows: true }
+    );
+    if (!cleared?.length) return invalid();
+
+    await deleteRows('failed_login_attempts', `email=${eq(user.email)}&success=eq.false`);
+    await deleteRows('mfa_attempts', `user_id=${eq(user.id)}&success=eq.false`);
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(user.id, 'Account unlocked (email link)', ipAddress, userAgent);
+
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('account unlock:', e);
+    return res.status(500).json({ success: false, message: 'Could not unlock the account' });
+  }
+}
+
+/** Clear the lock of `user` (`id`, `email`) and the failures that may have caused it. */
+async function clearLock(user) {
+  await updateRows('users', `id=${eq(user.id)}`, {
+    locked_until: null,
+    lock_reason: null,
+    updated_at: new Date().toISOString(),
+  });
+  await deleteRows('failed_login_attempts', `email=${eq(user.email)}&success=eq.false`);
+  await deleteRows('mfa_attempts', `user_id=${eq(user.id)}&success=eq.false`);
+}
+
+/**
+ * POST /api/admin/users/lock — { userId, hours } + bearer token (Admin)
+ * Locks another user's account for `hours` and signs them out everywhere. Admin locks
+ * cannot be cleared with the emailed unlock link.
+ */
+export async function handleAdminLockAccount(req, res) {
+  try {
+    const userId = (req.body?.userId || '').toString().trim();
+    const hours = Number(req.body?.hours);
+    if (!userId || !Number.isInteger(hours) || hours < 1 || hours > MAX_ADMIN_LOCK_HOURS) {
+      return res.status(400).json({
+        error: `userId and hours (1-${MAX_ADMIN_LOCK_HOURS}) are required`,
+      });
+    }
+
+    const auth = await requireAdmin(req, res);
+    if (!auth) return;
+    if (userId === auth.userId) {
+      return res.status(400).json({ success: false, message: 'You cannot lock your own account' });
+    }
+
+    const user = await selectOne('users', `select=id,email&id=${eq(userId)}`);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const lockedUntil = new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+    await updateRows('users', `id=${eq(user.id)}`, {
+      locked_until: lockedUntil,
+      lock_reason: 'admin',
+      updated_at: new Date().toISOString(),
+    });
+    await deleteRows('sessions', `user_id=${eq(user.id)}`);
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(user.id, 'Account locked', ipAddress, userAgent, {
+      reason: 'admin',
+      lockedUntil,
+      lockedBy: auth.userId,
+    });
+
+    return res.status(200).json({ success: true, lockedUntil });
+  } catch (e) {
+    console.error('admin lock:', e);
+    return res.status(500).json({ success: false, message: 'Could not lock the account' });
+  }
+}
+
+/**
+ * POST /api/admin/users/unlock — { userId } + bearer token (Admin)
+ * Clears another user's account lock, whatever set it, with the failures behind it.
+ */
+export async function handleAdminUnlockAccount(req, res) {
+  try {
+    const userId = (req.body?.userId || '').toString().trim();
+    if (!userId) {
+      return res.status(400).json({ error: 'userId is required' });
+    }
+
+    const auth = await requireAdmin(req, res);
+    if (!auth) return;
+
+    const user = await selectOne('users', `select=id,email,lock_reason&id=${eq(userId)}`);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+    await clearLock(user);
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(user.id, 'Account unlocked (admin)', ipAddress, userAgent, {
+      reason: user.lock_reason,
+      unlockedBy: auth.userId,
+    });
+
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('admin unlock:', e);
+    return res.status(500).json({ success: false, message: 'Could not unlock the account' });
+  }
+}
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { handleUnlockAccount } from './account-lock.js';
+import { generateUnlockToken } from './jwt.js';
+import { fakeRequest, fakeResponse, fakeSupabase, useFakeService, writesTo } from './test-helpers.js';
+
+// The lock as the token carries it, and as PostgREST returns the column
+const LOCKED_UNTIL = '2030-01-01T12:00:00.000Z';
+const LOCKED_UNTIL_COLUMN = '2030-01-01T12:00:00+00:00';
+
+function lockedUser(fields = {}) {
+  return {
+    id: 'user-1',
+    email: 'user@example.com',
+    locked_until: LOCKED_UNTIL_COLUMN,
+    lock_reason: 'failed_logins',
+    ...fields,
+  };
+}
+
+describe('account-lock: handleUnlockAccount', () => {
+  let restore;
+  let keys;
+  beforeEach(() => {
+    restore = useFakeService();
+    keys = { jwt_signing_keys: [] };
+    fakeSupabase(keys);
+  });
+  afterEach(() => restore());
+
+  it('clears the lock the link was sent for', async () => {
+    const token = await generateUnlockToken('user-1', LOCKED_UNTIL, 3600);
+    const { writes } = fakeSupabase({ ...keys, users: [lockedUser()] });
+    const res = fakeResponse();
+
+    await handleUnlockAccount(fakeRequest({ token }), res);
+
+    assert.equal(res.statusCode, 200);
+    const [cleared] = writesTo(writes, 'users', 'PATCH');
+    assert.deepEqual(cleared.body, { locked_until: null, lock_reason: null });
+    assert.match(cleared.query, /locked_until=eq\.2030-01-01T12:00:00\+00:00/);
+    const [audit] = writesTo(writes, 'audit_logs', 'POST');
+    assert.equal(audit.body.action, 'Account unlocked (email link)');
+  });
+
+  it('refuses a link sent for an earlier lock', async () => {
+    const token = await generateUnlockToken('user-1', '2029-12-31T12:00:00.000Z', 3600);
+    const { writes } = fakeSupabase({ ...keys, users: [lockedUser()] });
+    const res = fakeResponse();
+
+    await handleUnlockAccount(fakeRequest({ token }), res);
+
+    assert.equal(res.statusCode, 400);
+    assert.equal(writesTo(writes, 'users', 'PATCH').length, 0);
+  });
+
+  it('refuses a link that was already used', async () => {
+    const token = await generateUnlockToken('user-1', LOCKED_UNTIL, 3600);
+    const { writes } = fakeSupabase({ ...keys, users: [lockedUser()] }, { writesMatch: false });
+    const res = fakeResponse();
+
+    await handleUnlockAccount(fakeRequest({ token }), res);
+
+    assert.equal(res.statusCode, 400);
+    assert.equal(writesTo(writes, 'audit_logs', 'POST').length, 0);
+  });
+
+  it('does not clear a lock set by an admin', async () => {
+    const token = await generateUnlockToken('user-1', LOCKED_UNTIL, 3600);
+    const { writes } = fakeSupabase({ ...keys, users: [lockedUser({ lock_reason: 'admin' })] });
+    const res = fakeResponse();
+
+    await handleUnlockAccount(fakeRequest({ token }), res);
+
+    assert.equal(res.statusCode, 400);
+    assert.equal(writesTo(writes, 'users', 'PATCH').length, 0);
+  });
+});
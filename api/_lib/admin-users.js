@@ -0,0 +1,109 @@
+/**
+ * Role and activation changes for admins (server only).
+ * The Admin Panel changes a user's role and deactivates or reactivates accounts through
+ * these handlers; the browser cannot write `users.role` or `users.is_active`. Admins
+ * cannot change their own account, so the last admin cannot lock everyone out by accident.
+ * Deactivating signs the user out everywhere. Every change writes an audit entry naming
+ * the admin.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { clientInfo } from './http.js';
+import { requireAdmin } from './sessions.js';
+import { deleteRows, eq, insertAuditLog, selectOne, updateRows } from './supabase.js';
+
+const ROLES = ['Admin', 'StandardUser', 'RestrictedUser'];
+
+/**
+ * POST /api/admin/users/role — { userId, role } + bearer token (Admin)
+ * Gives another user one of the roles in ROLES.
+ */
+export async function handleAdminChangeRole(req, res) {
+  try {
+    const userId = (req.body?.userId || '').toString().trim();
+    const role = (req.body?.role || '').toString();
+    if (!userId || !ROLES.includes(role)) {
+      return res.status(400).json({ error: `userId and role (${ROLES.join(', ')}) are required` });
+    }
+
+    const auth = await requireAdmin(req, res);
+    if (!auth) return;
+    if (userId === auth.userId) {
+      return res.status(400).json({ success: false, message: 'You cannot change your own role' });
+    }
+
+    const user = await selectOne('users', `select=id,role&id=${eq(userId)}`);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    if (user.role !== role) {
+      await updateRows('users', `id=${eq(user.id)}`, {
+        role,
+        updated_at: new Date().toISOString(),
+      });
+
+      const { ipAddress, userAgent } = clientInfo(req);
+      await insertAuditLog(user.id, 'Role changed', ipAddress, userAgent, {
+        from: user.role,
+        to: role,
+        changedBy: auth.userId,
+      });
+    }
+
+    return res.status(200).json({ success: true, role });
+  } catch (e) {
+    console.error('admin role change:', e);
+    return res.status(500).json({ success: false, message: 'Could not change the role' });
+  }
+}
+
+/**
+ * POST /api/admin/users/active — { userId, active } + bearer token (Admin)
+ * Deactivates (`active: false`) or reactivates another user's account. Inactive accounts
+ * cannot sign in or refresh tokens.
+ */
+export async function handleAdminSetActive(req, res) {
+  try {
+    const userId = (req.body?.userId || '').toString().trim();
+    const active = req.body?.active;
+    if (!userId || typeof active !== 'boolean') {
+      return res.status(400).json({ error: 'userId and active (true or false) are required' });
+    }
+
+    const auth = await requireAdmin(req, res);
+    if (!auth) return;
+    if (userId === auth.userId) {
+      return res
+        .status(400)
+        .json({ success: false, message: 'You cannot deactivate your own account' });
+    }
+
+    const user = await selectOne('users', `select=id,is_active&id=${eq(userId)}`);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    await updateRows('users', `id=${eq(user.id)}`, {
+      is_active: active,
+      updated_at: new Date().toISOString(),
+    });
+    if (!active) {
+      await deleteRows('sessions', `user_id=${eq(user.id)}`);
+    }
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(
+      user.id,
+      active ? 'Account activated' : 'Account deactivated',
+      ipAddress,
+      userAgent,
+      { changedBy: auth.userId }
+    );
+
+    return res.status(200).json({ success: true, active });
+  } catch (e) {
+    console.error('admin set active:', e);
+    return res.status(500).json({ success: false, message: 'Could not change the account status' });
+  }
+}
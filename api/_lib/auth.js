@@ -0,0 +1,471 @@
+/**
+ * Password sign-in, token refresh and sign-out (server only).
+ * Handlers take (req, res) so they mount directly in Express and in Vercel functions.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, JWT_SIGNING_ALG (optional)
+ */
+
+import { randomUUID } from 'crypto';
+import { accountLocked, isAccountLocked, lockAccount } from './account-lock.js';
+import { bearerToken, clientInfo } from './http.js';
+import { generateTokenPair, verifyRefreshToken } from './jwt.js';
+import { getPublicJwks } from './keys.js';
+import { hashPassword, needsRehash, passwordHashScheme, verifyPassword } from './password-hashing.js';
+import { getPasswordPolicy, isPasswordExpired } from './password-policy.js';
+import {
+  isPastAbsoluteLifetime,
+  isPastIdleTimeout,
+  latestActivity,
+  sessionLimits,
+} from './session-policy.js';
+import { requireSession } from './sessions.js';
+import { isTrustedDevice, trustedDeviceDays } from './trusted-devices.js';
+import { verifyPasskeyLogin } from './webauthn.js';
+import { checkLoginRateLimit, getRateLimitErrorMessage, recordLoginAttempt } from './rate-limit.js';
+import {
+  deleteRows,
+  eq,
+  insertAuditLog,
+  insertRows,
+  isSupabaseConfigured,
+  selectOne,
+  updateRows,
+} from './supabase.js';
+
+const USER_COLUMNS =
+  'id,email,role,mfa_enabled,created_at,is_active,locked_until,lock_reason,' +
+  'user_profiles(display_name,avatar_url)';
+
+function toUser(row) {
+  // One-to-one embed: an object, or null until the profile is first saved
+  const profile = Array.isArray(row.user_profiles) ? row.user_profiles[0] : row.user_profiles;
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    mfaEnabled: row.mfa_enabled,
+    createdAt: row.created_at,
+    displayName: profile?.display_name ?? null,
+    avatarUrl: profile?.avatar_url ?? null,
+  };
+}
+
+function tokenResponse(tokenPair) {
+  return {
+    accessToken: tokenPair.accessToken,
+    refreshToken: tokenPair.refreshToken,
+    expiresAt: tokenPair.expiresAt.toISOString(),
+  };
+}
+
+/** 503 body when service credentials are missing, or null when configured. */
+function missingConfig() {
+  if (isSupabaseConfigured()) return null;
+  return {
+    error: 'Auth service not configured',
+    message: 'Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+  };
+}
+
+/**
+ * Re-hash a verified password whose stored hash uses an outdated scheme or cost
+ * (./password-hashing.js). Conditional on the hash being unchanged, so a password change
+ * made meanwhile wins; failures only delay the upgrade to the next sign-in.
+ */
+async function upgradePasswordHash(req, row, password) {
+  try {
+    if (!needsRehash(row.password_hash)) return;
+    const upgraded = await hashPassword(password);
+    const updated = await updateRows(
+      'users',
+      `id=${eq(row.id)}&password_hash=${eq(row.password_hash)}`,
+      { password_hash: upgraded },
+      { returnRows: true }
+    );
+    if (updated?.length) {
+      const { ipAddress, userAgent } = clientInfo(req);
+      await insertAuditLog(row.id, 'Password hash upgraded', ipAddress, userAgent, {
+        from: passwordHashScheme(row.password_hash) || 'unknown',
+        to: passwordHashScheme(upgraded),
+      });
+    }
+  } catch (e) {
+    console.error('password rehash:', e);
+  }
+}
+
+function rateLimited(res, { resetAt, retryAt }) {
+  if (resetAt) {
+    return res.status(429).json({
+      success: false,
+      message: getRateLimitErrorMessage(resetAt),
+      resetAt: resetAt.toISOString(),
+    });
+  }
+  const retryAfterSeconds = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000));
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  return res.status(429).json({
+    success: false,
+    message: `Too many failed attempts. Please wait ${retryAfterSeconds} second${
+      retryAfterSeconds > 1 ? 's' : ''
+    } and try again.`,
+    retryAfterSeconds,
+  });
+}
+
+/** Delete every session in a refresh token family and record the reuse. */
+async function revokeFamily(req, userId, familyId) {
+  await deleteRows('sessions', `family_id=${eq(familyId)}`);
+  const { ipAddress, userAgent } = clientInfo(req);
+  await insertAuditLog(userId, 'refresh_token_reuse', ipAddress, userAgent, {
+    familyId,
+    reason: 'Refresh token presented after it was rotated; token family revoked',
+  });
+}
+
+/**
+ * Start a session (new refresh token family) for `user` and sign its first token pair.
+ * A session with `passwordExpired` is limited to the password change (./sessions.js).
+ * @returns {Promise<object>} Token and session-limit fields for the sign-in response
+ */
+async function createSession(req, user, { mfaVerified, passwordExpired = false }) {
+  const { ipAddress, userAgent } = clientInfo(req);
+  const familyId = randomUUID();
+  const signedInAt = new Date();
+  const tokenPair = await generateTokenPair(user.id, user.email, user.role, familyId);
+
+  await insertRows('sessions', {
+    user_id: user.id,
+    family_id: familyId,
+    token: tokenPair.accessToken,
+    refresh_token: tokenPair.refreshToken,
+    expires_at: tokenPair.expiresAt.toISOString(),
+    ip_address: ipAddress,
+    user_agent: userAgent,
+    created_at: signedInAt.toISOString(),
+    last_seen_at: signedInAt.toISOString(),
+    last_activity_at: signedInAt.toISOString(),
+    mfa_verified_at: mfaVerified ? signedInAt.toISOString() : null,
+    password_expired: passwordExpired,
+  });
+
+  return {
+    session: sessionLimits(user.role, signedInAt),
+    ...tokenResponse(tokenPair),
+  };
+}
+
+/**
+ * POST /api/auth/login — { email, password, deviceToken? }
+ * Verifies the password, enforces the login rate limits (./rate-limit.js), creates a
+ * session row and returns a signed token pair. The second factor is still required unless
+ * `deviceToken` identifies a trusted device of this user (./trusted-devices.js).
+ */
+export async function handleLogin(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const email = (req.body?.email || '').toString().trim().toLowerCase();
+    const password = (req.body?.password || '').toString();
+    const deviceToken = (req.body?.deviceToken || '').toString().trim();
+    if (!email || !password) {
+      return res.status(400).json({ error: 'email and password are required' });
+    }
+
+    const { ipAddress, userAgent } = clientInfo(req);
+
+    // Locked out, or still inside the progressive delay after the last failure
+    const rateLimit = await checkLoginRateLimit(email, ipAddress);
+    if (rateLimit.isBlocked || rateLimit.retryAt) {
+      return rateLimited(res, rateLimit);
+    }
+
+    const row = await selectOne(
+      'users',
+      `select=${USER_COLUMNS},password_hash,password_changed_at&email=${eq(email)}`
+    );
+    const isPasswordValid = row?.password_hash
+      ? await verifyPassword(password, row.password_hash)
+      : false;
+
+    if (!isPasswordValid) {
+      await recordLoginAttempt(email, false, ipAddress);
+      const newRateLimit = await checkLoginRateLimit(email, ipAddress);
+      // Only the failure that uses up the per-account limit locks the account; later
+      // attempts are refused above before the password is checked
+      if (row && newRateLimit.accountResetAt) {
+        await lockAccount(req, row.id, 'failed_logins', newRateLimit.accountResetAt);
+      }
+      if (newRateLimit.isBlocked) {
+        return rateLimited(res, newRateLimit);
+      }
+      return res.status(401).json({ success: false, message: 'Invalid credentials' });
+    }
+
+    if (row.is_active === false) {
+      return res.status(403).json({ success: false, message: 'This account has been deactivated' });
+    }
+    // Checked after the password so the response does not reveal which accounts are locked
+    if (isAccountLocked(row)) {
+      return accountLocked(res, row);
+    }
+
+    await upgradePasswordHash(req, row, password);
+
+    // An expired password must be changed before anything else; the session is limited
+    // to that until then (see password-policy.js)
+    const passwordExpired = isPasswordExpired(row.password_changed_at, await getPasswordPolicy());
+    const user = toUser(row);
+    const trustedDevice = deviceToken ? await isTrustedDevice(req, user.id, deviceToken) : false;
+    const signedIn = await createSession(req, user, { mfaVerified: trustedDevice, passwordExpired });
+
+    // Otherwise full access is granted only after the second factor on /mfa-verify
+    await insertAuditLog(
+      user.id,
+      trustedDevice ? 'User login (trusted device)' : 'User login (password verified)',
+      ipAddress,
+      userAgent
+    );
+    await recordLoginAttempt(email, true, ipAddress);
+
+    return res.status(200).json({
+      success: true,
+      requiresMfa: !trustedDevice,
+      trustedDeviceDays: trustedDeviceDays(),
+      user: passwordExpired ? { ...user, passwordExpired } : user,
+      ...signedIn,
+    });
+  } catch (e) {
+    console.error('auth login:', e);
+    return res.status(500).json({ success: false, message: 'Sign-in failed' });
+  }
+}
+
+/**
+ * POST /api/auth/webauthn/login-verify — { response }
+ * Passkey-only sign-in: a user-verified passkey counts as both factors, so the session
+ * starts MFA-verified. Options come from /api/auth/webauthn/login-options.
+ */
+export async function handlePasskeyLogin(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const response = req.body?.response;
+    if (!response?.id) {
+      return res.status(400).json({ error: 'response is required' });
+    }
+
+    const userId = await verifyPasskeyLogin(req, response);
+    const row = userId
+      ? await selectOne('users', `select=${USER_COLUMNS},password_changed_at&id=${eq(userId)}`)
+      : null;
+    if (!row) {
+      return res.status(401).json({ success: false, message: 'Passkey could not be verified' });
+    }
+    if (row.is_active === false) {
+      return res.status(403).json({ success: false, message: 'This account has been deactivated' });
+    }
+    if (isAccountLocked(row)) {
+      return accountLocked(res, row);
+    }
+
+    const passwordExpired = isPasswordExpired(row.password_changed_at, await getPasswordPolicy());
+    const user = toUser(row);
+    const signedIn = await createSession(req, user, { mfaVerified: true, passwordExpired });
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(user.id, 'User login (passkey)', ipAddress, userAgent);
+
+    return res.status(200).json({
+      success: true,
+      requiresMfa: false,
+      trustedDeviceDays: trustedDeviceDays(),
+      user: passwordExpired ? { ...user, passwordExpired } : user,
+      ...signedIn,
+    });
+  } catch (e) {
+    console.error('auth passkey login:', e);
+    return res.status(500).json({ success: false, message: 'Passkey sign-in failed' });
+  }
+}
+
+/**
+ * POST /api/auth/refresh — { refreshToken, lastActivityAt? }
+ * Issues a new token pair for a live session and swaps it into the same session row.
+ * Each refresh token is single-use: presenting one that was already exchanged means it
+ * leaked, so the whole family (every session from that sign-in) is revoked. While the
+ * user's password is expired the session stays limited to the password change.
+ * `lastActivityAt` is the browser's last recorded user activity; refreshing is not
+ * activity by itself, so idle sessions are not refreshed.
+ */
+export async function handleRefresh(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const refreshToken = (req.body?.refreshToken || '').toString().trim();
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'refreshToken is required' });
+    }
+
+    const payload = await verifyRefreshToken(refreshToken);
+    if (!payload?.familyId) {
+      return res.status(401).json({ success: false, message: 'Invalid or expired refresh token' });
+    }
+
+    const session = await selectOne(
+      'sessions',
+      `select=id,user_id,refresh_token,created_at,last_activity_at&family_id=${eq(payload.familyId)}`
+    );
+    if (!session || session.user_id !== payload.userId) {
+      return res.status(401).json({ success: false, message: 'Session not found' });
+    }
+
+    if (session.refresh_token !== refreshToken) {
+      await revokeFamily(req, session.user_id, payload.familyId);
+      return res.status(401).json({ success: false, message: 'Session is no longer valid' });
+    }
+
+    // Re-read the user so role changes, deactivation, locks and password expiry apply on
+    // the next refresh
+    const row = await selectOne(
+      'users',
+      `select=${USER_COLUMNS},password_changed_at&id=${eq(session.user_id)}`
+    );
+    if (!row || row.is_active === false || isAccountLocked(row)) {
+      await deleteRows('sessions', `id=${eq(session.id)}`);
+      return res.status(401).json({ success: false, message: 'Session is no longer valid' });
+    }
+
+    // Activity does not extend a session past its role's absolute lifetime
+    if (isPastAbsoluteLifetime(row.role, session.created_at)) {
+      await deleteRows('sessions', `id=${eq(session.id)}`);
+      return res.status(401).json({
+        success: false,
+        message: 'Session has reached its maximum lifetime. Please sign in again.',
+      });
+    }
+
+    const lastActivity = latestActivity(session, req.body?.lastActivityAt);
+    if (isPastIdleTimeout(row.role, lastActivity)) {
+      await deleteRows('sessions', `id=${eq(session.id)}`);
+      return res.status(401).json({
+        success: false,
+        message: 'Session ended after a period of inactivity. Please sign in again.',
+      });
+    }
+
+    const passwordExpired = isPasswordExpired(row.password_changed_at, await getPasswordPolicy());
+    const tokenPair = await generateTokenPair(row.id, row.email, row.role, payload.familyId);
+    // Conditional on the presented token so two concurrent exchanges cannot both succeed
+    const updated = await updateRows(
+      'sessions',
+      `id=${eq(session.id)}&refresh_token=${eq(refreshToken)}`,
+      {
+        token: tokenPair.accessToken,
+        refresh_token: tokenPair.refreshToken,
+        expires_at: tokenPair.expiresAt.toISOString(),
+        last_seen_at: new Date().toISOString(),
+        last_activity_at: new Date(lastActivity).toISOString(),
+        password_expired: passwordExpired,
+      },
+      { returnRows: true }
+    );
+    if (!updated?.length) {
+      await revokeFamily(req, session.user_id, payload.familyId);
+      return res.status(401).json({ success: false, message: 'Session is no longer valid' });
+    }
+
+    const user = toUser(row);
+    return res.status(200).json({
+      success: true,
+      user: passwordExpired ? { ...user, passwordExpired } : user,
+      session: sessionLimits(row.role, session.created_at),
+      ...tokenResponse(tokenPair),
+    });
+  } catch (e) {
+    console.error('auth refresh:', e);
+    return res.status(500).json({ success: false, message: 'Token refresh failed' });
+  }
+}
+
+/**
+ * POST /api/auth/logout — `Authorization: Bearer <accessToken>`
+ * Deletes the session row for the token (expired tokens are accepted so stale tabs can sign out).
+ */
+export async function handleLogout(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const accessToken = bearerToken(req);
+    if (!accessToken) {
+      return res.status(401).json({ error: 'Authorization bearer token is required' });
+    }
+
+    const session = await selectOne('sessions', `select=id,user_id&token=${eq(accessToken)}`);
+    if (session) {
+      await deleteRows('sessions', `id=${eq(session.id)}`);
+      const { ipAddress, userAgent } = clientInfo(req);
+      await insertAuditLog(session.user_id, 'User logout', ipAddress, userAgent);
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('auth logout:', e);
+    return res.status(500).json({ success: false, message: 'Sign-out failed' });
+  }
+}
+
+/**
+ * POST /api/auth/session — { lastActivityAt? } + `Authorization: Bearer <accessToken>`
+ * 200 while the token's session row exists; 401 once it was revoked, signed out or went
+ * idle. The check itself is not activity: only the reported `lastActivityAt` is recorded.
+ */
+export async function handleSession(req, res) {
+  try {
+    const auth = await requireSession(req, res, {
+      allowExpiredPassword: true,
+      activityAt: req.body?.lastActivityAt || null,
+    });
+    if (!auth) return;
+
+    // The browser checks every minute while open, so this doubles as "last seen"
+    await updateRows('sessions', `id=${eq(auth.session.id)}`, {
+      last_seen_at: new Date().toISOString(),
+    });
+
+    return res.status(200).json({ success: true, expiresAt: auth.session.expires_at });
+  } catch (e) {
+    console.error('auth session:', e);
+    return res.status(500).json({ success: false, message: 'Session check failed' });
+  }
+}
+
+/**
+ * GET /.well-known/jwks.json
+ * Public keys for every signing key that may still appear on a live token.
+ */
+export async function handleJwks(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const jwks = await getPublicJwks();
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    return res.status(200).json(jwks);
+  } catch (e) {
+    console.error('auth jwks:', e);
+    return res.status(500).json({ error: 'Failed to load signing keys' });
+  }
+}
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { handleRefresh } from './auth.js';
+import { generateTokenPair } from './jwt.js';
+import { fakeRequest, fakeResponse, fakeSupabase, useFakeService, writesTo } from './test-helpers.js';
+
+const FAMILY = 'family-1';
+
+const secondsAgo = (s) => new Date(Date.now() - s * 1000).toISOString();
+
+const user = {
+  id: 'user-1',
+  email: 'user@example.com',
+  role: 'StandardUser',
+  mfa_enabled: true,
+  is_active: true,
+  locked_until: null,
+  lock_reason: null,
+  created_at: secondsAgo(86400),
+  password_changed_at: secondsAgo(60),
+  user_profiles: null,
+};
+
+/** A token pair of `user` in FAMILY; with an empty key table the first call creates a key. */
+function tokenPair() {
+  return generateTokenPair(user.id, user.email, user.role, FAMILY);
+}
+
+function sessionRow(refreshToken) {
+  return {
+    id: 'session-1',
+    user_id: user.id,
+    family_id: FAMILY,
+    refresh_token: refreshToken,
+    created_at: secondsAgo(600),
+    last_activity_at: secondsAgo(60),
+  };
+}
+
+describe('auth: handleRefresh', () => {
+  let restore;
+  let tables;
+  beforeEach(() => {
+    restore = useFakeService();
+    tables = { jwt_signing_keys: [] };
+    fakeSupabase(tables);
+  });
+  afterEach(() => restore());
+
+  it('swaps a new token pair into the session row', async () => {
+    const { refreshToken } = await tokenPair();
+    const { writes } = fakeSupabase({ ...tables, sessions: [sessionRow(refreshToken)], users: [user] });
+    const res = fakeResponse();
+
+    await handleRefresh(fakeRequest({ refreshToken }), res);
+
+    assert.equal(res.statusCode, 200);
+    assert.notEqual(res.body.refreshToken, refreshToken);
+    const [swap] = writesTo(writes, 'sessions', 'PATCH');
+    assert.match(swap.query, /refresh_token=eq\./);
+    assert.equal(swap.body.refresh_token, res.body.refreshToken);
+  });
+
+  it('revokes the whole family when an exchanged refresh token is presented again', async () => {
+    const exchanged = await tokenPair();
+    const current = await tokenPair();
+    const { writes } = fakeSupabase({
+      ...tables,
+      sessions: [sessionRow(current.refreshToken)],
+      users: [user],
+    });
+    const res = fakeResponse();
+
+    await handleRefresh(fakeRequest({ refreshToken: exchanged.refreshToken }), res);
+
+    assert.equal(res.statusCode, 401);
+    assert.deepEqual(
+      writesTo(writes, 'sessions', 'DELETE').map((w) => w.query),
+      [`family_id=eq.${FAMILY}`]
+    );
+    const [audit] = writesTo(writes, 'audit_logs', 'POST');
+    assert.equal(audit.body.action, 'refresh_token_reuse');
+    assert.equal(writesTo(writes, 'sessions', 'PATCH').length, 0);
+  });
+
+  it('revokes the family when a concurrent exchange of the same token won', async () => {
+    const { refreshToken } = await tokenPair();
+    const { writes } = fakeSupabase(
+      { ...tables, sessions: [sessionRow(refreshToken)], users: [user] },
+      { writesMatch: false }
+    );
+    const res = fakeResponse();
+
+    await handleRefresh(fakeRequest({ refreshToken }), res);
+
+    assert.equal(res.statusCode, 401);
+    assert.equal(writesTo(writes, 'sessions', 'DELETE').length, 1);
+  });
+
+  it('does not refresh a session that went idle', async () => {
+    const { refreshToken } = await tokenPair();
+    const idle = { ...sessionRow(refreshToken), last_activity_at: secondsAgo(2 * 60 * 60) };
+    const { writes } = fakeSupabase({ ...tables, sessions: [idle], users: [user] });
+    const res = fakeResponse();
+
+    await handleRefresh(fakeRequest({ refreshToken }), res);
+
+    assert.equal(res.statusCode, 401);
+    assert.deepEqual(
+      writesTo(writes, 'sessions', 'DELETE').map((w) => w.query),
+      ['id=eq.session-1']
+    );
+  });
+});
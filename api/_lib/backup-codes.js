@@ -0,0 +1,161 @@
+/**
+ * MFA backup codes (server only).
+ * Codes come from the CSPRNG and are shown to the user once; `backup_codes` keeps only a
+ * salted scrypt hash of each. Generating a new set deletes the old one. When a sign-in
+ * leaves fewer than LOW_BACKUP_CODES unused codes, the user is emailed (./mailer.js).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, SMTP_* (optional, for the reminder email)
+ */
+
+import { randomBytes, randomInt, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { clientInfo } from './http.js';
+import { sendMail } from './mailer.js';
+import { requireMfaSession, requireSession } from './sessions.js';
+import {
+  countRows,
+  deleteRows,
+  eq,
+  insertAuditLog,
+  insertRows,
+  selectOne,
+  selectRows,
+  updateRows,
+} from './supabase.js';
+
+const scryptAsync = promisify(scrypt);
+
+const BACKUP_CODE_COUNT = 10;
+const BACKUP_CODE_DIGITS = 12;
+const LOW_BACKUP_CODES = 2;
+
+/** Digits only, so `1234-5678-9012` and `123456789012` are the same code. */
+function normalizeBackupCode(code) {
+  return (code || '').toString().replace(/[\s-]/g, '');
+}
+
+function generateBackupCode() {
+  let digits = '';
+  for (let i = 0; i < BACKUP_CODE_DIGITS; i++) {
+    digits += randomInt(10).toString();
+  }
+  return `${digits.slice(0, 4)}-${digits.slice(4, 8)}-${digits.slice(8)}`;
+}
+
+async function hashBackupCode(code, salt) {
+  return scryptAsync(normalizeBackupCode(code), salt, 32);
+}
+
+/** Unused codes left for `userId`. */
+export async function countRemainingBackupCodes(userId) {
+  return countRows('backup_codes', `user_id=${eq(userId)}&used=eq.false`);
+}
+
+/**
+ * Replace the user's backup codes with a fresh set.
+ * @returns {Promise<string[]>} The new codes in plaintext (never stored)
+ */
+export async function replaceBackupCodes(userId) {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, generateBackupCode);
+  const rows = await Promise.all(
+    codes.map(async (code) => {
+      const salt = randomBytes(16).toString('hex');
+      const hash = await hashBackupCode(code, salt);
+      return { user_id: userId, code_hash: hash.toString('hex'), salt, used: false };
+    })
+  );
+
+  await deleteRows('backup_codes', `user_id=${eq(userId)}`);
+  await insertRows('backup_codes', rows);
+  return codes;
+}
+
+async function sendLowBackupCodesEmail(userId, remaining) {
+  const user = await selectOne('users', `select=email&id=${eq(userId)}`);
+  if (!user?.email) return;
+
+  const left = remaining === 1 ? '1 backup code' : `${remaining} backup codes`;
+  await sendMail({
+    to: user.email,
+    subject: 'Your SecureAuth backup codes are running low',
+    html: `<p>A backup code was just used to sign in to your SecureAuth account. You have ${left} left.</p>
+<p>Generate a new set on the MFA Setup page before you run out. If this was not you, change your password now.</p>`,
+  });
+}
+
+/**
+ * Check a backup code and mark it used (single use).
+ * Every unused code is hashed and compared, so the time taken does not reveal which one matched.
+ */
+export async function verifyBackupCode(userId, code) {
+  const normalized = normalizeBackupCode(code);
+  if (!new RegExp(`^\\d{${BACKUP_CODE_DIGITS}}$`).test(normalized)) return false;
+
+  const rows = await selectRows(
+    'backup_codes',
+    `select=id,code_hash,salt&user_id=${eq(userId)}&used=eq.false`
+  );
+
+  let match = null;
+  for (const row of rows) {
+    const candidate = await hashBackupCode(normalized, row.salt);
+    const stored = Buffer.from(row.code_hash || '', 'hex');
+    if (stored.length === candidate.length && timingSafeEqual(stored, candidate) && !match) {
+      match = row;
+    }
+  }
+  if (!match) return false;
+
+  const updated = await updateRows(
+    'backup_codes',
+    `id=${eq(match.id)}&used=eq.false`,
+    { used: true },
+    { returnRows: true }
+  );
+  if (!updated?.length) return false;
+
+  const remaining = await countRemainingBackupCodes(userId);
+  if (remaining < LOW_BACKUP_CODES) {
+    await sendLowBackupCodesEmail(userId, remaining);
+  }
+  return true;
+}
+
+/**
+ * POST /api/auth/mfa/backup-codes — `Authorization: Bearer <accessToken>`
+ * Generates a new set of backup codes (the old set stops working) and returns it once.
+ * Only for sessions that have completed the second factor.
+ */
+export async function handleRegenerateBackupCodes(req, res) {
+  try {
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const codes = await replaceBackupCodes(auth.userId);
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'Backup codes regenerated', ipAddress, userAgent, {
+      count: codes.length,
+    });
+
+    return res.status(200).json({ success: true, codes, remaining: codes.length });
+  } catch (e) {
+    console.error('backup codes regenerate:', e);
+    return res.status(500).json({ success: false, message: 'Could not generate backup codes' });
+  }
+}
+
+/**
+ * POST /api/auth/mfa/backup-codes-remaining — bearer token
+ * How many unused backup codes the signed-in user has left.
+ */
+export async function handleBackupCodesRemaining(req, res) {
+  try {
+    const auth = await requireSession(req, res, { allowExpiredPassword: true });
+    if (!auth) return;
+
+    const remaining = await countRemainingBackupCodes(auth.userId);
+    return res.status(200).json({ success: true, remaining });
+  } catch (e) {
+    console.error('backup codes remaining:', e);
+    return res.status(500).json({ success: false, message: 'Could not count backup codes' });
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * Email address changes (server only).
+ * A change is a pending row in `email_change_requests` until the new address is
+ * confirmed: the new address gets a confirmation link, the current one a notice with a
+ * revert link. Confirming moves the account, and its failed sign-in history
+ * (`failed_login_attempts` is keyed by email), to the new address. The revert link works
+ * for a week: before confirmation it cancels the change, after it restores the old
+ * address and signs out everywhere, in case the change was made by someone else.
+ * Admin changes take the same path. Link tokens are stored as SHA-256 hashes.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, APP_URL (link origin, required), SMTP_*
+ *      (./mailer.js)
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { appOrigin, clientInfo } from './http.js';
+import { escapeHtml, sendMail } from './mailer.js';
+import { verifyPassword } from './password-hashing.js';
+import { requireAdmin, requireMfaSession } from './sessions.js';
+import {
+  deleteRows,
+  eq,
+  insertAuditLog,
+  insertRows,
+  isSupabaseConfigured,
+  selectOne,
+  updateRows,
+} from './supabase.js';
+
+const CONFIRM_TTL_MS = 24 * 60 * 60 * 1000;
+const REVERT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_EMAIL_LENGTH = 254;
+
+function hashToken(token) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function isValidEmail(email) {
+  return email.length <= MAX_EMAIL_LENGTH && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+/** 503 body when service credentials are missing, or null when configured. */
+function missingConfig() {
+  if (isSupabaseConfigured()) return null;
+  return {
+    error: 'Auth service not configured',
+    message: 'Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+  };
+}
+
+/**
+ * Record a pending change of `user` (`id`, `email`) to `newEmail` and send both emails.
+ * Replaces an earlier pending change. `actorId` is the admin making it, if any.
+ */
+async function startEmailChange(req, res, user, newEmail, actorId) {
+  const email = newEmail.trim().toLowerCase();
+  if (!isValidEmail(email)) {
+    return res.status(400).json({ success: false, message: 'Enter a valid email address' });
+  }
+  if (email === user.email) {
+    return res.status(400).json({ success: false, message: 'This is already the email address' });
+  }
+  const origin = appOrigin();
+  if (!origin) {
+    return res.status(503).json({
+      error: 'Email links not configured',
+      message: 'Set APP_URL so confirmation links can be sent',
+    });
+  }
+
+  const taken = await selectOne('users', `select=id&email=${eq(email)}`);
+  if (taken) {
+    return res.status(409).json({ success: false, message: 'That email address is already in use' });
+  }
+
+  await updateRows('email_change_requests', `user_id=${eq(user.id)}&status=eq.pending`, {
+    status: 'cancelled',
+  });
+
+  const confirmToken = randomBytes(32).toString('base64url');
+  const revertToken = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + CONFIRM_TTL_MS).toISOString();
+  const [request] = await insertRows(
+    'email_change_requests',
+    {
+      user_id: user.id,
+      old_email: user.email,
+      new_email: email,
+      confirm_token_hash: hashToken(confirmToken),
+      revert_token_hash: hashToken(revertToken),
+      requested_by: actorId || user.id,
+      expires_at: expiresAt,
+    },
+    { returnRows: true }
+  );
+
+  const confirmLink = `${origin}/confirm-email?token=${encodeURIComponent(confirmToken)}`;
+  const sent = await sendMail({
+    to: email,
+    subject: 'Confirm your new SecureAuth email address',
+    html: `<p>${actorId ? 'An administrator' : 'You'} asked to change the email address of a SecureAuth
+account to ${escapeHtml(email)}.</p>
+<p><a href="${escapeHtml(confirmLink)}">Confirm this address</a>. The link works once and expires on
+${new Date(expiresAt).toUTCString()}. Until then, sign in with the current address.</p>
+<p>If you did not expect this, ignore this email.</p>`,
+  });
+  if (!sent) {
+    await updateRows('email_change_requests', `id=${eq(request.id)}`, { status: 'cancelled' });
+    return res.status(502).json({ success: false, message: 'Could not send the confirmation email' });
+  }
+
+  const revertLink = `${origin}/revert-email?token=${encodeURIComponent(revertToken)}`;
+  await sendMail({
+    to: user.email,
+    subject: 'Your SecureAuth email address is being changed',
+    html: `<p>${actorId ? 'An administrator' : 'Someone signed in to your account'} asked to change
+its email address to ${escapeHtml(email)}. The change takes effect once that address is confirmed.</p>
+<p>If this was not you, <a href="${escapeHtml(revertLink)}">keep ${escapeHtml(user.email)}</a>. The link works for
+7 days, also after the change, and signs out every session. Then change your password.</p>`,
+  });
+
+  const { ipAddress, userAgent } = clientInfo(req);
+  await insertAuditLog(user.id, 'Email change requested', ipAddress, userAgent, {
+    from: user.email,
+    to: email,
+    ...(actorId ? { requestedBy: actorId } : {}),
+  });
+
+  return res.status(200).json({ success: true, pendingEmail: email, expiresAt });
+}
+
+/**
+ * POST /api/auth/email/change — { newEmail, currentPassword } + bearer token (MFA-verified
+ * session)
+ * Starts a change of the signed-in user's address after re-checking the password.
+ */
+export async function handleRequestEmailChange(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const newEmail = (req.body?.newEmail || '').toString();
+    const currentPassword = (req.body?.currentPassword || '').toString();
+    if (!newEmail.trim() || !currentPassword) {
+      return res.status(400).json({ error: 'newEmail and currentPassword are required' });
+    }
+
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const user = await selectOne('users', `select=id,email,password_hash&id=${eq(auth.userId)}`);
+    if (!user?.password_hash || !(await verifyPassword(currentPassword, user.password_hash))) {
+      return res.status(401).json({ success: false, message: 'Current password is incorrect' });
+    }
+
+    return await startEmailChange(req, res, user, newEmail, null);
+  } catch (e) {
+    console.error('email change:', e);
+    return res.status(500).json({ success: false, message: 'Could not start the email change' });
+  }
+}
+
+/**
+ * POST /api/admin/users/email — { userId, newEmail } + bearer token (Admin)
+ * Starts a change of another user's address. The user confirms it like their own.
+ */
+export async function handleAdminEmailChange(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const userId = (req.body?.userId || '').toString().trim();
+    const newEmail = (req.body?.newEmail || '').toString();
+    if (!userId || !newEmail.trim()) {
+      return res.status(400).json({ error: 'userId and newEmail are required' });
+    }
+
+    const auth = await requireAdmin(req, res);
+    if (!auth) return;
+
+    const user = await selectOne('users', `select=id,email&id=${eq(userId)}`);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    return await startEmailChange(req, res, user, newEmail, auth.userId);
+  } catch (e) {
+    console.error('admin email change:', e);
+    return res.status(500).json({ success: false, message: 'Could not start the email change' });
+  }
+}
+
+/**
+ * POST /api/auth/email/confirm — { token }
+ * Applies a pending change with the token from the link sent to the new address.
+ */
+export async function handleConfirmEmailChange(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const token = (req.body?.token || '').toString().trim();
+    if (!token) {
+      return res.status(400).json({ error: 'token is required' });
+    }
+
+    const invalid = () =>
+      res.status(400).json({
+        success: false,
+        message: 'This confirmation link is invalid, expired or has already been used',
+      });
+
+    const request = await selectOne(
+      'email_change_requests',
+      `select=id,user_id,old_email,new_email,requested_by,expires_at` +
+        `&confirm_token_hash=${eq(hashToken(token))}&status=eq.pending`
+    );
+    if (!request || new Date(request.expires_at).getTime() < Date.now()) return invalid();
+
+    const taken = await selectOne('users', `select=id&email=${eq(request.new_email)}`);
+    if (taken) {
+      await updateRows('email_change_requests', `id=${eq(request.id)}`, { status: 'cancelled' });
+      return res.status(409).json({ success: false, message: 'That email address is already in use' });
+    }
+
+    // Conditional on the request being pending, so the link works only once
+    const claimed = await updateRows(
+      'email_change_requests',
+      `id=${eq(request.id)}&status=eq.pending`,
+      { status: 'confirmed', confirmed_at: new Date().toISOString() },
+      { returnRows: true }
+    );
+    if (!claimed?.length) return invalid();
+
+    const moved = await updateRows(
+      'users',
+      `id=${eq(request.user_id)}&email=${eq(request.old_email)}`,
+      { email: request.new_email, updated_at: new Date().toISOString() },
+      { returnRows: true }
+    );
+    if (!moved?.length) {
+      await updateRows('email_change_requests', `id=${eq(request.id)}`, { status: 'cancelled' });
+      return invalid();
+    }
+    await updateRows('failed_login_attempts', `email=${eq(request.old_email)}`, {
+      email: request.new_email,
+    });
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(request.user_id, 'Email changed', ipAddress, userAgent, {
+      from: request.old_email,
+      to: request.new_email,
+      ...(request.requested_by !== request.user_id ? { requestedBy: request.requested_by } : {}),
+    });
+
+    return res.status(200).json({ success: true, email: request.new_email });
+  } catch (e) {
+    console.error('email confirm:', e);
+    return res.status(500).json({ success: false, message: 'Could not confirm the email address' });
+  }
+}
+
+/**
+ * POST /api/auth/email/revert — { token }
+ * With the token from the notice sent to the old address: cancels a pending change, or
+ * restores the old address of a confirmed one and revokes every session and trusted device.
+ */
+export async function handleRevertEmailChange(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const token = (req.body?.token || '').toString().trim();
+    if (!token) {
+      return res.status(400).json({ error: 'token is required' });
+    }
+
+    const invalid = () =>
+      res.status(400).json({
+        success: false,
+        message: 'This link is invalid, expired or has already been used',
+      });
+
+    const request = await selectOne(
+      'email_change_requests',
+      `select=id,user_id,old_email,new_email,status,created_at` +
+        `&revert_token_hash=${eq(hashToken(token))}&status=in.(pending,confirmed)`
+    );
+    if (!request || new Date(request.created_at).getTime() + REVERT_TTL_MS < Date.now()) {
+      return invalid();
+    }
+
+    if (request.status === 'confirmed') {
+      const taken = await selectOne('users', `select=id&email=${eq(request.old_email)}`);
+      if (taken) {
+        return res.status(409).json({
+          success: false,
+          message: `${request.old_email} now belongs to another account. Contact an administrator.`,
+        });
+      }
+    }
+
+    // Conditional on the status read above, so the link works only once
+    const consume = async () => {
+      const consumed = await updateRows(
+        'email_change_requests',
+        `id=${eq(request.id)}&status=eq.${request.status}`,
+        { status: 'reverted', reverted_at: new Date().toISOString() },
+        { returnRows: true }
+      );
+      return Boolean(consumed?.length);
+    };
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    if (request.status === 'pending') {
+      if (!(await consume())) return invalid();
+      await insertAuditLog(request.user_id, 'Email change cancelled', ipAddress, userAgent, {
+        from: request.old_email,
+        to: request.new_email,
+      });
+      return res.status(200).json({ success: true, reverted: false });
+    }
+
+    // The link is consumed only after the old address is back, so a refused restore leaves
+    // it usable; the restore is conditional on the new address, so it happens only once
+    const restored = await updateRows(
+      'users',
+      `id=${eq(request.user_id)}&email=${eq(request.new_email)}`,
+      { email: request.old_email, updated_at: new Date().toISOString() },
+      { returnRows: true }
+    );
+    if (!restored?.length) {
+      return res.status(409).json({
+        success: false,
+        message: 'The email address has changed again since. Contact an administrator.',
+      });
+    }
+    await consume();
+    await updateRows('failed_login_attempts', `email=${eq(request.new_email)}`, {
+      email: request.old_email,
+    });
+    await deleteRows('sessions', `user_id=${eq(request.user_id)}`);
+    await deleteRows('trusted_devices', `user_id=${eq(request.user_id)}`);
+
+    await insertAuditLog(request.user_id, 'Email change reverted', ipAddress, userAgent, {
+      from: request.new_email,
+      to: request.old_email,
+    });
+
+    return res.status(200).json({ success: true, reverted: true });
+  } catch (e) {
+    console.error('email revert:', e);
+    return res.status(500).json({ success: false, message: 'Could not revert the email change' });
+  }
+}
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { handleRevertEmailChange } from './email-change.js';
+import { fakeRequest, fakeResponse, fakeSupabase, useFakeService, writesTo } from './test-helpers.js';
+
+const TOKEN = 'revert-token';
+const OLD_EMAIL = 'old@example.com';
+const NEW_EMAIL = 'new@example.com';
+
+function changeRequest(status) {
+  return {
+    id: 'change-1',
+    user_id: 'user-1',
+    old_email: OLD_EMAIL,
+    new_email: NEW_EMAIL,
+    status,
+    created_at: new Date(Date.now() - 60 * 1000).toISOString(),
+    revert_token_hash: createHash('sha256').update(TOKEN).digest('hex'),
+  };
+}
+
+const user = { id: 'user-1', email: NEW_EMAIL };
+
+describe('email-change: handleRevertEmailChange', () => {
+  let restore;
+  beforeEach(() => {
+    restore = useFakeService();
+  });
+  afterEach(() => restore());
+
+  it('cancels a change that was not confirmed yet', async () => {
+    const { writes } = fakeSupabase({
+      email_change_requests: [changeRequest('pending')],
+      users: [{ ...user, email: OLD_EMAIL }],
+    });
+    const res = fakeResponse();
+
+    await handleRevertEmailChange(fakeRequest({ token: TOKEN }), res);
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.body.reverted, false);
+    const [consumed] = writesTo(writes, 'email_change_requests', 'PATCH');
+    assert.equal(consumed.body.status, 'reverted');
+    assert.equal(writesTo(writes, 'users', 'PATCH').length, 0);
+  });
+
+  it('restores the old address of a confirmed change and signs the account out', async () => {
+    const { writes } = fakeSupabase({
+      email_change_requests: [changeRequest('confirmed')],
+      users: [user],
+    });
+    const res = fakeResponse();
+
+    await handleRevertEmailChange(fakeRequest({ token: TOKEN }), res);
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.body.reverted, true);
+    const [restored] = writesTo(writes, 'users', 'PATCH');
+    assert.equal(restored.body.email, OLD_EMAIL);
+    assert.match(restored.query, new RegExp(`email=eq\\.${NEW_EMAIL}`));
+    assert.deepEqual(
+      writes.filter((w) => w.method === 'DELETE').map((w) => [w.table, w.query]),
+      [
+        ['sessions', 'user_id=eq.user-1'],
+        ['trusted_devices', 'user_id=eq.user-1'],
+      ]
+    );
+  });
+
+  it('refuses a token that matches no change', async () => {
+    const { writes } = fakeSupabase({
+      email_change_requests: [changeRequest('confirmed')],
+      users: [user],
+    });
+    const res = fakeResponse();
+
+    await handleRevertEmailChange(fakeRequest({ token: 'other-token' }), res);
+
+    assert.equal(res.statusCode, 400);
+    assert.equal(writes.length, 0);
+  });
+
+  it('refuses a link that was already used', async () => {
+    const { writes } = fakeSupabase(
+      { email_change_requests: [changeRequest('pending')], users: [user] },
+      { writesMatch: false }
+    );
+    const res = fakeResponse();
+
+    await handleRevertEmailChange(fakeRequest({ token: TOKEN }), res);
+
+    assert.equal(res.statusCode, 400);
+    assert.equal(writesTo(writes, 'audit_logs', 'POST').length, 0);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Request helpers shared by server/index.js (Express) and the Vercel handlers in api/.
+ */
+
+/**
+ * Client IP and user agent. X-Forwarded-For is never read here, since its first hop is
+ * whatever the client sent. On Vercel the platform sets `x-real-ip` to the connecting
+ * address. Under Express, `req.ip` is the socket address, or the address reported by the
+ * proxies trusted with TRUST_PROXY (see trustProxySetting).
+ */
+export function clientInfo(req) {
+  const platformIp = process.env.VERCEL ? (req.headers['x-real-ip'] || '').toString().trim() : '';
+  const ipAddress = platformIp || req.ip || req.socket?.remoteAddress || null;
+  const userAgent = (req.headers['user-agent'] || '').toString() || null;
+  return {
+    ipAddress: ipAddress ? ipAddress.slice(0, 45) : null,
+    userAgent,
+  };
+}
+
+/**
+ * Express `trust proxy` value from TRUST_PROXY: a hop count (`1`), `true`, or addresses
+ * and subnets such as `loopback` or `10.0.0.0/8`. Unset means no proxy is trusted and the
+ * socket address is used.
+ */
+export function trustProxySetting(value = process.env.TRUST_PROXY) {
+  const setting = (value || '').trim();
+  if (!setting || setting === 'false') return false;
+  if (setting === 'true') return true;
+  return /^\d+$/.test(setting) ? Number(setting) : setting;
+}
+
+/** Token from `Authorization: Bearer <token>`, or null. */
+export function bearerToken(req) {
+  const header = (req.headers.authorization || '').toString();
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Origin for links in emails (APP_URL), or null when it is not set. Never taken from the
+ * request: its Origin header is chosen by the sender and would leak the link's token.
+ */
+export function appOrigin() {
+  return (process.env.APP_URL || '').trim().replace(/\/$/, '') || null;
+}
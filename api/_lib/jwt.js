@@ -0,0 +1,103 @@
+/**
+ * JWT signing and verification (server only).
+ * Tokens are signed with the asymmetric keys in ./keys.js and carry a `kid` header,
+ * so other services can verify them against /.well-known/jwks.json.
+ */
+
+import { randomUUID } from 'crypto';
+import { SignJWT, jwtVerify } from 'jose';
+import { getSigningKey, getVerificationKey, SUPPORTED_ALGS } from './keys.js';
+
+// Token expiration times (in seconds)
+export const ACCESS_TOKEN_EXPIRY = 30 * 60; // 30 minutes
+export const REFRESH_TOKEN_EXPIRY = 7 * 24 * 60 * 60; // 7 days
+
+async function signToken(claims, signingKey, expiresIn) {
+  const now = Math.floor(Date.now() / 1000);
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: signingKey.alg, kid: signingKey.kid, typ: 'JWT' })
+    .setIssuedAt(now)
+    .setExpirationTime(now + expiresIn)
+    .setJti(randomUUID())
+    .sign(signingKey.key);
+}
+
+/**
+ * Generate JWT access and refresh token pair.
+ * `familyId` ties every refresh token issued for one sign-in together (see handleRefresh).
+ * @returns {Promise<{ accessToken: string, refreshToken: string, expiresAt: Date }>}
+ */
+export async function generateTokenPair(userId, email, role, familyId) {
+  const signingKey = await getSigningKey();
+  const accessToken = await signToken(
+    { userId, email, role, type: 'access' },
+    signingKey,
+    ACCESS_TOKEN_EXPIRY
+  );
+  const refreshToken = await signToken(
+    { userId, email, role, type: 'refresh', familyId },
+    signingKey,
+    REFRESH_TOKEN_EXPIRY
+  );
+
+  return {
+    accessToken,
+    refreshToken,
+    expiresAt: new Date(Date.now() + ACCESS_TOKEN_EXPIRY * 1000),
+  };
+}
+
+/**
+ * Long-lived token for a trusted device (see ./trusted-devices.js).
+ * It only names the device row; the row decides whether it is still trusted.
+ */
+export async function generateDeviceToken(userId, deviceId, expiresIn) {
+  const signingKey = await getSigningKey();
+  return signToken({ userId, deviceId, type: 'device' }, signingKey, expiresIn);
+}
+
+/**
+ * One-time account unlock link token (see ./account-lock.js).
+ * `lockedUntil` names the lock it clears, so it stops working once that lock is gone.
+ */
+export async function generateUnlockToken(userId, lockedUntil, expiresIn) {
+  const signingKey = await getSigningKey();
+  return signToken({ userId, lockedUntil, type: 'unlock' }, signingKey, expiresIn);
+}
+
+async function resolveKey(protectedHeader) {
+  const key = await getVerificationKey(protectedHeader.kid, protectedHeader.alg);
+  if (!key) {
+    throw new Error(`Unknown signing key: ${protectedHeader.kid}`);
+  }
+  return key;
+}
+
+async function verifyToken(token, type) {
+  try {
+    const { payload } = await jwtVerify(token, resolveKey, { algorithms: SUPPORTED_ALGS });
+    return payload.type === type ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Decoded access token payload, or null if invalid / expired. */
+export function verifyAccessToken(token) {
+  return verifyToken(token, 'access');
+}
+
+/** Decoded refresh token payload, or null if invalid / expired. */
+export function verifyRefreshToken(token) {
+  return verifyToken(token, 'refresh');
+}
+
+/** Decoded trusted-device token payload, or null if invalid / expired. */
+export function verifyDeviceToken(token) {
+  return verifyToken(token, 'device');
+}
+
+/** Decoded account unlock token payload, or null if invalid / expired. */
+export function verifyUnlockToken(token) {
+  return verifyToken(token, 'unlock');
+}
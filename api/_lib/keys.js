@@ -0,0 +1,121 @@
+/**
+ * JWT signing key store (server only). Keys live in `jwt_signing_keys`, which has no anon policy.
+ * The newest `active` key signs; every `active` and `retiring` key is published in the JWKS
+ * so tokens signed before a rotation keep verifying until the grace window ends.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, JWT_SIGNING_ALG (RS256 | EdDSA, default RS256)
+ */
+
+import { calculateJwkThumbprint, exportJWK, generateKeyPair, importJWK } from 'jose';
+import { deleteRows, eq, insertRows, selectRows, updateRows } from './supabase.js';
+
+export const SUPPORTED_ALGS = ['RS256', 'EdDSA'];
+
+// How long a loaded key set is reused before re-reading the table
+const CACHE_TTL_MS = 60 * 1000;
+
+let cache = null;
+
+export function signingAlg() {
+  const alg = (process.env.JWT_SIGNING_ALG || 'RS256').trim();
+  if (!SUPPORTED_ALGS.includes(alg)) {
+    throw new Error(`Unsupported JWT_SIGNING_ALG "${alg}" (use ${SUPPORTED_ALGS.join(' or ')})`);
+  }
+  return alg;
+}
+
+async function loadKeys({ force = false } = {}) {
+  if (!force && cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.rows;
+  }
+  const now = Date.now();
+  const rows = (
+    await selectRows(
+      'jwt_signing_keys',
+      'select=kid,alg,public_jwk,private_jwk,status,retire_after,created_at&order=created_at.desc'
+    )
+  ).filter((r) => r.status === 'active' || new Date(r.retire_after).getTime() > now);
+  cache = { rows, loadedAt: Date.now() };
+  return rows;
+}
+
+async function createKey(alg) {
+  const { publicKey, privateKey } = await generateKeyPair(alg, { extractable: true });
+  const publicJwk = await exportJWK(publicKey);
+  const privateJwk = await exportJWK(privateKey);
+  const kid = await calculateJwkThumbprint(publicJwk);
+
+  await insertRows('jwt_signing_keys', {
+    kid,
+    alg,
+    public_jwk: publicJwk,
+    private_jwk: privateJwk,
+    status: 'active',
+  });
+  cache = null;
+  return kid;
+}
+
+/**
+ * Newest active key as `{ kid, alg, key }`. The first key is created on demand
+ * so a fresh database works without running the rotation command.
+ */
+export async function getSigningKey() {
+  let rows = await loadKeys();
+  let row = rows.find((r) => r.status === 'active');
+  if (!row) {
+    await createKey(signingAlg());
+    rows = await loadKeys({ force: true });
+    row = rows.find((r) => r.status === 'active');
+  }
+  if (!row) {
+    throw new Error('No active JWT signing key');
+  }
+  return { kid: row.kid, alg: row.alg, key: await importJWK(row.private_jwk, row.alg) };
+}
+
+/** Public key for a token's `kid`, or null when the key is unknown or retired. */
+export async function getVerificationKey(kid, alg) {
+  if (!kid) return null;
+  let row = (await loadKeys()).find((r) => r.kid === kid);
+  if (!row) {
+    // Another instance may have rotated since this one cached the key set
+    row = (await loadKeys({ force: true })).find((r) => r.kid === kid);
+  }
+  if (!row || row.alg !== alg) return null;
+  return importJWK(row.public_jwk, row.alg);
+}
+
+/** `{ keys: [...] }` for `/.well-known/jwks.json` (public halves only). */
+export async function getPublicJwks() {
+  const rows = await loadKeys();
+  return {
+    keys: rows.map((r) => ({ ...r.public_jwk, kid: r.kid, alg: r.alg, use: 'sig' })),
+  };
+}
+
+/**
+ * Create a new active key, move the previous active keys to `retiring` for `graceSeconds`,
+ * and delete keys whose grace window has already passed.
+ * @returns {Promise<{ kid: string, retiring: string[], removed: number }>}
+ */
+export async function rotateSigningKeys({ alg = signingAlg(), graceSeconds }) {
+  const previous = await selectRows('jwt_signing_keys', 'select=kid&status=eq.active');
+  const kid = await createKey(alg);
+
+  const retireAfter = new Date(Date.now() + graceSeconds * 1000).toISOString();
+  for (const { kid: oldKid } of previous) {
+    await updateRows('jwt_signing_keys', `kid=${eq(oldKid)}`, {
+      status: 'retiring',
+      retire_after: retireAfter,
+    });
+  }
+
+  const expiredFilter = `status=eq.retiring&retire_after=lt.${encodeURIComponent(new Date().toISOString())}`;
+  const expired = await selectRows('jwt_signing_keys', `select=kid&${expiredFilter}`);
+  if (expired.length > 0) {
+    await deleteRows('jwt_signing_keys', expiredFilter);
+  }
+
+  cache = null;
+  return { kid, retiring: previous.map((r) => r.kid), removed: expired.length };
+}
@@ -0,0 +1,67 @@
+/**
+ * Server-sent notification emails over SMTP (server only).
+ * Uses the same SMTP_* settings as /api/send-email. Notifications are best-effort:
+ * without SMTP configured, or when sending fails, `sendMail` logs and returns false.
+ * Env: SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, optional SMTP_SECURE, SMTP_FROM_EMAIL,
+ *      SMTP_FROM_NAME
+ */
+
+import nodemailer from 'nodemailer';
+
+let transporter = null;
+
+function getTransporter() {
+  if (transporter) return transporter;
+
+  if (!process.env.SMTP_HOST || !process.env.SMTP_PORT || !process.env.SMTP_USER || !process.env.SMTP_PASS) {
+    return null;
+  }
+
+  const smtpPort = parseInt(process.env.SMTP_PORT.trim(), 10);
+  transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST.trim(),
+    port: smtpPort,
+    secure: (process.env.SMTP_SECURE || 'false').trim() === 'true' || smtpPort === 465,
+    auth: { user: process.env.SMTP_USER.trim(), pass: process.env.SMTP_PASS.trim() },
+    tls: { rejectUnauthorized: false },
+    connectionTimeout: 10000,
+    greetingTimeout: 10000,
+    socketTimeout: 10000,
+  });
+  return transporter;
+}
+
+const HTML_ESCAPES = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+/** Escape a value (an email address, a name) for interpolation into an email's HTML. */
+export function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]);
+}
+
+/**
+ * Send one email. Never throws.
+ * @returns {Promise<boolean>} Whether the SMTP server accepted it
+ */
+export async function sendMail({ to, subject, html, text }) {
+  const smtp = getTransporter();
+  if (!smtp) {
+    console.warn(`mailer: SMTP is not configured, not sending "${subject}"`);
+    return false;
+  }
+
+  const fromEmail = process.env.SMTP_FROM_EMAIL || process.env.SMTP_USER;
+  const fromName = process.env.SMTP_FROM_NAME || 'SecureAuth';
+  try {
+    await smtp.sendMail({
+      from: `${fromName} <${fromEmail}>`,
+      to,
+      subject,
+      html,
+      text: text || html.replace(/<[^>]*>/g, ''),
+    });
+    return true;
+  } catch (e) {
+    console.error('mailer:', e.message);
+    return false;
+  }
+}
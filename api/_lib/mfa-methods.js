@@ -0,0 +1,235 @@
+/**
+ * Enrolled second factors (`user_mfa_methods`, server side).
+ * A user can hold one row per method (totp, email, sms, webauthn); the primary one is
+ * offered first at sign-in. `users.mfa_enabled` mirrors "has at least one method".
+ * The browser may only read the non-secret columns; changing the primary method and
+ * removing methods go through the handlers below. Removing the `totp` method returns an
+ * assigned hardware token (./oath-tokens.js) to the inventory.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { clientInfo } from './http.js';
+import { requireMfaSession } from './sessions.js';
+import {
+  deleteRows,
+  eq,
+  insertAuditLog,
+  insertRows,
+  selectOne,
+  selectRows,
+  updateRows,
+} from './supabase.js';
+
+const METHODS = ['totp', 'email', 'sms', 'webauthn'];
+
+/** @returns {Promise<object | null>} The user's row for `method`, or null if not enrolled */
+export async function getMfaMethod(userId, method) {
+  return selectOne(
+    'user_mfa_methods',
+    `select=id,method,secret,phone_number,is_primary&user_id=${eq(userId)}&method=${eq(method)}`
+  );
+}
+
+/**
+ * Whether `method` may be used as the second factor. Users without any method enrolled
+ * still verify with an email code sent to their account address.
+ */
+export async function canUseMfaMethod(userId, method) {
+  const rows = await selectRows('user_mfa_methods', `select=method&user_id=${eq(userId)}`);
+  if (!rows.length) return method === 'email';
+  return rows.some((r) => r.method === method);
+}
+
+/**
+ * Add `method` to the user's second factors. The first method a user enrols becomes
+ * primary. When it is already enrolled its details (`secret`, `phone_number`) are only
+ * overwritten with `replace`; otherwise nothing changes and the result is false.
+ * @returns {Promise<boolean>}
+ */
+export async function enrollMfaMethod(userId, method, fields = {}, { replace = false } = {}) {
+  const existing = await getMfaMethod(userId, method);
+  if (existing) {
+    if (Object.keys(fields).length) {
+      if (!replace) return false;
+      await updateRows('user_mfa_methods', `id=${eq(existing.id)}`, fields);
+    }
+  } else {
+    const primary = await selectOne(
+      'user_mfa_methods',
+      `select=id&user_id=${eq(userId)}&is_primary=eq.true`
+    );
+    await insertRows('user_mfa_methods', {
+      user_id: userId,
+      method,
+      ...fields,
+      is_primary: !primary,
+    });
+  }
+
+  await updateRows('users', `id=${eq(userId)}`, {
+    mfa_enabled: true,
+    updated_at: new Date().toISOString(),
+  });
+  return true;
+}
+
+/** Record a successful verification with `method`. */
+export async function markMfaMethodUsed(userId, method) {
+  await updateRows('user_mfa_methods', `user_id=${eq(userId)}&method=${eq(method)}`, {
+    last_used_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Return the hardware tokens assigned to `userId` to the inventory, except `exceptTokenId`.
+ * @returns {Promise<object[]>} The released `oath_tokens` rows (`id`, `serial`)
+ */
+export async function releaseOathTokens(userId, { exceptTokenId = null } = {}) {
+  const except = exceptTokenId ? `&id=neq.${encodeURIComponent(exceptTokenId)}` : '';
+  const released = await updateRows(
+    'oath_tokens',
+    `assigned_user_id=${eq(userId)}${except}`,
+    { assigned_user_id: null, assigned_at: null },
+    { returnRows: true }
+  );
+  return (released || []).map(({ id, serial }) => ({ id, serial }));
+}
+
+/**
+ * After methods were removed: make the oldest remaining one primary if the primary one
+ * went, or turn MFA off when none is left. A removed TOTP factor releases its hardware
+ * token. Devices trusted with a removed factor must prove the second factor again, so
+ * every trusted device is forgotten.
+ * @returns {Promise<number>} How many methods remain
+ */
+async function afterMethodsRemoved(userId, removed) {
+  const remaining = await selectRows(
+    'user_mfa_methods',
+    `select=id,is_primary&user_id=${eq(userId)}&order=created_at.asc`
+  );
+  if (!remaining.length) {
+    await updateRows('users', `id=${eq(userId)}`, {
+      mfa_enabled: false,
+      updated_at: new Date().toISOString(),
+    });
+  } else if (removed.some((row) => row.is_primary)) {
+    await updateRows('user_mfa_methods', `id=${eq(remaining[0].id)}`, { is_primary: true });
+  }
+  if (removed.some((row) => row.method === 'webauthn')) {
+    await deleteRows('webauthn_credentials', `user_id=${eq(userId)}`);
+  }
+  if (removed.some((row) => row.method === 'totp')) {
+    await releaseOathTokens(userId);
+  }
+  await deleteRows('trusted_devices', `user_id=${eq(userId)}`);
+  return remaining.length;
+}
+
+/**
+ * Remove one of the user's second factors, with the follow-ups of afterMethodsRemoved.
+ * @returns {Promise<number | null>} How many methods remain, or null if it was not enrolled
+ */
+export async function removeMfaMethod(userId, method) {
+  const removed = await deleteRows(
+    'user_mfa_methods',
+    `user_id=${eq(userId)}&method=${eq(method)}`,
+    { returnRows: true }
+  );
+  if (!removed?.length) return null;
+  return afterMethodsRemoved(userId, removed);
+}
+
+function parseMethod(req, res) {
+  const method = (req.body?.method || '').toString();
+  if (!METHODS.includes(method)) {
+    res.status(400).json({ error: `method must be one of ${METHODS.join(', ')}` });
+    return null;
+  }
+  return method;
+}
+
+/**
+ * POST /api/auth/mfa/methods/primary — { method } + bearer token (MFA-verified session)
+ * Makes an enrolled method the one offered first at sign-in.
+ */
+export async function handleSetPrimaryMfaMethod(req, res) {
+  try {
+    const method = parseMethod(req, res);
+    if (!method) return;
+
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    if (!(await getMfaMethod(auth.userId, method))) {
+      return res.status(404).json({ success: false, message: 'This method is not set up' });
+    }
+    // Cleared first: at most one primary row per user (unique index)
+    await updateRows('user_mfa_methods', `user_id=${eq(auth.userId)}&is_primary=eq.true`, {
+      is_primary: false,
+    });
+    await updateRows('user_mfa_methods', `user_id=${eq(auth.userId)}&method=${eq(method)}`, {
+      is_primary: true,
+    });
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'Primary MFA method changed', ipAddress, userAgent, {
+      method,
+    });
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('mfa primary method:', e);
+    return res.status(500).json({ success: false, message: 'Could not change the primary method' });
+  }
+}
+
+/**
+ * POST /api/auth/mfa/methods/remove — { method } + bearer token (MFA-verified session)
+ * Removes one second factor (for `webauthn`, every security key too). Another method
+ * becomes primary if needed; removing the last one turns MFA off.
+ */
+export async function handleRemoveMfaMethod(req, res) {
+  try {
+    const method = parseMethod(req, res);
+    if (!method) return;
+
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const remaining = await removeMfaMethod(auth.userId, method);
+    if (remaining === null) {
+      return res.status(404).json({ success: false, message: 'This method is not set up' });
+    }
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'MFA method removed', ipAddress, userAgent, { method });
+    return res.status(200).json({ success: true, remaining });
+  } catch (e) {
+    console.error('mfa remove method:', e);
+    return res.status(500).json({ success: false, message: 'Could not remove the method' });
+  }
+}
+
+/**
+ * POST /api/auth/mfa/disable — bearer token (MFA-verified session)
+ * Removes every second factor and security key; sign-in falls back to email codes.
+ */
+export async function handleDisableMfa(req, res) {
+  try {
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const removed = await deleteRows('user_mfa_methods', `user_id=${eq(auth.userId)}`, {
+      returnRows: true,
+    });
+    await afterMethodsRemoved(auth.userId, [...(removed || []), { method: 'webauthn' }]);
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'MFA disabled', ipAddress, userAgent, {
+      methods: (removed || []).map((row) => row.method),
+    });
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('mfa disable:', e);
+    return res.status(500).json({ success: false, message: 'Could not turn off two-factor authentication' });
+  }
+}
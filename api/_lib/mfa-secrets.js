@@ -0,0 +1,111 @@
+/**
+ * Envelope encryption for TOTP seeds at rest (server only).
+ * Each seed is encrypted with its own random data key (AES-256-GCM, bound to the user id),
+ * and the data key is wrapped with the master key from MFA_MASTER_KEY. The stored value is
+ * `env1.<master key id>.<wrapped data key>.<iv>.<ciphertext>` (base64url parts).
+ * To rotate the master key, move the old one to MFA_MASTER_KEY_PREVIOUS, set a new
+ * MFA_MASTER_KEY and run `npm run reencrypt-mfa-secrets`.
+ * Env: MFA_MASTER_KEY (32 bytes, base64 or hex), optional MFA_MASTER_KEY_PREVIOUS
+ *      (comma-separated old keys, still accepted for decryption)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const PREFIX = 'env1';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+function parseKey(value) {
+  const text = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(text) ? Buffer.from(text, 'hex') : Buffer.from(text, 'base64');
+  if (key.length !== 32) {
+    throw new Error('MFA master keys must be 32 bytes (base64 or hex)');
+  }
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 16), key };
+}
+
+function currentKey() {
+  return process.env.MFA_MASTER_KEY ? parseKey(process.env.MFA_MASTER_KEY) : null;
+}
+
+function masterKeys() {
+  const previous = (process.env.MFA_MASTER_KEY_PREVIOUS || '')
+    .split(',')
+    .filter((k) => k.trim())
+    .map(parseKey);
+  return [currentKey(), ...previous].filter(Boolean);
+}
+
+export function isMfaSecretKeyConfigured() {
+  return Boolean(process.env.MFA_MASTER_KEY);
+}
+
+function seal(key, plaintext, aad) {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  if (aad) cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  return { iv, ciphertext };
+}
+
+function open(key, iv, sealed, aad) {
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  if (aad) decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_BYTES)), decipher.final()]);
+}
+
+/** Encrypt `secret` for `userId` under the current master key. */
+export function encryptMfaSecret(secret, userId) {
+  const master = currentKey();
+  if (!master) {
+    throw new Error('MFA_MASTER_KEY is not configured');
+  }
+
+  const dataKey = randomBytes(32);
+  const wrapped = seal(master.key, dataKey, master.id);
+  const encrypted = seal(dataKey, Buffer.from(secret, 'utf8'), userId);
+  return [
+    PREFIX,
+    master.id,
+    Buffer.concat([wrapped.iv, wrapped.ciphertext]).toString('base64url'),
+    encrypted.iv.toString('base64url'),
+    encrypted.ciphertext.toString('base64url'),
+  ].join('.');
+}
+
+/** Whether `stored` is an encrypted value (as opposed to a legacy plaintext seed). */
+export function isEncryptedMfaSecret(stored) {
+  return typeof stored === 'string' && stored.startsWith(`${PREFIX}.`);
+}
+
+/** Whether `stored` is encrypted under the current master key. */
+export function usesCurrentMasterKey(stored) {
+  const master = currentKey();
+  return Boolean(master) && isEncryptedMfaSecret(stored) && stored.split('.')[1] === master.id;
+}
+
+/**
+ * Decrypt a stored seed of `userId` with the current or a previous master key.
+ * @returns {string | null} The seed, or null if it is not encrypted, belongs to another
+ *   user or was encrypted under an unknown master key
+ */
+export function decryptMfaSecret(stored, userId) {
+  if (!isEncryptedMfaSecret(stored)) return null;
+  const [, keyId, wrappedPart, ivPart, ciphertextPart] = stored.split('.');
+  const master = masterKeys().find((k) => k.id === keyId);
+  if (!master || !ciphertextPart) return null;
+
+  try {
+    const wrapped = Buffer.from(wrappedPart, 'base64url');
+    const dataKey = open(master.key, wrapped.subarray(0, IV_BYTES), wrapped.subarray(IV_BYTES), master.id);
+    return open(
+      dataKey,
+      Buffer.from(ivPart, 'base64url'),
+      Buffer.from(ciphertextPart, 'base64url'),
+      userId
+    ).toString('utf8');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { randomBytes } from 'node:crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import {
+  decryptMfaSecret,
+  encryptMfaSecret,
+  isEncryptedMfaSecret,
+  usesCurrentMasterKey,
+} from './mfa-secrets.js';
+
+const SEED = 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP';
+const newKey = () => randomBytes(32).toString('base64');
+
+describe('mfa-secrets', () => {
+  let originalEnv;
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    process.env.MFA_MASTER_KEY = newKey();
+    delete process.env.MFA_MASTER_KEY_PREVIOUS;
+  });
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('decrypts a seed for the user it was encrypted for', () => {
+    const stored = encryptMfaSecret(SEED, 'user-1');
+
+    assert.ok(isEncryptedMfaSecret(stored));
+    assert.ok(!stored.includes(SEED));
+    assert.equal(decryptMfaSecret(stored, 'user-1'), SEED);
+  });
+
+  it('does not decrypt a seed copied to another user', () => {
+    const stored = encryptMfaSecret(SEED, 'user-1');
+
+    assert.equal(decryptMfaSecret(stored, 'user-2'), null);
+  });
+
+  it('does not decrypt a seed under an unknown master key', () => {
+    const stored = encryptMfaSecret(SEED, 'user-1');
+    process.env.MFA_MASTER_KEY = newKey();
+
+    assert.equal(decryptMfaSecret(stored, 'user-1'), null);
+  });
+
+  it('still decrypts with a previous master key after rotation', () => {
+    const stored = encryptMfaSecret(SEED, 'user-1');
+    process.env.MFA_MASTER_KEY_PREVIOUS = process.env.MFA_MASTER_KEY;
+    process.env.MFA_MASTER_KEY = newKey();
+
+    assert.equal(usesCurrentMasterKey(stored), false);
+    assert.equal(decryptMfaSecret(stored, 'user-1'), SEED);
+  });
+
+  it('does not decrypt a tampered ciphertext', () => {
+    const parts = encryptMfaSecret(SEED, 'user-1').split('.');
+    const ciphertext = Buffer.from(parts[4], 'base64url');
+    ciphertext[0] ^= 1;
+    parts[4] = ciphertext.toString('base64url');
+
+    assert.equal(decryptMfaSecret(parts.join('.'), 'user-1'), null);
+  });
+
+  it('treats a plaintext seed as not decryptable', () => {
+    assert.equal(isEncryptedMfaSecret(SEED), false);
+    assert.equal(decryptMfaSecret(SEED, 'user-1'), null);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Second-factor verification at sign-in (server only).
+ * The browser sends the code with its session's access token; a correct code marks the
+ * session MFA-verified and can enrol the browser as a trusted device (./trusted-devices.js).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, MFA_MASTER_KEY (TOTP), OTP_HMAC_KEY (email codes),
+ *      SKYSMS_API_KEY (SMS codes), optional SKYSMS_API_BASE_URL, TRUSTED_DEVICE_DAYS,
+ *      WEBAUTHN_* (see ./webauthn.js)
+ */
+
+import { lockAccount } from './account-lock.js';
+import { countRemainingBackupCodes, verifyBackupCode } from './backup-codes.js';
+import { clientInfo } from './http.js';
+import { canUseMfaMethod, getMfaMethod, markMfaMethodUsed } from './mfa-methods.js';
+import { checkMfaRateLimit, getRateLimitErrorMessage, recordMfaAttempt } from './rate-limit.js';
+import { verifyUserOtpCode } from './otp-codes.js';
+import { requireSession } from './sessions.js';
+import { verifyTotpCode } from './totp.js';
+import { trustDevice } from './trusted-devices.js';
+import { verifyPasskeyAssertion } from './webauthn.js';
+import { eq, insertAuditLog, updateRows } from './supabase.js';
+
+const MFA_TYPES = ['totp', 'email', 'sms', 'webauthn', 'backup'];
+// Typed codes count against the MFA rate limit; a cancelled security key prompt does not
+const RATE_LIMITED_TYPES = ['totp', 'email', 'sms', 'backup'];
+
+function skysmsBaseUrl() {
+  return (process.env.SKYSMS_API_BASE_URL || 'https://skysms.skyio.site').replace(/\/$/, '');
+}
+
+async function verifySmsCode(userId, code) {
+  const apiKey = process.env.SKYSMS_API_KEY;
+  if (!apiKey) {
+    console.error('mfa verify: SKYSMS_API_KEY is not configured');
+    return false;
+  }
+
+  const row = await getMfaMethod(userId, 'sms');
+  if (!row?.phone_number) return false;
+
+  const verifyUrl = `${skysmsBaseUrl()}/api/v1/otp/verify?otp=${encodeURIComponent(
+    code
+  )}&phone_number=${encodeURIComponent(row.phone_number)}`;
+  const skyRes = await fetch(verifyUrl, {
+    method: 'GET',
+    headers: { 'X-API-Key': apiKey },
+  });
+  const skyData = await skyRes.json().catch(() => ({}));
+  return skyRes.ok && skyData?.success !== false && skyData?.valid !== false;
+}
+
+function verifySecondFactor(req, userId, type, code) {
+  switch (type) {
+    case 'webauthn':
+      return verifyPasskeyAssertion(req, userId, req.body.response);
+    case 'totp':
+      return verifyTotpCode(req, userId, code, (req.body?.nextCode || '').toString().trim());
+    case 'sms':
+      return verifySmsCode(userId, code);
+    case 'backup':
+      return verifyBackupCode(userId, code);
+    default:
+      return verifyUserOtpCode(userId, code, 'email');
+  }
+}
+
+function secondsUntil(date) {
+  return date ? Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000)) : undefined;
+}
+
+function mfaLockedOut(res, limits) {
+  return res.status(429).json({
+    success: false,
+    message:
+      limits.scope === 'session'
+        ? 'Too many failed attempts for this sign-in. Sign in again to continue.'
+        : getRateLimitErrorMessage(limits.resetAt),
+    remainingAttempts: 0,
+    resetAt: limits.resetAt.toISOString(),
+  });
+}
+
+/**
+ * POST /api/auth/mfa/verify — { type, code, nextCode?, trustDevice? } + `Authorization: Bearer <accessToken>`
+ * Checks the second factor for the signed-in session. For `webauthn` the assertion from
+ * /api/auth/webauthn/authenticate-options is sent as `response` instead of `code`.
+ * For an HOTP token `nextCode` (its following code) resynchronises the counter (./totp.js).
+ * With `trustDevice` the response also carries a device token that lets later sign-ins
+ * from this browser skip MFA. Failed codes count against the MFA rate limit
+ * (./rate-limit.js); 401 and 429 responses report `remainingAttempts`.
+ */
+export async function handleMfaVerify(req, res) {
+  try {
+    const type = (req.body?.type || '').toString();
+    const code = (req.body?.code || '').toString().trim();
+    const hasProof = type === 'webauthn' ? Boolean(req.body?.response) : Boolean(code);
+    if (!MFA_TYPES.includes(type) || !hasProof) {
+      return res.status(400).json({ error: `type (${MFA_TYPES.join(', ')}) and code are required` });
+    }
+
+    const auth = await requireSession(req, res, { allowExpiredPassword: true });
+    if (!auth) return;
+
+    const client = clientInfo(req);
+    const familyId = auth.session.family_id ?? auth.session.id;
+    const rateLimited = RATE_LIMITED_TYPES.includes(type);
+    if (rateLimited) {
+      const current = await checkMfaRateLimit(auth.userId, familyId);
+      if (current.isBlocked) {
+        return mfaLockedOut(res, current);
+      }
+      if (current.retryAt) {
+        return res.status(429).json({
+          success: false,
+          message: 'Too many attempts. Wait a moment before trying again.',
+          remainingAttempts: current.remainingAttempts,
+          retryAfterSeconds: secondsUntil(current.retryAt),
+        });
+      }
+    }
+
+    // Backup codes work for everyone; other methods only once enrolled
+    const allowed = type === 'backup' || (await canUseMfaMethod(auth.userId, type));
+    const isValid = allowed && (await verifySecondFactor(req, auth.userId, type, code));
+    const limits = rateLimited
+      ? await recordMfaAttempt(auth.userId, familyId, type, isValid, client)
+      : null;
+    if (limits?.isBlocked) {
+      // Running out of attempts across sign-ins locks the whole account
+      if (limits.scope === 'user') {
+        await lockAccount(req, auth.userId, 'failed_mfa', limits.resetAt);
+      }
+      return mfaLockedOut(res, limits);
+    }
+    if (!isValid) {
+      return res.status(401).json({
+        success: false,
+        message: 'Invalid or expired code',
+        remainingAttempts: limits?.remainingAttempts,
+        retryAfterSeconds: secondsUntil(limits?.retryAt),
+      });
+    }
+
+    await updateRows('sessions', `id=${eq(auth.session.id)}`, {
+      mfa_verified_at: new Date().toISOString(),
+    });
+    if (type !== 'backup') {
+      await markMfaMethodUsed(auth.userId, type);
+    }
+    await insertAuditLog(auth.userId, `MFA verified (${type})`, client.ipAddress, client.userAgent);
+
+    const trusted = req.body?.trustDevice === true ? await trustDevice(req, auth.userId) : null;
+    const backupCodesRemaining =
+      type === 'backup' ? await countRemainingBackupCodes(auth.userId) : undefined;
+
+    return res.status(200).json({
+      success: true,
+      backupCodesRemaining,
+      ...(trusted && {
+        deviceToken: trusted.deviceToken,
+        trustedUntil: trusted.expiresAt,
+      }),
+    });
+  } catch (e) {
+    console.error('auth mfa verify:', e);
+    return res.status(500).json({ success: false, message: 'Verification failed' });
+  }
+}
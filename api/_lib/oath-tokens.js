@@ -0,0 +1,373 @@
+/**
+ * Hardware OATH token inventory (server only, admin routes).
+ * Admins import TOTP key fobs from the vendor's seed file into `oath_tokens`, then assign a
+ * token to a user. Assignment copies the seed into the user's `totp` row of
+ * `user_mfa_methods`, so the fob is checked like an authenticator app (./totp.js).
+ * Seeds are stored encrypted (./mfa-secrets.js): in the inventory bound to the token's
+ * serial, and once assigned bound to the user like any other TOTP seed. A user holds at
+ * most one token: assigning another one, removing the TOTP method or an admin unassigning
+ * the token returns it to the inventory.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, MFA_MASTER_KEY
+ */
+
+import { authenticator } from 'otplib';
+import { clientInfo } from './http.js';
+import {
+  enrollMfaMethod,
+  getMfaMethod,
+  releaseOathTokens,
+  removeMfaMethod,
+} from './mfa-methods.js';
+import { decryptMfaSecret, encryptMfaSecret, isMfaSecretKeyConfigured } from './mfa-secrets.js';
+import { requireAdmin } from './sessions.js';
+import {
+  eq,
+  insertAuditLog,
+  insertRows,
+  isSupabaseConfigured,
+  selectOne,
+  selectRows,
+  updateRows,
+} from './supabase.js';
+
+const MAX_IMPORT_ROWS = 1000;
+const MIN_SEED_BYTES = 16; // RFC 4226: shared secrets of at least 128 bits
+const ALGORITHMS = ['SHA1', 'SHA256', 'SHA512'];
+const DIGITS = [6, 8];
+const TOKEN_COLUMNS = 'id,serial,algorithm,digits,period,assigned_user_id,assigned_at,created_at';
+
+/** Encryption context of an unassigned token's seed. */
+export function inventoryAad(serial) {
+  return `oath-token:${serial}`;
+}
+
+function toToken(row) {
+  return {
+    id: row.id,
+    serial: row.serial,
+    algorithm: row.algorithm,
+    digits: row.digits,
+    period: row.period,
+    assignedUserId: row.assigned_user_id,
+    assignedEmail: row.users?.email ?? null,
+    assignedAt: row.assigned_at,
+    importedAt: row.created_at,
+  };
+}
+
+/** 503 body when the database or MFA_MASTER_KEY is missing, or null when configured. */
+function missingConfig() {
+  if (!isSupabaseConfigured()) {
+    return {
+      error: 'Auth service not configured',
+      message: 'Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+    };
+  }
+  if (!isMfaSecretKeyConfigured()) {
+    return { error: 'MFA service not configured', message: 'Set MFA_MASTER_KEY' };
+  }
+  return null;
+}
+
+/**
+ * Parse the seed file: one token per line as `serial,seed,algorithm,digits[,period]`.
+ * The seed is base32; algorithm (default SHA1), digits (default 6) and period (seconds,
+ * default 30) may be left empty. A header line starting with `serial` and lines starting
+ * with `#` are skipped.
+ * @returns {{ tokens: object[], errors: { line: number, message: string }[] }}
+ */
+function parseTokenCsv(csv) {
+  const tokens = [];
+  const errors = [];
+  const serials = new Set();
+
+  csv.split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    const cells = text.split(',').map((c) => c.trim().replace(/^"(.*)"$/, '$1').trim());
+    if (!cells.join('') || cells[0].startsWith('#') || cells[0].toLowerCase() === 'serial') {
+      return;
+    }
+
+    const [serial, rawSeed = '', rawAlgorithm = '', rawDigits = '', rawPeriod = ''] = cells;
+    const seed = rawSeed.replace(/\s+/g, '').toUpperCase().replace(/=+$/, '');
+    const algorithm = (rawAlgorithm || 'SHA1').toUpperCase().replace('-', '');
+    const digits = Number(rawDigits || 6);
+    const period = Number(rawPeriod || 30);
+
+    let message = null;
+    if (!/^[A-Za-z0-9._-]{1,64}$/.test(serial)) {
+      message = 'serial must be 1-64 letters, digits, dots, dashes or underscores';
+    } else if (serials.has(serial)) {
+      message = `serial ${serial} appears more than once`;
+    } else if (!/^[A-Z2-7]+$/.test(seed)) {
+      message = 'seed must be base32';
+    } else if (authenticator.decode(seed).length / 2 < MIN_SEED_BYTES) {
+      message = `seed must be at least ${MIN_SEED_BYTES * 8} bits`;
+    } else if (!ALGORITHMS.includes(algorithm)) {
+      message = `algorithm must be ${ALGORITHMS.join(', ')}`;
+    } else if (!DIGITS.includes(digits)) {
+      message = 'digits must be 6 or 8';
+    } else if (!Number.isInteger(period) || period < 15 || period > 300) {
+      message = 'period must be 15-300 seconds';
+    }
+
+    if (message) {
+      errors.push({ line, message });
+    } else {
+      serials.add(serial);
+      tokens.push({ line, serial, seed, algorithm, digits, period });
+    }
+  });
+
+  return { tokens, errors };
+}
+
+/**
+ * POST /api/admin/oath-tokens/list — bearer token (Admin)
+ * The token inventory, newest first, with the email of the user each token is assigned to.
+ * Seeds are never returned.
+ */
+export async function handleListOathTokens(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const auth = await requireAdmin(req, res);
+    if (!auth) return;
+
+    const rows = await selectRows(
+      'oath_tokens',
+      `select=${TOKEN_COLUMNS},users(email)&order=created_at.desc`
+    );
+    return res.status(200).json({ success: true, tokens: rows.map(toToken) });
+  } catch (e) {
+    console.error('oath tokens list:', e);
+    return res.status(500).json({ success: false, message: 'Could not load hardware tokens' });
+  }
+}
+
+/**
+ * POST /api/admin/oath-tokens/import — { csv } + bearer token (Admin)
+ * Adds the tokens in the seed file (see parseTokenCsv) to the inventory. The file is
+ * imported as a whole or not at all: any invalid line, or a serial that is already in
+ * the inventory, fails the import with a 400 listing the problems.
+ */
+export async function handleImportOathTokens(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const csv = (req.body?.csv || '').toString();
+    if (!csv.trim()) {
+      return res.status(400).json({ error: 'csv is required' });
+    }
+
+    const auth = await requireAdmin(req, res);
+    if (!auth) return;
+
+    const { tokens, errors } = parseTokenCsv(csv);
+    if (tokens.length + errors.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({
+        success: false,
+        message: `Import at most ${MAX_IMPORT_ROWS} tokens at a time`,
+      });
+    }
+    if (!tokens.length && !errors.length) {
+      return res.status(400).json({ success: false, message: 'The file contains no tokens' });
+    }
+
+    if (tokens.length) {
+      const existing = await selectRows(
+        'oath_tokens',
+        `select=serial&serial=in.(${tokens.map((t) => encodeURIComponent(t.serial)).join(',')})`
+      );
+      const taken = new Set(existing.map((r) => r.serial));
+      for (const token of tokens) {
+        if (taken.has(token.serial)) {
+          errors.push({ line: token.line, message: `serial ${token.serial} is already imported` });
+        }
+      }
+    }
+    if (errors.length) {
+      errors.sort((a, b) => a.line - b.line);
+      return res.status(400).json({
+        success: false,
+        message: `${errors.length} line${errors.length === 1 ? '' : 's'} could not be imported`,
+        errors,
+      });
+    }
+
+    await insertRows(
+      'oath_tokens',
+      tokens.map((t) => ({
+        serial: t.serial,
+        secret: encryptMfaSecret(t.seed, inventoryAad(t.serial)),
+        algorithm: t.algorithm,
+        digits: t.digits,
+        period: t.period,
+      }))
+    );
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'OATH tokens imported', ipAddress, userAgent, {
+      count: tokens.length,
+      serials: tokens.map((t) => t.serial),
+    });
+
+    return res.status(200).json({ success: true, imported: tokens.length });
+  } catch (e) {
+    console.error('oath tokens import:', e);
+    return res.status(500).json({ success: false, message: 'Could not import hardware tokens' });
+  }
+}
+
+/**
+ * POST /api/admin/oath-tokens/assign — { tokenId, userId } + bearer token (Admin)
+ * Makes an unassigned token the user's TOTP factor, replacing an authenticator app or
+ * another token they may have; a replaced token goes back to the inventory. The first
+ * code from the fob learns its clock drift as usual.
+ */
+export async function handleAssignOathToken(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const tokenId = (req.body?.tokenId || '').toString().trim();
+    const userId = (req.body?.userId || '').toString().trim();
+    if (!tokenId || !userId) {
+      return res.status(400).json({ error: 'tokenId and userId are required' });
+    }
+
+    const auth = await requireAdmin(req, res);
+    if (!auth) return;
+
+    const user = await selectOne('users', `select=id,email&id=${eq(userId)}`);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+    const token = await selectOne(
+      'oath_tokens',
+      `select=id,serial,secret,algorithm,digits,period,assigned_user_id&id=${eq(tokenId)}`
+    );
+    if (!token) {
+      return res.status(404).json({ success: false, message: 'Token not found' });
+    }
+    const seed = decryptMfaSecret(token.secret, inventoryAad(token.serial));
+    if (!seed) {
+      return res.status(500).json({ success: false, message: 'The token seed cannot be decrypted' });
+    }
+
+    // Conditional on the token being unassigned, so it cannot go to two users
+    const claimed = await updateRows(
+      'oath_tokens',
+      `id=${eq(token.id)}&assigned_user_id=is.null`,
+      { assigned_user_id: user.id, assigned_at: new Date().toISOString() },
+      { returnRows: true }
+    );
+    if (!claimed?.length) {
+      return res.status(409).json({ success: false, message: 'This token is already assigned' });
+    }
+
+    try {
+      await enrollMfaMethod(
+        user.id,
+        'totp',
+        {
+          secret: encryptMfaSecret(seed, user.id),
+          otp_type: 'totp',
+          otp_algorithm: token.algorithm,
+          otp_digits: token.digits,
+          otp_period: token.period,
+          totp_last_step: null,
+          totp_drift: null,
+          hotp_counter: 0,
+        },
+        { replace: true }
+      );
+    } catch (e) {
+      await updateRows('oath_tokens', `id=${eq(token.id)}`, {
+        assigned_user_id: null,
+        assigned_at: null,
+      });
+      throw e;
+    }
+    const replaced = await releaseOathTokens(user.id, { exceptTokenId: token.id });
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(user.id, 'OATH token assigned', ipAddress, userAgent, {
+      serial: token.serial,
+      assignedBy: auth.userId,
+      ...(replaced.length ? { replacedSerials: replaced.map((t) => t.serial) } : {}),
+    });
+
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('oath token assign:', e);
+    return res.status(500).json({ success: false, message: 'Could not assign the hardware token' });
+  }
+}
+
+/**
+ * POST /api/admin/oath-tokens/unassign — { tokenId } + bearer token (Admin)
+ * Returns an assigned token to the inventory. When the user's TOTP factor is still this
+ * token's seed it is removed too, so the fob stops working for them (another method
+ * becomes primary, or MFA falls back to email codes).
+ */
+export async function handleUnassignOathToken(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const tokenId = (req.body?.tokenId || '').toString().trim();
+    if (!tokenId) {
+      return res.status(400).json({ error: 'tokenId is required' });
+    }
+
+    const auth = await requireAdmin(req, res);
+    if (!auth) return;
+
+    const token = await selectOne(
+      'oath_tokens',
+      `select=id,serial,secret,assigned_user_id&id=${eq(tokenId)}`
+    );
+    if (!token) {
+      return res.status(404).json({ success: false, message: 'Token not found' });
+    }
+    const userId = token.assigned_user_id;
+    if (!userId) {
+      return res.status(409).json({ success: false, message: 'This token is not assigned' });
+    }
+
+    const totp = await getMfaMethod(userId, 'totp');
+    const seed = decryptMfaSecret(token.secret, inventoryAad(token.serial));
+    const methodRemoved = Boolean(totp && seed && decryptMfaSecret(totp.secret, userId) === seed);
+    if (methodRemoved) {
+      // Releases the token as well
+      await removeMfaMethod(userId, 'totp');
+    }
+    await updateRows('oath_tokens', `id=${eq(token.id)}&assigned_user_id=${eq(userId)}`, {
+      assigned_user_id: null,
+      assigned_at: null,
+    });
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(userId, 'OATH token unassigned', ipAddress, userAgent, {
+      serial: token.serial,
+      unassignedBy: auth.userId,
+      methodRemoved,
+    });
+
+    return res.status(200).json({ success: true, methodRemoved });
+  } catch (e) {
+    console.error('oath token unassign:', e);
+    return res.status(500).json({ success: false, message: 'Could not unassign the hardware token' });
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * One-time email codes (server only).
+ * Codes come from the CSPRNG and are stored as an HMAC-SHA256 under OTP_HMAC_KEY, so a
+ * copy of `otp_codes` / `email_verification_otps` holds no usable code. Each owner has at
+ * most one active code per purpose (issuing a new one deletes the old), and a code is
+ * burned after OTP_MAX_ATTEMPTS wrong guesses.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, OTP_HMAC_KEY, optional OTP_MAX_ATTEMPTS,
+ *      SMTP_* (./mailer.js)
+ */
+
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import { clientInfo } from './http.js';
+import { sendMail } from './mailer.js';
+import { enrollMfaMethod } from './mfa-methods.js';
+import { hashPassword } from './password-hashing.js';
+import { newAccountPasswordErrors } from './password-policy.js';
+import { requireMfaSession, requireSession } from './sessions.js';
+import {
+  deleteRows,
+  eq,
+  insertAuditLog,
+  insertRows,
+  isSupabaseConfigured,
+  selectOne,
+  updateRows,
+} from './supabase.js';
+
+const OTP_TTL_SECONDS = 120;
+
+function maxAttempts() {
+  const n = parseInt(process.env.OTP_MAX_ATTEMPTS || '', 10);
+  return Number.isFinite(n) && n > 0 ? n : 5;
+}
+
+/** 503 body when the database or OTP_HMAC_KEY is missing, or null when configured. */
+function missingConfig() {
+  if (!isSupabaseConfigured()) {
+    return {
+      error: 'Auth service not configured',
+      message: 'Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+    };
+  }
+  if (!process.env.OTP_HMAC_KEY) {
+    return { error: 'OTP service not configured', message: 'Set OTP_HMAC_KEY' };
+  }
+  return null;
+}
+
+function hashOtpCode(code) {
+  return createHmac('sha256', process.env.OTP_HMAC_KEY).update(code).digest('hex');
+}
+
+function generateOtpCode() {
+  return randomInt(0, 1000000).toString().padStart(6, '0');
+}
+
+function expiresAt() {
+  return new Date(Date.now() + OTP_TTL_SECONDS * 1000).toISOString();
+}
+
+/**
+ * Check `code` against the owner's active row in `table` (`ownerFilter` selects it).
+ * A miss counts against the row and burns it at the attempt limit; a hit marks it used.
+ * @returns {Promise<object | null>} The matched row (with `extraColumns`), or null
+ */
+async function consumeOtpCode(table, ownerFilter, code, extraColumns = '') {
+  const columns = ['id', 'code_hash', 'attempts', 'expires_at', extraColumns].filter(Boolean);
+  const row = await selectOne(table, `select=${columns.join(',')}&${ownerFilter}&used=eq.false`);
+  if (!row?.code_hash || new Date(row.expires_at).getTime() < Date.now()) return null;
+
+  const stored = Buffer.from(row.code_hash, 'hex');
+  const candidate = Buffer.from(hashOtpCode(code), 'hex');
+  const matches = stored.length === candidate.length && timingSafeEqual(stored, candidate);
+
+  // Conditional on the values read, so concurrent guesses cannot both use the same attempt
+  const attempts = row.attempts || 0;
+  const patch = matches
+    ? { used: true }
+    : { attempts: attempts + 1, used: attempts + 1 >= maxAttempts() };
+  const updated = await updateRows(
+    table,
+    `id=${eq(row.id)}&used=eq.false&attempts=eq.${attempts}`,
+    patch,
+    { returnRows: true }
+  );
+  return matches && updated?.length ? row : null;
+}
+
+/** Issue a new email code for `userId`; any unused one for the same `type` stops working. */
+async function issueUserOtpCode(userId, type) {
+  const code = generateOtpCode();
+  await deleteRows('otp_codes', `user_id=${eq(userId)}&type=${eq(type)}&used=eq.false`);
+  await insertRows('otp_codes', {
+    user_id: userId,
+    code_hash: hashOtpCode(code),
+    type,
+    expires_at: expiresAt(),
+    used: false,
+  });
+  return code;
+}
+
+/** Single-use email code for `userId` (sent by handleSendEmailOtp). */
+export async function verifyUserOtpCode(userId, code, type = 'email') {
+  if (!/^\d{6}$/.test(code) || missingConfig()) return false;
+  const row = await consumeOtpCode(
+    'otp_codes',
+    `user_id=${eq(userId)}&type=${eq(type)}`,
+    code
+  );
+  return Boolean(row);
+}
+
+function otpEmail(code, heading) {
+  return `<h2>${heading}</h2>
+<p>Your SecureAuth verification code is:</p>
+<p style="font-size: 32px; font-weight: bold; color: #800000;">${code}</p>
+<p>This code will expire in 2 minutes. Do not share this code with anyone.</p>
+<p>If you didn't request this code, please ignore this email.</p>`;
+}
+
+/**
+ * POST /api/auth/otp/email — `Authorization: Bearer <accessToken>`
+ * Emails a sign-in (or email MFA setup) code to the signed-in user's address.
+ */
+export async function handleSendEmailOtp(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const auth = await requireSession(req, res, { allowExpiredPassword: true });
+    if (!auth) return;
+
+    const user = await selectOne('users', `select=email&id=${eq(auth.userId)}`);
+    if (!user?.email) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const code = await issueUserOtpCode(auth.userId, 'email');
+    const sent = await sendMail({
+      to: user.email,
+      subject: 'Your SecureAuth Verification Code',
+      html: otpEmail(code, 'Your Verification Code'),
+    });
+    if (!sent) {
+      return res.status(502).json({ success: false, message: 'Could not send the email' });
+    }
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'Email OTP sent', ipAddress, userAgent);
+
+    return res.status(200).json({ success: true, expiresInSeconds: OTP_TTL_SECONDS });
+  } catch (e) {
+    console.error('otp email send:', e);
+    return res.status(500).json({ success: false, message: 'Could not send the code' });
+  }
+}
+
+/**
+ * POST /api/auth/mfa/email-setup — { code } + bearer token (MFA-verified session)
+ * Confirms the code from handleSendEmailOtp and enrols email codes as a second factor.
+ */
+export async function handleVerifyEmailMfaSetup(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const code = (req.body?.code || '').toString().trim();
+    if (!code) {
+      return res.status(400).json({ error: 'code is required' });
+    }
+
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    if (!(await verifyUserOtpCode(auth.userId, code, 'email'))) {
+      return res.status(401).json({ success: false, message: 'Invalid or expired code' });
+    }
+
+    await enrollMfaMethod(auth.userId, 'email');
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'Email OTP MFA enabled', ipAddress, userAgent);
+
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('email mfa setup:', e);
+    return res.status(500).json({ success: false, message: 'Verification failed' });
+  }
+}
+
+/**
+ * Create the account of a verified registration, with the password hash stored by
+ * handleRegistrationOtp, and record it.
+ * @returns {Promise<boolean>} False when the email was registered in the meantime
+ */
+export async function createRegisteredUser(req, email, passwordHash) {
+  const existing = await selectOne('users', `select=id&email=${eq(email)}`);
+  if (existing) return false;
+
+  const [user] = await insertRows(
+    'users',
+    { email, password_hash: passwordHash, role: 'StandardUser', mfa_enabled: false },
+    { returnRows: true }
+  );
+  const { ipAddress, userAgent } = clientInfo(req);
+  await insertAuditLog(user.id, 'User registration', ipAddress, userAgent);
+  return true;
+}
+
+/**
+ * POST /api/auth/register/otp — { email, password, phoneNumber? }
+ * Starts a registration. The password is checked against the policy and screened
+ * (./password-policy.js), then hashed here; the browser never hashes it. Without
+ * `phoneNumber` a code is emailed; with it the row only holds the pending registration
+ * and the code comes from SkySMS (/api/skysms/otp/send).
+ */
+export async function handleRegistrationOtp(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const email = (req.body?.email || '').toString().trim().toLowerCase();
+    const password = (req.body?.password || '').toString();
+    const phoneNumber = (req.body?.phoneNumber || '').toString().trim() || null;
+    if (!email || !password) {
+      return res.status(400).json({ error: 'email and password are required' });
+    }
+
+    const existing = await selectOne('users', `select=id&email=${eq(email)}`);
+    if (existing) {
+      return res.status(409).json({ success: false, message: 'User already exists' });
+    }
+
+    const errors = await newAccountPasswordErrors(email, password);
+    if (errors.length) {
+      return res.status(400).json({ success: false, message: errors.join('. '), errors });
+    }
+
+    const code = phoneNumber ? null : generateOtpCode();
+    await deleteRows('email_verification_otps', `email=${eq(email)}&used=eq.false`);
+    await insertRows('email_verification_otps', {
+      email,
+      code_hash: code ? hashOtpCode(code) : null,
+      password_hash: await hashPassword(password),
+      expires_at: expiresAt(),
+      used: false,
+      phone_number: phoneNumber,
+      otp_delivery: phoneNumber ? 'skysms' : 'email',
+    });
+
+    if (code) {
+      const sent = await sendMail({
+        to: email,
+        subject: 'Verify Your Email - SecureAuth Registration',
+        html: otpEmail(code, 'Verify Your Email'),
+      });
+      if (!sent) {
+        return res.status(502).json({ success: false, message: 'Could not send the email' });
+      }
+    }
+
+    return res.status(200).json({ success: true, expiresInSeconds: OTP_TTL_SECONDS });
+  } catch (e) {
+    console.error('registration otp:', e);
+    return res.status(500).json({ success: false, message: 'Could not start registration' });
+  }
+}
+
+/**
+ * POST /api/auth/register/verify — { email, code }
+ * Checks an emailed registration code and creates the account.
+ */
+export async function handleVerifyRegistrationOtp(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const email = (req.body?.email || '').toString().trim().toLowerCase();
+    const code = (req.body?.code || '').toString().trim();
+    if (!email || !code) {
+      return res.status(400).json({ error: 'email and code are required' });
+    }
+
+    const row = /^\d{6}$/.test(code)
+      ? await consumeOtpCode(
+          'email_verification_otps',
+          `email=${eq(email)}&otp_delivery=eq.email`,
+          code,
+          'password_hash'
+        )
+      : null;
+    if (!row) {
+      return res.status(400).json({ success: false, message: 'Invalid or expired verification code' });
+    }
+
+    if (!(await createRegisteredUser(req, email, row.password_hash))) {
+      return res.status(409).json({ success: false, message: 'User already exists' });
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('registration verify:', e);
+    return res.status(500).json({ success: false, message: 'Verification failed' });
+  }
+}
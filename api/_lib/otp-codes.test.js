@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { verifyUserOtpCode } from './otp-codes.js';
+import { fakeSupabase, useFakeService, writesTo } from './test-helpers.js';
+
+const HMAC_KEY = 'otp-hmac-key';
+const CODE = '123456';
+
+function codeRow({ attempts = 0, expiresInSeconds = 120 } = {}) {
+  return {
+    id: 'otp-1',
+    user_id: 'user-1',
+    type: 'email',
+    code_hash: createHmac('sha256', HMAC_KEY).update(CODE).digest('hex'),
+    attempts,
+    expires_at: new Date(Date.now() + expiresInSeconds * 1000).toISOString(),
+    used: false,
+  };
+}
+
+describe('otp-codes: verifyUserOtpCode', () => {
+  let restore;
+  beforeEach(() => {
+    restore = useFakeService({ OTP_HMAC_KEY: HMAC_KEY });
+  });
+  afterEach(() => restore());
+
+  it('accepts the code matching the stored hash and marks it used', async () => {
+    const { writes } = fakeSupabase({ otp_codes: [codeRow()] });
+
+    assert.equal(await verifyUserOtpCode('user-1', CODE), true);
+    const [patch] = writesTo(writes, 'otp_codes', 'PATCH');
+    assert.deepEqual(patch.body, { used: true });
+    assert.match(patch.query, /attempts=eq\.0/);
+  });
+
+  it('counts a wrong code against the row', async () => {
+    const { writes } = fakeSupabase({ otp_codes: [codeRow({ attempts: 2 })] });
+
+    assert.equal(await verifyUserOtpCode('user-1', '654321'), false);
+    const [patch] = writesTo(writes, 'otp_codes', 'PATCH');
+    assert.deepEqual(patch.body, { attempts: 3, used: false });
+  });
+
+  it('burns the code on the miss that uses up the last attempt', async () => {
+    const { writes } = fakeSupabase({ otp_codes: [codeRow({ attempts: 4 })] });
+
+    assert.equal(await verifyUserOtpCode('user-1', '654321'), false);
+    const [patch] = writesTo(writes, 'otp_codes', 'PATCH');
+    assert.deepEqual(patch.body, { attempts: 5, used: true });
+  });
+
+  it('rejects an expired code without touching it', async () => {
+    const { writes } = fakeSupabase({ otp_codes: [codeRow({ expiresInSeconds: -1 })] });
+
+    assert.equal(await verifyUserOtpCode('user-1', CODE), false);
+    assert.equal(writes.length, 0);
+  });
+
+  it('rejects the code when a concurrent guess used the attempt first', async () => {
+    fakeSupabase({ otp_codes: [codeRow()] }, { writesMatch: false });
+
+    assert.equal(await verifyUserOtpCode('user-1', CODE), false);
+  });
+
+  it('rejects anything but six digits before reading the row', async () => {
+    const { writes } = fakeSupabase({ otp_codes: [codeRow()] });
+
+    assert.equal(await verifyUserOtpCode('user-1', '12345a'), false);
+    assert.equal(writes.length, 0);
+  });
+});
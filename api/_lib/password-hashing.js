@@ -0,0 +1,205 @@
+/**
+ * Password hashing schemes (server only).
+ * Stored hashes name their scheme in the prefix: bcrypt (`$2b$<cost>$…`), scrypt
+ * (`$scrypt$ln=<log2 N>,r=<r>,p=<p>$<salt>$<hash>`) and argon2id (`$argon2id$v=19$m=…,t=…,p=…$…`).
+ * Any of them can be verified; new hashes use PASSWORD_HASH_SCHEME with the configured
+ * cost. A hash under another scheme or weaker parameters is replaced with a new one the
+ * next time its password is entered (see handleLogin in ./auth.js), so raising the cost
+ * or switching scheme needs no reset.
+ * Env: PASSWORD_HASH_SCHEME (bcrypt, scrypt or argon2id; default bcrypt), BCRYPT_COST
+ *      (default 10), SCRYPT_COST (log2 N, default 15), ARGON2_MEMORY_KIB (default 19456),
+ *      ARGON2_ITERATIONS (default 2)
+ */
+
+import { hash as argon2Hash, verify as argon2Verify } from '@node-rs/argon2';
+import bcrypt from 'bcryptjs';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { requireAdmin } from './sessions.js';
+import { isSupabaseConfigured, selectRows } from './supabase.js';
+
+const SCHEMES = ['bcrypt', 'scrypt', 'argon2id'];
+const ARGON2ID = 2; // Algorithm.Argon2id (a const enum in @node-rs/argon2, so not importable)
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELISM = 1;
+const SCRYPT_SALT_BYTES = 16;
+const SCRYPT_KEY_BYTES = 32;
+
+function integerSetting(name, fallback, min, max, unit = '') {
+  const value = Number(process.env[name] || fallback);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Unsupported ${name} "${process.env[name]}" (use ${min}-${max}${unit})`);
+  }
+  return value;
+}
+
+/** The scheme and parameters new hashes use. */
+export function passwordHashSettings() {
+  const scheme = (process.env.PASSWORD_HASH_SCHEME || 'bcrypt').trim().toLowerCase();
+  if (!SCHEMES.includes(scheme)) {
+    throw new Error(`Unsupported PASSWORD_HASH_SCHEME "${scheme}" (use ${SCHEMES.join(', ')})`);
+  }
+  if (scheme === 'bcrypt') {
+    return { scheme, params: { cost: integerSetting('BCRYPT_COST', 10, 10, 15) } };
+  }
+  if (scheme === 'scrypt') {
+    return {
+      scheme,
+      params: {
+        ln: integerSetting('SCRYPT_COST', 15, 14, 20),
+        r: SCRYPT_BLOCK_SIZE,
+        p: SCRYPT_PARALLELISM,
+      },
+    };
+  }
+  return {
+    scheme,
+    params: {
+      m: integerSetting('ARGON2_MEMORY_KIB', 19456, 8192, 1048576, ' KiB'),
+      t: integerSetting('ARGON2_ITERATIONS', 2, 1, 10),
+      p: 1,
+    },
+  };
+}
+
+function scryptKey(password, salt, { ln, r, p }) {
+  const N = 2 ** ln;
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      SCRYPT_KEY_BYTES,
+      { N, r, p, maxmem: 256 * N * r },
+      (err, key) => (err ? reject(err) : resolve(key))
+    );
+  });
+}
+
+/** Parameters as `a=1,b=2` into numbers. */
+function parseParams(text) {
+  return Object.fromEntries(
+    (text || '').split(',').map((pair) => {
+      const [key, value] = pair.split('=');
+      return [key, Number(value)];
+    })
+  );
+}
+
+/**
+ * The supported schemes: how to recognise a stored hash, read its parameters, create
+ * one and check a password against one.
+ */
+const HASHERS = {
+  bcrypt: {
+    matches: (stored) => /^\$2[abxy]\$\d{2}\$/.test(stored),
+    params: (stored) => ({ cost: Number(stored.slice(4, 6)) }),
+    hash: (password, { cost }) => bcrypt.hash(password, cost),
+    verify: (password, stored) => bcrypt.compare(password, stored),
+  },
+  scrypt: {
+    matches: (stored) => stored.startsWith('$scrypt$'),
+    params: (stored) => parseParams(stored.split('$')[2]),
+    async hash(password, params) {
+      const salt = randomBytes(SCRYPT_SALT_BYTES);
+      const key = await scryptKey(password, salt, params);
+      const settings = `ln=${params.ln},r=${params.r},p=${params.p}`;
+      return `$scrypt$${settings}$${salt.toString('base64')}$${key.toString('base64')}`;
+    },
+    async verify(password, stored) {
+      const [, , params, salt, expected] = stored.split('$');
+      const expectedKey = Buffer.from(expected || '', 'base64');
+      const key = await scryptKey(password, Buffer.from(salt || '', 'base64'), parseParams(params));
+      return key.length === expectedKey.length && timingSafeEqual(key, expectedKey);
+    },
+  },
+  argon2id: {
+    matches: (stored) => stored.startsWith('$argon2id$'),
+    params: (stored) => parseParams(stored.split('$')[3]),
+    hash: (password, { m, t, p }) =>
+      argon2Hash(password, { algorithm: ARGON2ID, memoryCost: m, timeCost: t, parallelism: p }),
+    verify: (password, stored) => argon2Verify(stored, password),
+  },
+};
+
+/** The scheme of a stored hash, or null when it is not one of ours. */
+export function passwordHashScheme(stored) {
+  if (typeof stored !== 'string') return null;
+  return SCHEMES.find((scheme) => HASHERS[scheme].matches(stored)) ?? null;
+}
+
+/** Hash a new password with the configured scheme. */
+export async function hashPassword(password) {
+  const { scheme, params } = passwordHashSettings();
+  return HASHERS[scheme].hash(password, params);
+}
+
+/** Whether `password` matches `stored`, whichever scheme produced it. */
+export async function verifyPassword(password, stored) {
+  const scheme = passwordHashScheme(stored);
+  if (!scheme) return false;
+  try {
+    return await HASHERS[scheme].verify(password, stored);
+  } catch (e) {
+    console.error(`password verify (${scheme}):`, e);
+    return false;
+  }
+}
+
+/** Whether `stored` uses another scheme, or weaker parameters, than new hashes would. */
+export function needsRehash(stored) {
+  const scheme = passwordHashScheme(stored);
+  const target = passwordHashSettings();
+  if (scheme !== target.scheme) return true;
+  const params = HASHERS[scheme].params(stored);
+  return Object.entries(target.params).some(([key, value]) => !(params[key] >= value));
+}
+
+/** `bcrypt (cost 10)`-style description of a scheme and its parameters. */
+function describe(scheme, params) {
+  if (scheme === 'bcrypt') return `bcrypt (cost ${params.cost})`;
+  if (scheme === 'scrypt') return `scrypt (N=2^${params.ln}, r=${params.r}, p=${params.p})`;
+  return `argon2id (${params.m} KiB, ${params.t} iterations, p=${params.p})`;
+}
+
+/**
+ * POST /api/admin/password-hashes — bearer token (Admin)
+ * How many accounts are on each scheme and parameter set, and whether it is up to date.
+ * Accounts on outdated ones move to the current one when they next sign in.
+ */
+export async function handlePasswordHashStats(req, res) {
+  try {
+    if (!isSupabaseConfigured()) {
+      return res.status(503).json({
+        error: 'Auth service not configured',
+        message: 'Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+      });
+    }
+
+    const auth = await requireAdmin(req, res);
+    if (!auth) return;
+
+    const target = passwordHashSettings();
+    const rows = await selectRows('users', 'select=password_hash&password_hash=not.is.null');
+    const counts = new Map();
+    for (const row of rows) {
+      const scheme = passwordHashScheme(row.password_hash);
+      const label = scheme ? describe(scheme, HASHERS[scheme].params(row.password_hash)) : 'Unknown';
+      const entry = counts.get(label) || {
+        scheme: scheme || 'unknown',
+        label,
+        count: 0,
+        current: Boolean(scheme) && !needsRehash(row.password_hash),
+      };
+      entry.count++;
+      counts.set(label, entry);
+    }
+
+    return res.status(200).json({
+      success: true,
+      current: describe(target.scheme, target.params),
+      schemes: [...counts.values()].sort((a, b) => b.count - a.count),
+    });
+  } catch (e) {
+    console.error('password hash stats:', e);
+    return res.status(500).json({ success: false, message: 'Could not load password hash statistics' });
+  }
+}
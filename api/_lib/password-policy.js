@@ -0,0 +1,476 @@
+/**
+ * Password policy, history and expiry (server only).
+ * The policy is the single row of `password_policy`: minimum length and character
+ * classes, how many recent passwords cannot be reused (`password_history`), and the
+ * maximum and minimum password age. The browser reads the same row for its checklist,
+ * but only these handlers set a password for an existing account, so reuse, age and the
+ * common-password screening (./password-screening.js) are enforced here. Registration
+ * runs the same policy and screening on the server (./otp-codes.js). A password past
+ * its maximum age is flagged at sign-in and refresh, and the session is limited to the
+ * password change until it is changed (./sessions.js). Reset links are issued here too:
+ * the emailed token is random and only its SHA-256 hash is stored.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, APP_URL (reset link origin), SMTP_*
+ *      (reset links and password change notices)
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { appOrigin, clientInfo } from './http.js';
+import { sendMail } from './mailer.js';
+import { hashPassword, verifyPassword } from './password-hashing.js';
+import { passwordScreeningErrors } from './password-screening.js';
+import { requireAdmin, requireMfaSession } from './sessions.js';
+import {
+  deleteRows,
+  eq,
+  insertAuditLog,
+  insertRows,
+  isSupabaseConfigured,
+  selectOne,
+  selectRows,
+  updateRows,
+} from './supabase.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+/** Used until the policy row exists (matches the previous fixed rules). */
+const DEFAULT_POLICY = {
+  min_length: 8,
+  require_uppercase: true,
+  require_lowercase: true,
+  require_digit: true,
+  require_symbol: false,
+  history_count: 5,
+  max_age_days: 0,
+  min_age_days: 0,
+};
+
+export async function getPasswordPolicy() {
+  const row = await selectOne(
+    'password_policy',
+    'select=min_length,require_uppercase,require_lowercase,require_digit,require_symbol,' +
+      'history_count,max_age_days,min_age_days&id=eq.1'
+  );
+  return { ...DEFAULT_POLICY, ...row };
+}
+
+/** The rules `password` breaks, as messages for the user (empty when it complies). */
+export function passwordPolicyErrors(password, policy) {
+  const errors = [];
+  if (password.length < policy.min_length) {
+    errors.push(`Password must be at least ${policy.min_length} characters long`);
+  }
+  if (policy.require_uppercase && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain at least one uppercase letter');
+  }
+  if (policy.require_lowercase && !/[a-z]/.test(password)) {
+    errors.push('Password must contain at least one lowercase letter');
+  }
+  if (policy.require_digit && !/\d/.test(password)) {
+    errors.push('Password must contain at least one number');
+  }
+  if (policy.require_symbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push('Password must contain at least one symbol');
+  }
+  return errors;
+}
+
+/**
+ * Policy and screening checks for the password of a new account, which has no history to
+ * check against yet.
+ * @returns {Promise<string[]>} Messages for the user; empty when the password is allowed
+ */
+export async function newAccountPasswordErrors(email, password) {
+  return [
+    ...passwordPolicyErrors(password, await getPasswordPolicy()),
+    ...passwordScreeningErrors(password, email),
+  ];
+}
+
+/** Whether the password set at `passwordChangedAt` is past the policy's maximum age. */
+export function isPasswordExpired(passwordChangedAt, policy) {
+  if (!policy.max_age_days || !passwordChangedAt) return false;
+  return new Date(passwordChangedAt).getTime() + policy.max_age_days * DAY_MS <= Date.now();
+}
+
+/**
+ * Whether `password` is the current one or one of the previous passwords the policy
+ * remembers (`history_count` includes the current password).
+ */
+async function isRecentPassword(userId, password, currentHash, policy) {
+  if (!policy.history_count) return false;
+  if (currentHash && (await verifyPassword(password, currentHash))) return true;
+  if (policy.history_count < 2) return false;
+
+  const previous = await selectRows(
+    'password_history',
+    `select=password_hash&user_id=${eq(userId)}&order=created_at.desc&limit=${policy.history_count - 1}`
+  );
+  for (const row of previous) {
+    if (await verifyPassword(password, row.password_hash)) return true;
+  }
+  return false;
+}
+
+/**
+ * Set a new password: the old hash moves to `password_history` (trimmed to what the
+ * policy remembers), the age restarts, "Trust this device" ends everywhere and every
+ * session is revoked except the refresh token family `keepSessionFamily`, which is no
+ * longer limited to the password change.
+ * @returns {Promise<number>} How many sessions were revoked
+ */
+export async function updateUserPassword(
+  userId,
+  password,
+  currentHash,
+  policy,
+  { keepSessionFamily } = {}
+) {
+  const now = new Date().toISOString();
+  if (currentHash && policy.history_count > 1) {
+    await insertRows('password_history', { user_id: userId, password_hash: currentHash });
+  }
+
+  await updateRows('users', `id=${eq(userId)}`, {
+    password_hash: await hashPassword(password),
+    password_changed_at: now,
+    updated_at: now,
+  });
+
+  const kept = await selectRows(
+    'password_history',
+    `select=id&user_id=${eq(userId)}&order=created_at.desc&offset=${Math.max(0, policy.history_count - 1)}`
+  );
+  if (kept.length) {
+    await deleteRows('password_history', `id=in.(${kept.map((r) => r.id).join(',')})`);
+  }
+  await deleteRows('trusted_devices', `user_id=${eq(userId)}`);
+
+  let sessions = `user_id=${eq(userId)}`;
+  if (keepSessionFamily) {
+    // Sessions from before refresh token families have no family_id; neq alone skips them
+    sessions += `&or=(family_id.is.null,family_id.neq.${encodeURIComponent(keepSessionFamily)})`;
+  }
+  const revoked = await deleteRows('sessions', sessions, { returnRows: true });
+  if (keepSessionFamily) {
+    await updateRows('sessions', `family_id=${eq(keepSessionFamily)}`, { password_expired: false });
+  }
+  return revoked?.length ?? 0;
+}
+
+/** Tell the user their password changed, so a change they did not make gets noticed. */
+async function sendPasswordChangedEmail(email, ipAddress) {
+  await sendMail({
+    to: email,
+    subject: 'Your SecureAuth password was changed',
+    html: `<p>The password for your SecureAuth account was changed on ${new Date().toUTCString()}${
+      ipAddress ? ` from IP address ${ipAddress}` : ''
+    }. You have been signed out on your other devices.</p>
+<p>If this was not you, reset your password with "Forgot password" on the sign-in page now
+and contact your administrator.</p>`,
+  });
+}
+
+/**
+ * Policy, screening and reuse checks for a new password of `user` (with `email` and
+ * `password_hash`).
+ * @returns {Promise<string[]>} Messages for the user; empty when the password is allowed
+ */
+async function newPasswordErrors(user, password, policy) {
+  const errors = [
+    ...passwordPolicyErrors(password, policy),
+    ...passwordScreeningErrors(password, user.email),
+  ];
+  if (!errors.length && (await isRecentPassword(user.id, password, user.password_hash, policy))) {
+    errors.push(
+      policy.history_count > 1
+        ? `Password must differ from your last ${policy.history_count} passwords`
+        : 'Password must differ from your current password'
+    );
+  }
+  return errors;
+}
+
+function hashToken(token) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Email `user` (`id`, `email`) a one-time reset link, replacing any unused earlier one.
+ * `byAdmin` changes the wording for resets started from the Admin Panel.
+ * @returns {Promise<boolean>} Whether the email was sent
+ */
+async function sendResetLink(user, origin, { byAdmin = false } = {}) {
+  await deleteRows('password_reset_tokens', `user_id=${eq(user.id)}&used=eq.false`);
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MS).toISOString();
+  await insertRows('password_reset_tokens', {
+    user_id: user.id,
+    token_hash: hashToken(token),
+    expires_at: expiresAt,
+  });
+
+  const resetLink = `${origin}/reset-password?token=${encodeURIComponent(token)}`;
+  return sendMail({
+    to: user.email,
+    subject: byAdmin ? 'Password Reset Request (Admin Initiated)' : 'Password Reset Request',
+    html: `<p>${
+      byAdmin ? 'An administrator started a password reset' : 'Someone asked to reset the password'
+    } for your SecureAuth account.</p>
+<p><a href="${resetLink}">Choose a new password</a>. The link works once and expires on
+${new Date(expiresAt).toUTCString()}.</p>
+<p>If you did not expect this, ignore this email; your password stays the same.</p>`,
+  });
+}
+
+/** The unused, unexpired reset token row for `token`, or null. */
+async function findResetToken(token) {
+  const reset = await selectOne(
+    'password_reset_tokens',
+    `select=id,user_id,expires_at&token_hash=${eq(hashToken(token))}&used=eq.false`
+  );
+  if (!reset || new Date(reset.expires_at).getTime() < Date.now()) return null;
+  return reset;
+}
+
+function linksNotConfigured(res) {
+  return res.status(503).json({
+    error: 'Email links not configured',
+    message: 'Set APP_URL so reset links can be sent',
+  });
+}
+
+function rejected(res, errors) {
+  return res.status(400).json({ success: false, message: errors.join('. '), errors });
+}
+
+/** 503 body when service credentials are missing, or null when configured. */
+function missingConfig() {
+  if (isSupabaseConfigured()) return null;
+  return {
+    error: 'Auth service not configured',
+    message: 'Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+  };
+}
+
+/**
+ * POST /api/auth/password/forgot — { email }
+ * Emails a reset link when the address belongs to an account. The answer is the same
+ * either way, so it does not reveal which accounts exist.
+ */
+export async function handleRequestPasswordReset(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const email = (req.body?.email || '').toString().trim().toLowerCase();
+    if (!email) {
+      return res.status(400).json({ error: 'email is required' });
+    }
+
+    const origin = appOrigin();
+    if (!origin) return linksNotConfigured(res);
+
+    const user = await selectOne('users', `select=id,email&email=${eq(email)}`);
+    if (user && (await sendResetLink(user, origin))) {
+      const { ipAddress, userAgent } = clientInfo(req);
+      await insertAuditLog(user.id, 'Password reset requested', ipAddress, userAgent);
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('password reset request:', e);
+    return res.status(500).json({ success: false, message: 'Could not send the reset link' });
+  }
+}
+
+/**
+ * POST /api/admin/users/password-reset — { userId } + bearer token (Admin)
+ * Emails a reset link to another user. Their password stays valid until they use it.
+ */
+export async function handleAdminPasswordReset(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const userId = (req.body?.userId || '').toString().trim();
+    if (!userId) {
+      return res.status(400).json({ error: 'userId is required' });
+    }
+
+    const auth = await requireAdmin(req, res);
+    if (!auth) return;
+
+    const origin = appOrigin();
+    if (!origin) return linksNotConfigured(res);
+
+    const user = await selectOne('users', `select=id,email&id=${eq(userId)}`);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+    if (!(await sendResetLink(user, origin, { byAdmin: true }))) {
+      return res.status(502).json({ success: false, message: 'Could not send the reset email' });
+    }
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(user.id, 'Password reset requested', ipAddress, userAgent, {
+      requestedBy: auth.userId,
+    });
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('admin password reset:', e);
+    return res.status(500).json({ success: false, message: 'Could not send the reset link' });
+  }
+}
+
+/**
+ * POST /api/auth/password/reset-token — { token }
+ * Checks an emailed reset token without using it up, for the reset page. Returns the
+ * account's email so the page can screen the new password against it.
+ */
+export async function handleCheckResetToken(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const token = (req.body?.token || '').toString().trim();
+    if (!token) {
+      return res.status(400).json({ error: 'token is required' });
+    }
+
+    const reset = await findResetToken(token);
+    const user = reset && (await selectOne('users', `select=email&id=${eq(reset.user_id)}`));
+    if (!user) {
+      return res.status(400).json({ success: false, message: 'Invalid or expired reset token' });
+    }
+    return res.status(200).json({ success: true, email: user.email });
+  } catch (e) {
+    console.error('password reset token:', e);
+    return res.status(500).json({ success: false, message: 'Could not check the reset token' });
+  }
+}
+
+/**
+ * POST /api/auth/password/reset — { token, password }
+ * Completes a forgotten-password reset with the emailed token and signs out every session.
+ * The minimum age does not apply, since the user cannot sign in with the old password.
+ */
+export async function handleResetPassword(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const token = (req.body?.token || '').toString().trim();
+    const password = (req.body?.password || '').toString();
+    if (!token || !password) {
+      return res.status(400).json({ error: 'token and password are required' });
+    }
+
+    const invalid = () =>
+      res.status(400).json({ success: false, message: 'Invalid or expired reset token' });
+
+    const reset = await findResetToken(token);
+    if (!reset) return invalid();
+
+    const user = await selectOne('users', `select=id,email,password_hash&id=${eq(reset.user_id)}`);
+    if (!user) return invalid();
+
+    const policy = await getPasswordPolicy();
+    const errors = await newPasswordErrors(user, password, policy);
+    if (errors.length) return rejected(res, errors);
+
+    // Conditional on the token being unused, so it works only once
+    const claimed = await updateRows(
+      'password_reset_tokens',
+      `id=${eq(reset.id)}&used=eq.false`,
+      { used: true },
+      { returnRows: true }
+    );
+    if (!claimed?.length) return invalid();
+
+    await updateUserPassword(user.id, password, user.password_hash, policy);
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(user.id, 'Password reset completed', ipAddress, userAgent);
+
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('password reset:', e);
+    return res.status(500).json({ success: false, message: 'Could not reset the password' });
+  }
+}
+
+/**
+ * POST /api/auth/password/change — { currentPassword, newPassword } + bearer token
+ * (MFA-verified session)
+ * Changes the signed-in user's password after re-checking the current one. Refused
+ * within the policy's minimum age, unless the password has expired. The caller's session
+ * stays signed in; all others are revoked and the user is notified by email.
+ */
+export async function handleChangePassword(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const currentPassword = (req.body?.currentPassword || '').toString();
+    const newPassword = (req.body?.newPassword || '').toString();
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({ error: 'currentPassword and newPassword are required' });
+    }
+
+    // An expired password can be changed only after the second factor
+    const auth = await requireMfaSession(req, res, { allowExpiredPassword: true });
+    if (!auth) return;
+
+    const user = await selectOne(
+      'users',
+      `select=id,email,password_hash,password_changed_at&id=${eq(auth.userId)}`
+    );
+    if (!user?.password_hash || !(await verifyPassword(currentPassword, user.password_hash))) {
+      return res.status(401).json({ success: false, message: 'Current password is incorrect' });
+    }
+
+    const policy = await getPasswordPolicy();
+    const changedAt = user.password_changed_at ? new Date(user.password_changed_at).getTime() : 0;
+    const allowedAt = changedAt + policy.min_age_days * DAY_MS;
+    if (allowedAt > Date.now() && !isPasswordExpired(user.password_changed_at, policy)) {
+      return res.status(400).json({
+        success: false,
+        message: `Your password was changed recently. You can change it again after ${new Date(
+          allowedAt
+        ).toUTCString()}.`,
+      });
+    }
+
+    const errors = await newPasswordErrors(user, newPassword, policy);
+    if (errors.length) return rejected(res, errors);
+
+    const revokedSessions = await updateUserPassword(
+      user.id,
+      newPassword,
+      user.password_hash,
+      policy,
+      { keepSessionFamily: auth.session.family_id }
+    );
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(user.id, 'Password changed', ipAddress, userAgent, { revokedSessions });
+    await sendPasswordChangedEmail(user.email, ipAddress);
+
+    return res.status(200).json({ success: true, revokedSessions });
+  } catch (e) {
+    console.error('password change:', e);
+    return res.status(500).json({ success: false, message: 'Could not change the password' });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Offline screening of new passwords against common and breached passwords (server side;
+ * src/lib/password-screening.ts does the same in the browser).
+ * The list in scripts/data/common-passwords.txt is compiled into a Bloom filter
+ * (./common-passwords.js, `npm run build-password-filter`), so no lookup leaves the
+ * server. A password is refused when it, or its base word without leading and trailing
+ * digits and symbols and with common substitutions undone, is in the filter, or when it
+ * contains a word from the user's email address.
+ */
+
+import { COMMON_PASSWORD_FILTER } from './common-passwords.js';
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+const SECOND_SEED = 0x5bd1e995;
+const MIN_BASE_LENGTH = 3;
+const MIN_CONTEXT_WORD_LENGTH = 4;
+const SERVICE_WORDS = ['secureauth'];
+
+const SUBSTITUTIONS = { 0: 'o', 1: 'i', 3: 'e', 4: 'a', 5: 's', 7: 't', 8: 'b', '@': 'a', $: 's', '!': 'i' };
+
+const filterBits = Buffer.from(COMMON_PASSWORD_FILTER.data, 'base64');
+
+function fnv1a(bytes, seed) {
+  let hash = seed >>> 0;
+  for (const byte of bytes) {
+    hash = Math.imul(hash ^ byte, FNV_PRIME) >>> 0;
+  }
+  return hash;
+}
+
+/** Bit positions of `value` in a filter of `bits` bits with `hashes` hash functions. */
+export function bloomIndexes(value, bits, hashes) {
+  const bytes = new TextEncoder().encode(value);
+  const h1 = fnv1a(bytes, FNV_OFFSET);
+  const h2 = fnv1a(bytes, SECOND_SEED) | 1;
+  const indexes = [];
+  for (let i = 0; i < hashes; i++) {
+    indexes.push(((h1 + Math.imul(i, h2)) >>> 0) % bits);
+  }
+  return indexes;
+}
+
+/**
+ * The forms of `value` looked up in the filter: lowercase, and the base word (leading
+ * and trailing digits and symbols removed, substitutions such as `0` for `o` undone).
+ */
+export function screeningForms(value) {
+  const lower = value.toLowerCase();
+  const base = lower.replace(/^[^a-z]+|[^a-z]+$/g, '');
+  const forms = new Set([lower]);
+  if (base.length >= MIN_BASE_LENGTH) {
+    forms.add(base);
+    forms.add(base.replace(/[0134578@$!]/g, (c) => SUBSTITUTIONS[c]));
+    forms.add(base.replace(/[0134578@$!]/g, (c) => (c === '1' ? 'l' : SUBSTITUTIONS[c])));
+  }
+  return [...forms];
+}
+
+function inFilter(value) {
+  const { bits, hashes } = COMMON_PASSWORD_FILTER;
+  return bloomIndexes(value, bits, hashes).every((i) => (filterBits[i >> 3] & (1 << (i & 7))) !== 0);
+}
+
+/** Whether `password` is (a variation of) a common or breached password. */
+export function isCommonPassword(password) {
+  return screeningForms(password).some(inFilter);
+}
+
+/**
+ * Words a password should not contain: the service name and the parts of the email
+ * address before the `@` (`jane.doe@x` → jane.doe, jane, doe).
+ */
+export function contextWords(email) {
+  const local = (email || '').toLowerCase().split('@')[0];
+  const words = [local, ...local.split(/[^a-z]+/)].filter(
+    (word) => word.length >= MIN_CONTEXT_WORD_LENGTH
+  );
+  return [...new Set([...SERVICE_WORDS, ...words])];
+}
+
+/**
+ * Screening problems with `password` for the user with `email`, as messages for the user.
+ * @returns {string[]}
+ */
+export function passwordScreeningErrors(password, email) {
+  const errors = [];
+  if (isCommonPassword(password)) {
+    errors.push('Password is too common or has appeared in a data breach');
+  }
+  const lower = password.toLowerCase();
+  if (contextWords(email).some((word) => lower.includes(word))) {
+    errors.push('Password must not contain your email address or the service name');
+  }
+  return errors;
+}
@@ -0,0 +1,209 @@
+/**
+ * Login rate limiting backed by failed_login_attempts, and MFA rate limiting backed by
+ * mfa_attempts (server only).
+ */
+
+import { countRows, eq, insertAuditLog, insertRows, selectOne, selectRows } from './supabase.js';
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour in milliseconds
+const BACKOFF_BASE_MS = 1000; // nth delayed attempt waits base * 2^(n-1) after the last failure
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+// Failed sign-ins per hour: the first `free` pass straight through, later ones are
+// delayed progressively, and from `block` on the scope is locked until failures expire
+const LOGIN_LIMITS = {
+  ipEmail: { free: 3, block: 10 }, // one account from one address
+  email: { free: 5, block: 20 }, // one account from many addresses
+  ip: { free: 10, block: 50 }, // many accounts from one address (password spraying)
+};
+// Credential stuffing across all accounts: while this many failures happened in the last
+// 5 minutes, an address and account pair gets no free attempts, so it is delayed from its
+// own first failure. Pairs without failures of their own are not slowed down, so flooding
+// bad passwords cannot lock everyone else out.
+const LOGIN_GLOBAL_FAILURES = 200;
+const LOGIN_GLOBAL_WINDOW_MS = 5 * 60 * 1000;
+
+// MFA failures since the last success, within the window
+const MFA_SESSION_ATTEMPTS = 5; // per sign-in (token family)
+const MFA_USER_ATTEMPTS = 10; // per user, across all sign-ins
+
+/** When the next attempt is accepted after `delayed` delayed failures, or null if now. */
+export function backoffUntil(lastAttemptAt, delayed) {
+  if (delayed <= 0) return null;
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** (delayed - 1), BACKOFF_MAX_MS);
+  const until = new Date(lastAttemptAt).getTime() + delay;
+  return until > Date.now() ? new Date(until) : null;
+}
+
+export async function recordLoginAttempt(email, success, ipAddress) {
+  try {
+    await insertRows('failed_login_attempts', {
+      email: email.toLowerCase(),
+      ip_address: ipAddress ?? null,
+      success,
+    });
+  } catch (e) {
+    // Logging failures shouldn't break sign-in
+    console.error('Failed to record login attempt:', e);
+  }
+}
+
+/** Limit state for one scope, from its failures (oldest first) in the window. */
+export function scopeLimit(failures, { free, block }) {
+  if (failures.length >= block) {
+    // Unlocks when enough of the oldest failures have left the window
+    const expiring = failures[failures.length - block];
+    return {
+      resetAt: new Date(new Date(expiring.attempted_at).getTime() + RATE_LIMIT_WINDOW_MS),
+      retryAt: null,
+    };
+  }
+  const last = failures[failures.length - 1];
+  const retryAt = last ? backoffUntil(last.attempted_at, failures.length - free) : null;
+  return { resetAt: null, retryAt };
+}
+
+/**
+ * Check the failed sign-in limits for `email` from `ipAddress` (per address and account,
+ * per account, per address, and across all accounts).
+ * `resetAt` is set while locked out; `retryAt` while the next attempt is being delayed.
+ * `accountResetAt` is set when the per-account limit alone is exhausted, which locks the
+ * account itself (./account-lock.js) rather than just this address.
+ * @returns {Promise<{ isBlocked: boolean, resetAt: Date | null, retryAt: Date | null,
+ *   accountResetAt: Date | null }>}
+ */
+export async function checkLoginRateLimit(email, ipAddress) {
+  const since = encodeURIComponent(new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString());
+  const recent = `success=eq.false&attempted_at=gte.${since}&order=attempted_at.asc`;
+
+  const emailFailures = await selectRows(
+    'failed_login_attempts',
+    `select=ip_address,attempted_at&email=${eq(email.toLowerCase())}&${recent}`
+  );
+  const ipFailures = ipAddress
+    ? await selectRows(
+        'failed_login_attempts',
+        `select=attempted_at&ip_address=${eq(ipAddress)}&${recent}`
+      )
+    : [];
+
+  const globalSince = new Date(Date.now() - LOGIN_GLOBAL_WINDOW_MS).toISOString();
+  const globalFailures = await countRows(
+    'failed_login_attempts',
+    `success=eq.false&attempted_at=gte.${encodeURIComponent(globalSince)}`
+  );
+  const ipEmailLimits =
+    globalFailures >= LOGIN_GLOBAL_FAILURES
+      ? { ...LOGIN_LIMITS.ipEmail, free: 0 }
+      : LOGIN_LIMITS.ipEmail;
+
+  const accountLimit = scopeLimit(emailFailures, LOGIN_LIMITS.email);
+  const scopes = [
+    accountLimit,
+    ...(ipAddress
+      ? [
+          scopeLimit(emailFailures.filter((f) => f.ip_address === ipAddress), ipEmailLimits),
+          scopeLimit(ipFailures, LOGIN_LIMITS.ip),
+        ]
+      : []),
+  ];
+
+  const latest = (dates) =>
+    dates.filter(Boolean).reduce((max, d) => (!max || d > max ? d : max), null);
+  const resetAt = latest(scopes.map((s) => s.resetAt));
+  return {
+    isBlocked: Boolean(resetAt),
+    resetAt,
+    retryAt: resetAt ? null : latest(scopes.map((s) => s.retryAt)),
+    accountResetAt: accountLimit.resetAt,
+  };
+}
+
+export function getRateLimitErrorMessage(resetAt) {
+  const minutesUntilReset = Math.ceil((resetAt.getTime() - Date.now()) / (60 * 1000));
+
+  if (minutesUntilReset > 60) {
+    const hours = Math.floor(minutesUntilReset / 60);
+    return `Too many failed attempts. Please try again in ${hours} hour${hours > 1 ? 's' : ''}.`;
+  }
+
+  return `Too many failed attempts. Please try again in ${minutesUntilReset} minute${minutesUntilReset > 1 ? 's' : ''}.`;
+}
+
+async function recentMfaFailures(userId) {
+  const since = new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString();
+  const lastSuccess = await selectOne(
+    'mfa_attempts',
+    `select=attempted_at&user_id=${eq(userId)}&success=eq.true` +
+      `&attempted_at=gte.${encodeURIComponent(since)}&order=attempted_at.desc`
+  );
+  const from = lastSuccess?.attempted_at ?? since;
+  return selectRows(
+    'mfa_attempts',
+    `select=session_family_id,attempted_at&user_id=${eq(userId)}&success=eq.false` +
+      `&attempted_at=gt.${encodeURIComponent(from)}&order=attempted_at.asc`
+  );
+}
+
+/**
+ * MFA limits for `userId` in the sign-in identified by `familyId`.
+ * `retryAt` is set while backing off after a failure; `resetAt` while locked out.
+ * @returns {Promise<{ isBlocked: boolean, scope: 'session' | 'user' | null,
+ *   remainingAttempts: number, resetAt: Date | null, retryAt: Date | null }>}
+ */
+export async function checkMfaRateLimit(userId, familyId) {
+  const failures = await recentMfaFailures(userId);
+  const sessionFailures = failures.filter((f) => f.session_family_id === familyId);
+  const remainingAttempts = Math.max(
+    0,
+    Math.min(MFA_SESSION_ATTEMPTS - sessionFailures.length, MFA_USER_ATTEMPTS - failures.length)
+  );
+
+  // Locked until the oldest counted failure leaves the window
+  const scope =
+    failures.length >= MFA_USER_ATTEMPTS
+      ? 'user'
+      : sessionFailures.length >= MFA_SESSION_ATTEMPTS
+        ? 'session'
+        : null;
+  if (scope) {
+    const oldest = (scope === 'user' ? failures : sessionFailures)[0];
+    const resetAt = new Date(new Date(oldest.attempted_at).getTime() + RATE_LIMIT_WINDOW_MS);
+    return { isBlocked: true, scope, remainingAttempts: 0, resetAt, retryAt: null };
+  }
+
+  const last = failures[failures.length - 1];
+  const retryAt = last ? backoffUntil(last.attempted_at, failures.length) : null;
+  return { isBlocked: false, scope: null, remainingAttempts, resetAt: null, retryAt };
+}
+
+/**
+ * Record one MFA check (`client` from clientInfo). A failure that uses up the last attempt
+ * is audited as a lockout.
+ * @returns {Promise<ReturnType<typeof checkMfaRateLimit> | null>} Limits after a failure
+ */
+export async function recordMfaAttempt(userId, familyId, method, success, { ipAddress, userAgent }) {
+  try {
+    await insertRows('mfa_attempts', {
+      user_id: userId,
+      session_family_id: familyId,
+      method,
+      success,
+      ip_address: ipAddress ?? null,
+    });
+  } catch (e) {
+    console.error('Failed to record MFA attempt:', e);
+    return null;
+  }
+  if (success) return null;
+
+  const limits = await checkMfaRateLimit(userId, familyId);
+  if (limits.isBlocked) {
+    await insertAuditLog(userId, 'MFA locked out', ipAddress, userAgent, {
+      scope: limits.scope,
+      method,
+      resetAt: limits.resetAt.toISOString(),
+    });
+  }
+  return limits;
+}
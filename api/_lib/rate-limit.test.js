@@ -0,0 +1,241 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import bcrypt from 'bcryptjs';
+import { handleLogin } from './auth.js';
+import {
+  backoffUntil,
+  checkLoginRateLimit,
+  checkMfaRateLimit,
+  recordMfaAttempt,
+  scopeLimit,
+} from './rate-limit.js';
+import { fakeRequest, fakeResponse, fakeSupabase, useFakeService, writesTo } from './test-helpers.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const EMAIL = 'user@example.com';
+const IP = '203.0.113.7';
+const PASSWORD = 'correct horse battery staple';
+
+const secondsAgo = (s) => new Date(Date.now() - s * 1000).toISOString();
+const failure = (s, ip = IP) => ({ ip_address: ip, attempted_at: secondsAgo(s) });
+const failuresFrom = (n, ipOf) => Array.from({ length: n }, (_, i) => failure(600 - i, ipOf(i)));
+
+function userRow() {
+  return {
+    id: 'user-1',
+    email: EMAIL,
+    role: 'StandardUser',
+    mfa_enabled: true,
+    is_active: true,
+    locked_until: null,
+    lock_reason: null,
+    created_at: secondsAgo(86400),
+    password_changed_at: secondsAgo(60),
+    password_hash: bcrypt.hashSync(PASSWORD, 10),
+    user_profiles: null,
+  };
+}
+
+describe('rate-limit: backoffUntil', () => {
+  it('does not delay before the free attempts are used up', () => {
+    assert.equal(backoffUntil(secondsAgo(0), 0), null);
+  });
+
+  it('doubles the delay with each delayed failure', () => {
+    const last = new Date().toISOString();
+    const delay = (n) => backoffUntil(last, n).getTime() - new Date(last).getTime();
+    assert.equal(delay(1), 1000);
+    assert.equal(delay(2), 2000);
+    assert.equal(delay(4), 8000);
+  });
+
+  it('caps the delay at five minutes', () => {
+    const last = new Date().toISOString();
+    assert.equal(backoffUntil(last, 30).getTime() - new Date(last).getTime(), 5 * 60 * 1000);
+  });
+
+  it('is over once the delay has passed', () => {
+    assert.equal(backoffUntil(secondsAgo(10), 2), null);
+  });
+});
+
+describe('rate-limit: scopeLimit', () => {
+  const limits = { free: 3, block: 10 };
+
+  it('lets the free failures through without a delay', () => {
+    const failures = [failure(3), failure(2), failure(1)];
+    assert.deepEqual(scopeLimit(failures, limits), { resetAt: null, retryAt: null });
+  });
+
+  it('delays the attempt after a failure past the free ones', () => {
+    const failures = [failure(4), failure(3), failure(2), failure(0)];
+    const { resetAt, retryAt } = scopeLimit(failures, limits);
+    assert.equal(resetAt, null);
+    assert.ok(retryAt > new Date());
+  });
+
+  it('locks the scope until the oldest counted failure leaves the hour', () => {
+    const failures = Array.from({ length: 10 }, (_, i) => failure(100 - i));
+    const { resetAt, retryAt } = scopeLimit(failures, limits);
+    assert.equal(retryAt, null);
+    assert.equal(resetAt.getTime(), new Date(failures[0].attempted_at).getTime() + HOUR_MS);
+  });
+});
+
+describe('rate-limit: checkLoginRateLimit', () => {
+  let restore;
+  beforeEach(() => {
+    restore = useFakeService();
+  });
+  afterEach(() => restore());
+
+  it('locks an address out of one account without locking the account', async () => {
+    fakeSupabase({ failed_login_attempts: failuresFrom(10, () => IP) });
+
+    const limits = await checkLoginRateLimit(EMAIL, IP);
+
+    assert.equal(limits.isBlocked, true);
+    assert.ok(limits.resetAt > new Date());
+    assert.equal(limits.accountResetAt, null);
+  });
+
+  it('locks the account once it fails from many addresses', async () => {
+    fakeSupabase({ failed_login_attempts: failuresFrom(20, (i) => `198.51.100.${i}`) });
+
+    const limits = await checkLoginRateLimit(EMAIL, IP);
+
+    assert.equal(limits.isBlocked, true);
+    assert.ok(limits.accountResetAt > new Date());
+  });
+
+  it('does not slow down a pair without failures while over the global threshold', async () => {
+    fakeSupabase({ failed_login_attempts: [] }, { count: 500 });
+
+    const limits = await checkLoginRateLimit(EMAIL, IP);
+
+    assert.equal(limits.isBlocked, false);
+    assert.equal(limits.retryAt, null);
+  });
+
+  it('delays a pair from its first failure instead of refusing it', async () => {
+    fakeSupabase({ failed_login_attempts: [failure(0)] }, { count: 500 });
+    const underAttack = await checkLoginRateLimit(EMAIL, IP);
+
+    fakeSupabase({ failed_login_attempts: [failure(0)] });
+    const normal = await checkLoginRateLimit(EMAIL, IP);
+
+    assert.equal(underAttack.isBlocked, false);
+    assert.ok(underAttack.retryAt > new Date());
+    assert.equal(normal.retryAt, null);
+  });
+});
+
+describe('rate-limit: handleLogin', () => {
+  let restore;
+  beforeEach(() => {
+    restore = useFakeService();
+  });
+  afterEach(() => restore());
+
+  it('still signs in with the correct password while over the global threshold', async () => {
+    const { tables } = fakeSupabase(
+      { failed_login_attempts: [], users: [userRow()] },
+      { count: 500 }
+    );
+    const res = fakeResponse();
+
+    await handleLogin(fakeRequest({ email: EMAIL, password: PASSWORD }, { ip: IP }), res);
+
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.body.success, true);
+    assert.ok(res.body.accessToken);
+    assert.equal(tables.sessions.length, 1);
+    assert.deepEqual(tables.failed_login_attempts.map((a) => a.success), [true]);
+  });
+
+  it('waits out the delay before checking the password', async () => {
+    fakeSupabase({ failed_login_attempts: failuresFrom(3, () => IP).concat(failure(0)) });
+    const res = fakeResponse();
+
+    await handleLogin(fakeRequest({ email: EMAIL, password: PASSWORD }, { ip: IP }), res);
+
+    assert.equal(res.statusCode, 429);
+    assert.ok(Number(res.headers['Retry-After']) >= 1);
+  });
+
+  it('locks the account on the failure that uses up its limit', async (t) => {
+    t.mock.method(console, 'warn', () => {});
+    const { writes } = fakeSupabase({
+      failed_login_attempts: failuresFrom(19, (i) => `198.51.100.${i}`),
+      users: [userRow()],
+    });
+    const res = fakeResponse();
+
+    await handleLogin(fakeRequest({ email: EMAIL, password: 'wrong' }, { ip: IP }), res);
+
+    assert.equal(res.statusCode, 429);
+    const [lock] = writesTo(writes, 'users', 'PATCH');
+    assert.equal(lock.body.lock_reason, 'failed_logins');
+  });
+});
+
+describe('rate-limit: MFA attempts', () => {
+  const FAMILY = 'family-1';
+  const mfaFailure = (s, familyId = FAMILY) => ({
+    user_id: 'user-1',
+    session_family_id: familyId,
+    success: false,
+    attempted_at: secondsAgo(s),
+  });
+  const mfaFailures = (n, familyOf) =>
+    Array.from({ length: n }, (_, i) => mfaFailure(600 - i, familyOf(i)));
+
+  let restore;
+  beforeEach(() => {
+    restore = useFakeService();
+  });
+  afterEach(() => restore());
+
+  it('backs off after each failure and counts the attempts left', async () => {
+    fakeSupabase({ mfa_attempts: [...mfaFailures(3, () => FAMILY), mfaFailure(0)] });
+
+    const limits = await checkMfaRateLimit('user-1', FAMILY);
+
+    assert.equal(limits.isBlocked, false);
+    assert.equal(limits.remainingAttempts, 1);
+    assert.ok(limits.retryAt > new Date());
+  });
+
+  it('ends the sign-in after five failures in it', async () => {
+    fakeSupabase({ mfa_attempts: mfaFailures(5, () => FAMILY) });
+
+    const limits = await checkMfaRateLimit('user-1', FAMILY);
+
+    assert.equal(limits.isBlocked, true);
+    assert.equal(limits.scope, 'session');
+  });
+
+  it('locks the user after ten failures across sign-ins', async () => {
+    const failures = mfaFailures(10, (i) => `family-${i % 4}`);
+    fakeSupabase({ mfa_attempts: failures });
+
+    const limits = await checkMfaRateLimit('user-1', 'family-new');
+
+    assert.equal(limits.isBlocked, true);
+    assert.equal(limits.scope, 'user');
+    assert.equal(limits.resetAt.getTime(), new Date(failures[0].attempted_at).getTime() + HOUR_MS);
+  });
+
+  it('audits the failure that uses up the last attempt', async () => {
+    const { writes } = fakeSupabase({ mfa_attempts: mfaFailures(4, () => FAMILY) });
+
+    const limits = await recordMfaAttempt('user-1', FAMILY, 'totp', false, { ipAddress: IP });
+
+    assert.equal(limits.isBlocked, true);
+    const audits = writesTo(writes, 'audit_logs', 'POST').map((w) => w.body);
+    assert.deepEqual(
+      audits.map((a) => [a.action, a.details.scope]),
+      [['MFA locked out', 'session']]
+    );
+  });
+});
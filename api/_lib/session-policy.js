@@ -0,0 +1,72 @@
+/**
+ * Per-role session limits (server only).
+ * idle: sign out after this long without user activity. The browser reports its last
+ *   activity and every authenticated request counts as activity (./sessions.js).
+ * absolute: a session cannot be refreshed past this age, however active it is.
+ * Env: SESSION_POLICY — optional JSON overriding the defaults, e.g.
+ *   {"Admin":{"idleMinutes":10,"absoluteHours":4}}
+ */
+
+const DEFAULT_POLICIES = {
+  Admin: { idleMinutes: 15, absoluteHours: 8 },
+  StandardUser: { idleMinutes: 30, absoluteHours: 12 },
+  RestrictedUser: { idleMinutes: 15, absoluteHours: 4 },
+};
+
+function loadPolicies() {
+  const raw = process.env.SESSION_POLICY;
+  if (!raw) return DEFAULT_POLICIES;
+  try {
+    const overrides = JSON.parse(raw);
+    const merged = { ...DEFAULT_POLICIES };
+    for (const [role, policy] of Object.entries(overrides)) {
+      merged[role] = { ...(DEFAULT_POLICIES[role] || DEFAULT_POLICIES.StandardUser), ...policy };
+    }
+    return merged;
+  } catch (e) {
+    console.error('Invalid SESSION_POLICY, using defaults:', e.message);
+    return DEFAULT_POLICIES;
+  }
+}
+
+/** @returns {{ idleTimeoutSeconds: number, absoluteLifetimeSeconds: number }} */
+export function sessionPolicyFor(role) {
+  const policies = loadPolicies();
+  const policy = policies[role] || policies.StandardUser;
+  return {
+    idleTimeoutSeconds: Math.round(policy.idleMinutes * 60),
+    absoluteLifetimeSeconds: Math.round(policy.absoluteHours * 60 * 60),
+  };
+}
+
+/** Limits sent to the browser with every token pair. */
+export function sessionLimits(role, createdAt) {
+  const { idleTimeoutSeconds, absoluteLifetimeSeconds } = sessionPolicyFor(role);
+  return {
+    idleTimeoutSeconds,
+    absoluteExpiresAt: new Date(
+      new Date(createdAt).getTime() + absoluteLifetimeSeconds * 1000
+    ).toISOString(),
+  };
+}
+
+export function isPastAbsoluteLifetime(role, createdAt) {
+  return Date.now() >= new Date(sessionLimits(role, createdAt).absoluteExpiresAt).getTime();
+}
+
+/**
+ * Latest activity known for a session row: its `last_activity_at` (sign-in time for rows
+ * from before the column), moved forward to `reportedAt` when that is newer. Reports from
+ * the future count as now.
+ * @returns {number} epoch ms
+ */
+export function latestActivity(session, reportedAt) {
+  const stored = new Date(session.last_activity_at || session.created_at).getTime();
+  const reported = reportedAt ? new Date(reportedAt).getTime() || 0 : 0;
+  return Math.max(stored, Math.min(reported, Date.now()));
+}
+
+export function isPastIdleTimeout(role, lastActivityAt) {
+  const { idleTimeoutSeconds } = sessionPolicyFor(role);
+  return Date.now() >= new Date(lastActivityAt).getTime() + idleTimeoutSeconds * 1000;
+}
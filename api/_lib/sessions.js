@@ -0,0 +1,129 @@
+/**
+ * Revocation-aware access token checks (server only).
+ * A token is accepted only while its `sessions` row exists, so logout and admin
+ * revocation (deleting the row) take effect on the very next request. The user is re-read
+ * with the session, so deactivation, locks and role changes apply before the token expires.
+ * Sessions idle for longer than their role's idle timeout or past its absolute lifetime
+ * (./session-policy.js) are rejected as well; every authenticated request counts as
+ * activity. A session signed
+ * in with an expired password is only good for the second factor and the password change
+ * until the password is changed.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { isAccountLocked } from './account-lock.js';
+import { bearerToken } from './http.js';
+import { verifyAccessToken } from './jwt.js';
+import { isPastAbsoluteLifetime, isPastIdleTimeout, latestActivity } from './session-policy.js';
+import { eq, isSupabaseConfigured, selectOne, updateRows } from './supabase.js';
+
+// Skip the activity write when the stored time is at most this far behind
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Verify signature and expiry, then require a live, non-idle session row for the token
+ * and an active, unlocked user. `user` holds the current `role`, `is_active` and
+ * `locked_until`; the token's own role may be out of date.
+ * @param options.activityAt User activity to record on the session (epoch ms or ISO
+ *   string); null when the request itself is not user activity
+ * @returns {Promise<{ payload: object, session: object, user: object } | null>}
+ */
+export async function verifySessionToken(accessToken, { activityAt = null } = {}) {
+  if (!accessToken) return null;
+
+  const payload = await verifyAccessToken(accessToken);
+  if (!payload) return null;
+
+  const row = await selectOne(
+    'sessions',
+    'select=id,user_id,family_id,expires_at,created_at,last_activity_at,mfa_verified_at,' +
+      `password_expired,users(role,is_active,locked_until)&token=${eq(accessToken)}`
+  );
+  if (!row || row.user_id !== payload.userId) return null;
+  const { users: user, ...session } = row;
+  if (!user || user.is_active === false || isAccountLocked(user)) return null;
+  if (isPastAbsoluteLifetime(user.role, session.created_at)) return null;
+
+  const lastActivity = latestActivity(session, activityAt);
+  if (isPastIdleTimeout(user.role, lastActivity)) return null;
+
+  const stored = new Date(session.last_activity_at || session.created_at).getTime();
+  if (lastActivity - stored >= ACTIVITY_WRITE_INTERVAL_MS) {
+    session.last_activity_at = new Date(lastActivity).toISOString();
+    await updateRows('sessions', `id=${eq(session.id)}`, {
+      last_activity_at: session.last_activity_at,
+    });
+  }
+
+  return { payload, session, user };
+}
+
+/**
+ * Guard for protected routes. Sends 401 (or 503) and returns null when the bearer token
+ * is missing, invalid, idle or revoked, or the user was deactivated or locked; otherwise
+ * returns `{ userId, payload, session, user }`.
+ * Sessions with an expired password get 403 unless `allowExpiredPassword` is set, which
+ * only the sign-in steps and the password change do. The request counts as user activity
+ * unless `activityAt` says otherwise (the browser's background session check).
+ */
+export async function requireSession(
+  req,
+  res,
+  { allowExpiredPassword = false, activityAt = Date.now() } = {}
+) {
+  if (!isSupabaseConfigured()) {
+    res.status(503).json({
+      error: 'Auth service not configured',
+      message: 'Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+    });
+    return null;
+  }
+
+  const verified = await verifySessionToken(bearerToken(req), { activityAt });
+  if (!verified) {
+    res.status(401).json({ success: false, message: 'Session is invalid or has been revoked' });
+    return null;
+  }
+  if (verified.session.password_expired && !allowExpiredPassword) {
+    res.status(403).json({
+      success: false,
+      passwordExpired: true,
+      message: 'Your password has expired. Change it to continue.',
+    });
+    return null;
+  }
+
+  return { userId: verified.payload.userId, ...verified };
+}
+
+/**
+ * Guard for routes that change how the account signs in (enrolling a second factor,
+ * changing the password, and the like): `requireSession` plus a completed second factor,
+ * so the password alone is not enough. Sends 403 for sessions still waiting for the MFA
+ * step. `allowExpiredPassword` as for `requireSession`.
+ */
+export async function requireMfaSession(req, res, { allowExpiredPassword = false } = {}) {
+  const auth = await requireSession(req, res, { allowExpiredPassword });
+  if (!auth) return null;
+
+  if (!auth.session.mfa_verified_at) {
+    res.status(403).json({ success: false, message: 'Complete two-factor verification first' });
+    return null;
+  }
+  return auth;
+}
+
+/**
+ * Guard for admin routes: `requireMfaSession` plus the Admin role, as currently in `users`
+ * so a role change applies before the access token expires. Sends 403 for other users.
+ */
+export async function requireAdmin(req, res) {
+  const auth = await requireMfaSession(req, res);
+  if (!auth) return null;
+
+  if (auth.user.role !== 'Admin') {
+    res.status(403).json({ success: false, message: 'Administrator access required' });
+    return null;
+  }
+  return auth;
+}
@@ -0,0 +1,110 @@
+/**
+ * Supabase REST helpers for server-side handlers (service role; never shipped to the browser).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+ */
+
+export function supabaseBaseUrl() {
+  return process.env.SUPABASE_URL?.replace(/\/$/, '') || '';
+}
+
+export function isSupabaseConfigured() {
+  return Boolean(supabaseBaseUrl() && process.env.SUPABASE_SERVICE_ROLE_KEY);
+}
+
+export function supabaseHeaders() {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  return {
+    apikey: key,
+    Authorization: `Bearer ${key}`,
+    'Content-Type': 'application/json',
+  };
+}
+
+/** PostgREST `eq.` filter value, URL-encoded. */
+export function eq(value) {
+  return `eq.${encodeURIComponent(value)}`;
+}
+
+async function failOnError(res, action, table) {
+  if (res.ok) return;
+  const text = await res.text().catch(() => '');
+  throw new Error(`Supabase ${action} on ${table} failed (${res.status}): ${text}`);
+}
+
+export async function selectRows(table, query) {
+  const res = await fetch(`${supabaseBaseUrl()}/rest/v1/${table}?${query}`, {
+    headers: supabaseHeaders(),
+  });
+  await failOnError(res, 'select', table);
+  const rows = await res.json().catch(() => []);
+  return Array.isArray(rows) ? rows : [];
+}
+
+export async function selectOne(table, query) {
+  const rows = await selectRows(table, `${query}&limit=1`);
+  return rows[0] ?? null;
+}
+
+export async function countRows(table, query) {
+  const res = await fetch(`${supabaseBaseUrl()}/rest/v1/${table}?select=id&${query}`, {
+    method: 'HEAD',
+    headers: { ...supabaseHeaders(), Prefer: 'count=exact' },
+  });
+  await failOnError(res, 'count', table);
+  const range = res.headers.get('content-range') || '';
+  const total = parseInt(range.split('/')[1], 10);
+  return Number.isFinite(total) ? total : 0;
+}
+
+export async function insertRows(table, rows, { returnRows = false } = {}) {
+  const res = await fetch(`${supabaseBaseUrl()}/rest/v1/${table}`, {
+    method: 'POST',
+    headers: {
+      ...supabaseHeaders(),
+      Prefer: returnRows ? 'return=representation' : 'return=minimal',
+    },
+    body: JSON.stringify(rows),
+  });
+  await failOnError(res, 'insert', table);
+  return returnRows ? res.json() : null;
+}
+
+export async function updateRows(table, filter, patch, { returnRows = false } = {}) {
+  const res = await fetch(`${supabaseBaseUrl()}/rest/v1/${table}?${filter}`, {
+    method: 'PATCH',
+    headers: {
+      ...supabaseHeaders(),
+      Prefer: returnRows ? 'return=representation' : 'return=minimal',
+    },
+    body: JSON.stringify(patch),
+  });
+  await failOnError(res, 'update', table);
+  return returnRows ? res.json() : null;
+}
+
+export async function deleteRows(table, filter, { returnRows = false } = {}) {
+  const res = await fetch(`${supabaseBaseUrl()}/rest/v1/${table}?${filter}`, {
+    method: 'DELETE',
+    headers: {
+      ...supabaseHeaders(),
+      Prefer: returnRows ? 'return=representation' : 'return=minimal',
+    },
+  });
+  await failOnError(res, 'delete', table);
+  return returnRows ? res.json() : null;
+}
+
+/** Audit failures are logged, never thrown, so they never fail the request being audited. */
+export async function insertAuditLog(userId, action, ipAddress, userAgent, details) {
+  try {
+    await insertRows('audit_logs', {
+      user_id: userId,
+      action,
+      ip_address: ipAddress ?? null,
+      user_agent: userAgent ?? null,
+      details: details ?? null,
+    });
+  } catch (e) {
+    console.error('Failed to create audit log:', e);
+  }
+}
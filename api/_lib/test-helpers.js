@@ -0,0 +1,97 @@
+/**
+ * Fakes shared by the server tests (api/_lib/*.test.js): a stand-in for the Supabase REST
+ * API on `globalThis.fetch`, and Express-style request and response objects.
+ */
+
+const SERVICE_ENV = {
+  SUPABASE_URL: 'https://example.supabase.co',
+  SUPABASE_SERVICE_ROLE_KEY: 'service-role',
+  JWT_SIGNING_ALG: 'EdDSA',
+};
+
+/** Keep only the rows matching the query's `column=eq.value` filters on columns they have. */
+function filterRows(rows, params) {
+  return rows.filter((row) =>
+    [...params].every(
+      ([column, value]) =>
+        !(column in row) || !value.startsWith('eq.') || String(row[column]) === value.slice(3)
+    )
+  );
+}
+
+/**
+ * Serve `tables` to selects and record every write. Inserted rows are kept. PATCH and
+ * DELETE asking for `return=representation` answer with the patched row, or with none
+ * when `writesMatch` is false (a conditional update that lost to a concurrent one).
+ * `count` answers every `countRows`.
+ * @returns {{ tables: object, writes: Array<{ method: string, table: string, query: string,
+ *   body: object | null }> }}
+ */
+export function fakeSupabase(tables = {}, { count = 0, writesMatch = true } = {}) {
+  const writes = [];
+  globalThis.fetch = async (url, init = {}) => {
+    const { pathname, searchParams } = new URL(url);
+    const table = pathname.split('/').pop();
+    const method = init.method || 'GET';
+    if (method === 'HEAD') {
+      return new Response(null, { headers: { 'content-range': `*/${count}` } });
+    }
+    if (method === 'GET') {
+      return Response.json(filterRows(tables[table] || [], searchParams));
+    }
+
+    const body = init.body ? JSON.parse(init.body) : null;
+    writes.push({ method, table, query: decodeURIComponent(searchParams.toString()), body });
+    if (method === 'POST') {
+      tables[table] = [...(tables[table] || []), ...[].concat(body)];
+    }
+    if (!String(init.headers?.Prefer).includes('return=representation')) {
+      return new Response(null, { status: method === 'POST' ? 201 : 204 });
+    }
+    if (method === 'POST') {
+      return Response.json([].concat(body), { status: 201 });
+    }
+    const matched = writesMatch ? filterRows(tables[table] || [], searchParams).slice(0, 1) : [];
+    return Response.json(matched.map((row) => ({ ...row, ...body })));
+  };
+  return { tables, writes };
+}
+
+/** Writes recorded by fakeSupabase for one table and method. */
+export function writesTo(writes, table, method) {
+  return writes.filter((w) => w.table === table && w.method === method);
+}
+
+/** Point the service at the fake database; returns a function restoring fetch and env. */
+export function useFakeService(env = {}) {
+  const originalFetch = globalThis.fetch;
+  const originalEnv = { ...process.env };
+  Object.assign(process.env, SERVICE_ENV, env);
+  return () => {
+    globalThis.fetch = originalFetch;
+    process.env = originalEnv;
+  };
+}
+
+export function fakeRequest(body = {}, { headers = {}, ip = '203.0.113.7' } = {}) {
+  return { body, headers, ip };
+}
+
+export function fakeResponse() {
+  return {
+    statusCode: null,
+    body: null,
+    headers: {},
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+    setHeader(name, value) {
+      this.headers[name] = value;
+    },
+  };
+}
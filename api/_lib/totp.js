@@ -0,0 +1,350 @@
+/**
+ * Authenticator app and OATH token enrolment and checks at sign-in (server only).
+ * Seeds are stored encrypted (./mfa-secrets.js) and only decrypted here to check a code.
+ * Each credential keeps the parameters it was enrolled with (`otp_type` totp or hotp,
+ * `otp_algorithm`, `otp_digits`, `otp_period`); new ones take the TOTP_* settings.
+ *
+ * TOTP: each accepted code stores its time step (`totp_last_step`), and a code for that
+ * step or an earlier one is refused as a replay. The row also learns how far the user's
+ * clock is off (`totp_drift`, in steps): until the first sign-in codes are accepted ±2
+ * steps around the server time, afterwards only ±1 step around the learned drift.
+ *
+ * HOTP: `hotp_counter` is the next unused counter, and codes are accepted up to 10
+ * counters ahead of it. A token that drifted further is resynchronised with two
+ * consecutive codes within 100 counters.
+ *
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, MFA_MASTER_KEY, optional TOTP_ALGORITHM
+ *      (SHA1 | SHA256 | SHA512, default SHA1), TOTP_DIGITS (6 | 8, default 6),
+ *      TOTP_PERIOD (seconds, default 30), TOTP_ISSUER (default SecureAuth)
+ */
+
+import { authenticator, hotp } from 'otplib';
+import { clientInfo } from './http.js';
+import { enrollMfaMethod, getMfaMethod } from './mfa-methods.js';
+import { decryptMfaSecret, encryptMfaSecret, isMfaSecretKeyConfigured } from './mfa-secrets.js';
+import { requireMfaSession } from './sessions.js';
+import { eq, insertAuditLog, isSupabaseConfigured, selectOne, updateRows } from './supabase.js';
+
+export const OTP_TYPES = ['totp', 'hotp'];
+const OTP_ALGORITHMS = ['SHA1', 'SHA256', 'SHA512'];
+const OTP_DIGITS = [6, 8];
+
+const TOTP_WINDOW = 2; // steps either side while the drift is unknown
+const TOTP_DRIFT_WINDOW = 1; // steps either side of the learned drift
+const TOTP_MAX_DRIFT = 2; // learned drift is clamped to this many steps
+const HOTP_LOOK_AHEAD = 10; // counters past the stored one a code may belong to
+const HOTP_RESYNC_WINDOW = 100; // counters searched for two consecutive codes
+
+/**
+ * Parameters for newly enrolled credentials.
+ * @returns {{ algorithm: string, digits: number, period: number, issuer: string }}
+ */
+export function otpSettings() {
+  const algorithm = (process.env.TOTP_ALGORITHM || 'SHA1').trim().toUpperCase();
+  if (!OTP_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`Unsupported TOTP_ALGORITHM "${algorithm}" (use ${OTP_ALGORITHMS.join(', ')})`);
+  }
+  const digits = Number(process.env.TOTP_DIGITS || 6);
+  if (!OTP_DIGITS.includes(digits)) {
+    throw new Error(`Unsupported TOTP_DIGITS "${process.env.TOTP_DIGITS}" (use 6 or 8)`);
+  }
+  const period = Number(process.env.TOTP_PERIOD || 30);
+  if (!Number.isInteger(period) || period < 15 || period > 300) {
+    throw new Error(`Unsupported TOTP_PERIOD "${process.env.TOTP_PERIOD}" (use 15-300 seconds)`);
+  }
+  return { algorithm, digits, period, issuer: (process.env.TOTP_ISSUER || 'SecureAuth').trim() };
+}
+
+/** Code generator options for a stored credential row. */
+function credentialOptions(row) {
+  return {
+    algorithm: (row.otp_algorithm || 'SHA1').toLowerCase(),
+    digits: Number(row.otp_digits || 6),
+    period: Number(row.otp_period || 30),
+  };
+}
+
+function currentStep(now, period) {
+  return Math.floor(now / 1000 / period);
+}
+
+/** The time step `code` belongs to, searching around `drift` (null: not learned yet). */
+function matchStep(code, secret, drift, now, { algorithm, digits, period }) {
+  const center = drift ?? 0;
+  const checker = authenticator.clone({
+    algorithm,
+    digits,
+    step: period,
+    window: drift === null ? TOTP_WINDOW : TOTP_DRIFT_WINDOW,
+    epoch: now + center * period * 1000,
+  });
+  const delta = checker.checkDelta(code, secret);
+  return delta === null ? null : currentStep(now, period) + center + delta;
+}
+
+/** The first counter in [from, from + count) that `code` belongs to, or null. */
+function matchCounter(code, secret, from, count, { algorithm, digits }) {
+  const key = authenticator.decode(secret);
+  const generator = hotp.clone({ algorithm, digits, encoding: 'hex' });
+  for (let counter = from; counter < from + count; counter++) {
+    if (generator.check(code, key, counter)) return counter;
+  }
+  return null;
+}
+
+/** `otpauth://` URI for an authenticator app or token provisioning tool. */
+function otpauthUri(type, email, secret, { algorithm, digits, period, issuer }) {
+  const params = new URLSearchParams({ secret, issuer, algorithm, digits: String(digits) });
+  if (type === 'hotp') {
+    params.set('counter', '0');
+  } else {
+    params.set('period', String(period));
+  }
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(email)}`;
+  return `otpauth://${type}/${label}?${params.toString()}`;
+}
+
+async function verifyTotpStep(req, userId, row, secret, code) {
+  const options = credentialOptions(row);
+  const now = Date.now();
+  let step;
+  try {
+    step = matchStep(code, secret, row.totp_drift ?? null, now, options);
+  } catch {
+    return false;
+  }
+  if (step === null) return false;
+
+  // Conditional on the step read, so the same code cannot be accepted twice concurrently
+  const lastStep = row.totp_last_step;
+  const fresh = lastStep === null || lastStep === undefined || step > Number(lastStep);
+  const updated = fresh
+    ? await updateRows(
+        'user_mfa_methods',
+        `id=${eq(row.id)}&totp_last_step=${lastStep == null ? 'is.null' : `eq.${lastStep}`}`,
+        {
+          totp_last_step: step,
+          totp_drift: Math.max(
+            -TOTP_MAX_DRIFT,
+            Math.min(TOTP_MAX_DRIFT, step - currentStep(now, options.period))
+          ),
+        },
+        { returnRows: true }
+      )
+    : null;
+
+  if (!updated?.length) {
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(userId, 'TOTP replay rejected', ipAddress, userAgent, {
+      step,
+      lastStep: lastStep == null ? null : Number(lastStep),
+    });
+    return false;
+  }
+  return true;
+}
+
+async function verifyHotpCounter(req, userId, row, secret, code, nextCode) {
+  const options = credentialOptions(row);
+  const counter = Number(row.hotp_counter ?? 0);
+  let used;
+  let resynced = false;
+  try {
+    used = matchCounter(code, secret, counter, HOTP_LOOK_AHEAD, options);
+    // Out of sync: two consecutive codes further ahead move the counter (RFC 4226, 7.4)
+    if (used === null && nextCode) {
+      const first = matchCounter(code, secret, counter, HOTP_RESYNC_WINDOW, options);
+      if (first !== null && matchCounter(nextCode, secret, first + 1, 1, options) !== null) {
+        used = first + 1;
+        resynced = true;
+      }
+    }
+  } catch {
+    return false;
+  }
+  if (used === null) return false;
+
+  // Conditional on the counter read, so the same code cannot be accepted twice concurrently
+  const updated = await updateRows(
+    'user_mfa_methods',
+    `id=${eq(row.id)}&hotp_counter=eq.${counter}`,
+    { hotp_counter: used + 1 },
+    { returnRows: true }
+  );
+  if (!updated?.length) return false;
+
+  if (resynced) {
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(userId, 'HOTP counter resynchronized', ipAddress, userAgent, {
+      from: counter,
+      to: used + 1,
+    });
+  }
+  return true;
+}
+
+/**
+ * Check a code from the user's authenticator app or OATH token and mark it used. A
+ * replayed TOTP code is refused and audited as `TOTP replay rejected`. For HOTP,
+ * `nextCode` (the token's following code) resynchronises a counter that drifted.
+ */
+export async function verifyTotpCode(req, userId, code, nextCode = '') {
+  const row = await selectOne(
+    'user_mfa_methods',
+    'select=id,secret,otp_type,otp_algorithm,otp_digits,otp_period,totp_last_step,totp_drift,' +
+      `hotp_counter&user_id=${eq(userId)}&method=eq.totp`
+  );
+  const codePattern = new RegExp(`^\\d{${credentialOptions(row ?? {}).digits}}$`);
+  if (!row?.secret || !codePattern.test(code)) return false;
+  if (!isMfaSecretKeyConfigured()) {
+    console.error('totp verify: MFA_MASTER_KEY is not configured');
+    return false;
+  }
+  // Plaintext seeds (not yet migrated) and seeds copied from another user do not decrypt
+  const secret = decryptMfaSecret(row.secret, userId);
+  if (!secret) return false;
+
+  return row.otp_type === 'hotp'
+    ? verifyHotpCounter(req, userId, row, secret, code, codePattern.test(nextCode) ? nextCode : '')
+    : verifyTotpStep(req, userId, row, secret, code);
+}
+
+/** 503 body when the database or MFA_MASTER_KEY is missing, or null when configured. */
+function missingConfig() {
+  if (!isSupabaseConfigured()) {
+    return {
+      error: 'Auth service not configured',
+      message: 'Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+    };
+  }
+  if (!isMfaSecretKeyConfigured()) {
+    return { error: 'MFA service not configured', message: 'Set MFA_MASTER_KEY' };
+  }
+  return null;
+}
+
+/** 409 body while the user already has an authenticator app or token enrolled. */
+const ALREADY_ENROLLED = {
+  success: false,
+  message: 'An authenticator is already set up. Remove it before adding another.',
+};
+
+/**
+ * POST /api/auth/mfa/totp-setup-options — { type? } + bearer token (MFA-verified session)
+ * A new seed and its `otpauth://` URI (for the QR code) with this deployment's parameters.
+ * `type` is `totp` (default) or `hotp`. Nothing is stored until /api/auth/mfa/totp-setup.
+ */
+export async function handleTotpSetupOptions(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const type = (req.body?.type || 'totp').toString();
+    if (!OTP_TYPES.includes(type)) {
+      return res.status(400).json({ error: `type must be ${OTP_TYPES.join(' or ')}` });
+    }
+
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+    if (await getMfaMethod(auth.userId, 'totp')) {
+      return res.status(409).json(ALREADY_ENROLLED);
+    }
+
+    const user = await selectOne('users', `select=email&id=${eq(auth.userId)}`);
+    if (!user?.email) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const settings = otpSettings();
+    const secret = authenticator.generateSecret(20);
+    return res.status(200).json({
+      success: true,
+      type,
+      secret,
+      uri: otpauthUri(type, user.email, secret, settings),
+      algorithm: settings.algorithm,
+      digits: settings.digits,
+      period: settings.period,
+    });
+  } catch (e) {
+    console.error('totp setup options:', e);
+    return res.status(500).json({ success: false, message: 'Could not start authenticator setup' });
+  }
+}
+
+/**
+ * POST /api/auth/mfa/totp-setup — { secret, code, type? } + bearer token (MFA-verified session)
+ * Enrols the seed from /api/auth/mfa/totp-setup-options once `code` proves the app or
+ * token holds it. The seed is stored encrypted with this deployment's parameters, and the
+ * code (its time step, or its HOTP counter) counts as used. An enrolled authenticator is
+ * never replaced (409); it has to be removed first.
+ */
+export async function handleTotpSetup(req, res) {
+  try {
+    const configError = missingConfig();
+    if (configError) {
+      return res.status(503).json(configError);
+    }
+
+    const secret = (req.body?.secret || '').toString().trim().toUpperCase();
+    const code = (req.body?.code || '').toString().trim();
+    const type = (req.body?.type || 'totp').toString();
+    if (!/^[A-Z2-7]{16,}=*$/.test(secret) || !code || !OTP_TYPES.includes(type)) {
+      return res.status(400).json({ error: 'secret (base32), code and type (totp, hotp) are required' });
+    }
+
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const settings = otpSettings();
+    const credential = {
+      otp_type: type,
+      otp_algorithm: settings.algorithm,
+      otp_digits: settings.digits,
+      otp_period: settings.period,
+    };
+    const options = credentialOptions(credential);
+
+    let used = null;
+    if (new RegExp(`^\\d{${settings.digits}}$`).test(code)) {
+      try {
+        used =
+          type === 'hotp'
+            ? matchCounter(code, secret, 0, HOTP_LOOK_AHEAD, options)
+            : matchStep(code, secret, null, Date.now(), options);
+      } catch {
+        used = null;
+      }
+    }
+    if (used === null) {
+      return res.status(401).json({ success: false, message: 'Invalid code' });
+    }
+
+    // A new seed starts with the clock drift unknown
+    const enrolled = await enrollMfaMethod(auth.userId, 'totp', {
+      secret: encryptMfaSecret(secret, auth.userId),
+      ...credential,
+      totp_last_step: type === 'totp' ? used : null,
+      totp_drift: null,
+      hotp_counter: type === 'hotp' ? used + 1 : 0,
+    });
+    if (!enrolled) {
+      return res.status(409).json(ALREADY_ENROLLED);
+    }
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(
+      auth.userId,
+      type === 'hotp' ? 'HOTP MFA enabled' : 'TOTP MFA enabled',
+      ipAddress,
+      userAgent,
+      { algorithm: settings.algorithm, digits: settings.digits }
+    );
+
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('totp setup:', e);
+    return res.status(500).json({ success: false, message: 'Could not enable the authenticator app' });
+  }
+}
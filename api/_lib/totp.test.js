@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { randomBytes } from 'node:crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { authenticator } from 'otplib';
+import { encryptMfaSecret } from './mfa-secrets.js';
+import { verifyTotpCode } from './totp.js';
+import { fakeRequest, fakeSupabase, useFakeService, writesTo } from './test-helpers.js';
+
+const PERIOD_MS = 30 * 1000;
+const SEED = authenticator.generateSecret(20);
+
+/** The code for `stepsOff` time steps from now, and the step it belongs to. */
+function codeAt(stepsOff) {
+  const epoch = Date.now() + stepsOff * PERIOD_MS;
+  return {
+    code: authenticator.clone({ epoch }).generate(SEED),
+    step: Math.floor(epoch / PERIOD_MS),
+  };
+}
+
+function methodRow(fields = {}) {
+  return {
+    id: 'method-1',
+    user_id: 'user-1',
+    method: 'totp',
+    secret: encryptMfaSecret(SEED, 'user-1'),
+    otp_type: 'totp',
+    otp_algorithm: 'SHA1',
+    otp_digits: 6,
+    otp_period: 30,
+    totp_last_step: null,
+    totp_drift: null,
+    hotp_counter: 0,
+    ...fields,
+  };
+}
+
+describe('totp: verifyTotpCode', () => {
+  let restore;
+  beforeEach(() => {
+    restore = useFakeService({ MFA_MASTER_KEY: randomBytes(32).toString('base64') });
+  });
+  afterEach(() => restore());
+
+  it('accepts a current code and stores its step', async () => {
+    const { code, step } = codeAt(0);
+    const { writes } = fakeSupabase({ user_mfa_methods: [methodRow()] });
+
+    assert.equal(await verifyTotpCode(fakeRequest(), 'user-1', code), true);
+    const [patch] = writesTo(writes, 'user_mfa_methods', 'PATCH');
+    assert.equal(patch.body.totp_last_step, step);
+    assert.match(patch.query, /totp_last_step=is\.null/);
+  });
+
+  it('rejects and audits a code whose step was already used', async () => {
+    const { code, step } = codeAt(0);
+    const { writes } = fakeSupabase({
+      user_mfa_methods: [methodRow({ totp_last_step: step, totp_drift: 0 })],
+    });
+
+    assert.equal(await verifyTotpCode(fakeRequest(), 'user-1', code), false);
+    assert.equal(writesTo(writes, 'user_mfa_methods', 'PATCH').length, 0);
+    const [audit] = writesTo(writes, 'audit_logs', 'POST');
+    assert.equal(audit.body.action, 'TOTP replay rejected');
+    assert.deepEqual(audit.body.details, { step, lastStep: step });
+  });
+
+  it('rejects a code for an earlier step than the last one used', async () => {
+    const { code, step } = codeAt(-1);
+    fakeSupabase({ user_mfa_methods: [methodRow({ totp_last_step: step + 1, totp_drift: 0 })] });
+
+    assert.equal(await verifyTotpCode(fakeRequest(), 'user-1', code), false);
+  });
+
+  it('rejects the code when a concurrent sign-in used the step first', async () => {
+    const { code } = codeAt(0);
+    fakeSupabase({ user_mfa_methods: [methodRow()] }, { writesMatch: false });
+
+    assert.equal(await verifyTotpCode(fakeRequest(), 'user-1', code), false);
+  });
+
+  it('learns the drift of a clock two steps behind on the first sign-in', async () => {
+    const { code } = codeAt(-2);
+    const { writes } = fakeSupabase({ user_mfa_methods: [methodRow()] });
+
+    assert.equal(await verifyTotpCode(fakeRequest(), 'user-1', code), true);
+    const [patch] = writesTo(writes, 'user_mfa_methods', 'PATCH');
+    assert.equal(patch.body.totp_drift, -2);
+  });
+
+  it('narrows the window to the learned drift', async () => {
+    const behind = codeAt(-2);
+    fakeSupabase({ user_mfa_methods: [methodRow({ totp_drift: 0 })] });
+    assert.equal(await verifyTotpCode(fakeRequest(), 'user-1', behind.code), false);
+
+    const drifted = codeAt(-3);
+    fakeSupabase({ user_mfa_methods: [methodRow({ totp_drift: -2 })] });
+    assert.equal(await verifyTotpCode(fakeRequest(), 'user-1', drifted.code), true);
+  });
+
+  it('does not accept a seed encrypted for another user', async () => {
+    const { code } = codeAt(0);
+    fakeSupabase({ user_mfa_methods: [methodRow({ secret: encryptMfaSecret(SEED, 'user-2') })] });
+
+    assert.equal(await verifyTotpCode(fakeRequest(), 'user-1', code), false);
+  });
+});
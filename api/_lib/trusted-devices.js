@@ -0,0 +1,187 @@
+/**
+ * Trusted devices (server only).
+ * After a successful second factor the user can trust the browser: it receives a signed
+ * device token, and password sign-ins presenting that token skip MFA until it expires.
+ * The token is bound to its `trusted_devices` row (stored as a SHA-256 hash) and to the
+ * browser and OS in the User-Agent, so a copied token is useless on another platform.
+ * Deleting the row revokes the device; password changes and MFA resets delete them all.
+ * Settings lists and revokes devices through the handlers below, never through the anon key.
+ * Env: TRUSTED_DEVICE_DAYS (optional, default 30)
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { clientInfo } from './http.js';
+import { generateDeviceToken, verifyDeviceToken } from './jwt.js';
+import { requireMfaSession } from './sessions.js';
+import {
+  deleteRows,
+  eq,
+  insertAuditLog,
+  insertRows,
+  selectOne,
+  selectRows,
+  updateRows,
+} from './supabase.js';
+
+const DEFAULT_TRUSTED_DEVICE_DAYS = 30;
+
+/** How long a device stays trusted, in days. */
+export function trustedDeviceDays() {
+  const days = Number(process.env.TRUSTED_DEVICE_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRUSTED_DEVICE_DAYS;
+}
+
+function sha256(value) {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Version numbers are dropped so browser updates keep the device trusted
+function platformHash(userAgent) {
+  return sha256((userAgent || '').replace(/[\d._]+/g, ''));
+}
+
+/**
+ * Trust the requesting browser for `trustedDeviceDays()`.
+ * @returns {Promise<{ deviceToken: string, expiresAt: string }>}
+ */
+export async function trustDevice(req, userId) {
+  const { ipAddress, userAgent } = clientInfo(req);
+  const id = randomUUID();
+  const expiresIn = Math.round(trustedDeviceDays() * 24 * 60 * 60);
+  const createdAt = new Date();
+  const expiresAt = new Date(createdAt.getTime() + expiresIn * 1000).toISOString();
+  const deviceToken = await generateDeviceToken(userId, id, expiresIn);
+
+  await insertRows('trusted_devices', {
+    id,
+    user_id: userId,
+    token_hash: sha256(deviceToken),
+    platform_hash: platformHash(userAgent),
+    user_agent: userAgent,
+    ip_address: ipAddress,
+    created_at: createdAt.toISOString(),
+    expires_at: expiresAt,
+  });
+  await insertAuditLog(userId, 'Trusted device added', ipAddress, userAgent, {
+    deviceId: id,
+    expiresAt,
+  });
+
+  return { deviceToken, expiresAt };
+}
+
+/**
+ * Whether `deviceToken` is a live trusted device of `userId`, presented from the
+ * platform it was issued to. Records the use when it is.
+ */
+export async function isTrustedDevice(req, userId, deviceToken) {
+  const payload = await verifyDeviceToken(deviceToken);
+  if (!payload || payload.userId !== userId) return false;
+
+  const device = await selectOne(
+    'trusted_devices',
+    `select=id,user_id,token_hash,platform_hash,expires_at&id=${eq(payload.deviceId)}`
+  );
+  if (!device || device.user_id !== userId) return false;
+  if (new Date(device.expires_at).getTime() <= Date.now()) return false;
+
+  const { ipAddress, userAgent } = clientInfo(req);
+  if (device.token_hash !== sha256(deviceToken)) return false;
+  if (device.platform_hash !== platformHash(userAgent)) return false;
+
+  await updateRows('trusted_devices', `id=${eq(device.id)}`, {
+    last_used_at: new Date().toISOString(),
+    ip_address: ipAddress,
+  });
+  return true;
+}
+
+function toTrustedDevice(row) {
+  return {
+    id: row.id,
+    userAgent: row.user_agent,
+    ipAddress: row.ip_address,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * POST /api/auth/trusted-devices/list — bearer token (MFA-verified session)
+ * The user's unexpired trusted devices, newest first.
+ */
+export async function handleListTrustedDevices(req, res) {
+  try {
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const rows = await selectRows(
+      'trusted_devices',
+      'select=id,user_agent,ip_address,created_at,last_used_at,expires_at' +
+        `&user_id=${eq(auth.userId)}&expires_at=gt.${encodeURIComponent(new Date().toISOString())}` +
+        '&order=created_at.desc'
+    );
+    return res.status(200).json({ success: true, devices: rows.map(toTrustedDevice) });
+  } catch (e) {
+    console.error('trusted devices list:', e);
+    return res.status(500).json({ success: false, message: 'Could not load trusted devices' });
+  }
+}
+
+/**
+ * POST /api/auth/trusted-devices/revoke — { deviceId } + bearer token (MFA-verified session)
+ * Stops trusting one device; its next sign-in asks for the second factor again.
+ */
+export async function handleRevokeTrustedDevice(req, res) {
+  try {
+    const deviceId = (req.body?.deviceId || '').toString().trim();
+    if (!deviceId) {
+      return res.status(400).json({ error: 'deviceId is required' });
+    }
+
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const [revoked] =
+      (await deleteRows('trusted_devices', `id=${eq(deviceId)}&user_id=${eq(auth.userId)}`, {
+        returnRows: true,
+      })) || [];
+    if (!revoked) {
+      return res.status(404).json({ success: false, message: 'Trusted device not found' });
+    }
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'Trusted device revoked', ipAddress, userAgent, {
+      deviceId: revoked.id,
+      userAgent: revoked.user_agent,
+    });
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('trusted device revoke:', e);
+    return res.status(500).json({ success: false, message: 'Could not revoke the trusted device' });
+  }
+}
+
+/**
+ * POST /api/auth/trusted-devices/clear — bearer token (MFA-verified session)
+ * Stops trusting every device of the user.
+ */
+export async function handleClearTrustedDevices(req, res) {
+  try {
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const revoked = await deleteRows('trusted_devices', `user_id=${eq(auth.userId)}`, {
+      returnRows: true,
+    });
+    const count = revoked?.length ?? 0;
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'Trusted devices revoked', ipAddress, userAgent, { count });
+    return res.status(200).json({ success: true, revoked: count });
+  } catch (e) {
+    console.error('trusted devices clear:', e);
+    return res.status(500).json({ success: false, message: 'Could not revoke trusted devices' });
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * User profiles (server only).
+ * `user_profiles` holds the optional personal details of an account: display name,
+ * avatar URL, contact phone, time zone and locale. Users read and edit their own profile
+ * through these handlers, which validate every field. The browser may read only the
+ * display name and avatar of other users (column grants in the migration), for admin
+ * lists and audit logs.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { clientInfo } from './http.js';
+import { requireSession } from './sessions.js';
+import { eq, insertAuditLog, insertRows, selectOne, updateRows } from './supabase.js';
+
+const PROFILE_COLUMNS = 'display_name,avatar_url,phone,timezone,locale,updated_at';
+const MAX_DISPLAY_NAME_LENGTH = 80;
+const MAX_AVATAR_URL_LENGTH = 2048;
+
+function toProfile(row) {
+  return {
+    displayName: row?.display_name ?? null,
+    avatarUrl: row?.avatar_url ?? null,
+    phone: row?.phone ?? null,
+    timezone: row?.timezone ?? null,
+    locale: row?.locale ?? null,
+    updatedAt: row?.updated_at ?? null,
+  };
+}
+
+function canonicalTimeZone(value) {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: value }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+function canonicalLocale(value) {
+  try {
+    return Intl.getCanonicalLocales(value)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function httpsUrl(value) {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && value.length <= MAX_AVATAR_URL_LENGTH ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The editable fields: their column, and how to turn trimmed, non-empty input into the
+ * stored value (null when the input is invalid, with `message` explaining why).
+ */
+const FIELDS = {
+  displayName: {
+    column: 'display_name',
+    normalize: (value) =>
+      value.length <= MAX_DISPLAY_NAME_LENGTH && !/[\u0000-\u001f\u007f<>]/.test(value)
+        ? value.replace(/\s+/g, ' ')
+        : null,
+    message: `Display name must be at most ${MAX_DISPLAY_NAME_LENGTH} characters, without < or >`,
+  },
+  avatarUrl: {
+    column: 'avatar_url',
+    normalize: httpsUrl,
+    message: `Avatar must be an https:// URL of at most ${MAX_AVATAR_URL_LENGTH} characters`,
+  },
+  phone: {
+    column: 'phone',
+    normalize: (value) => {
+      const phone = value.replace(/[\s().-]/g, '');
+      return /^\+[1-9]\d{7,14}$/.test(phone) ? phone : null;
+    },
+    message: 'Phone must be in international format, e.g. +639171234567',
+  },
+  timezone: {
+    column: 'timezone',
+    normalize: canonicalTimeZone,
+    message: 'Time zone must be an IANA time zone, e.g. Asia/Manila',
+  },
+  locale: {
+    column: 'locale',
+    normalize: canonicalLocale,
+    message: 'Locale must be a language tag, e.g. en-PH',
+  },
+};
+
+/**
+ * Validate the profile fields present in `input` (others are left unchanged). Empty
+ * input clears a field.
+ * @returns {{ patch: object, errors: { field: string, message: string }[] }}
+ */
+function parseProfileInput(input) {
+  const patch = {};
+  const errors = [];
+  for (const [field, { column, normalize, message }] of Object.entries(FIELDS)) {
+    if (input?.[field] === undefined) continue;
+    const value = (input[field] ?? '').toString().trim();
+    const stored = value ? normalize(value) : null;
+    if (value && stored === null) {
+      errors.push({ field, message });
+    } else {
+      patch[column] = stored;
+    }
+  }
+  return { patch, errors };
+}
+
+/**
+ * POST /api/auth/profile/get — bearer token
+ * The signed-in user's profile (all fields null until first saved).
+ */
+export async function handleGetProfile(req, res) {
+  try {
+    const auth = await requireSession(req, res);
+    if (!auth) return;
+
+    const row = await selectOne(
+      'user_profiles',
+      `select=${PROFILE_COLUMNS}&user_id=${eq(auth.userId)}`
+    );
+    return res.status(200).json({ success: true, profile: toProfile(row) });
+  } catch (e) {
+    console.error('profile get:', e);
+    return res.status(500).json({ success: false, message: 'Could not load the profile' });
+  }
+}
+
+/**
+ * POST /api/auth/profile/update — { displayName?, avatarUrl?, phone?, timezone?, locale? }
+ * + bearer token
+ * Updates the fields given; an empty value clears one. Invalid fields fail the whole
+ * update with a 400 listing them in `errors`.
+ */
+export async function handleUpdateProfile(req, res) {
+  try {
+    const auth = await requireSession(req, res);
+    if (!auth) return;
+
+    const { patch, errors } = parseProfileInput(req.body);
+    if (errors.length) {
+      return res.status(400).json({
+        success: false,
+        message: errors.map((e) => e.message).join('. '),
+        errors,
+      });
+    }
+    if (!Object.keys(patch).length) {
+      return res.status(400).json({ error: 'No profile fields given' });
+    }
+
+    const updatedAt = new Date().toISOString();
+    const existing = await selectOne('user_profiles', `select=user_id&user_id=${eq(auth.userId)}`);
+    const [row] = existing
+      ? await updateRows(
+          'user_profiles',
+          `user_id=${eq(auth.userId)}`,
+          { ...patch, updated_at: updatedAt },
+          { returnRows: true }
+        )
+      : await insertRows(
+          'user_profiles',
+          { user_id: auth.userId, ...patch, updated_at: updatedAt },
+          { returnRows: true }
+        );
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'Profile updated', ipAddress, userAgent, {
+      fields: Object.keys(FIELDS).filter((field) => req.body[field] !== undefined),
+    });
+
+    return res.status(200).json({ success: true, profile: toProfile(row) });
+  } catch (e) {
+    console.error('profile update:', e);
+    return res.status(500).json({ success: false, message: 'Could not save the profile' });
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * The signed-in user's own sessions, for Settings (server only).
+ * Lists the user's `sessions` rows without their tokens and revokes them. The user is
+ * always taken from the bearer token, never from the request body, and each revocation
+ * writes its audit entry here.
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { clientInfo } from './http.js';
+import { requireMfaSession } from './sessions.js';
+import { deleteRows, eq, insertAuditLog, selectRows } from './supabase.js';
+
+function toSession(row) {
+  return {
+    id: row.id,
+    familyId: row.family_id,
+    userAgent: row.user_agent,
+    ipAddress: row.ip_address,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at || row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * POST /api/auth/sessions/list — bearer token (MFA-verified session)
+ * The user's sessions, most recently active first.
+ */
+export async function handleListSessions(req, res) {
+  try {
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const rows = await selectRows(
+      'sessions',
+      'select=id,family_id,user_agent,ip_address,created_at,last_seen_at,expires_at' +
+        `&user_id=${eq(auth.userId)}&order=last_seen_at.desc.nullslast`
+    );
+    return res.status(200).json({ success: true, sessions: rows.map(toSession) });
+  } catch (e) {
+    console.error('sessions list:', e);
+    return res.status(500).json({ success: false, message: 'Could not load sessions' });
+  }
+}
+
+/**
+ * POST /api/auth/sessions/revoke — { sessionId } + bearer token (MFA-verified session)
+ * Signs out one of the user's sessions; its tokens stop working on the next request.
+ */
+export async function handleRevokeSession(req, res) {
+  try {
+    const sessionId = (req.body?.sessionId || '').toString().trim();
+    if (!sessionId) {
+      return res.status(400).json({ error: 'sessionId is required' });
+    }
+
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const [revoked] =
+      (await deleteRows('sessions', `id=${eq(sessionId)}&user_id=${eq(auth.userId)}`, {
+        returnRows: true,
+      })) || [];
+    if (!revoked) {
+      return res.status(404).json({ success: false, message: 'Session not found' });
+    }
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'Session revoked', ipAddress, userAgent, {
+      sessionId: revoked.id,
+      userAgent: revoked.user_agent,
+      ipAddress: revoked.ip_address,
+    });
+    return res.status(200).json({ success: true });
+  } catch (e) {
+    console.error('session revoke:', e);
+    return res.status(500).json({ success: false, message: 'Could not revoke the session' });
+  }
+}
+
+/**
+ * POST /api/auth/sessions/revoke-others — bearer token (MFA-verified session)
+ * Signs out every session of the user except the caller's own sign-in.
+ */
+export async function handleRevokeOtherSessions(req, res) {
+  try {
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const revoked = await deleteRows(
+      'sessions',
+      `user_id=${eq(auth.userId)}&id=neq.${encodeURIComponent(auth.session.id)}`,
+      { returnRows: true }
+    );
+    const count = revoked?.length ?? 0;
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'Other sessions revoked', ipAddress, userAgent, {
+      count,
+      keptSessionId: auth.session.id,
+    });
+    return res.status(200).json({ success: true, revoked: count });
+  } catch (e) {
+    console.error('sessions revoke others:', e);
+    return res.status(500).json({ success: false, message: 'Could not sign out other sessions' });
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * WebAuthn security keys and passkeys (server only).
+ * Challenges are generated here, stored single-use in `webauthn_challenges` and checked
+ * against the browser's response, so a ceremony cannot be replayed or completed elsewhere.
+ * Registered credentials (public keys only) live in `webauthn_credentials`.
+ * Env: WEBAUTHN_RP_ID, WEBAUTHN_ORIGIN (comma-separated), optional WEBAUTHN_RP_NAME.
+ *      Without them the relying party is taken from the request's Origin (local development).
+ */
+
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import { decodeClientDataJSON, isoBase64URL, isoUint8Array } from '@simplewebauthn/server/helpers';
+import { clientInfo } from './http.js';
+import { enrollMfaMethod } from './mfa-methods.js';
+import { requireMfaSession, requireSession } from './sessions.js';
+import {
+  deleteRows,
+  eq,
+  insertAuditLog,
+  insertRows,
+  isSupabaseConfigured,
+  selectOne,
+  selectRows,
+  updateRows,
+} from './supabase.js';
+
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+/** Relying party for this request: `{ rpID, rpName, origins }`. */
+function relyingParty(req) {
+  const requestOrigin = (req.headers.origin || '').toString();
+  const origins = process.env.WEBAUTHN_ORIGIN
+    ? process.env.WEBAUTHN_ORIGIN.split(',').map((o) => o.trim()).filter(Boolean)
+    : [requestOrigin].filter(Boolean);
+
+  let rpID = process.env.WEBAUTHN_RP_ID || '';
+  if (!rpID && origins[0]) {
+    try {
+      rpID = new URL(origins[0]).hostname;
+    } catch {
+      rpID = '';
+    }
+  }
+
+  return { rpID, rpName: process.env.WEBAUTHN_RP_NAME || 'SecureAuth', origins };
+}
+
+function misconfigured(res) {
+  return res.status(503).json({
+    error: 'WebAuthn not configured',
+    message: 'Set WEBAUTHN_RP_ID and WEBAUTHN_ORIGIN',
+  });
+}
+
+async function storeChallenge(challenge, purpose, userId) {
+  // Sign-in options are requested anonymously, so abandoned challenges are swept here
+  await deleteRows(
+    'webauthn_challenges',
+    `expires_at=lt.${encodeURIComponent(new Date().toISOString())}`
+  );
+  await insertRows('webauthn_challenges', {
+    challenge,
+    purpose,
+    user_id: userId,
+    expires_at: new Date(Date.now() + CHALLENGE_TTL_SECONDS * 1000).toISOString(),
+  });
+}
+
+/**
+ * Take the challenge out of a ceremony response and delete its row (single use).
+ * @returns {Promise<string | null>} The challenge, or null if unknown, expired or not this user's
+ */
+async function consumeChallenge(response, purpose, userId) {
+  let challenge;
+  try {
+    challenge = decodeClientDataJSON(response.response.clientDataJSON).challenge;
+  } catch {
+    return null;
+  }
+
+  const userFilter = userId ? `user_id=${eq(userId)}` : 'user_id=is.null';
+  const rows = await deleteRows(
+    'webauthn_challenges',
+    `challenge=${eq(challenge)}&purpose=${eq(purpose)}&${userFilter}`,
+    { returnRows: true }
+  );
+  const row = rows?.[0];
+  if (!row || new Date(row.expires_at).getTime() < Date.now()) return null;
+  return challenge;
+}
+
+function toStoredCredential(row) {
+  return {
+    id: row.credential_id,
+    publicKey: isoBase64URL.toBuffer(row.public_key),
+    counter: Number(row.counter) || 0,
+    transports: row.transports || undefined,
+  };
+}
+
+async function userCredentials(userId) {
+  return selectRows(
+    'webauthn_credentials',
+    `select=credential_id,transports&user_id=${eq(userId)}`
+  );
+}
+
+/**
+ * Check an assertion against the stored credential and advance its signature counter.
+ * @returns {Promise<object | null>} The credential row, or null
+ */
+async function verifyAssertion(req, response, purpose, userId, requireUserVerification) {
+  const { rpID, origins } = relyingParty(req);
+  if (!rpID || !origins.length || !response?.id) return null;
+
+  const expectedChallenge = await consumeChallenge(response, purpose, userId);
+  if (!expectedChallenge) return null;
+
+  const row = await selectOne(
+    'webauthn_credentials',
+    `select=id,user_id,credential_id,public_key,counter,transports&credential_id=${eq(response.id)}`
+  );
+  if (!row || (userId && row.user_id !== userId)) return null;
+
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: origins,
+      expectedRPID: rpID,
+      credential: toStoredCredential(row),
+      requireUserVerification,
+    });
+  } catch (e) {
+    console.error('webauthn assertion:', e.message);
+    return null;
+  }
+  if (!verification.verified) return null;
+
+  await updateRows('webauthn_credentials', `id=${eq(row.id)}`, {
+    counter: verification.authenticationInfo.newCounter,
+    last_used_at: new Date().toISOString(),
+  });
+  return row;
+}
+
+/** Second factor: an assertion from one of `userId`'s credentials (see ./mfa.js). */
+export async function verifyPasskeyAssertion(req, userId, response) {
+  return Boolean(await verifyAssertion(req, response, 'mfa', userId, false));
+}
+
+/**
+ * Passwordless sign-in: a user-verified assertion from any registered passkey.
+ * @returns {Promise<string | null>} The credential owner's user id, or null
+ */
+export async function verifyPasskeyLogin(req, response) {
+  const row = await verifyAssertion(req, response, 'login', null, true);
+  return row?.user_id ?? null;
+}
+
+/**
+ * POST /api/auth/webauthn/register-options — `Authorization: Bearer <accessToken>`
+ * (MFA-verified session)
+ * Creation options for a new security key or passkey on the signed-in account.
+ */
+export async function handleRegisterOptions(req, res) {
+  try {
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const { rpID, rpName, origins } = relyingParty(req);
+    if (!rpID || !origins.length) {
+      return misconfigured(res);
+    }
+
+    const existing = await userCredentials(auth.userId);
+    const options = await generateRegistrationOptions({
+      rpName,
+      rpID,
+      userName: auth.payload.email,
+      userID: isoUint8Array.fromUTF8String(auth.userId),
+      attestationType: 'none',
+      excludeCredentials: existing.map((c) => ({
+        id: c.credential_id,
+        transports: c.transports || undefined,
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred',
+      },
+    });
+    await storeChallenge(options.challenge, 'registration', auth.userId);
+
+    return res.status(200).json({ success: true, options });
+  } catch (e) {
+    console.error('webauthn register options:', e);
+    return res.status(500).json({ success: false, message: 'Could not start registration' });
+  }
+}
+
+/**
+ * POST /api/auth/webauthn/register-verify — { response, name? } + bearer token (MFA-verified
+ * session)
+ * Stores the new credential and enrols WebAuthn as one of the account's second factors.
+ */
+export async function handleRegisterVerify(req, res) {
+  try {
+    const response = req.body?.response;
+    const name = (req.body?.name || '').toString().trim().slice(0, 100) || 'Security key';
+    if (!response?.id) {
+      return res.status(400).json({ error: 'response is required' });
+    }
+
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+
+    const { rpID, origins } = relyingParty(req);
+    if (!rpID || !origins.length) {
+      return misconfigured(res);
+    }
+
+    const expectedChallenge = await consumeChallenge(response, 'registration', auth.userId);
+    if (!expectedChallenge) {
+      return res.status(400).json({ success: false, message: 'Registration expired. Please try again.' });
+    }
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: origins,
+        expectedRPID: rpID,
+        requireUserVerification: false,
+      });
+    } catch (e) {
+      console.error('webauthn registration:', e.message);
+      verification = null;
+    }
+    if (!verification?.verified) {
+      return res.status(400).json({ success: false, message: 'Security key could not be verified' });
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+    const [row] = await insertRows(
+      'webauthn_credentials',
+      {
+        user_id: auth.userId,
+        credential_id: credential.id,
+        public_key: isoBase64URL.fromBuffer(credential.publicKey),
+        counter: credential.counter,
+        transports: credential.transports || null,
+        device_type: credentialDeviceType,
+        backed_up: credentialBackedUp,
+        name,
+      },
+      { returnRows: true }
+    );
+
+    await enrollMfaMethod(auth.userId, 'webauthn');
+
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(auth.userId, 'WebAuthn credential registered', ipAddress, userAgent, {
+      credentialId: row.id,
+      name,
+      deviceType: credentialDeviceType,
+    });
+
+    return res.status(200).json({ success: true, credential: { id: row.id, name } });
+  } catch (e) {
+    console.error('webauthn register verify:', e);
+    return res.status(500).json({ success: false, message: 'Registration failed' });
+  }
+}
+
+/**
+ * POST /api/auth/webauthn/authenticate-options — bearer token
+ * Request options for the second factor; the response goes to /api/auth/mfa/verify.
+ */
+export async function handleAuthenticateOptions(req, res) {
+  try {
+    const auth = await requireSession(req, res, { allowExpiredPassword: true });
+    if (!auth) return;
+
+    const { rpID, origins } = relyingParty(req);
+    if (!rpID || !origins.length) {
+      return misconfigured(res);
+    }
+
+    const credentials = await userCredentials(auth.userId);
+    if (!credentials.length) {
+      return res.status(400).json({ success: false, message: 'No security keys are registered' });
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID,
+      allowCredentials: credentials.map((c) => ({
+        id: c.credential_id,
+        transports: c.transports || undefined,
+      })),
+      userVerification: 'preferred',
+    });
+    await storeChallenge(options.challenge, 'mfa', auth.userId);
+
+    return res.status(200).json({ success: true, options });
+  } catch (e) {
+    console.error('webauthn authenticate options:', e);
+    return res.status(500).json({ success: false, message: 'Could not start verification' });
+  }
+}
+
+/**
+ * POST /api/auth/webauthn/login-options
+ * Request options for passkey-only sign-in (no account is named; the passkey picks it).
+ * The response goes to /api/auth/webauthn/login-verify.
+ */
+export async function handleLoginOptions(req, res) {
+  try {
+    if (!isSupabaseConfigured()) {
+      return res.status(503).json({
+        error: 'Auth service not configured',
+        message: 'Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
+      });
+    }
+
+    const { rpID, origins } = relyingParty(req);
+    if (!rpID || !origins.length) {
+      return misconfigured(res);
+    }
+
+    const options = await generateAuthenticationOptions({ rpID, userVerification: 'required' });
+    await storeChallenge(options.challenge, 'login', null);
+
+    return res.status(200).json({ success: true, options });
+  } catch (e) {
+    console.error('webauthn login options:', e);
+    return res.status(500).json({ success: false, message: 'Could not start passkey sign-in' });
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Vercel: return an assigned hardware OATH token to the inventory (see api/_lib/oath-tokens.js).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, MFA_MASTER_KEY
+ */
+
+import { handleUnassignOathToken } from '../../_lib/oath-tokens.js';
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return handleUnassignOathToken(req, res);
+}
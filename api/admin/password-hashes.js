@@ -0,0 +1,21 @@
+/**
+ * Vercel: account counts per password hashing scheme for admins (see api/_lib/password-hashing.js).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, PASSWORD_HASH_SCHEME (optional)
+ */
+
+import { handlePasswordHashStats } from '../_lib/password-hashing.js';
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return handlePasswordHashStats(req, res);
+}
@@ -0,0 +1,21 @@
+/**
+ * Vercel: start a change of the signed-in user's email address (see api/_lib/email-change.js).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, APP_URL, SMTP_*
+ */
+
+import { handleRequestEmailChange } from '../../_lib/email-change.js';
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return handleRequestEmailChange(req, res);
+}
@@ -0,0 +1,21 @@
+/**
+ * Vercel: password sign-in; returns a token pair for the MFA step (see api/_lib/auth.js).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, JWT_SIGNING_ALG (optional)
+ */
+
+import { handleLogin } from '../_lib/auth.js';
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return handleLogin(req, res);
+}
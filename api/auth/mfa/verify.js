@@ -0,0 +1,21 @@
+/**
+ * Vercel: verify the second factor for the signed-in session (see api/_lib/mfa.js).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, SKYSMS_API_KEY, optional TRUSTED_DEVICE_DAYS
+ */
+
+import { handleMfaVerify } from '../../_lib/mfa.js';
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return handleMfaVerify(req, res);
+}
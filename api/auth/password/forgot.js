@@ -0,0 +1,21 @@
+/**
+ * Vercel: email a password reset link (see api/_lib/password-policy.js).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, APP_URL, SMTP_*
+ */
+
+import { handleRequestPasswordReset } from '../../_lib/password-policy.js';
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return handleRequestPasswordReset(req, res);
+}
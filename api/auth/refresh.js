@@ -0,0 +1,21 @@
+/**
+ * Vercel: exchange a refresh token for a new token pair (see api/_lib/auth.js).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, JWT_SIGNING_ALG (optional)
+ */
+
+import { handleRefresh } from '../_lib/auth.js';
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return handleRefresh(req, res);
+}
@@ -0,0 +1,21 @@
+/**
+ * Vercel: start a registration and email its verification code (see api/_lib/otp-codes.js).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, OTP_HMAC_KEY, SMTP_*
+ */
+
+import { handleRegistrationOtp } from '../../_lib/otp-codes.js';
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return handleRegistrationOtp(req, res);
+}
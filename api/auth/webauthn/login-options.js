@@ -0,0 +1,21 @@
+/**
+ * Vercel: request options for passkey-only sign-in (see api/_lib/webauthn.js).
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, WEBAUTHN_RP_ID, WEBAUTHN_ORIGIN
+ */
+
+import { handleLoginOptions } from '../../_lib/webauthn.js';
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  return handleLoginOptions(req, res);
+}
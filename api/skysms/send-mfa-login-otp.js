@@ -3,26 +3,20 @@
  * Env: SKYSMS_API_KEY, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, optional SKYSMS_API_BASE_URL
  */
 
+import { getMfaMethod } from '../_lib/mfa-methods.js';
+import { requireSession } from '../_lib/sessions.js';
+
 function skysmsBaseUrl() {
   return (process.env.SKYSMS_API_BASE_URL || 'https://skysms.skyio.site').replace(/\/$/, '');
 }
 
-function supabaseHeaders() {
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  return {
-    apikey: key,
-    Authorization: `Bearer ${key}`,
-    'Content-Type': 'application/json',
-  };
-}
-
 const MFA_LOGIN_OTP_MESSAGE =
   'SecureAuth sign-in code {{otp}}. Valid 2 minutes. Do not share with anyone.';
 
 export default async function handler(req, res) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -49,13 +43,14 @@ export default async function handler(req, res) {
       return res.status(400).json({ error: 'user_id is required' });
     }
 
-    const selUrl = `${baseUrl}/rest/v1/users?id=eq.${encodeURIComponent(
-      user_id
-    )}&select=mfa_phone_number,sms_otp_enabled,mfa_enabled`;
-    const sel = await fetch(selUrl, { headers: supabaseHeaders() });
-    const rows = await sel.json().catch(() => []);
-    const row = Array.isArray(rows) ? rows[0] : null;
-    if (!row?.mfa_phone_number || !row.sms_otp_enabled || !row.mfa_enabled) {
+    const auth = await requireSession(req, res, { allowExpiredPassword: true });
+    if (!auth) return;
+    if (auth.userId !== user_id) {
+      return res.status(403).json({ success: false, message: 'user_id does not match the signed-in user' });
+    }
+
+    const row = await getMfaMethod(user_id, 'sms');
+    if (!row?.phone_number) {
       return res.status(400).json({
         success: false,
         message: 'SMS MFA is not enabled for this account',
@@ -70,7 +65,7 @@ export default async function handler(req, res) {
         'X-API-Key': apiKey,
       },
       body: JSON.stringify({
-        phone_number: row.mfa_phone_number,
+        phone_number: row.phone_number,
         message: MFA_LOGIN_OTP_MESSAGE,
         expire: 120,
       }),
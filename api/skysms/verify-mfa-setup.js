@@ -1,25 +1,22 @@
 /**
- * Vercel: verify SkySMS OTP then persist SMS MFA on user (service role).
+ * Vercel: verify SkySMS OTP then enrol SMS as one of the user's MFA methods (service role).
+ * Needs a session that has passed the second factor. Writes the audit entry.
  * Env: SKYSMS_API_KEY, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, optional SKYSMS_API_BASE_URL
  */
 
+import { clientInfo } from '../_lib/http.js';
+import { enrollMfaMethod } from '../_lib/mfa-methods.js';
+import { requireMfaSession } from '../_lib/sessions.js';
+import { insertAuditLog } from '../_lib/supabase.js';
+
 function skysmsBaseUrl() {
   return (process.env.SKYSMS_API_BASE_URL || 'https://skysms.skyio.site').replace(/\/$/, '');
 }
 
-function supabaseHeaders() {
-  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  return {
-    apikey: key,
-    Authorization: `Bearer ${key}`,
-    'Content-Type': 'application/json',
-  };
-}
-
 export default async function handler(req, res) {
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -48,6 +45,12 @@ export default async function handler(req, res) {
       return res.status(400).json({ error: 'user_id, phone_number, and otp are required' });
     }
 
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+    if (auth.userId !== user_id) {
+      return res.status(403).json({ success: false, message: 'user_id does not match the signed-in user' });
+    }
+
     const verifyUrl = `${skysmsBaseUrl()}/api/v1/otp/verify?otp=${encodeURIComponent(
       otp
     )}&phone_number=${encodeURIComponent(phone_number)}`;
@@ -63,25 +66,17 @@ export default async function handler(req, res) {
       });
     }
 
-    const patch = await fetch(`${baseUrl}/rest/v1/users?id=eq.${encodeURIComponent(user_id)}`, {
-      method: 'PATCH',
-      headers: { ...supabaseHeaders(), Prefer: 'return=minimal' },
-      body: JSON.stringify({
-        mfa_enabled: true,
-        sms_otp_enabled: true,
-        mfa_phone_number: phone_number,
-        totp_enabled: false,
-        email_otp_enabled: false,
-        mfa_secret: null,
-        updated_at: new Date().toISOString(),
-      }),
-    });
-    if (!patch.ok) {
-      const t = await patch.text();
-      console.error('verify-mfa-setup Supabase patch:', t);
+    try {
+      // Adds SMS next to any other enrolled methods (or updates the number on file)
+      await enrollMfaMethod(user_id, 'sms', { phone_number }, { replace: true });
+    } catch (e) {
+      console.error('verify-mfa-setup Supabase patch:', e.message);
       return res.status(500).json({ success: false, message: 'Failed to save SMS MFA' });
     }
 
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(user_id, 'SMS OTP MFA enabled', ipAddress, userAgent);
+
     return res.status(200).json({ success: true });
   } catch (e) {
     console.error('verify-mfa-setup:', e);
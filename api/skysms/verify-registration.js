@@ -1,8 +1,11 @@
 /**
- * Vercel serverless: SkySMS verify + load registration row from Supabase.
+ * Vercel serverless: SkySMS verify, then create the account from the pending registration
+ * row in Supabase (see api/_lib/otp-codes.js).
  * Env: SKYSMS_API_KEY, SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, optional SKYSMS_API_BASE_URL
  */
 
+import { createRegisteredUser } from '../_lib/otp-codes.js';
+
 function skysmsBaseUrl() {
   return (process.env.SKYSMS_API_BASE_URL || 'https://skysms.skyio.site').replace(/\/$/, '');
 }
@@ -96,7 +99,11 @@ export default async function handler(req, res) {
       return res.status(500).json({ success: false, message: 'Failed to finalize registration' });
     }
 
-    return res.status(200).json({ success: true, passwordHash: row.password_hash });
+    if (!(await createRegisteredUser(req, email, row.password_hash))) {
+      return res.status(409).json({ success: false, message: 'User already exists' });
+    }
+
+    return res.status(200).json({ success: true });
   } catch (e) {
     console.error('verify-registration:', e);
     return res.status(500).json({ success: false, message: e.message || 'Verification failed' });
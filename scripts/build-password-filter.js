@@ -0,0 +1,86 @@
+/**
+ * Script to compile the common-password list into the offline screening filter
+ *
+ * Usage:
+ *   npm run build-password-filter -- [path/to/list.txt]
+ *
+ * Reads one password per line (default scripts/data/common-passwords.txt; lines starting
+ * with `#` are skipped) and writes a Bloom filter sized for a 0.1% false-positive rate to:
+ *   - api/_lib/common-passwords.js (server checks, api/_lib/password-screening.js)
+ *   - src/lib/common-passwords.ts (checklist and strength meter, src/lib/password-screening.ts)
+ * Each entry is added in the forms the screening looks up, so `p@ssw0rd1` matches
+ * `password`. Commit both generated files.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { bloomIndexes, screeningForms } from '../api/_lib/password-screening.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const FALSE_POSITIVE_RATE = 0.001;
+
+const listPath = process.argv[2]
+  ? path.resolve(process.argv[2])
+  : path.join(__dirname, 'data', 'common-passwords.txt');
+
+function buildFilter(entries) {
+  const values = new Set(entries.flatMap(screeningForms));
+  const bits = Math.max(
+    64,
+    Math.ceil((-values.size * Math.log(FALSE_POSITIVE_RATE)) / Math.LN2 ** 2 / 8) * 8
+  );
+  const hashes = Math.max(1, Math.round((bits / values.size) * Math.LN2));
+  const data = Buffer.alloc(bits / 8);
+  for (const value of values) {
+    for (const i of bloomIndexes(value, bits, hashes)) {
+      data[i >> 3] |= 1 << (i & 7);
+    }
+  }
+  return { bits, hashes, size: values.size, data: data.toString('base64') };
+}
+
+function moduleSource(filter, entryCount, typed) {
+  return `// Generated by scripts/build-password-filter.js from ${entryCount} common passwords. Do not edit.
+export const COMMON_PASSWORD_FILTER${typed ? ': { bits: number; hashes: number; data: string }' : ''} = {
+  bits: ${filter.bits},
+  hashes: ${filter.hashes},
+  data: '${filter.data}',
+};
+`;
+}
+
+function build() {
+  if (!fs.existsSync(listPath)) {
+    console.error(`❌ List not found: ${listPath}`);
+    process.exit(1);
+  }
+
+  const entries = fs
+    .readFileSync(listPath, 'utf-8')
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+  if (!entries.length) {
+    console.error('❌ The list contains no passwords');
+    process.exit(1);
+  }
+
+  const filter = buildFilter(entries);
+  const root = path.join(__dirname, '..');
+  fs.writeFileSync(
+    path.join(root, 'api', '_lib', 'common-passwords.js'),
+    moduleSource(filter, entries.length, false)
+  );
+  fs.writeFileSync(
+    path.join(root, 'src', 'lib', 'common-passwords.ts'),
+    moduleSource(filter, entries.length, true)
+  );
+
+  console.log(`\n✅ ${entries.length} passwords (${filter.size} forms) → ${filter.bits / 8} bytes, ${filter.hashes} hashes`);
+  console.log('   Wrote api/_lib/common-passwords.js and src/lib/common-passwords.ts\n');
+}
+
+build();
@@ -6,44 +6,40 @@
  * 
  * This will prompt you for:
  *   - Email (default: admin@secureauth.com)
- *   - Password (will be hashed with bcrypt)
+ *   - Password (hashed with PASSWORD_HASH_SCHEME, see api/_lib/password-hashing.js)
+ *
+ * Reads SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY from server/.env (or the environment).
  */
 
-import bcrypt from 'bcryptjs';
 import { createClient } from '@supabase/supabase-js';
 import * as readline from 'readline';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { hashPassword } from '../api/_lib/password-hashing.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Load environment variables
-const envPath = path.join(__dirname, '..', '.env');
-let supabaseUrl, supabaseKey;
-
+// Load server/.env without overriding variables that are already set. The anon key
+// cannot write roles, so the script uses the service role key like the server does.
+const envPath = path.join(__dirname, '..', 'server', '.env');
 if (fs.existsSync(envPath)) {
   const envContent = fs.readFileSync(envPath, 'utf-8');
-  const envVars = envContent.split('\n').reduce((acc, line) => {
+  for (const line of envContent.split('\n')) {
     const [key, ...valueParts] = line.split('=');
-    if (key && valueParts.length > 0) {
-      acc[key.trim()] = valueParts.join('=').trim();
+    if (key && !key.trim().startsWith('#') && valueParts.length > 0 && !process.env[key.trim()]) {
+      process.env[key.trim()] = valueParts.join('=').trim();
     }
-    return acc;
-  }, {});
-  
-  supabaseUrl = envVars.VITE_SUPABASE_URL;
-  supabaseKey = envVars.VITE_SUPABASE_ANON_KEY;
-} else {
-  console.error('❌ .env file not found!');
-  console.error('Please create a .env file with VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY');
-  process.exit(1);
+  }
 }
 
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
 if (!supabaseUrl || !supabaseKey) {
-  console.error('❌ Missing Supabase credentials in .env file!');
-  console.error('Required: VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY');
+  console.error('❌ Missing Supabase credentials!');
+  console.error('Required: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (server/.env)');
   process.exit(1);
 }
 
@@ -104,7 +100,7 @@ async function createAdmin() {
       
       // Hash password
       console.log('\n⏳ Hashing password...');
-      const passwordHash = await bcrypt.hash(adminPassword, 10);
+      const passwordHash = await hashPassword(adminPassword);
       
       // Update user to admin
       const { error: updateError } = await supabase
@@ -131,7 +127,7 @@ async function createAdmin() {
     
     // Hash password
     console.log('\n⏳ Hashing password...');
-    const passwordHash = await bcrypt.hash(adminPassword, 10);
+    const passwordHash = await hashPassword(adminPassword);
     
     // Create admin user
     console.log('⏳ Creating admin account...');
@@ -150,10 +146,6 @@ async function createAdmin() {
     
     if (error) {
       console.error('❌ Error creating admin account:', error.message);
-      if (error.code === '42501') {
-        console.error('\n⚠️  RLS Policy Error!');
-        console.error('Please run the RLS fix SQL script: supabase/schema-rls-fix.sql');
-      }
       rl.close();
       process.exit(1);
     }
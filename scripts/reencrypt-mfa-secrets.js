@@ -0,0 +1,142 @@
+/**
+ * Script to re-encrypt every TOTP secret and OATH token seed under the current MFA master key
+ *
+ * Usage:
+ *   npm run reencrypt-mfa-secrets -- [--dry-run]
+ *
+ * Run it after rotating the master key (old key in MFA_MASTER_KEY_PREVIOUS, new key in
+ * MFA_MASTER_KEY). For the TOTP secrets in `user_mfa_methods` (bound to the user id) and the
+ * token seeds in `oath_tokens` (bound to the token serial) this will:
+ *   - Re-encrypt secrets stored under a previous master key with a fresh data key
+ *   - Encrypt secrets still stored in plaintext
+ *   - Leave secrets already under the current master key alone
+ * Once it reports no failures, the previous key can be removed.
+ *
+ * Reads SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, MFA_MASTER_KEY and MFA_MASTER_KEY_PREVIOUS
+ * from server/.env (or the environment).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  decryptMfaSecret,
+  encryptMfaSecret,
+  isEncryptedMfaSecret,
+  isMfaSecretKeyConfigured,
+  usesCurrentMasterKey,
+} from '../api/_lib/mfa-secrets.js';
+import { inventoryAad } from '../api/_lib/oath-tokens.js';
+import { eq, isSupabaseConfigured, selectRows, updateRows } from '../api/_lib/supabase.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/** Encrypted secret columns, with the encryption context each value is bound to. */
+export const SECRET_SOURCES = [
+  {
+    label: 'TOTP secret',
+    table: 'user_mfa_methods',
+    query: 'select=id,user_id,secret&method=eq.totp&secret=not.is.null',
+    aad: (row) => row.user_id,
+  },
+  {
+    label: 'OATH token seed',
+    table: 'oath_tokens',
+    query: 'select=id,serial,secret&secret=not.is.null',
+    aad: (row) => inventoryAad(row.serial),
+  },
+];
+
+// Load server/.env without overriding variables that are already set
+function loadEnv() {
+  const envPath = path.join(__dirname, '..', 'server', '.env');
+  if (!fs.existsSync(envPath)) return;
+  const envContent = fs.readFileSync(envPath, 'utf-8');
+  for (const line of envContent.split('\n')) {
+    const [key, ...valueParts] = line.split('=');
+    if (key && !key.trim().startsWith('#') && valueParts.length > 0 && !process.env[key.trim()]) {
+      process.env[key.trim()] = valueParts.join('=').trim();
+    }
+  }
+}
+
+/**
+ * Re-encrypt the secrets of one source under the current master key.
+ * @returns {Promise<{ total: number, current: number, reencrypted: number, encrypted: number, failed: number }>}
+ */
+export async function reencryptSource(source, { dryRun = false } = {}) {
+  const rows = await selectRows(source.table, source.query);
+  const counts = { total: rows.length, current: 0, reencrypted: 0, encrypted: 0, failed: 0 };
+
+  for (const row of rows) {
+    if (usesCurrentMasterKey(row.secret)) {
+      counts.current++;
+      continue;
+    }
+
+    const aad = source.aad(row);
+    const wasEncrypted = isEncryptedMfaSecret(row.secret);
+    const secret = wasEncrypted ? decryptMfaSecret(row.secret, aad) : row.secret;
+    if (!secret) {
+      console.error(`   ❌ ${source.table} ${row.id}: cannot decrypt (unknown master key or wrong context)`);
+      counts.failed++;
+      continue;
+    }
+
+    if (!dryRun) {
+      // Conditional on the value read, so a concurrent re-enrolment is not overwritten
+      await updateRows(source.table, `id=${eq(row.id)}&secret=${eq(row.secret)}`, {
+        secret: encryptMfaSecret(secret, aad),
+      });
+    }
+    counts[wasEncrypted ? 'reencrypted' : 'encrypted']++;
+  }
+
+  return counts;
+}
+
+async function reencrypt() {
+  loadEnv();
+
+  if (!isSupabaseConfigured()) {
+    console.error('❌ Missing Supabase credentials!');
+    console.error('Required: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (server/.env)');
+    process.exit(1);
+  }
+  if (!isMfaSecretKeyConfigured()) {
+    console.error('❌ Missing MFA_MASTER_KEY (server/.env)');
+    process.exit(1);
+  }
+
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log(`\n🔐 Re-encrypt MFA secrets${dryRun ? ' (dry run)' : ''}\n`);
+  console.log('='.repeat(50));
+
+  try {
+    let failed = 0;
+    for (const source of SECRET_SOURCES) {
+      const counts = await reencryptSource(source, { dryRun });
+      console.log(`\n✅ ${counts.total} ${source.label}${counts.total === 1 ? '' : 's'}`);
+      console.log(`   Already under the current key: ${counts.current}`);
+      console.log(`   Re-encrypted from a previous key: ${counts.reencrypted}`);
+      console.log(`   Encrypted from plaintext: ${counts.encrypted}`);
+      if (counts.failed) {
+        console.log(`   Failed: ${counts.failed}`);
+      }
+      failed += counts.failed;
+    }
+    if (failed) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error('❌ Re-encryption failed:', error.message);
+    process.exit(1);
+  }
+}
+
+// Run only when invoked as a script, so the tests can import the helpers
+if (process.argv[1] && path.resolve(process.argv[1]) === __filename) {
+  reencrypt();
+}
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { randomBytes } from 'node:crypto';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { decryptMfaSecret, encryptMfaSecret, usesCurrentMasterKey } from '../api/_lib/mfa-secrets.js';
+import { inventoryAad } from '../api/_lib/oath-tokens.js';
+import { SECRET_SOURCES, reencryptSource } from './reencrypt-mfa-secrets.js';
+
+const OLD_KEY = randomBytes(32).toString('base64');
+const NEW_KEY = randomBytes(32).toString('base64');
+const SEED = 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP';
+
+const oathSource = SECRET_SOURCES.find((s) => s.table === 'oath_tokens');
+
+/** Encrypt under the old master key, as the inventory held it before the rotation. */
+function encryptUnderOldKey(secret, aad) {
+  process.env.MFA_MASTER_KEY = OLD_KEY;
+  const stored = encryptMfaSecret(secret, aad);
+  process.env.MFA_MASTER_KEY = NEW_KEY;
+  return stored;
+}
+
+/** Serve `rows` to the select and record the PATCH requests. */
+function fakeSupabase(rows) {
+  const updates = [];
+  globalThis.fetch = async (url, init = {}) => {
+    if (init.method === 'PATCH') {
+      updates.push({ url: String(url), patch: JSON.parse(init.body) });
+      return new Response(null, { status: 204 });
+    }
+    return Response.json(rows);
+  };
+  return updates;
+}
+
+describe('reencrypt-mfa-secrets: oath_tokens', () => {
+  const originalFetch = globalThis.fetch;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.SUPABASE_URL = 'https://example.supabase.co';
+    process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role';
+    process.env.MFA_MASTER_KEY = NEW_KEY;
+    process.env.MFA_MASTER_KEY_PREVIOUS = OLD_KEY;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    process.env = { ...originalEnv };
+  });
+
+  it('rewraps seeds under the current key, still bound to the token serial', async () => {
+    const stored = encryptUnderOldKey(SEED, inventoryAad('FOB-0001'));
+    const updates = fakeSupabase([{ id: 'token-1', serial: 'FOB-0001', secret: stored }]);
+
+    const counts = await reencryptSource(oathSource);
+
+    assert.equal(counts.reencrypted, 1);
+    assert.equal(counts.failed, 0);
+    assert.equal(updates.length, 1);
+    assert.match(updates[0].url, /\/rest\/v1\/oath_tokens\?id=eq\.token-1&secret=eq\./);
+
+    const rewrapped = updates[0].patch.secret;
+    assert.ok(usesCurrentMasterKey(rewrapped));
+    assert.equal(decryptMfaSecret(rewrapped, inventoryAad('FOB-0001')), SEED);
+    assert.equal(decryptMfaSecret(rewrapped, inventoryAad('FOB-0002')), null);
+  });
+
+  it('leaves seeds already under the current key alone', async () => {
+    const stored = encryptMfaSecret(SEED, inventoryAad('FOB-0001'));
+    const updates = fakeSupabase([{ id: 'token-1', serial: 'FOB-0001', secret: stored }]);
+
+    const counts = await reencryptSource(oathSource);
+
+    assert.equal(counts.current, 1);
+    assert.equal(updates.length, 0);
+  });
+
+  it('counts a seed bound to another serial as failed and does not write it', async () => {
+    const stored = encryptUnderOldKey(SEED, inventoryAad('FOB-0002'));
+    const updates = fakeSupabase([{ id: 'token-1', serial: 'FOB-0001', secret: stored }]);
+    const originalError = console.error;
+    console.error = () => {};
+
+    try {
+      const counts = await reencryptSource(oathSource);
+      assert.equal(counts.failed, 1);
+      assert.equal(updates.length, 0);
+    } finally {
+      console.error = originalError;
+    }
+  });
+
+  it('does not write anything in a dry run', async () => {
+    const stored = encryptUnderOldKey(SEED, inventoryAad('FOB-0001'));
+    const updates = fakeSupabase([{ id: 'token-1', serial: 'FOB-0001', secret: stored }]);
+
+    const counts = await reencryptSource(oathSource, { dryRun: true });
+
+    assert.equal(counts.reencrypted, 1);
+    assert.equal(updates.length, 0);
+  });
+});
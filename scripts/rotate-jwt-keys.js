@@ -0,0 +1,85 @@
+/**
+ * Script to rotate the JWT signing key
+ *
+ * Usage:
+ *   npm run rotate-jwt-keys -- [--grace-hours 720] [--alg RS256|EdDSA]
+ *
+ * This will:
+ *   - Generate a new signing key and make it the active one
+ *   - Keep the previous keys in the JWKS for the grace window (default: the longer of the
+ *     refresh token and trusted device lifetimes)
+ *   - Delete keys whose grace window has already ended
+ *
+ * Reads SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY from server/.env (or the environment).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { REFRESH_TOKEN_EXPIRY } from '../api/_lib/jwt.js';
+import { rotateSigningKeys, signingAlg, SUPPORTED_ALGS } from '../api/_lib/keys.js';
+import { isSupabaseConfigured } from '../api/_lib/supabase.js';
+import { trustedDeviceDays } from '../api/_lib/trusted-devices.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load server/.env without overriding variables that are already set
+const envPath = path.join(__dirname, '..', 'server', '.env');
+if (fs.existsSync(envPath)) {
+  const envContent = fs.readFileSync(envPath, 'utf-8');
+  for (const line of envContent.split('\n')) {
+    const [key, ...valueParts] = line.split('=');
+    if (key && !key.trim().startsWith('#') && valueParts.length > 0 && !process.env[key.trim()]) {
+      process.env[key.trim()] = valueParts.join('=').trim();
+    }
+  }
+}
+
+function argValue(name) {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function rotate() {
+  if (!isSupabaseConfigured()) {
+    console.error('❌ Missing Supabase credentials!');
+    console.error('Required: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (server/.env)');
+    process.exit(1);
+  }
+
+  const alg = argValue('--alg') || signingAlg();
+  if (!SUPPORTED_ALGS.includes(alg)) {
+    console.error(`❌ Unsupported algorithm "${alg}" (use ${SUPPORTED_ALGS.join(' or ')})`);
+    process.exit(1);
+  }
+
+  const graceHours = argValue('--grace-hours');
+  // Device tokens are signed with the same keys, so the default keeps them trusted too
+  const defaultGraceSeconds = Math.max(REFRESH_TOKEN_EXPIRY, trustedDeviceDays() * 24 * 60 * 60);
+  const graceSeconds =
+    graceHours !== undefined ? Number(graceHours) * 60 * 60 : defaultGraceSeconds;
+  if (!Number.isFinite(graceSeconds) || graceSeconds < 0) {
+    console.error('❌ --grace-hours must be a non-negative number');
+    process.exit(1);
+  }
+
+  console.log('\n🔑 Rotate JWT signing key\n');
+  console.log('='.repeat(50));
+
+  try {
+    const result = await rotateSigningKeys({ alg, graceSeconds });
+    const retireAt = new Date(Date.now() + graceSeconds * 1000);
+
+    console.log(`\n✅ New ${alg} signing key: ${result.kid}`);
+    for (const kid of result.retiring) {
+      console.log(`   Retiring: ${kid} (until ${retireAt.toISOString()})`);
+    }
+    console.log(`   Removed expired keys: ${result.removed}`);
+  } catch (error) {
+    console.error('❌ Rotation failed:', error.message);
+    process.exit(1);
+  }
+}
+
+rotate();
@@ -1,6 +1,7 @@
 /**
- * Local API: SMTP email + SkySMS OTP proxy (keeps API keys off the browser).
+ * Local API: SMTP email + SkySMS OTP proxy + auth (keeps API keys and JWT signing keys off the browser).
  * SkySMS: https://skysms.skyio.site — POST /api/v1/otp/send, GET /api/v1/otp/verify
+ * Auth handlers are shared with the Vercel functions in api/auth (see api/_lib/auth.js).
  *
  * server/.env — see server/.env.example
  */
@@ -9,12 +10,86 @@ import express from 'express';
 import nodemailer from 'nodemailer';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import {
+  handleAdminLockAccount,
+  handleAdminUnlockAccount,
+  handleUnlockAccount,
+} from '../api/_lib/account-lock.js';
+import { handleAdminChangeRole, handleAdminSetActive } from '../api/_lib/admin-users.js';
+import {
+  handleJwks,
+  handleLogin,
+  handleLogout,
+  handlePasskeyLogin,
+  handleRefresh,
+  handleSession,
+} from '../api/_lib/auth.js';
+import { handleBackupCodesRemaining, handleRegenerateBackupCodes } from '../api/_lib/backup-codes.js';
+import {
+  handleAdminEmailChange,
+  handleConfirmEmailChange,
+  handleRequestEmailChange,
+  handleRevertEmailChange,
+} from '../api/_lib/email-change.js';
+import { clientInfo, trustProxySetting } from '../api/_lib/http.js';
+import { handleMfaVerify } from '../api/_lib/mfa.js';
+import {
+  enrollMfaMethod,
+  getMfaMethod,
+  handleDisableMfa,
+  handleRemoveMfaMethod,
+  handleSetPrimaryMfaMethod,
+} from '../api/_lib/mfa-methods.js';
+import {
+  handleAssignOathToken,
+  handleImportOathTokens,
+  handleListOathTokens,
+  handleUnassignOathToken,
+} from '../api/_lib/oath-tokens.js';
+import {
+  createRegisteredUser,
+  handleRegistrationOtp,
+  handleSendEmailOtp,
+  handleVerifyEmailMfaSetup,
+  handleVerifyRegistrationOtp,
+} from '../api/_lib/otp-codes.js';
+import { handlePasswordHashStats } from '../api/_lib/password-hashing.js';
+import {
+  handleAdminPasswordReset,
+  handleChangePassword,
+  handleCheckResetToken,
+  handleRequestPasswordReset,
+  handleResetPassword,
+} from '../api/_lib/password-policy.js';
+import { requireMfaSession, requireSession } from '../api/_lib/sessions.js';
+import { insertAuditLog } from '../api/_lib/supabase.js';
+import { handleTotpSetup, handleTotpSetupOptions } from '../api/_lib/totp.js';
+import {
+  handleClearTrustedDevices,
+  handleListTrustedDevices,
+  handleRevokeTrustedDevice,
+} from '../api/_lib/trusted-devices.js';
+import { handleGetProfile, handleUpdateProfile } from '../api/_lib/user-profiles.js';
+import {
+  handleListSessions,
+  handleRevokeOtherSessions,
+  handleRevokeSession,
+} from '../api/_lib/user-sessions.js';
+import {
+  handleAuthenticateOptions,
+  handleLoginOptions,
+  handleRegisterOptions,
+  handleRegisterVerify,
+} from '../api/_lib/webauthn.js';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Client IPs (rate limits, audit entries) come from req.ip; see clientInfo
+app.set('trust proxy', trustProxySetting());
+
 const defaultCors =
   process.env.CORS_ORIGINS ||
   'http://localhost:8080,http://localhost:5173,http://localhost:3000';
@@ -129,6 +204,56 @@ app.post('/api/send-email', async (req, res) => {
   }
 });
 
+app.post('/api/auth/login', handleLogin);
+app.post('/api/auth/refresh', handleRefresh);
+app.post('/api/auth/logout', handleLogout);
+app.post('/api/auth/session', handleSession);
+app.post('/api/auth/email/change', handleRequestEmailChange);
+app.post('/api/auth/email/confirm', handleConfirmEmailChange);
+app.post('/api/auth/email/revert', handleRevertEmailChange);
+app.post('/api/auth/mfa/verify', handleMfaVerify);
+app.post('/api/auth/mfa/backup-codes', handleRegenerateBackupCodes);
+app.post('/api/auth/mfa/backup-codes-remaining', handleBackupCodesRemaining);
+app.post('/api/auth/mfa/email-setup', handleVerifyEmailMfaSetup);
+app.post('/api/auth/mfa/methods/primary', handleSetPrimaryMfaMethod);
+app.post('/api/auth/mfa/methods/remove', handleRemoveMfaMethod);
+app.post('/api/auth/mfa/disable', handleDisableMfa);
+app.post('/api/auth/mfa/totp-setup-options', handleTotpSetupOptions);
+app.post('/api/auth/mfa/totp-setup', handleTotpSetup);
+app.post('/api/auth/otp/email', handleSendEmailOtp);
+app.post('/api/auth/password/forgot', handleRequestPasswordReset);
+app.post('/api/auth/password/reset-token', handleCheckResetToken);
+app.post('/api/auth/password/reset', handleResetPassword);
+app.post('/api/auth/password/change', handleChangePassword);
+app.post('/api/auth/profile/get', handleGetProfile);
+app.post('/api/auth/profile/update', handleUpdateProfile);
+app.post('/api/auth/register/otp', handleRegistrationOtp);
+app.post('/api/auth/register/verify', handleVerifyRegistrationOtp);
+app.post('/api/auth/sessions/list', handleListSessions);
+app.post('/api/auth/sessions/revoke', handleRevokeSession);
+app.post('/api/auth/sessions/revoke-others', handleRevokeOtherSessions);
+app.post('/api/auth/trusted-devices/list', handleListTrustedDevices);
+app.post('/api/auth/trusted-devices/revoke', handleRevokeTrustedDevice);
+app.post('/api/auth/trusted-devices/clear', handleClearTrustedDevices);
+app.post('/api/auth/unlock', handleUnlockAccount);
+app.post('/api/auth/webauthn/register-options', handleRegisterOptions);
+app.post('/api/auth/webauthn/register-verify', handleRegisterVerify);
+app.post('/api/auth/webauthn/authenticate-options', handleAuthenticateOptions);
+app.post('/api/auth/webauthn/login-options', handleLoginOptions);
+app.post('/api/auth/webauthn/login-verify', handlePasskeyLogin);
+app.post('/api/admin/oath-tokens/list', handleListOathTokens);
+app.post('/api/admin/oath-tokens/import', handleImportOathTokens);
+app.post('/api/admin/oath-tokens/assign', handleAssignOathToken);
+app.post('/api/admin/oath-tokens/unassign', handleUnassignOathToken);
+app.post('/api/admin/password-hashes', handlePasswordHashStats);
+app.post('/api/admin/users/email', handleAdminEmailChange);
+app.post('/api/admin/users/lock', handleAdminLockAccount);
+app.post('/api/admin/users/unlock', handleAdminUnlockAccount);
+app.post('/api/admin/users/password-reset', handleAdminPasswordReset);
+app.post('/api/admin/users/role', handleAdminChangeRole);
+app.post('/api/admin/users/active', handleAdminSetActive);
+app.get('/.well-known/jwks.json', handleJwks);
+
 app.post('/api/skysms/otp/send', async (req, res) => {
   try {
     const apiKey = process.env.SKYSMS_API_KEY;
@@ -225,7 +350,11 @@ app.post('/api/skysms/verify-registration', async (req, res) => {
       return res.status(500).json({ success: false, message: 'Failed to finalize registration' });
     }
 
-    res.json({ success: true, passwordHash: row.password_hash });
+    if (!(await createRegisteredUser(req, email, row.password_hash))) {
+      return res.status(409).json({ success: false, message: 'User already exists' });
+    }
+
+    res.json({ success: true });
   } catch (e) {
     console.error('verify-registration error:', e);
     res.status(500).json({ success: false, message: e.message || 'Verification failed' });
@@ -254,13 +383,14 @@ app.post('/api/skysms/send-mfa-login-otp', async (req, res) => {
       return res.status(400).json({ error: 'user_id is required' });
     }
 
-    const selUrl = `${baseUrl}/rest/v1/users?id=eq.${encodeURIComponent(
-      user_id
-    )}&select=mfa_phone_number,sms_otp_enabled,mfa_enabled`;
-    const sel = await fetch(selUrl, { headers: supabaseHeaders() });
-    const rows = await sel.json().catch(() => []);
-    const row = Array.isArray(rows) ? rows[0] : null;
-    if (!row?.mfa_phone_number || !row.sms_otp_enabled || !row.mfa_enabled) {
+    const auth = await requireSession(req, res, { allowExpiredPassword: true });
+    if (!auth) return;
+    if (auth.userId !== user_id) {
+      return res.status(403).json({ success: false, message: 'user_id does not match the signed-in user' });
+    }
+
+    const row = await getMfaMethod(user_id, 'sms');
+    if (!row?.phone_number) {
       return res.status(400).json({
         success: false,
         message: 'SMS MFA is not enabled for this account',
@@ -275,7 +405,7 @@ app.post('/api/skysms/send-mfa-login-otp', async (req, res) => {
         'X-API-Key': apiKey,
       },
       body: JSON.stringify({
-        phone_number: row.mfa_phone_number,
+        phone_number: row.phone_number,
         message: MFA_LOGIN_OTP_MESSAGE,
         expire: 120,
       }),
@@ -288,61 +418,6 @@ app.post('/api/skysms/send-mfa-login-otp', async (req, res) => {
   }
 });
 
-app.post('/api/skysms/verify-mfa-login', async (req, res) => {
-  try {
-    const apiKey = process.env.SKYSMS_API_KEY;
-    const baseUrl = process.env.SUPABASE_URL?.replace(/\/$/, '');
-    if (!apiKey) {
-      return res.status(503).json({ error: 'SKYSMS_API_KEY is not configured' });
-    }
-    if (!baseUrl || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
-      return res.status(503).json({
-        error: 'Supabase service credentials missing',
-        message: 'Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY',
-      });
-    }
-
-    const user_id = (req.body?.user_id || '').toString().trim();
-    const otp = (req.body?.otp || '').toString().trim();
-    if (!user_id || !otp) {
-      return res.status(400).json({ error: 'user_id and otp are required' });
-    }
-
-    const selUrl = `${baseUrl}/rest/v1/users?id=eq.${encodeURIComponent(
-      user_id
-    )}&select=mfa_phone_number,sms_otp_enabled,mfa_enabled`;
-    const sel = await fetch(selUrl, { headers: supabaseHeaders() });
-    const rows = await sel.json().catch(() => []);
-    const row = Array.isArray(rows) ? rows[0] : null;
-    if (!row?.mfa_phone_number || !row.sms_otp_enabled || !row.mfa_enabled) {
-      return res.status(400).json({
-        success: false,
-        message: 'SMS MFA is not enabled for this account',
-      });
-    }
-
-    const verifyUrl = `${skysmsBaseUrl()}/api/v1/otp/verify?otp=${encodeURIComponent(
-      otp
-    )}&phone_number=${encodeURIComponent(row.mfa_phone_number)}`;
-    const skyRes = await fetch(verifyUrl, {
-      method: 'GET',
-      headers: { 'X-API-Key': apiKey },
-    });
-    const skyData = await skyRes.json().catch(() => ({}));
-    if (!skyRes.ok || skyData?.success === false || skyData?.valid === false) {
-      return res.status(400).json({
-        success: false,
-        message: skyData?.message || skyData?.error || 'Invalid or expired SMS code',
-      });
-    }
-
-    res.json({ success: true });
-  } catch (e) {
-    console.error('verify-mfa-login:', e);
-    res.status(500).json({ success: false, message: e.message || 'Verification failed' });
-  }
-});
-
 app.post('/api/skysms/verify-mfa-setup', async (req, res) => {
   try {
     const apiKey = process.env.SKYSMS_API_KEY;
@@ -364,6 +439,12 @@ app.post('/api/skysms/verify-mfa-setup', async (req, res) => {
       return res.status(400).json({ error: 'user_id, phone_number, and otp are required' });
     }
 
+    const auth = await requireMfaSession(req, res);
+    if (!auth) return;
+    if (auth.userId !== user_id) {
+      return res.status(403).json({ success: false, message: 'user_id does not match the signed-in user' });
+    }
+
     const verifyUrl = `${skysmsBaseUrl()}/api/v1/otp/verify?otp=${encodeURIComponent(
       otp
     )}&phone_number=${encodeURIComponent(phone_number)}`;
@@ -379,25 +460,17 @@ app.post('/api/skysms/verify-mfa-setup', async (req, res) => {
       });
     }
 
-    const patch = await fetch(`${baseUrl}/rest/v1/users?id=eq.${encodeURIComponent(user_id)}`, {
-      method: 'PATCH',
-      headers: { ...supabaseHeaders(), Prefer: 'return=minimal' },
-      body: JSON.stringify({
-        mfa_enabled: true,
-        sms_otp_enabled: true,
-        mfa_phone_number: phone_number,
-        totp_enabled: false,
-        email_otp_enabled: false,
-        mfa_secret: null,
-        updated_at: new Date().toISOString(),
-      }),
-    });
-    if (!patch.ok) {
-      const t = await patch.text();
-      console.error('verify-mfa-setup Supabase patch:', t);
+    try {
+      // Adds SMS next to any other enrolled methods (or updates the number on file)
+      await enrollMfaMethod(user_id, 'sms', { phone_number }, { replace: true });
+    } catch (e) {
+      console.error('verify-mfa-setup Supabase patch:', e.message);
       return res.status(500).json({ success: false, message: 'Failed to save SMS MFA' });
     }
 
+    const { ipAddress, userAgent } = clientInfo(req);
+    await insertAuditLog(user_id, 'SMS OTP MFA enabled', ipAddress, userAgent);
+
     res.json({ success: true });
   } catch (e) {
     console.error('verify-mfa-setup:', e);
@@ -408,9 +481,33 @@ app.post('/api/skysms/verify-mfa-setup', async (req, res) => {
 app.listen(PORT, () => {
   console.log(`\n🚀 API server: http://localhost:${PORT}`);
   console.log(`   POST /api/send-email  (SMTP, optional)`);
+  console.log(`   POST /api/auth/login`);
+  console.log(`   POST /api/auth/refresh`);
+  console.log(`   POST /api/auth/logout`);
+  console.log(`   POST /api/auth/session`);
+  console.log(`   POST /api/auth/email/{change,confirm,revert}`);
+  console.log(`   POST /api/auth/mfa/verify`);
+  console.log(`   POST /api/auth/mfa/backup-codes`);
+  console.log(`   POST /api/auth/mfa/backup-codes-remaining`);
+  console.log(`   POST /api/auth/mfa/email-setup`);
+  console.log(`   POST /api/auth/mfa/methods/{primary,remove}`);
+  console.log(`   POST /api/auth/mfa/disable`);
+  console.log(`   POST /api/auth/mfa/totp-setup{-options,}`);
+  console.log(`   POST /api/auth/otp/email`);
+  console.log(`   POST /api/auth/password/{forgot,reset-token,reset,change}`);
+  console.log(`   POST /api/auth/profile/{get,update}`);
+  console.log(`   POST /api/auth/register/{otp,verify}`);
+  console.log(`   POST /api/auth/sessions/{list,revoke,revoke-others}`);
+  console.log(`   POST /api/auth/trusted-devices/{list,revoke,clear}`);
+  console.log(`   POST /api/auth/unlock`);
+  console.log(`   POST /api/auth/webauthn/{register,authenticate,login}-options`);
+  console.log(`   POST /api/auth/webauthn/{register,login}-verify`);
+  console.log(`   POST /api/admin/oath-tokens/{list,import,assign,unassign}`);
+  console.log(`   POST /api/admin/password-hashes`);
+  console.log(`   POST /api/admin/users/{email,lock,unlock,password-reset,role,active}`);
+  console.log(`   GET  /.well-known/jwks.json`);
   console.log(`   POST /api/skysms/otp/send`);
   console.log(`   POST /api/skysms/verify-registration`);
   console.log(`   POST /api/skysms/send-mfa-login-otp`);
-  console.log(`   POST /api/skysms/verify-mfa-login`);
   console.log(`   POST /api/skysms/verify-mfa-setup\n`);
 });
@@ -9,6 +9,10 @@ import Login from "./pages/Login";
 import Register from "./pages/Register";
 import ForgotPassword from "./pages/ForgotPassword";
 import ResetPassword from "./pages/ResetPassword";
+import ChangePassword from "./pages/ChangePassword";
+import UnlockAccount from "./pages/UnlockAccount";
+import ConfirmEmail from "./pages/ConfirmEmail";
+import RevertEmail from "./pages/RevertEmail";
 import MfaVerify from "./pages/MfaVerify";
 import Dashboard from "./pages/Dashboard";
 import MfaSetup from "./pages/MfaSetup";
@@ -31,6 +35,10 @@ const App = () => (
             <Route path="/register" element={<Register />} />
             <Route path="/forgot-password" element={<ForgotPassword />} />
             <Route path="/reset-password" element={<ResetPassword />} />
+            <Route path="/change-password" element={<ChangePassword />} />
+            <Route path="/unlock-account" element={<UnlockAccount />} />
+            <Route path="/confirm-email" element={<ConfirmEmail />} />
+            <Route path="/revert-email" element={<RevertEmail />} />
             <Route path="/mfa-verify" element={<MfaVerify />} />
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/mfa-setup" element={<MfaSetup />} />
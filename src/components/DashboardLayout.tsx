@@ -1,8 +1,9 @@
 import { ReactNode } from 'react';
-import { Link, useLocation } from 'react-router-dom';
+import { Link, Navigate, useLocation } from 'react-router-dom';
 import { Shield, LayoutDashboard, Settings, Users, LogOut, Menu, X, Key } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
+import SessionTimeoutDialog from '@/components/SessionTimeoutDialog';
 import { useState } from 'react';
 
 interface DashboardLayoutProps {
@@ -25,6 +26,11 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
     (item) => !item.adminOnly || user?.role === 'Admin'
   );
 
+  // An expired password has to be changed before any dashboard page opens
+  if (user?.passwordExpired) {
+    return <Navigate to="/change-password" replace />;
+  }
+
   return (
     <div className="min-h-screen bg-background flex">
       {/* Mobile Overlay */}
@@ -81,14 +87,22 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
           {/* User Section */}
           <div className="p-4 border-t border-sidebar-border">
             <div className="flex items-center gap-3 px-4 py-3">
-              <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center">
-                <span className="text-primary font-medium">
-                  {user?.email.charAt(0).toUpperCase()}
-                </span>
+              <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center overflow-hidden">
+                {user?.avatarUrl ? (
+                  <img src={user.avatarUrl} alt="" className="h-full w-full object-cover" />
+                ) : (
+                  <span className="text-primary font-medium">
+                    {(user?.displayName || user?.email)?.charAt(0).toUpperCase()}
+                  </span>
+                )}
               </div>
               <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium text-sidebar-foreground truncate">{user?.email}</p>
-                <p className="text-xs text-sidebar-foreground/70">{user?.role}</p>
+                <p className="text-sm font-medium text-sidebar-foreground truncate">
+                  {user?.displayName || user?.email}
+                </p>
+                <p className="text-xs text-sidebar-foreground/70 truncate">
+                  {user?.displayName ? `${user.email} · ${user.role}` : user?.role}
+                </p>
               </div>
             </div>
             <Button
@@ -139,6 +153,8 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
           {children}
         </main>
       </div>
+
+      <SessionTimeoutDialog />
     </div>
   );
 }
@@ -0,0 +1,43 @@
+import { CheckCircle } from 'lucide-react';
+import { getPasswordRequirements } from '@/lib/password';
+import type { PasswordPolicy } from '@/lib/password';
+
+interface PasswordChecklistProps {
+  password: string;
+  policy: PasswordPolicy;
+  /** Email address of the account, whose words the password must not contain */
+  email?: string;
+  /** Mention the reuse rule (for changing an existing account's password) */
+  checksHistory?: boolean;
+}
+
+/** Live list of the policy's requirements, ticked off as `password` meets them. */
+export default function PasswordChecklist({
+  password,
+  policy,
+  email,
+  checksHistory = false,
+}: PasswordChecklistProps) {
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        {getPasswordRequirements(policy, email).map((req) => (
+          <div
+            key={req.label}
+            className={`flex items-center gap-1 text-xs ${
+              req.test(password) ? 'text-success' : 'text-muted-foreground'
+            }`}
+          >
+            <CheckCircle className="h-3 w-3" />
+            <span>{req.label}</span>
+          </div>
+        ))}
+      </div>
+      {checksHistory && policy.historyCount > 1 && (
+        <p className="text-xs text-muted-foreground">
+          Must differ from your last {policy.historyCount} passwords.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { contextWords, estimatePasswordStrength } from '@/lib/password-screening';
+import { cn } from '@/lib/utils';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  /** Email address of the account; its words do not count toward strength */
+  email?: string;
+}
+
+const SCORE_COLORS = ['bg-destructive', 'bg-destructive', 'bg-warning', 'bg-success', 'bg-success'];
+const SCORE_TEXT = ['text-destructive', 'text-destructive', 'text-warning', 'text-success', 'text-success'];
+
+/** Four-segment strength bar for a new password, estimated offline. */
+export default function PasswordStrengthMeter({ password, email }: PasswordStrengthMeterProps) {
+  const { score, label } = estimatePasswordStrength(password, contextWords(email));
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex gap-1" aria-hidden="true">
+        {[1, 2, 3, 4].map((segment) => (
+          <div
+            key={segment}
+            className={cn('h-1.5 flex-1 rounded-full', segment <= score ? SCORE_COLORS[score] : 'bg-muted')}
+          />
+        ))}
+      </div>
+      <p className={cn('text-xs', SCORE_TEXT[score])}>Strength: {label}</p>
+    </div>
+  );
+}
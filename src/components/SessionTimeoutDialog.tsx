@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react';
+import { Clock, Loader2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { getSessionDeadline, SESSION_WARNING_MS } from '@/lib/session-timeout';
+import type { SessionDeadline } from '@/lib/session-timeout';
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Countdown shown before an idle or absolute-lifetime sign-out.
+ * Signs the user out when the countdown reaches zero.
+ */
+export default function SessionTimeoutDialog() {
+  const { isAuthenticated, logout, extendSession } = useAuth();
+  const [deadline, setDeadline] = useState<SessionDeadline | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [extending, setExtending] = useState(false);
+  const signingOutRef = useRef(false);
+
+  // Re-read the deadline every second (activity updates it in storage)
+  useEffect(() => {
+    if (!isAuthenticated) {
+      return;
+    }
+
+    const tick = () => {
+      setDeadline(getSessionDeadline());
+      setNow(Date.now());
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [isAuthenticated]);
+
+  const remaining = deadline ? deadline.at - now : Infinity;
+  const open = isAuthenticated && remaining <= SESSION_WARNING_MS;
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      signingOutRef.current = false;
+    } else if (remaining <= 0 && !signingOutRef.current) {
+      signingOutRef.current = true;
+      logout();
+    }
+  }, [isAuthenticated, remaining, logout]);
+
+  const handleStaySignedIn = async () => {
+    setExtending(true);
+    const extended = await extendSession();
+    setExtending(false);
+    if (!extended) {
+      logout();
+      return;
+    }
+    setDeadline(getSessionDeadline());
+    setNow(Date.now());
+  };
+
+  const isIdle = deadline?.reason === 'idle';
+
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-primary" />
+            {isIdle ? 'Are you still there?' : 'Your session is ending'}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {isIdle
+              ? 'You have been inactive for a while. For your security you will be signed out in '
+              : 'Your session has reached its maximum length. You will be signed out in '}
+            <span className="font-semibold text-foreground">{formatCountdown(remaining)}</span>
+            {isIdle ? '.' : '. Sign in again to continue.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={logout} disabled={extending}>
+            Sign out now
+          </Button>
+          {isIdle && (
+            <Button onClick={handleStaySignedIn} disabled={extending}>
+              {extending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Stay signed in
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
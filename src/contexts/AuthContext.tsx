@@ -1,21 +1,64 @@
 import { createContext, useContext, useState, ReactNode, useEffect, useRef, useCallback } from 'react';
 import * as api from '@/lib/api';
-import type { User } from '@/lib/api';
-import { hashPassword, comparePassword } from '@/lib/password';
-import { generateTokenPair, verifyAccessToken, refreshAccessToken, isTokenExpired } from '@/lib/jwt';
-import { generateTotpSecret, generateTotpUri, generateQRCode, verifyTotp } from '@/lib/totp';
-import { generateEmailOtp, sendEmailOtp } from '@/lib/email-otp';
+import type { User, UserProfile } from '@/lib/api';
+import {
+  AuthRequestError,
+  changePassword as requestPasswordChange,
+  disableMfa as requestMfaDisable,
+  getBackupCodesRemaining as requestBackupCodesRemaining,
+  getCurrentSessionFamilyId,
+  getCurrentSessionUserId,
+  getPasskeyAssertion,
+  getTotpSetupOptions,
+  loginWithPasskey as requestPasskeyLogin,
+  loginWithPassword,
+  logoutSession,
+  refreshSession,
+  regenerateBackupCodes as requestBackupCodes,
+  registerPasskey,
+  removeMfaMethod as requestMfaMethodRemoval,
+  requestEmailOtp,
+  requestRegistrationOtp,
+  setPrimaryMfaMethod as requestPrimaryMfaMethod,
+  storeTrustedDeviceToken,
+  updateProfile as requestProfileUpdate,
+  verifyEmailMfaSetup,
+  verifyMfaCode,
+  verifyRegistrationCode,
+  verifyTotpMfaSetup,
+} from '@/lib/auth-api';
+import type {
+  LoginResponse,
+  MfaProof,
+  MfaType,
+  MfaVerifyResult,
+  SessionLimits,
+  TotpSetupOptions,
+} from '@/lib/auth-api';
+import { generateQRCode } from '@/lib/totp';
 import { normalizePhilippinePhone } from '@/lib/phone';
 import { sendSkysmsRegistrationOtp, verifySkysmsRegistration } from '@/lib/skysms-registration';
 import {
   sendSkysmsMfaLoginOtpByUserId,
   sendSkysmsMfaSetupOtp,
-  verifySkysmsMfaLogin,
   verifySkysmsMfaSetup,
 } from '@/lib/skysms-mfa';
-import { checkLoginRateLimit, getRateLimitErrorMessage } from '@/lib/rate-limit';
-import { checkSessionTimeout, getTimeUntilExpiry, SESSION_TIMEOUT_MS } from '@/lib/session-timeout';
-import { getClientIpAddress, getCachedClientIp } from '@/lib/ip-address';
+import {
+  checkSessionTimeout,
+  clearSessionActivity,
+  getSessionDeadline,
+  recordActivity,
+  SESSION_WARNING_MS,
+  storeSessionLimits,
+} from '@/lib/session-timeout';
+import {
+  broadcastSessionEvent,
+  isRefreshLeader,
+  joinSessionSync,
+  startSessionSync,
+  stopSessionSync,
+} from '@/lib/session-sync';
+import type { SessionSyncMessage } from '@/lib/session-sync';
 
 export type UserRole = 'Admin' | 'StandardUser' | 'RestrictedUser';
 
@@ -27,19 +70,36 @@ interface AuthContextType {
   isAuthenticated: boolean;
   mfaVerified: boolean;
   isLoading: boolean; // Track if session is being restored
-  login: (email: string, password: string) => Promise<{ requiresMfa: boolean }>;
-  verifyMfa: (code: string, type?: 'totp' | 'email' | 'sms') => Promise<boolean>;
+  login: (
+    email: string,
+    password: string
+  ) => Promise<{ requiresMfa: boolean; trustedDeviceDays: number }>;
+  loginWithPasskey: () => Promise<void>;
+  verifyMfa: (
+    code: string,
+    type?: MfaType,
+    trustDevice?: boolean,
+    nextCode?: string
+  ) => Promise<MfaVerifyResult>;
   logout: () => void;
+  extendSession: () => Promise<boolean>;
   sendRegistrationOtp: (email: string, password: string, phone?: string) => Promise<boolean>;
   verifyRegistrationOtp: (email: string, code: string, phone?: string) => Promise<void>;
-  enableMfa: () => void;
   disableMfa: () => void;
-  setupTotp: () => Promise<{ secret: string; qrCode: string; uri: string }>;
+  setupTotp: (type?: api.OtpType) => Promise<TotpSetupOptions & { qrCode: string }>;
   setupEmailOtp: () => Promise<boolean>;
-  verifyTotpSetup: (code: string, secret: string) => Promise<boolean>;
+  verifyTotpSetup: (code: string, secret: string, type?: api.OtpType) => Promise<boolean>;
   verifyEmailOtpSetup: (code: string) => Promise<boolean>;
   setupSmsMfaOtp: (phone: string) => Promise<boolean>;
   verifySmsMfaSetup: (phone: string, code: string) => Promise<boolean>;
+  setupWebauthn: (name?: string) => Promise<boolean>;
+  removeMfaMethod: (method: api.MfaGateMethod) => Promise<api.MfaMethod[]>;
+  setPrimaryMfaMethod: (method: api.MfaGateMethod) => Promise<void>;
+  regenerateBackupCodes: () => Promise<string[]>;
+  getBackupCodesRemaining: () => Promise<number>;
+  /** Resolves to the number of other sessions that were signed out */
+  changePassword: (currentPassword: string, newPassword: string) => Promise<number>;
+  updateProfile: (fields: Partial<Omit<UserProfile, 'updatedAt'>>) => Promise<UserProfile>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -50,28 +110,17 @@ const SESSION_MFA_VERIFIED_KEY = 'auth_mfa_verified';
 const SESSION_ACCESS_TOKEN_KEY = 'auth_access_token';
 const SESSION_REFRESH_TOKEN_KEY = 'auth_refresh_token';
 
+// Events that count as user activity for the idle timeout
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+const ACTIVITY_THROTTLE_MS = 5 * 1000;
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [mfaVerified, setMfaVerified] = useState(false);
   const [isLoading, setIsLoading] = useState(true); // Start as loading
   const sessionCheckIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const sessionLoadedRef = useRef(false); // Track if session has been loaded
-
-  // Helper to get client IP and user agent
-  const getClientInfo = async () => {
-    // Try to get cached IP first (synchronous)
-    let ipAddress = getCachedClientIp();
-    
-    // If no cached IP, fetch it (async)
-    if (!ipAddress) {
-      ipAddress = await getClientIpAddress();
-    }
-    
-    return {
-      ipAddress: ipAddress || null,
-      userAgent: navigator.userAgent,
-    };
-  };
+  const syncHandlerRef = useRef<(message: SessionSyncMessage) => void>(() => {});
 
   const clearSession = () => {
     // Clear interval if running
@@ -84,60 +133,176 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     sessionStorage.removeItem(SESSION_MFA_VERIFIED_KEY);
     sessionStorage.removeItem(SESSION_ACCESS_TOKEN_KEY);
     sessionStorage.removeItem(SESSION_REFRESH_TOKEN_KEY);
+    clearSessionActivity();
+    joinSessionSync(null);
     setUser(null);
     setMfaVerified(false);
   };
 
+  // Save rotated tokens and share them with the other tabs of this session
+  const storeTokens = (accessToken: string, refreshToken: string, limits?: SessionLimits) => {
+    sessionStorage.setItem(SESSION_ACCESS_TOKEN_KEY, accessToken);
+    sessionStorage.setItem(SESSION_REFRESH_TOKEN_KEY, refreshToken);
+    storeSessionLimits(limits);
+    broadcastSessionEvent({ type: 'tokens', accessToken, refreshToken, limits });
+  };
+
   const logout = useCallback(async () => {
     const storedAccessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
     
     if (user && storedAccessToken) {
       try {
-        // Delete session from database
-        await api.deleteSession(storedAccessToken);
-        const { ipAddress, userAgent } = await getClientInfo();
-        await api.createAuditLog(user.id, 'User logout', ipAddress, userAgent);
+        // Server deletes the session row and writes the audit entry
+        await logoutSession(storedAccessToken);
       } catch (error) {
         console.error('Error during logout:', error);
       }
     }
     
+    broadcastSessionEvent({ type: 'logout' });
     clearSession();
   }, [user]);
 
   // Start monitoring session timeout
-  const startSessionTimeoutMonitoring = useCallback((
-    accessToken: string,
-    refreshToken: string | null
-  ) => {
+  const startSessionTimeoutMonitoring = useCallback(() => {
     // Clear any existing interval
     if (sessionCheckIntervalRef.current) {
       clearInterval(sessionCheckIntervalRef.current);
     }
 
-    // Check session every minute
+    // Check session every minute. Tokens are read from storage on each tick because
+    // extendSession may have rotated them (a stale refresh token would count as reuse).
     sessionCheckIntervalRef.current = setInterval(async () => {
-      const sessionCheck = await checkSessionTimeout(accessToken, refreshToken);
+      const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+      const refreshToken = sessionStorage.getItem(SESSION_REFRESH_TOKEN_KEY);
+      if (!accessToken) {
+        return;
+      }
+
+      // Only the leading tab refreshes; the others receive its tokens (session-sync.ts)
+      const sessionCheck = await checkSessionTimeout(accessToken, refreshToken, {
+        canRefresh: isRefreshLeader(),
+      });
 
       if (!sessionCheck.isValid) {
-        // Session expired, logout user
+        // Idle / absolute limit reached or session revoked, logout user
         await logout();
-        // Show notification (you might want to use a toast here)
-        console.warn('Session expired due to inactivity');
-      } else if (sessionCheck.accessToken) {
-        // Token was refreshed, update stored tokens
-        accessToken = sessionCheck.accessToken;
-        if (sessionCheck.refreshToken) {
-          refreshToken = sessionCheck.refreshToken;
-        }
-        sessionStorage.setItem(SESSION_ACCESS_TOKEN_KEY, accessToken);
-        if (refreshToken) {
-          sessionStorage.setItem(SESSION_REFRESH_TOKEN_KEY, refreshToken);
-        }
+        console.warn('Session ended (inactivity, maximum lifetime or revocation)');
+      } else if (sessionCheck.accessToken && sessionCheck.refreshToken) {
+        // Token was refreshed, update stored tokens in every tab
+        storeTokens(sessionCheck.accessToken, sessionCheck.refreshToken, sessionCheck.limits);
       }
     }, 60 * 1000); // Check every minute
   }, [logout]);
 
+  // Track user activity for the idle timeout while signed in
+  useEffect(() => {
+    if (!user || !mfaVerified) {
+      return;
+    }
+
+    let lastRecorded = 0;
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastRecorded < ACTIVITY_THROTTLE_MS) {
+        return;
+      }
+      // Once the warning is showing, only "Stay signed in" extends the session
+      const deadline = getSessionDeadline();
+      if (deadline && deadline.at - now <= SESSION_WARNING_MS) {
+        return;
+      }
+      lastRecorded = now;
+      recordActivity(now);
+      broadcastSessionEvent({ type: 'activity', at: now });
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+    };
+  }, [user, mfaVerified]);
+
+  /**
+   * "Stay signed in": reset the idle timer and rotate tokens through the refresh endpoint.
+   * Returns false when the session can no longer be extended (e.g. absolute limit reached).
+   */
+  const extendSession = async (): Promise<boolean> => {
+    const refreshToken = sessionStorage.getItem(SESSION_REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      return false;
+    }
+
+    const now = Date.now();
+    recordActivity(now);
+    broadcastSessionEvent({ type: 'activity', at: now });
+
+    // A following tab asks the leader, which broadcasts the new tokens
+    if (!isRefreshLeader()) {
+      broadcastSessionEvent({ type: 'refresh-request' });
+      return true;
+    }
+
+    try {
+      const refreshed = await refreshSession(refreshToken, now);
+      storeTokens(refreshed.accessToken, refreshed.refreshToken, refreshed.session);
+      // The password expired meanwhile: the server now only accepts the password change
+      if (refreshed.user.passwordExpired) {
+        sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(refreshed.user));
+        setUser(refreshed.user);
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to extend session:', error);
+      return false;
+    }
+  };
+
+  // Apply session events from other tabs (handler is refreshed every render)
+  syncHandlerRef.current = (message: SessionSyncMessage) => {
+    switch (message.type) {
+      case 'tokens':
+        sessionStorage.setItem(SESSION_ACCESS_TOKEN_KEY, message.accessToken);
+        sessionStorage.setItem(SESSION_REFRESH_TOKEN_KEY, message.refreshToken);
+        storeSessionLimits(message.limits);
+        break;
+      case 'activity':
+        recordActivity(message.at);
+        break;
+      case 'refresh-request':
+        if (isRefreshLeader()) {
+          extendSession();
+        }
+        break;
+      case 'mfa-verified':
+        sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(message.user));
+        sessionStorage.setItem(SESSION_MFA_VERIFIED_KEY, 'true');
+        setUser(message.user);
+        setMfaVerified(true);
+        startSessionTimeoutMonitoring();
+        break;
+      case 'logout': {
+        // The user signed out in another tab; a tab that signed in separately also ends
+        // its own session on the server (a no-op for tabs of the same session)
+        const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+        if (accessToken) {
+          logoutSession(accessToken).catch((error) =>
+            console.error('Error during logout:', error)
+          );
+        }
+        clearSession();
+        break;
+      }
+    }
+  };
+
+  useEffect(() => {
+    startSessionSync((message) => syncHandlerRef.current(message));
+    return () => stopSessionSync();
+  }, []);
+
   // Load user and validate token on mount (only once)
   useEffect(() => {
     // Prevent multiple runs
@@ -154,10 +319,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       
       if (storedUser && storedAccessToken) {
         try {
+          // Join the other tabs of this session first so only one of them refreshes
+          await joinSessionSync(getCurrentSessionFamilyId(), getCurrentSessionUserId());
+
           // Check session timeout and refresh if needed
           const sessionCheck = await checkSessionTimeout(
             storedAccessToken,
-            storedRefreshToken
+            storedRefreshToken,
+            { canRefresh: isRefreshLeader() }
           );
 
           if (sessionCheck.isValid) {
@@ -165,11 +334,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             const finalAccessToken = sessionCheck.accessToken || storedAccessToken;
             const finalRefreshToken = sessionCheck.refreshToken || storedRefreshToken;
             
-            if (sessionCheck.accessToken) {
-              sessionStorage.setItem(SESSION_ACCESS_TOKEN_KEY, finalAccessToken);
-              if (sessionCheck.refreshToken) {
-                sessionStorage.setItem(SESSION_REFRESH_TOKEN_KEY, finalRefreshToken);
-              }
+            if (sessionCheck.accessToken && finalRefreshToken) {
+              storeTokens(finalAccessToken, finalRefreshToken, sessionCheck.limits);
             }
 
             const user = JSON.parse(storedUser);
@@ -177,7 +343,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             setMfaVerified(storedMfaVerified === 'true');
 
             // Start session timeout monitoring
-            startSessionTimeoutMonitoring(finalAccessToken, finalRefreshToken);
+            startSessionTimeoutMonitoring();
           } else {
             // Session expired, clear it
             clearSession();
@@ -203,149 +369,121 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run once on mount
 
-  const login = async (email: string, password: string): Promise<{ requiresMfa: boolean }> => {
-    const { ipAddress, userAgent } = await getClientInfo();
-    
-    // Check rate limit before attempting login
-    const rateLimit = await checkLoginRateLimit(email);
-    if (rateLimit.isBlocked) {
-      const errorMessage = getRateLimitErrorMessage(rateLimit.resetAt);
-      throw new Error(errorMessage);
-    }
-    
-    // Get user data
-    const userData = await api.getUserByEmail(email);
-    if (!userData) {
-      await api.recordFailedLoginAttempt(email, false, ipAddress);
-      // Check rate limit again after failed attempt
-      const newRateLimit = await checkLoginRateLimit(email);
-      if (newRateLimit.isBlocked) {
-        throw new Error(getRateLimitErrorMessage(newRateLimit.resetAt));
-      }
-      throw new Error('Invalid credentials');
+  // Store a new session from a sign-in response
+  const beginSession = async (result: LoginResponse) => {
+    sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(result.user));
+    sessionStorage.setItem(SESSION_ACCESS_TOKEN_KEY, result.accessToken);
+    sessionStorage.setItem(SESSION_REFRESH_TOKEN_KEY, result.refreshToken);
+    storeSessionLimits(result.session);
+    recordActivity();
+    await joinSessionSync(getCurrentSessionFamilyId(), getCurrentSessionUserId());
+
+    if (!result.requiresMfa) {
+      // A trusted device or a passkey satisfied the second factor (checked on the server)
+      setMfaVerified(true);
+      sessionStorage.setItem(SESSION_MFA_VERIFIED_KEY, 'true');
+      setUser(result.user);
+      setIsLoading(false);
+      startSessionTimeoutMonitoring();
     }
+  };
 
-    // Get password hash and compare
-    const passwordHash = await api.getPasswordHash(email);
-    if (!passwordHash) {
-      await api.recordFailedLoginAttempt(email, false, ipAddress);
-      // Check rate limit again after failed attempt
-      const newRateLimit = await checkLoginRateLimit(email);
-      if (newRateLimit.isBlocked) {
-        throw new Error(getRateLimitErrorMessage(newRateLimit.resetAt));
-      }
-      throw new Error('Invalid credentials');
-    }
+  const login = async (
+    email: string,
+    password: string
+  ): Promise<{ requiresMfa: boolean; trustedDeviceDays: number }> => {
+    // Password check, rate limiting, session row and token signing happen on the server
+    const result = await loginWithPassword(email, password);
+    const userData = result.user;
+    await beginSession(result);
 
-    // Compare password using bcrypt
-    const isPasswordValid = await comparePassword(password, passwordHash);
-    if (!isPasswordValid) {
-      await api.recordFailedLoginAttempt(email, false, ipAddress);
-      // Check rate limit again after failed attempt
-      const newRateLimit = await checkLoginRateLimit(email);
-      if (newRateLimit.isBlocked) {
-        throw new Error(getRateLimitErrorMessage(newRateLimit.resetAt));
-      }
-      throw new Error('Invalid credentials');
+    if (!result.requiresMfa) {
+      return { requiresMfa: false, trustedDeviceDays: result.trustedDeviceDays };
     }
 
-    // Generate JWT tokens
-    const tokenPair = await generateTokenPair(userData.id, userData.email, userData.role);
-    
-    // Store session in database
-    await api.createSession(
-      userData.id,
-      tokenPair.accessToken,
-      tokenPair.refreshToken,
-      tokenPair.expiresAt,
-      ipAddress,
-      userAgent
-    );
-    
-    // Store in session storage
-    sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(userData));
-    sessionStorage.setItem(SESSION_ACCESS_TOKEN_KEY, tokenPair.accessToken);
-    sessionStorage.setItem(SESSION_REFRESH_TOKEN_KEY, tokenPair.refreshToken);
-    
-    // Create audit log (full access is granted only after second factor on /mfa-verify)
-    await api.createAuditLog(userData.id, 'User login (password verified)', ipAddress, userAgent);
-    await api.recordFailedLoginAttempt(email, true, ipAddress);
+    // The stored device token (if any) was expired, revoked or used from another browser
+    storeTrustedDeviceToken(userData.email, null);
 
-    // Always require a second factor before dashboard access: TOTP, SMS OTP, or email OTP
+    // Otherwise require a second factor before dashboard access: security key, TOTP, SMS or email OTP
     // (see getMfaGateInfo / MfaVerify — users without MFA still get email OTP to their account email)
     setMfaVerified(false);
     sessionStorage.setItem(SESSION_MFA_VERIFIED_KEY, 'false');
     setUser(userData);
     setIsLoading(false);
-    return { requiresMfa: true };
+    return { requiresMfa: true, trustedDeviceDays: result.trustedDeviceDays };
   };
 
-  const verifyMfa = async (code: string, type: 'totp' | 'email' | 'sms' | 'backup' = 'email'): Promise<boolean> => {
-    if (!user) {
-      return false;
-    }
-
-    // Note: Rate limiting for MFA verification could be added here
-    // For now, we rely on OTP expiry (120 seconds) as the primary protection
+  // Passwordless sign-in; throws when the prompt is cancelled or the passkey is unknown
+  const loginWithPasskey = async (): Promise<void> => {
+    await beginSession(await requestPasskeyLogin());
+  };
 
-    let isValid = false;
+  const verifyMfa = async (
+    code: string,
+    type: MfaType = 'email',
+    trustDevice = false,
+    nextCode?: string
+  ): Promise<MfaVerifyResult> => {
+    const storedAccessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !storedAccessToken) {
+      return { success: false };
+    }
 
-    if (type === 'backup') {
-      // Verify backup code
-      isValid = await api.verifyBackupCode(user.id, code);
-    } else if (type === 'totp') {
-      // Verify TOTP code
-      const mfaSecret = await api.getMfaSecret(user.id);
-      if (!mfaSecret) {
-        return false;
+    // The server checks the code and its rate limit, marks the session verified and
+    // writes the audit entry
+    let failure: MfaVerifyResult | null = null;
+    try {
+      const proof: MfaProof =
+        type === 'webauthn'
+          ? { type, response: await getPasskeyAssertion(storedAccessToken) }
+          : { type, code, nextCode };
+      const result = await verifyMfaCode(storedAccessToken, proof, trustDevice);
+      if (result.deviceToken) {
+        storeTrustedDeviceToken(user.email, result.deviceToken);
       }
-      isValid = verifyTotp(code, mfaSecret);
-    } else if (type === 'sms') {
-      try {
-        isValid = await verifySkysmsMfaLogin(user.id, code);
-      } catch {
-        isValid = false;
+    } catch (error) {
+      failure = { success: false };
+      if (error instanceof AuthRequestError && (error.status === 401 || error.status === 429)) {
+        const { remainingAttempts, retryAfterSeconds } = error.data;
+        failure = {
+          success: false,
+          message: error.message,
+          remainingAttempts: typeof remainingAttempts === 'number' ? remainingAttempts : undefined,
+          retryAfterSeconds: typeof retryAfterSeconds === 'number' ? retryAfterSeconds : undefined,
+        };
       }
-    } else {
-      // Verify Email OTP code (expiry is checked in verifyOtpCode - 120 seconds)
-      isValid = await api.verifyOtpCode(user.id, code, 'email');
     }
     
-    if (isValid) {
+    if (!failure) {
       setMfaVerified(true);
       sessionStorage.setItem(SESSION_MFA_VERIFIED_KEY, 'true');
       setIsLoading(false); // Set loading to false after MFA verification
-      const { ipAddress, userAgent } = await getClientInfo();
-      await api.createAuditLog(user.id, `MFA verified (${type})`, ipAddress, userAgent);
-      
-      // Generate new tokens after MFA verification
-      const tokenPair = await generateTokenPair(user.id, user.email, user.role);
-      const storedAccessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
       
-      // Update session in database
-      if (storedAccessToken) {
-        await api.deleteSession(storedAccessToken);
+      // Rotate tokens after MFA verification (server swaps the session row)
+      let accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+      let refreshToken = sessionStorage.getItem(SESSION_REFRESH_TOKEN_KEY);
+      if (refreshToken) {
+        try {
+          const refreshed = await refreshSession(refreshToken, Date.now());
+          accessToken = refreshed.accessToken;
+          refreshToken = refreshed.refreshToken;
+          storeTokens(accessToken, refreshToken, refreshed.session);
+        } catch (error) {
+          console.error('Failed to rotate tokens after MFA:', error);
+        }
       }
       
-      await api.createSession(
-        user.id,
-        tokenPair.accessToken,
-        tokenPair.refreshToken,
-        tokenPair.expiresAt,
-        null,
-        userAgent
-      );
-      
-      sessionStorage.setItem(SESSION_ACCESS_TOKEN_KEY, tokenPair.accessToken);
-      sessionStorage.setItem(SESSION_REFRESH_TOKEN_KEY, tokenPair.refreshToken);
-      
-      // Start session timeout monitoring
-      startSessionTimeoutMonitoring(tokenPair.accessToken, tokenPair.refreshToken);
+      // Start session timeout monitoring (idle timer starts now)
+      if (accessToken) {
+        recordActivity();
+        startSessionTimeoutMonitoring();
+      }
+      broadcastSessionEvent({ type: 'mfa-verified', user });
       
-      return true;
+      return { success: true };
     }
 
-    return false;
+    return failure;
   };
 
   /**
@@ -361,35 +499,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       throw new Error('User already exists');
     }
 
-    const passwordHash = await hashPassword(password);
-    const expiresAt = new Date();
-    expiresAt.setSeconds(expiresAt.getSeconds() + 120);
-
     const trimmedPhone = phone?.trim();
     const normalizedPhone = trimmedPhone ? normalizePhilippinePhone(trimmedPhone) : null;
     if (trimmedPhone && !normalizedPhone) {
       throw new Error('Invalid Philippine mobile number. Use +639XXXXXXXXX or 09XXXXXXXXX.');
     }
 
+    // The server checks and hashes the password, keeps one pending registration per email
+    // and emails the code itself
+    await requestRegistrationOtp(email, password, normalizedPhone);
     if (normalizedPhone) {
-      await api.deletePendingSkysmsRegistration(email);
-      const internalCode = crypto.randomUUID().replace(/-/g, '');
-      await api.createEmailVerificationOtp(email, internalCode, passwordHash, expiresAt, {
-        phoneNumber: normalizedPhone,
-        otpDelivery: 'skysms',
-      });
       await sendSkysmsRegistrationOtp(normalizedPhone, 120);
-      return true;
     }
-
-    const code = generateEmailOtp();
-    await api.createEmailVerificationOtp(email, code, passwordHash, expiresAt, {
-      otpDelivery: 'email',
-    });
-
-    return sendEmailOtp(email, code, {
-      subject: 'Verify Your Email - SecureAuth Registration',
-    });
+    return true;
   };
 
   /**
@@ -406,119 +528,96 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       throw new Error('Invalid Philippine mobile number.');
     }
 
-    let passwordHash: string;
+    // The server creates the account once the code checks out
     if (normalizedPhone) {
-      const verification = await verifySkysmsRegistration(email, normalizedPhone, code);
-      if (!verification) {
+      const verified = await verifySkysmsRegistration(email, normalizedPhone, code);
+      if (!verified) {
         throw new Error('Invalid or expired verification code');
       }
-      passwordHash = verification.passwordHash;
     } else {
-      const verification = await api.verifyEmailVerificationOtp(email, code);
-      if (!verification) {
+      try {
+        await verifyRegistrationCode(email, code);
+      } catch (error) {
+        if (error instanceof AuthRequestError && error.status === 409) {
+          throw new Error('User with this email already exists');
+        }
         throw new Error('Invalid or expired verification code');
       }
-      passwordHash = verification.passwordHash;
-    }
-
-    const { ipAddress, userAgent } = await getClientInfo();
-
-    try {
-      const newUser = await api.createUser(email, passwordHash, 'StandardUser');
-      await api.createAuditLog(newUser.id, 'User registration', ipAddress, userAgent);
-    } catch (error) {
-      console.error('Registration error:', error);
-      if (error instanceof Error) {
-        throw error;
-      }
-      throw new Error('Registration failed. Please try again.');
     }
   };
 
-  const setupTotp = async (): Promise<{ secret: string; qrCode: string; uri: string }> => {
-    if (!user) {
+  const setupTotp = async (
+    type: api.OtpType = 'totp'
+  ): Promise<TotpSetupOptions & { qrCode: string }> => {
+    const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !accessToken) {
       throw new Error('User not authenticated');
     }
 
-    const secret = generateTotpSecret(user.email);
-    const uri = generateTotpUri(user.email, secret);
-    const qrCode = await generateQRCode(uri);
+    // The server picks the seed and the deployment's algorithm, digits and period
+    const options = await getTotpSetupOptions(accessToken, type);
+    const qrCode = await generateQRCode(options.uri);
 
-    return { secret, qrCode, uri };
+    return { ...options, qrCode };
   };
 
   const setupEmailOtp = async (): Promise<boolean> => {
-    if (!user) {
+    const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !accessToken) {
       throw new Error('User not authenticated');
     }
 
-    // Generate OTP code
-    const code = generateEmailOtp();
-    
-    // Set expiry to 2 minutes (120 seconds)
-    const expiresAt = new Date();
-    expiresAt.setSeconds(expiresAt.getSeconds() + 120);
-
-    // Store OTP in database
-    await api.createOtpCode(user.id, code, 'email', expiresAt);
-
-    // Send email
-    const sent = await sendEmailOtp(user.email, code);
-    
-    if (sent) {
-      const { ipAddress, userAgent } = await getClientInfo();
-      await api.createAuditLog(user.id, 'Email OTP sent', ipAddress, userAgent);
+    // The server generates the code, stores only its HMAC, sends the email and audits it
+    try {
+      await requestEmailOtp(accessToken);
+    } catch (error) {
+      console.error('Failed to send email OTP:', error);
+      return false;
     }
-
-    return sent;
+    return true;
   };
 
-  const verifyTotpSetup = async (code: string, secret: string): Promise<boolean> => {
-    if (!user) {
+  const verifyTotpSetup = async (
+    code: string,
+    secret: string,
+    type: api.OtpType = 'totp'
+  ): Promise<boolean> => {
+    const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !accessToken) {
       return false;
     }
 
-    // Verify the code matches the secret
-    const isValid = verifyTotp(code, secret);
-    
-    if (isValid) {
-      // Store the secret in database
-      await api.updateUserMfa(user.id, true, secret);
-      
-      const updatedUser = { ...user, mfaEnabled: true };
-      setUser(updatedUser);
-      sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(updatedUser));
-      
-      const { ipAddress, userAgent } = await getClientInfo();
-      await api.createAuditLog(user.id, 'TOTP MFA enabled', ipAddress, userAgent);
-      return true;
+    try {
+      // The server checks the code, stores the secret encrypted (other methods stay
+      // enrolled) and writes the audit entry
+      await verifyTotpMfaSetup(accessToken, secret, code, type);
+    } catch {
+      return false;
     }
 
-    return false;
+    const updatedUser = { ...user, mfaEnabled: true };
+    setUser(updatedUser);
+    sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(updatedUser));
+    return true;
   };
 
   const verifyEmailOtpSetup = async (code: string): Promise<boolean> => {
-    if (!user) {
+    const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !accessToken) {
       return false;
     }
 
-    // Verify OTP code
-    const isValid = await api.verifyOtpCode(user.id, code, 'email');
-    
-    if (isValid) {
-      // Enable email OTP MFA (exclusive with TOTP / SMS)
-      await api.markUserMfaEmailEnabled(user.id);
-      
-      const updatedUser = { ...user, mfaEnabled: true };
-      setUser(updatedUser);
-      sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(updatedUser));
-      
-      const { ipAddress, userAgent } = await getClientInfo();
-      await api.createAuditLog(user.id, 'Email OTP MFA enabled', ipAddress, userAgent);
-      return true;
+    try {
+      // The server checks the code, enrols email OTP and writes the audit entry
+      await verifyEmailMfaSetup(accessToken, code);
+    } catch {
+      return false;
     }
 
-    return false;
+    const updatedUser = { ...user, mfaEnabled: true };
+    setUser(updatedUser);
+    sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(updatedUser));
+    return true;
   };
 
   const setupSmsMfaOtp = async (phone: string): Promise<boolean> => {
@@ -530,8 +629,6 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       throw new Error('Invalid Philippine mobile number. Use +639XXXXXXXXX or 09XXXXXXXXX.');
     }
     await sendSkysmsMfaSetupOtp(normalized);
-    const { ipAddress, userAgent } = await getClientInfo();
-    await api.createAuditLog(user.id, 'SMS MFA setup code sent', ipAddress, userAgent);
     return true;
   };
 
@@ -544,13 +641,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       return false;
     }
     try {
+      // The server checks the code, enrols SMS and writes the audit entry
       const ok = await verifySkysmsMfaSetup(user.id, normalized, otp);
       if (ok) {
         const updatedUser = { ...user, mfaEnabled: true };
         setUser(updatedUser);
         sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(updatedUser));
-        const { ipAddress, userAgent } = await getClientInfo();
-        await api.createAuditLog(user.id, 'SMS OTP MFA enabled', ipAddress, userAgent);
         return true;
       }
     } catch {
@@ -559,37 +655,112 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return false;
   };
 
-  const enableMfa = async () => {
-    if (!user) return;
+  // Register a security key or passkey as a second factor (prompts the browser)
+  const setupWebauthn = async (name?: string): Promise<boolean> => {
+    const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !accessToken) return false;
 
     try {
-      // This is a legacy method - use setupTotp or setupEmailOtp instead
-      await api.updateUserMfa(user.id, true);
-      
+      // The server stores the credential, enrols the method and writes the audit entry
+      await registerPasskey(accessToken, name);
+
       const updatedUser = { ...user, mfaEnabled: true };
       setUser(updatedUser);
       sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(updatedUser));
-      
-      const { ipAddress, userAgent } = await getClientInfo();
-      await api.createAuditLog(user.id, 'MFA enabled', ipAddress, userAgent);
+      return true;
     } catch (error) {
-      throw new Error('Failed to enable MFA');
+      console.error('Security key registration failed:', error);
+      return false;
+    }
+  };
+
+  // The server removes the method (and its security keys), picks a new primary one,
+  // forgets trusted devices and writes the audit entry
+  const removeMfaMethod = async (method: api.MfaGateMethod): Promise<api.MfaMethod[]> => {
+    const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !accessToken) return [];
+
+    const remaining = await requestMfaMethodRemoval(accessToken, method);
+    storeTrustedDeviceToken(user.email, null);
+    if (!remaining) {
+      const updatedUser = { ...user, mfaEnabled: false };
+      setUser(updatedUser);
+      sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(updatedUser));
+      return [];
     }
+    return api.getMfaMethods(user.id);
+  };
+
+  const setPrimaryMfaMethod = async (method: api.MfaGateMethod): Promise<void> => {
+    const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !accessToken) return;
+
+    await requestPrimaryMfaMethod(accessToken, method);
+  };
+
+  // The server generates the codes, stores only their hashes and writes the audit entry
+  const regenerateBackupCodes = async (): Promise<string[]> => {
+    const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !accessToken) {
+      throw new Error('User not authenticated');
+    }
+    return requestBackupCodes(accessToken);
+  };
+
+  // Stable per user so pages can load the count from an effect
+  const getBackupCodesRemaining = useCallback(async (): Promise<number> => {
+    const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !accessToken) return 0;
+    return requestBackupCodesRemaining(accessToken);
+  }, [user]);
+
+  // The server re-checks the current password and applies the password policy; a refusal
+  // is thrown as an AuthRequestError with the reasons in its message. It also ends other
+  // sessions and every trusted device, this browser's included
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<number> => {
+    const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !accessToken) {
+      throw new Error('User not authenticated');
+    }
+    const revokedSessions = await requestPasswordChange(accessToken, currentPassword, newPassword);
+    storeTrustedDeviceToken(user.email, null);
+
+    if (user.passwordExpired) {
+      const updatedUser = { ...user, passwordExpired: false };
+      sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(updatedUser));
+      setUser(updatedUser);
+    }
+    return revokedSessions;
+  };
+
+  // Invalid fields are thrown as an AuthRequestError (see updateProfile in auth-api); the
+  // display name and avatar are copied to the signed-in user for the dashboard header
+  const updateProfile = async (
+    fields: Partial<Omit<UserProfile, 'updatedAt'>>
+  ): Promise<UserProfile> => {
+    const accessToken = sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY);
+    if (!user || !accessToken) {
+      throw new Error('User not authenticated');
+    }
+    const profile = await requestProfileUpdate(accessToken, fields);
+
+    const updatedUser = { ...user, displayName: profile.displayName, avatarUrl: profile.avatarUrl };
+    sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(updatedUser));
+    setUser(updatedUser);
+    return profile;
   };
 
   const disableMfa = async () => {
     if (!user) return;
 
     try {
-      // Disable MFA - updateUserMfa will clear both TOTP and email OTP flags
-      await api.updateUserMfa(user.id, false, null);
+      // The server removes every method and security key and writes the audit entry
+      await requestMfaDisable(sessionStorage.getItem(SESSION_ACCESS_TOKEN_KEY) ?? '');
+      storeTrustedDeviceToken(user.email, null);
       
       const updatedUser = { ...user, mfaEnabled: false };
       setUser(updatedUser);
       sessionStorage.setItem(SESSION_USER_KEY, JSON.stringify(updatedUser));
-      
-      const { ipAddress, userAgent } = await getClientInfo();
-      await api.createAuditLog(user.id, 'MFA disabled', ipAddress, userAgent);
     } catch (error) {
       throw new Error('Failed to disable MFA');
     }
@@ -603,11 +774,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         mfaVerified,
         isLoading,
         login,
+        loginWithPasskey,
         verifyMfa,
         logout,
+        extendSession,
         sendRegistrationOtp,
         verifyRegistrationOtp,
-        enableMfa,
         disableMfa,
         setupTotp,
         setupEmailOtp,
@@ -615,6 +787,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         verifyEmailOtpSetup,
         setupSmsMfaOtp,
         verifySmsMfaSetup,
+        setupWebauthn,
+        removeMfaMethod,
+        setPrimaryMfaMethod,
+        regenerateBackupCodes,
+        getBackupCodesRemaining,
+        changePassword,
+        updateProfile,
       }}
     >
       {children}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import * as api from '@/lib/api';
+import { DEFAULT_PASSWORD_POLICY } from '@/lib/password';
+import type { PasswordPolicy } from '@/lib/password';
+
+/** The stored password policy; the built-in rules until it loads or if it cannot be read. */
+export function usePasswordPolicy(): PasswordPolicy {
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .getPasswordPolicy()
+      .then((loaded) => {
+        if (!cancelled) setPolicy(loaded);
+      })
+      .catch((error) => console.error('Error loading password policy:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return policy;
+}
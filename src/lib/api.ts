@@ -1,6 +1,9 @@
 import { supabase } from './supabase';
 import type { UserRole } from '@/contexts/AuthContext';
 import { maskPhilippinePhoneDisplay } from './phone';
+import { describeUserAgent } from './user-agent';
+import { DEFAULT_PASSWORD_POLICY } from './password';
+import type { PasswordPolicy } from './password';
 
 export interface User {
   id: string;
@@ -8,8 +11,39 @@ export interface User {
   role: UserRole;
   mfaEnabled: boolean;
   createdAt: string;
+  /** False once an admin deactivates the account (see setUserActive) */
+  isActive?: boolean;
+  /** Set while the account is locked (see lockUser) */
+  lockedUntil?: string | null;
+  lockReason?: AccountLockReason | null;
+  /** Set at sign-in and refresh when the password is past the policy's maximum age */
+  passwordExpired?: boolean;
+  /** From the user's profile; null until they set one (see UserProfile) */
+  displayName?: string | null;
+  avatarUrl?: string | null;
 }
 
+/**
+ * The optional personal details in `user_profiles`. Users read and edit their own through
+ * the server (getProfile / updateProfile in ./auth-api); the browser can read only the
+ * display name and avatar of other users.
+ */
+export interface UserProfile {
+  displayName: string | null;
+  /** An https:// image URL */
+  avatarUrl: string | null;
+  /** E.164, e.g. +639171234567 */
+  phone: string | null;
+  /** IANA time zone, e.g. Asia/Manila */
+  timezone: string | null;
+  /** BCP 47 language tag, e.g. en-PH */
+  locale: string | null;
+  updatedAt: string | null;
+}
+
+/** Why an account is locked: repeated failed sign-ins or MFA codes, or an admin */
+export type AccountLockReason = 'failed_logins' | 'failed_mfa' | 'admin';
+
 export interface LoginResult {
   requiresMfa: boolean;
   user: User;
@@ -21,10 +55,22 @@ export interface SessionData {
   expiresAt: string;
 }
 
+export interface UserSession {
+  id: string;
+  familyId: string | null;
+  device: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+}
+
 export interface AuditLog {
   id: string;
   action: string;
   user: string;
+  /** The user's display name, when they have set one */
+  displayName: string | null;
   ip: string;
   time: string;
   userAgent: string | null;
@@ -40,9 +86,12 @@ interface AuditLogRow {
   details: Record<string, unknown> | null;
   created_at: string;
   user_id: string | null;
-  users: { email: string } | null;
+  // One-to-one embeds; see oneToOne
+  users: OneToOne<{ email: string; user_profiles: OneToOne<{ display_name: string | null }> }>;
 }
 
+type OneToOne<T> = T | T[] | null;
+
 /**
  * Get user by email
  */
@@ -101,319 +150,107 @@ export async function getUserById(id: string): Promise<User | null> {
   };
 }
 
-/**
- * Create a new user
- */
-export async function createUser(
-  email: string,
-  passwordHash: string,
-  role: UserRole = 'StandardUser'
-): Promise<User> {
-  const { data, error } = await supabase
-    .from('users')
-    .insert({
-      email: email.toLowerCase(),
-      password_hash: passwordHash,
-      role,
-      mfa_enabled: false,
-      totp_enabled: false,
-      email_otp_enabled: false,
-      sms_otp_enabled: false,
-      mfa_phone_number: null,
-    })
-    .select('id, email, role, mfa_enabled, created_at')
-    .single();
-
-  if (error) {
-    console.error('Error creating user:', error);
-    // Check for duplicate email
-    if (error.code === '23505') {
-      throw new Error('User with this email already exists');
-    }
-    // Check for RLS policy error
-    if (error.code === '42501') {
-      throw new Error(
-        'RLS Policy Error: User creation blocked. Please run the RLS fix SQL in Supabase. See RLS_FIX_INSTRUCTIONS.md'
-      );
-    }
-    throw new Error(`Failed to create user: ${error.message} (Code: ${error.code || 'unknown'})`);
-  }
-
-  return {
-    id: data.id,
-    email: data.email,
-    role: data.role,
-    mfaEnabled: data.mfa_enabled,
-    createdAt: data.created_at,
-  };
-}
-
-/**
- * Get password hash for a user
- */
-export async function getPasswordHash(email: string): Promise<string | null> {
-  const normalizedEmail = email.toLowerCase().trim();
-  
-  const { data, error } = await supabase
-    .from('users')
-    .select('password_hash')
-    .eq('email', normalizedEmail)
-    .maybeSingle(); // Use maybeSingle() instead of single()
-
-  if (error || !data) {
-    return null;
-  }
-
-  return data.password_hash;
+export interface TrustedDevice {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string;
 }
 
-/**
- * Update user MFA status
- */
-export async function updateUserMfa(
-  userId: string,
-  mfaEnabled: boolean,
-  mfaSecret?: string | null
-): Promise<void> {
-  const updateData: {
-    mfa_enabled: boolean;
-    mfa_secret?: string | null;
-    totp_enabled?: boolean;
-    email_otp_enabled?: boolean;
-    sms_otp_enabled?: boolean;
-    mfa_phone_number?: string | null;
-    updated_at: string;
-  } = {
-    mfa_enabled: mfaEnabled,
-    updated_at: new Date().toISOString(),
-  };
+export type MfaGateMethod = 'totp' | 'email' | 'sms' | 'webauthn';
 
-  if (mfaSecret !== undefined) {
-    // Setting TOTP secret - enable TOTP, clear other MFA methods
-    updateData.mfa_secret = mfaSecret;
-    updateData.totp_enabled = mfaEnabled;
-    updateData.email_otp_enabled = false;
-    updateData.sms_otp_enabled = false;
-    updateData.mfa_phone_number = null;
-  } else if (!mfaEnabled) {
-    // Disabling MFA - clear TOTP, email OTP, and SMS MFA
-    updateData.totp_enabled = false;
-    updateData.email_otp_enabled = false;
-    updateData.sms_otp_enabled = false;
-    updateData.mfa_phone_number = null;
-    updateData.mfa_secret = null;
-  }
-
-  const { error } = await supabase
-    .from('users')
-    .update(updateData)
-    .eq('id', userId);
-
-  if (error) {
-    throw new Error(`Failed to update MFA: ${error.message}`);
-  }
-}
+export const MFA_METHOD_LABELS: Record<MfaGateMethod, string> = {
+  totp: 'Authenticator app',
+  email: 'Email code',
+  sms: 'SMS code',
+  webauthn: 'Security key or passkey',
+};
 
-/**
- * Create a session
- */
-export async function createSession(
-  userId: string,
-  token: string,
-  refreshToken: string | null,
-  expiresAt: Date,
-  ipAddress?: string | null,
-  userAgent?: string | null
-): Promise<void> {
-  const { error } = await supabase.from('sessions').insert({
-    user_id: userId,
-    token,
-    refresh_token: refreshToken,
-    expires_at: expiresAt.toISOString(),
-    ip_address: ipAddress,
-    user_agent: userAgent,
-  });
+/** Time-based codes (authenticator apps) or counter-based codes (HOTP tokens) */
+export type OtpType = 'totp' | 'hotp';
 
-  if (error) {
-    console.error('Error creating session:', error);
-    // Check for RLS policy error
-    if (error.code === '42501') {
-      throw new Error(
-        'RLS Policy Error: Session creation blocked. Please run the RLS fix SQL in Supabase. See RLS_FIX_INSTRUCTIONS.md'
-      );
-    }
-    throw new Error(`Failed to create session: ${error.message} (Code: ${error.code || 'unknown'})`);
-  }
+export interface MfaMethod {
+  id: string;
+  method: MfaGateMethod;
+  isPrimary: boolean;
+  phoneDisplay: string | null;
+  /** For `totp` methods: code type and length the credential was enrolled with */
+  otpType: OtpType | null;
+  otpDigits: number | null;
+  createdAt: string;
+  lastUsedAt: string | null;
 }
 
-/**
- * Delete a session
- */
-export async function deleteSession(token: string): Promise<void> {
-  const { error } = await supabase.from('sessions').delete().eq('token', token);
-
-  if (error) {
-    throw new Error(`Failed to delete session: ${error.message}`);
-  }
+interface MfaMethodRow {
+  id: string;
+  method: MfaGateMethod;
+  phone_number: string | null;
+  otp_type: OtpType | null;
+  otp_digits: number | null;
+  is_primary: boolean;
+  created_at: string;
+  last_used_at: string | null;
 }
 
 /**
- * Get user's MFA secret
+ * Second factors enrolled by a user, primary first
  */
-export async function getMfaSecret(userId: string): Promise<string | null> {
+export async function getMfaMethods(userId: string): Promise<MfaMethod[]> {
   const { data, error } = await supabase
-    .from('users')
-    .select('mfa_secret')
-    .eq('id', userId)
-    .single();
-
-  if (error || !data) {
-    return null;
-  }
+    .from('user_mfa_methods')
+    .select('id, method, phone_number, otp_type, otp_digits, is_primary, created_at, last_used_at')
+    .eq('user_id', userId)
+    .order('is_primary', { ascending: false })
+    .order('created_at', { ascending: true });
 
-  return data.mfa_secret;
+  if (error) {
+    throw new Error(`Failed to get MFA methods: ${error.message}`);
+  }
+
+  return (data || []).map((row: MfaMethodRow): MfaMethod => ({
+    id: row.id,
+    method: row.method,
+    isPrimary: row.is_primary,
+    phoneDisplay: row.phone_number ? maskPhilippinePhoneDisplay(row.phone_number) : null,
+    otpType: row.method === 'totp' ? row.otp_type : null,
+    otpDigits: row.method === 'totp' ? row.otp_digits : null,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  }));
 }
 
-export type MfaGateMethod = 'totp' | 'email' | 'sms';
-
 /**
- * Which second factor applies after password (TOTP secret, SMS on file, or email OTP).
+ * Second factors offered after password: the primary method first, then the others.
+ * Users without any method enrolled get an email code to their account address.
  */
 export async function getMfaGateInfo(userId: string): Promise<{
   method: MfaGateMethod;
+  methods: MfaGateMethod[];
   mfaPhoneDisplay: string | null;
+  otpType: OtpType;
+  otpDigits: number;
 }> {
-  const { data, error } = await supabase
-    .from('users')
-    .select('mfa_secret, sms_otp_enabled, mfa_phone_number')
-    .eq('id', userId)
-    .single();
-
-  if (error || !data) {
-    return { method: 'email', mfaPhoneDisplay: null };
+  let methods: MfaMethod[] = [];
+  try {
+    methods = await getMfaMethods(userId);
+  } catch {
+    methods = [];
   }
 
-  if (data.mfa_secret) {
-    return { method: 'totp', mfaPhoneDisplay: null };
+  if (!methods.length) {
+    return { method: 'email', methods: ['email'], mfaPhoneDisplay: null, otpType: 'totp', otpDigits: 6 };
   }
 
-  const smsOn = Boolean(data.sms_otp_enabled);
-  const phone = data.mfa_phone_number as string | null | undefined;
-  if (smsOn && phone) {
-    return { method: 'sms', mfaPhoneDisplay: maskPhilippinePhoneDisplay(phone) };
-  }
-
-  return { method: 'email', mfaPhoneDisplay: null };
-}
-
-/** After email OTP setup verification — exclusive with TOTP / SMS MFA flags. */
-export async function markUserMfaEmailEnabled(userId: string): Promise<void> {
-  const { error } = await supabase
-    .from('users')
-    .update({
-      mfa_enabled: true,
-      email_otp_enabled: true,
-      sms_otp_enabled: false,
-      mfa_phone_number: null,
-      totp_enabled: false,
-      mfa_secret: null,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', userId);
-
-  if (error) {
-    throw new Error(`Failed to enable email MFA: ${error.message}`);
-  }
-}
-
-/**
- * Create an OTP code
- */
-export async function createOtpCode(
-  userId: string,
-  code: string,
-  type: 'email' | 'totp',
-  expiresAt: Date
-): Promise<void> {
-  const { error } = await supabase.from('otp_codes').insert({
-    user_id: userId,
-    code,
-    type,
-    expires_at: expiresAt.toISOString(),
-    used: false,
-  });
-
-  if (error) {
-    throw new Error(`Failed to create OTP code: ${error.message}`);
-  }
-}
-
-/**
- * Verify and mark OTP code as used
- */
-export async function verifyOtpCode(
-  userId: string,
-  code: string,
-  type: 'email' | 'totp'
-): Promise<boolean> {
-  const { data, error } = await supabase
-    .from('otp_codes')
-    .select('id, expires_at, used')
-    .eq('user_id', userId)
-    .eq('code', code)
-    .eq('type', type)
-    .eq('used', false)
-    .single();
-
-  if (error || !data) {
-    return false;
-  }
-
-  // Check if expired
-  const expiresAt = new Date(data.expires_at);
-  if (expiresAt < new Date()) {
-    return false;
-  }
-
-  // Mark as used
-  const { error: updateError } = await supabase
-    .from('otp_codes')
-    .update({ used: true })
-    .eq('id', data.id);
-
-  if (updateError) {
-    return false;
-  }
-
-  return true;
-}
-
-/**
- * Create audit log entry
- */
-export async function createAuditLog(
-  userId: string | null,
-  action: string,
-  ipAddress?: string | null,
-  userAgent?: string | null,
-  details?: Record<string, unknown>
-): Promise<void> {
-  const { error } = await supabase.from('audit_logs').insert({
-    user_id: userId,
-    action,
-    ip_address: ipAddress,
-    user_agent: userAgent,
-    details,
-  });
-
-  if (error) {
-    console.error('Failed to create audit log:', error);
-    // Don't throw - audit logging failures shouldn't break the app
-    // But log RLS errors for debugging
-    if (error.code === '42501') {
-      console.warn('RLS Policy Error: Audit log creation blocked. Please run the RLS fix SQL.');
-    }
-  }
+  const otp = methods.find((m) => m.method === 'totp');
+  return {
+    method: methods[0].method,
+    methods: methods.map((m) => m.method),
+    mfaPhoneDisplay: methods.find((m) => m.method === 'sms')?.phoneDisplay ?? null,
+    otpType: otp?.otpType ?? 'totp',
+    otpDigits: otp?.otpDigits ?? 6,
+  };
 }
 
 /**
@@ -430,7 +267,7 @@ export async function getAuditLogs(limit: number = 100) {
       details,
       created_at,
       user_id,
-      users(email)
+      users(email, user_profiles(display_name))
     `)
     .order('created_at', { ascending: false })
     .limit(limit);
@@ -440,16 +277,20 @@ export async function getAuditLogs(limit: number = 100) {
   }
 
   // Format the data for easier use
-  return data.map((log: AuditLogRow): AuditLog => ({
-    id: log.id,
-    action: log.action,
-    user: log.users?.email || (log.user_id ? 'User ID: ' + log.user_id.substring(0, 8) : 'System'),
-    ip: log.ip_address || 'N/A',
-    time: formatTimeAgo(new Date(log.created_at)),
-    userAgent: log.user_agent,
-    details: log.details,
-    createdAt: log.created_at,
-  }));
+  return data.map((log: AuditLogRow): AuditLog => {
+    const user = oneToOne(log.users);
+    return {
+      id: log.id,
+      action: log.action,
+      user: user?.email || (log.user_id ? 'User ID: ' + log.user_id.substring(0, 8) : 'System'),
+      displayName: oneToOne(user?.user_profiles)?.display_name ?? null,
+      ip: log.ip_address || 'N/A',
+      time: formatTimeAgo(new Date(log.created_at)),
+      userAgent: log.user_agent,
+      details: log.details,
+      createdAt: log.created_at,
+    };
+  });
 }
 
 /**
@@ -473,170 +314,9 @@ function formatTimeAgo(date: Date): string {
   }
 }
 
-/**
- * Create backup codes
- */
-export async function createBackupCodes(
-  userId: string,
-  codes: string[]
-): Promise<void> {
-  const backupCodes = codes.map((code) => ({
-    user_id: userId,
-    code,
-    used: false,
-  }));
-
-  const { error } = await supabase.from('backup_codes').insert(backupCodes);
-
-  if (error) {
-    throw new Error(`Failed to create backup codes: ${error.message}`);
-  }
-}
-
-/**
- * Generate and store backup codes for a user
- */
-export async function generateBackupCodes(userId: string): Promise<string[]> {
-  // Generate 8 backup codes
-  const codes: string[] = [];
-  for (let i = 0; i < 8; i++) {
-    // Generate a random code: XXXX-XXXX-XXXX format
-    const part1 = Math.random().toString(36).substring(2, 6).toUpperCase();
-    const part2 = Math.random().toString(36).substring(2, 6).toUpperCase();
-    const part3 = Math.random().toString(36).substring(2, 6).toUpperCase();
-    const code = `${part1}-${part2}-${part3}`;
-    codes.push(code);
-  }
-
-  // Store codes in database
-  const backupCodes = codes.map((code) => ({
-    user_id: userId,
-    code,
-    used: false,
-  }));
-
-  const { error } = await supabase.from('backup_codes').insert(backupCodes);
-
-  if (error) {
-    throw new Error(`Failed to generate backup codes: ${error.message}`);
-  }
-
-  return codes;
-}
-
-/**
- * Get backup codes for a user
- */
-export async function getBackupCodes(userId: string) {
-  const { data, error } = await supabase
-    .from('backup_codes')
-    .select('id, code, used, created_at')
-    .eq('user_id', userId)
-    .eq('used', false)
-    .order('created_at', { ascending: false });
-
-  if (error) {
-    throw new Error(`Failed to get backup codes: ${error.message}`);
-  }
-
-  return data;
-}
-
-/**
- * Verify backup code
- */
-export async function verifyBackupCode(
-  userId: string,
-  code: string
-): Promise<boolean> {
-  const { data, error } = await supabase
-    .from('backup_codes')
-    .select('id')
-    .eq('user_id', userId)
-    .eq('code', code)
-    .eq('used', false)
-    .single();
-
-  if (error || !data) {
-    return false;
-  }
-
-  // Mark as used
-  const { error: updateError } = await supabase
-    .from('backup_codes')
-    .update({ used: true })
-    .eq('id', data.id);
-
-  if (updateError) {
-    return false;
-  }
-
-  return true;
-}
-
-/**
- * Record failed login attempt
- */
-export async function recordFailedLoginAttempt(
-  email: string,
-  success: boolean,
-  ipAddress?: string | null
-): Promise<void> {
-  const { error } = await supabase.from('failed_login_attempts').insert({
-    email: email.toLowerCase(),
-    ip_address: ipAddress,
-    success,
-  });
-
-  if (error) {
-    console.error('Failed to record login attempt:', error);
-    // Don't throw - logging failures shouldn't break the app
-  }
-}
-
-/**
- * Get failed login attempts count for rate limiting
- */
-export async function getFailedLoginAttemptsCount(
-  email: string,
-  since: Date
-): Promise<number> {
-  const { count, error } = await supabase
-    .from('failed_login_attempts')
-    .select('*', { count: 'exact', head: true })
-    .eq('email', email.toLowerCase())
-    .eq('success', false)
-    .gte('attempted_at', since.toISOString());
-
-  if (error) {
-    return 0;
-  }
-
-  return count || 0;
-}
-
-/**
- * Get the timestamp of the first failed login attempt within a time window
- */
-export async function getFirstFailedLoginAttemptTime(
-  email: string,
-  since: Date
-): Promise<Date | null> {
-  const { data, error } = await supabase
-    .from('failed_login_attempts')
-    .select('attempted_at')
-    .eq('email', email.toLowerCase())
-    .eq('success', false)
-    .gte('attempted_at', since.toISOString())
-    .order('attempted_at', { ascending: true })
-    .limit(1)
-    .single();
-
-  if (error || !data) {
-    return null;
-  }
-
-  return new Date(data.attempted_at);
+/** A one-to-one embed, which the untyped client infers as an array but is an object at runtime. */
+function oneToOne<T>(embed: OneToOne<T> | undefined): T | null {
+  return (Array.isArray(embed) ? embed[0] : embed) ?? null;
 }
 
 /**
@@ -645,7 +325,7 @@ export async function getFirstFailedLoginAttemptTime(
 export async function getAllUsers() {
   const { data, error } = await supabase
     .from('users')
-    .select('id, email, role, mfa_enabled, created_at')
+    .select('id, email, role, mfa_enabled, is_active, created_at, locked_until, lock_reason, user_profiles(display_name)')
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -657,27 +337,14 @@ export async function getAllUsers() {
     email: user.email,
     role: user.role,
     mfaEnabled: user.mfa_enabled,
+    isActive: user.is_active,
     createdAt: user.created_at,
+    lockedUntil: user.locked_until,
+    lockReason: user.lock_reason,
+    displayName: oneToOne(user.user_profiles)?.display_name ?? null,
   }));
 }
 
-/**
- * Update user role
- */
-export async function updateUserRole(
-  userId: string,
-  role: UserRole
-): Promise<void> {
-  const { error } = await supabase
-    .from('users')
-    .update({ role, updated_at: new Date().toISOString() })
-    .eq('id', userId);
-
-  if (error) {
-    throw new Error(`Failed to update user role: ${error.message}`);
-  }
-}
-
 /**
  * Delete user
  */
@@ -690,183 +357,36 @@ export async function deleteUser(userId: string): Promise<void> {
 }
 
 /**
- * Generate and store password reset token
+ * Get the password policy (new passwords are checked against it on the server too)
  */
-export async function createPasswordResetToken(userId: string): Promise<string> {
-  // Generate a secure random token
-  const token = crypto.randomUUID() + '-' + Date.now().toString(36);
-  
-  // Set expiry to 1 hour
-  const expiresAt = new Date();
-  expiresAt.setHours(expiresAt.getHours() + 1);
-
-  const { error } = await supabase.from('password_reset_tokens').insert({
-    user_id: userId,
-    token,
-    expires_at: expiresAt.toISOString(),
-    used: false,
-  });
-
-  if (error) {
-    throw new Error(`Failed to create password reset token: ${error.message}`);
-  }
-
-  return token;
-}
-
-/**
- * Verify password reset token
- */
-export async function verifyPasswordResetToken(token: string): Promise<{
-  valid: boolean;
-  userId: string | null;
-}> {
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
   const { data, error } = await supabase
-    .from('password_reset_tokens')
-    .select('user_id, expires_at, used')
-    .eq('token', token)
-    .eq('used', false)
-    .single();
-
-  if (error || !data) {
-    return { valid: false, userId: null };
-  }
-
-  // Check if expired
-  const expiresAt = new Date(data.expires_at);
-  if (expiresAt < new Date()) {
-    return { valid: false, userId: null };
-  }
-
-  return { valid: true, userId: data.user_id };
-}
-
-/**
- * Mark password reset token as used
- */
-export async function markPasswordResetTokenAsUsed(token: string): Promise<void> {
-  const { error } = await supabase
-    .from('password_reset_tokens')
-    .update({ used: true })
-    .eq('token', token);
-
-  if (error) {
-    throw new Error(`Failed to mark token as used: ${error.message}`);
-  }
-}
-
-export type RegistrationOtpDelivery = 'email' | 'skysms';
-
-/**
- * Create email verification OTP (for registration).
- * For SkySMS, `code` is an internal placeholder; the user receives the provider OTP via SMS.
- */
-export async function createEmailVerificationOtp(
-  email: string,
-  code: string,
-  passwordHash: string,
-  expiresAt: Date,
-  options?: {
-    phoneNumber?: string | null;
-    otpDelivery?: RegistrationOtpDelivery;
-  }
-): Promise<void> {
-  const otpDelivery = options?.otpDelivery ?? 'email';
-  const row: Record<string, unknown> = {
-    email: email.toLowerCase().trim(),
-    code,
-    password_hash: passwordHash,
-    expires_at: expiresAt.toISOString(),
-    used: false,
-    otp_delivery: otpDelivery,
-  };
-  if (options?.phoneNumber != null) {
-    row.phone_number = options.phoneNumber;
-  }
-
-  const { error } = await supabase.from('email_verification_otps').insert(row);
-
-  if (error) {
-    throw new Error(`Failed to create email verification OTP: ${error.message}`);
-  }
-}
-
-/** Remove pending SkySMS registration rows for an email (before creating a new one). */
-export async function deletePendingSkysmsRegistration(email: string): Promise<void> {
-  const normalized = email.toLowerCase().trim();
-  const { error } = await supabase
-    .from('email_verification_otps')
-    .delete()
-    .eq('email', normalized)
-    .eq('otp_delivery', 'skysms');
-
-  if (error) {
-    throw new Error(`Failed to clear pending SMS registration: ${error.message}`);
-  }
-}
-
-/**
- * Verify email verification OTP and get stored password hash
- */
-export async function verifyEmailVerificationOtp(
-  email: string,
-  code: string
-): Promise<{ passwordHash: string } | null> {
-  const normalizedEmail = email.toLowerCase().trim();
-  
-  const { data, error } = await supabase
-    .from('email_verification_otps')
-    .select('id, password_hash, expires_at, used')
-    .eq('email', normalizedEmail)
-    .eq('code', code)
-    .eq('used', false)
+    .from('password_policy')
+    .select(
+      'min_length, require_uppercase, require_lowercase, require_digit, require_symbol, history_count, max_age_days, min_age_days'
+    )
+    .eq('id', 1)
     .maybeSingle();
 
-  if (error || !data) {
-    return null;
-  }
-
-  // Check if expired
-  const expiresAt = new Date(data.expires_at);
-  if (expiresAt < new Date()) {
-    return null;
+  if (error) {
+    throw new Error(`Failed to load password policy: ${error.message}`);
   }
-
-  // Mark as used
-  const { error: updateError } = await supabase
-    .from('email_verification_otps')
-    .update({ used: true })
-    .eq('id', data.id);
-
-  if (updateError) {
-    console.error('Failed to mark OTP as used:', updateError);
+  if (!data) {
+    return DEFAULT_PASSWORD_POLICY;
   }
 
   return {
-    passwordHash: data.password_hash,
+    minLength: data.min_length,
+    requireUppercase: data.require_uppercase,
+    requireLowercase: data.require_lowercase,
+    requireDigit: data.require_digit,
+    requireSymbol: data.require_symbol,
+    historyCount: data.history_count,
+    maxAgeDays: data.max_age_days,
+    minAgeDays: data.min_age_days,
   };
 }
 
-/**
- * Update user password
- */
-export async function updateUserPassword(
-  userId: string,
-  newPasswordHash: string
-): Promise<void> {
-  const { error } = await supabase
-    .from('users')
-    .update({
-      password_hash: newPasswordHash,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', userId);
-
-  if (error) {
-    throw new Error(`Failed to update password: ${error.message}`);
-  }
-}
-
 /**
  * Get dashboard statistics
  */
@@ -879,7 +399,7 @@ export async function getDashboardStats(): Promise<{
   // Get active users count
   const { count: activeUsersCount, error: usersError } = await supabase
     .from('users')
-    .select('*', { count: 'exact', head: true })
+    .select('id', { count: 'exact', head: true })
     .eq('is_active', true);
 
   const activeUsers = usersError ? 0 : (activeUsersCount || 0);
@@ -899,12 +419,12 @@ export async function getDashboardStats(): Promise<{
   // Get MFA adoption rate
   const { count: totalUsersCount } = await supabase
     .from('users')
-    .select('*', { count: 'exact', head: true })
+    .select('id', { count: 'exact', head: true })
     .eq('is_active', true);
 
   const { count: mfaUsersCount } = await supabase
     .from('users')
-    .select('*', { count: 'exact', head: true })
+    .select('id', { count: 'exact', head: true })
     .eq('is_active', true)
     .eq('mfa_enabled', true);
 
@@ -0,0 +1,757 @@
+/**
+ * Client for the server-side auth endpoints (/api/auth/*, and /api/admin/* for admins).
+ * Password and second-factor checks, rate limiting, session rows and JWT signing all
+ * happen on the server; the browser only stores the tokens it is given.
+ */
+
+import { startAuthentication, startRegistration } from '@simplewebauthn/browser';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+} from '@simplewebauthn/browser';
+import type { UserRole } from '@/contexts/AuthContext';
+import type {
+  MfaGateMethod,
+  OtpType,
+  TrustedDevice,
+  User,
+  UserProfile,
+  UserSession,
+} from './api';
+import { decodeToken } from './jwt';
+import { describeUserAgent } from './user-agent';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string;
+}
+
+/** Role-based limits from the server (see api/_lib/session-policy.js). */
+export interface SessionLimits {
+  idleTimeoutSeconds: number;
+  absoluteExpiresAt: string;
+}
+
+export interface LoginResponse extends AuthTokens {
+  /** False when a trusted device token skipped the second factor */
+  requiresMfa: boolean;
+  /** How long "Trust this device" lasts on this server */
+  trustedDeviceDays: number;
+  user: User;
+  session: SessionLimits;
+}
+
+export interface RefreshResponse extends AuthTokens {
+  user: User;
+  session: SessionLimits;
+}
+
+export interface MfaVerifyResponse {
+  /** Present when the device was trusted (see storeTrustedDeviceToken) */
+  deviceToken?: string;
+  trustedUntil?: string;
+  /** Unused backup codes left, when a backup code was used */
+  backupCodesRemaining?: number;
+}
+
+/** Outcome of an MFA check as shown on the verification page. */
+export interface MfaVerifyResult {
+  success: boolean;
+  message?: string;
+  /** Failed checks left before this sign-in or account is locked out */
+  remainingAttempts?: number;
+  /** Set while the server is backing off after a failed check */
+  retryAfterSeconds?: number;
+}
+
+export type MfaType = 'totp' | 'email' | 'sms' | 'webauthn' | 'backup';
+
+/** A typed code, or for `webauthn` the signed assertion from the security key. */
+export type MfaProof =
+  | { type: Exclude<MfaType, 'webauthn'>; code: string; nextCode?: string }
+  | { type: 'webauthn'; response: AuthenticationResponseJSON };
+
+/**
+ * Error from an auth endpoint; `status` is 0 when the server could not be reached.
+ * `data` is the rest of the error body (e.g. `remainingAttempts` from the MFA check).
+ */
+export class AuthRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly data: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'AuthRequestError';
+  }
+}
+
+// Written by AuthContext after password sign-in (SESSION_ACCESS_TOKEN_KEY / SESSION_REFRESH_TOKEN_KEY)
+const ACCESS_TOKEN_STORAGE_KEY = 'auth_access_token';
+const REFRESH_TOKEN_STORAGE_KEY = 'auth_refresh_token';
+// Device tokens outlive the browser session, so they are kept per email in localStorage
+const TRUSTED_DEVICE_STORAGE_KEY = 'auth_trusted_devices';
+
+/** This tab's access token, or null before sign-in. */
+export function getStoredAccessToken(): string | null {
+  return typeof window !== 'undefined' ? sessionStorage.getItem(ACCESS_TOKEN_STORAGE_KEY) : null;
+}
+
+/** `Authorization` header for protected API routes, using the stored access token. */
+export function sessionAuthHeaders(): Record<string, string> {
+  const accessToken = getStoredAccessToken();
+  return accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+}
+
+/** Token family of this tab's session (matches `UserSession.familyId`), or null. */
+export function getCurrentSessionFamilyId(): string | null {
+  const refreshToken =
+    typeof window !== 'undefined' ? sessionStorage.getItem(REFRESH_TOKEN_STORAGE_KEY) : null;
+  return refreshToken ? decodeToken(refreshToken)?.familyId ?? null : null;
+}
+
+/** User of this tab's session, or null before sign-in. */
+export function getCurrentSessionUserId(): string | null {
+  const refreshToken =
+    typeof window !== 'undefined' ? sessionStorage.getItem(REFRESH_TOKEN_STORAGE_KEY) : null;
+  return refreshToken ? decodeToken(refreshToken)?.userId ?? null : null;
+}
+
+function readTrustedDeviceTokens(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(TRUSTED_DEVICE_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/** Device token saved when this browser was trusted for `email`, or null. */
+export function getTrustedDeviceToken(email: string): string | null {
+  if (typeof window === 'undefined') return null;
+  return readTrustedDeviceTokens()[email.trim().toLowerCase()] ?? null;
+}
+
+/** Remember (or with null, forget) the device token for `email`. */
+export function storeTrustedDeviceToken(email: string, deviceToken: string | null): void {
+  if (typeof window === 'undefined') return;
+  const tokens = readTrustedDeviceTokens();
+  const key = email.trim().toLowerCase();
+  if (deviceToken) {
+    tokens[key] = deviceToken;
+  } else {
+    delete tokens[key];
+  }
+  localStorage.setItem(TRUSTED_DEVICE_STORAGE_KEY, JSON.stringify(tokens));
+}
+
+/** Id of this browser's trusted device for `email` (matches `TrustedDevice.id`), or null. */
+export function getCurrentTrustedDeviceId(email: string): string | null {
+  const deviceToken = getTrustedDeviceToken(email);
+  return deviceToken ? decodeToken(deviceToken)?.deviceId ?? null : null;
+}
+
+/**
+ * Same host as `VITE_EMAIL_API_ENDPOINT` (email uses `/api/send-email`).
+ * Mirrors `skysms-registration.ts`: in production, localhost in env is ignored so Vercel can use same-origin `/api/*`.
+ */
+function getLocalApiOrigin(): string {
+  const emailEp = import.meta.env.VITE_EMAIL_API_ENDPOINT as string | undefined;
+
+  if (import.meta.env.PROD && emailEp?.includes('localhost')) {
+    if (typeof window !== 'undefined') {
+      return window.location.origin;
+    }
+  }
+
+  if (emailEp?.includes('/api/send-email')) {
+    const withoutPath = emailEp.replace(/\/api\/send-email\/?$/, '');
+    if (withoutPath.startsWith('http://') || withoutPath.startsWith('https://')) {
+      return withoutPath;
+    }
+    if (typeof window !== 'undefined') {
+      return window.location.origin;
+    }
+  }
+
+  if (emailEp) {
+    try {
+      return new URL(emailEp).origin;
+    } catch {
+      /* fall through */
+    }
+  }
+  if (typeof window !== 'undefined') {
+    return window.location.origin;
+  }
+  return '';
+}
+
+async function postAuth<T>(
+  path: string,
+  body: Record<string, unknown>,
+  accessToken?: string
+): Promise<T> {
+  const base = getLocalApiOrigin();
+  if (!base) {
+    throw new Error('Set VITE_EMAIL_API_ENDPOINT to your API server URL.');
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (accessToken) {
+    headers.Authorization = `Bearer ${accessToken}`;
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(`${base}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new AuthRequestError(error instanceof Error ? error.message : 'Network error', 0);
+  }
+
+  const data = (await res.json().catch(() => ({}))) as T & {
+    success?: boolean;
+    message?: string;
+    error?: string;
+  };
+
+  if (!res.ok || data.success === false) {
+    throw new AuthRequestError(
+      data.message || data.error || `Request failed (${res.status})`,
+      res.status,
+      data
+    );
+  }
+  return data;
+}
+
+/**
+ * Verify email + password on the server; returns tokens for the MFA step.
+ * A trusted device token for this email is sent along so the MFA step can be skipped.
+ */
+export async function loginWithPassword(email: string, password: string): Promise<LoginResponse> {
+  return postAuth<LoginResponse>('/api/auth/login', {
+    email: email.trim().toLowerCase(),
+    password,
+    deviceToken: getTrustedDeviceToken(email) ?? undefined,
+  });
+}
+
+/** Check the second factor for this session; with `trustDevice` a device token is returned. */
+export async function verifyMfaCode(
+  accessToken: string,
+  proof: MfaProof,
+  trustDevice = false
+): Promise<MfaVerifyResponse> {
+  return postAuth<MfaVerifyResponse>('/api/auth/mfa/verify', { ...proof, trustDevice }, accessToken);
+}
+
+/**
+ * Register a security key or passkey for the signed-in user (browser prompt included).
+ * The server enrols it as one of the account's second factors.
+ */
+export async function registerPasskey(accessToken: string, name?: string): Promise<void> {
+  const { options } = await postAuth<{ options: PublicKeyCredentialCreationOptionsJSON }>(
+    '/api/auth/webauthn/register-options',
+    {},
+    accessToken
+  );
+  const response = await startRegistration({ optionsJSON: options });
+  await postAuth('/api/auth/webauthn/register-verify', { response, name }, accessToken);
+}
+
+/** Ask the user's security key to sign a server challenge (for `verifyMfaCode`). */
+export async function getPasskeyAssertion(accessToken: string): Promise<AuthenticationResponseJSON> {
+  const { options } = await postAuth<{ options: PublicKeyCredentialRequestOptionsJSON }>(
+    '/api/auth/webauthn/authenticate-options',
+    {},
+    accessToken
+  );
+  return startAuthentication({ optionsJSON: options });
+}
+
+/** Passwordless sign-in with a passkey; the session starts with MFA already satisfied. */
+export async function loginWithPasskey(): Promise<LoginResponse> {
+  const { options } = await postAuth<{ options: PublicKeyCredentialRequestOptionsJSON }>(
+    '/api/auth/webauthn/login-options',
+    {}
+  );
+  const response = await startAuthentication({ optionsJSON: options });
+  return postAuth<LoginResponse>('/api/auth/webauthn/login-verify', { response });
+}
+
+/** Replace the user's backup codes; the new codes are returned once and never stored. */
+export async function regenerateBackupCodes(accessToken: string): Promise<string[]> {
+  const { codes } = await postAuth<{ codes: string[] }>(
+    '/api/auth/mfa/backup-codes',
+    {},
+    accessToken
+  );
+  return codes;
+}
+
+/** How many unused backup codes the signed-in user has left. */
+export async function getBackupCodesRemaining(accessToken: string): Promise<number> {
+  const { remaining } = await postAuth<{ remaining: number }>(
+    '/api/auth/mfa/backup-codes-remaining',
+    {},
+    accessToken
+  );
+  return remaining;
+}
+
+/** Make an enrolled second factor the one offered first at sign-in. */
+export async function setPrimaryMfaMethod(accessToken: string, method: MfaGateMethod): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/mfa/methods/primary', { method }, accessToken);
+}
+
+/**
+ * Remove one second factor; another becomes primary if needed and trusted devices are
+ * forgotten. Resolves to how many methods remain (none turns MFA off).
+ */
+export async function removeMfaMethod(accessToken: string, method: MfaGateMethod): Promise<number> {
+  const { remaining } = await postAuth<{ remaining: number }>(
+    '/api/auth/mfa/methods/remove',
+    { method },
+    accessToken
+  );
+  return remaining;
+}
+
+/** Remove every second factor and security key of the signed-in user. */
+export async function disableMfa(accessToken: string): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/mfa/disable', {}, accessToken);
+}
+
+/** Email a one-time code to the signed-in user (sign-in or email MFA setup). */
+export async function requestEmailOtp(accessToken: string): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/otp/email', {}, accessToken);
+}
+
+/** New authenticator seed with this deployment's code parameters (TOTP_* on the server). */
+export interface TotpSetupOptions {
+  type: OtpType;
+  secret: string;
+  uri: string;
+  algorithm: string;
+  digits: number;
+  period: number;
+}
+
+export async function getTotpSetupOptions(
+  accessToken: string,
+  type: OtpType = 'totp'
+): Promise<TotpSetupOptions> {
+  return postAuth<TotpSetupOptions>('/api/auth/mfa/totp-setup-options', { type }, accessToken);
+}
+
+/** Enrol an authenticator app or token: the server checks `code` against `secret` and stores it encrypted. */
+export async function verifyTotpMfaSetup(
+  accessToken: string,
+  secret: string,
+  code: string,
+  type: OtpType = 'totp'
+): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/mfa/totp-setup', { secret, code, type }, accessToken);
+}
+
+/** Confirm the emailed code and enrol email codes as a second factor. */
+export async function verifyEmailMfaSetup(accessToken: string, code: string): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/mfa/email-setup', { code }, accessToken);
+}
+
+/**
+ * Start a registration. The server checks the password against the policy and the
+ * common-password screen before hashing it (AuthRequestError 400 with `errors`). Without
+ * `phoneNumber` the server emails the code; with it the code is sent separately through
+ * SkySMS.
+ */
+export async function requestRegistrationOtp(
+  email: string,
+  password: string,
+  phoneNumber?: string | null
+): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/register/otp', {
+    email: email.trim().toLowerCase(),
+    password,
+    phoneNumber: phoneNumber ?? undefined,
+  });
+}
+
+/** Check an emailed registration code; the server then creates the account. */
+export async function verifyRegistrationCode(email: string, code: string): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/register/verify', {
+    email: email.trim().toLowerCase(),
+    code,
+  });
+}
+
+/**
+ * Ask the server to email a password reset link. Resolves the same way whether or not
+ * the address has an account.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/password/forgot', {
+    email: email.trim().toLowerCase(),
+  });
+}
+
+/**
+ * Check a reset token from the email without using it up.
+ * @returns The account's email address, for screening the new password
+ */
+export async function checkPasswordResetToken(token: string): Promise<string> {
+  const { email } = await postAuth<{ email: string }>('/api/auth/password/reset-token', { token });
+  return email;
+}
+
+/**
+ * Set a new password with the token from a reset email. The server checks the password
+ * policy and recent passwords; a refusal is an AuthRequestError listing them in `data.errors`.
+ */
+export async function resetPassword(token: string, password: string): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/password/reset', { token, password });
+}
+
+/**
+ * Change the signed-in user's password (same checks as resetPassword, plus minimum age).
+ * Other sessions and all trusted devices are signed out.
+ * @returns How many other sessions were revoked
+ */
+export async function changePassword(
+  accessToken: string,
+  currentPassword: string,
+  newPassword: string
+): Promise<number> {
+  const { revokedSessions } = await postAuth<{ revokedSessions: number }>(
+    '/api/auth/password/change',
+    { currentPassword, newPassword },
+    accessToken
+  );
+  return revokedSessions;
+}
+
+interface SessionResponse extends Omit<UserSession, 'device'> {
+  userAgent: string | null;
+}
+
+/** The signed-in user's sessions, most recently active first (tokens are never returned). */
+export async function listSessions(accessToken: string): Promise<UserSession[]> {
+  const { sessions } = await postAuth<{ sessions: SessionResponse[] }>(
+    '/api/auth/sessions/list',
+    {},
+    accessToken
+  );
+  return sessions.map(({ userAgent, ...session }) => ({
+    ...session,
+    device: describeUserAgent(userAgent),
+  }));
+}
+
+/** Sign out one of the user's sessions (its tokens stop working on the next request). */
+export async function revokeSession(accessToken: string, sessionId: string): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/sessions/revoke', { sessionId }, accessToken);
+}
+
+/**
+ * Sign out every session of the user except this one.
+ * @returns Number of sessions revoked
+ */
+export async function revokeOtherSessions(accessToken: string): Promise<number> {
+  const { revoked } = await postAuth<{ revoked: number }>(
+    '/api/auth/sessions/revoke-others',
+    {},
+    accessToken
+  );
+  return revoked;
+}
+
+interface TrustedDeviceResponse extends Omit<TrustedDevice, 'device'> {
+  userAgent: string | null;
+}
+
+/** Browsers that currently skip MFA for the signed-in user, newest first. */
+export async function listTrustedDevices(accessToken: string): Promise<TrustedDevice[]> {
+  const { devices } = await postAuth<{ devices: TrustedDeviceResponse[] }>(
+    '/api/auth/trusted-devices/list',
+    {},
+    accessToken
+  );
+  return devices.map(({ userAgent, ...device }) => ({
+    ...device,
+    device: describeUserAgent(userAgent),
+  }));
+}
+
+/** Stop trusting one device; its next sign-in asks for the second factor again. */
+export async function revokeTrustedDevice(accessToken: string, deviceId: string): Promise<void> {
+  await postAuth<{ success: boolean }>(
+    '/api/auth/trusted-devices/revoke',
+    { deviceId },
+    accessToken
+  );
+}
+
+/**
+ * Stop trusting every device of the signed-in user.
+ * @returns Number of devices revoked
+ */
+export async function clearTrustedDevices(accessToken: string): Promise<number> {
+  const { revoked } = await postAuth<{ revoked: number }>(
+    '/api/auth/trusted-devices/clear',
+    {},
+    accessToken
+  );
+  return revoked;
+}
+
+/** Clear an account lock with the token from an emailed unlock link. */
+export async function unlockAccount(token: string): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/unlock', { token });
+}
+
+/** A requested email change, waiting for the link sent to the new address. */
+export interface PendingEmailChange {
+  pendingEmail: string;
+  /** When the confirmation link expires */
+  expiresAt: string;
+}
+
+/**
+ * Ask to move the signed-in user's account to `newEmail` (the current password is
+ * re-checked). The new address gets a confirmation link, the current one a revert link.
+ */
+export async function requestEmailChange(
+  accessToken: string,
+  newEmail: string,
+  currentPassword: string
+): Promise<PendingEmailChange> {
+  const { pendingEmail, expiresAt } = await postAuth<PendingEmailChange>(
+    '/api/auth/email/change',
+    { newEmail, currentPassword },
+    accessToken
+  );
+  return { pendingEmail, expiresAt };
+}
+
+/** Apply a pending email change with the token from the confirmation link. */
+export async function confirmEmailChange(token: string): Promise<string> {
+  const { email } = await postAuth<{ email: string }>('/api/auth/email/confirm', { token });
+  return email;
+}
+
+/**
+ * Cancel a pending email change, or undo a confirmed one, with the token from the notice
+ * sent to the old address. Resolves to true when a confirmed change was undone.
+ */
+export async function revertEmailChange(token: string): Promise<boolean> {
+  const { reverted } = await postAuth<{ reverted: boolean }>('/api/auth/email/revert', { token });
+  return reverted;
+}
+
+/**
+ * Lock another user's account for `hours` and sign them out everywhere (Admin only).
+ * Sign-in and token refresh are refused while locked; admin locks cannot be cleared
+ * with the emailed unlock link.
+ */
+export async function lockUser(accessToken: string, userId: string, hours: number): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/admin/users/lock', { userId, hours }, accessToken);
+}
+
+/** Clear another user's account lock, whatever set it (Admin only). */
+export async function unlockUser(accessToken: string, userId: string): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/admin/users/unlock', { userId }, accessToken);
+}
+
+/** Give another user a new role (Admin only). */
+export async function changeUserRole(
+  accessToken: string,
+  userId: string,
+  role: UserRole
+): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/admin/users/role', { userId, role }, accessToken);
+}
+
+/** Deactivate or reactivate another user's account; deactivating signs them out (Admin only). */
+export async function setUserActive(
+  accessToken: string,
+  userId: string,
+  active: boolean
+): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/admin/users/active', { userId, active }, accessToken);
+}
+
+/** Email a password reset link to another user (Admin only). */
+export async function sendPasswordResetLink(accessToken: string, userId: string): Promise<void> {
+  await postAuth<{ success: boolean }>(
+    '/api/admin/users/password-reset',
+    { userId },
+    accessToken
+  );
+}
+
+/** Start an email change for another user; they confirm it like their own (Admin only). */
+export async function adminChangeUserEmail(
+  accessToken: string,
+  userId: string,
+  newEmail: string
+): Promise<PendingEmailChange> {
+  const { pendingEmail, expiresAt } = await postAuth<PendingEmailChange>(
+    '/api/admin/users/email',
+    { userId, newEmail },
+    accessToken
+  );
+  return { pendingEmail, expiresAt };
+}
+
+/** The signed-in user's profile (all fields null until it is first saved). */
+export async function getProfile(accessToken: string): Promise<UserProfile> {
+  const { profile } = await postAuth<{ profile: UserProfile }>(
+    '/api/auth/profile/get',
+    {},
+    accessToken
+  );
+  return profile;
+}
+
+/**
+ * Update the given profile fields; an empty string clears one. Invalid fields are an
+ * AuthRequestError listing `{ field, message }` in `data.errors`, and nothing is saved.
+ */
+export async function updateProfile(
+  accessToken: string,
+  fields: Partial<Omit<UserProfile, 'updatedAt'>>
+): Promise<UserProfile> {
+  const { profile } = await postAuth<{ profile: UserProfile }>(
+    '/api/auth/profile/update',
+    fields,
+    accessToken
+  );
+  return profile;
+}
+
+/** A hardware TOTP key fob in the admin inventory (the seed never leaves the server). */
+export interface OathToken {
+  id: string;
+  serial: string;
+  algorithm: string;
+  digits: number;
+  period: number;
+  assignedUserId: string | null;
+  assignedEmail: string | null;
+  assignedAt: string | null;
+  importedAt: string;
+}
+
+/** A seed file line the server refused (`errors` on a failed import). */
+export interface OathTokenImportError {
+  line: number;
+  message: string;
+}
+
+/** The hardware token inventory, newest first (Admin only). */
+export async function listOathTokens(accessToken: string): Promise<OathToken[]> {
+  const { tokens } = await postAuth<{ tokens: OathToken[] }>(
+    '/api/admin/oath-tokens/list',
+    {},
+    accessToken
+  );
+  return tokens;
+}
+
+/**
+ * Import tokens from a seed file (`serial,seed,algorithm,digits[,period]` per line).
+ * Nothing is imported when a line is invalid; the AuthRequestError's `data.errors` lists them.
+ */
+export async function importOathTokens(accessToken: string, csv: string): Promise<number> {
+  const { imported } = await postAuth<{ imported: number }>(
+    '/api/admin/oath-tokens/import',
+    { csv },
+    accessToken
+  );
+  return imported;
+}
+
+/** Make an unassigned token the user's TOTP factor; a token they had is released (Admin only). */
+export async function assignOathToken(
+  accessToken: string,
+  tokenId: string,
+  userId: string
+): Promise<void> {
+  await postAuth<{ success: boolean }>(
+    '/api/admin/oath-tokens/assign',
+    { tokenId, userId },
+    accessToken
+  );
+}
+
+/**
+ * Return an assigned token to the inventory, removing the user's TOTP factor if it is
+ * still this token (Admin only).
+ * @returns Whether the user's TOTP factor was removed
+ */
+export async function unassignOathToken(accessToken: string, tokenId: string): Promise<boolean> {
+  const { methodRemoved } = await postAuth<{ methodRemoved: boolean }>(
+    '/api/admin/oath-tokens/unassign',
+    { tokenId },
+    accessToken
+  );
+  return methodRemoved;
+}
+
+/** Accounts whose password hash uses one scheme and parameter set. */
+export interface PasswordHashSchemeCount {
+  scheme: 'bcrypt' | 'scrypt' | 'argon2id' | 'unknown';
+  /** e.g. `bcrypt (cost 10)` */
+  label: string;
+  count: number;
+  /** False when these hashes are upgraded at the next sign-in */
+  current: boolean;
+}
+
+/** Accounts per password hashing scheme, and the scheme new hashes use (Admin only). */
+export async function getPasswordHashStats(
+  accessToken: string
+): Promise<{ current: string; schemes: PasswordHashSchemeCount[] }> {
+  const { current, schemes } = await postAuth<{
+    current: string;
+    schemes: PasswordHashSchemeCount[];
+  }>('/api/admin/password-hashes', {}, accessToken);
+  return { current, schemes };
+}
+
+/**
+ * Exchange a refresh token for a new token pair (same session row). Pass the last user
+ * activity (epoch ms); the server does not refresh sessions that went idle.
+ */
+export async function refreshSession(
+  refreshToken: string,
+  lastActivityAt?: number
+): Promise<RefreshResponse> {
+  return postAuth<RefreshResponse>('/api/auth/refresh', {
+    refreshToken,
+    lastActivityAt: lastActivityAt && new Date(lastActivityAt).toISOString(),
+  });
+}
+
+/**
+ * Throws AuthRequestError (401) once the token's session was signed out, revoked or went
+ * idle. `lastActivityAt` (epoch ms) is the last user activity seen in the browser.
+ */
+export async function validateSession(accessToken: string, lastActivityAt?: number): Promise<void> {
+  await postAuth<{ success: boolean }>(
+    '/api/auth/session',
+    { lastActivityAt: lastActivityAt && new Date(lastActivityAt).toISOString() },
+    accessToken
+  );
+}
+
+/** Delete the server-side session for this access token. */
+export async function logoutSession(accessToken: string): Promise<void> {
+  await postAuth<{ success: boolean }>('/api/auth/logout', {}, accessToken);
+}
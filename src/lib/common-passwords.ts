@@ -0,0 +1,6 @@
+// Generated by scripts/build-password-filter.js from 489 common passwords. Do not edit.
+export const COMMON_PASSWORD_FILTER: { bits: number; hashes: number; data: string } = {
+  bits: 7376,
+  hashes: 10,
+  data: '7Ka9XW4lYgHzf95g50aPsaw2DkLysS1hkly7aQ7l17XAu6ibeL5Wz/ZOf5AGC8SjXMIiabJelkYzx57B5jFJo49P0CmW79wkNmsw8/ithgjujYdVanduNhw40maBWQwfYpvUX6wG+j63SdTJ99j6UncPTyTtNioNwm92GzG5a9wYZ8ws7B2eQNCpHldqdjFVkipGubx1WPVXK3+P9hnm4eluiIqKE/BhyzIHGrBQLSm8q5Ef8iJ21QYi6GZ0O1gvomz3+DQLjhUE3+qORzT9BANnr/8ed9rxdAhmfwtIYs2ccVYrVl+cWWh95i6/IizRphgqdd5ma72YN48StGM3D/h84mecT45jru36h2pXrolSFRVlXiGmQSCgIJzpHSw11mu0WpHA7bnhNaNA/H9OB36uayuGP+/u7uukVwcFtjWrINZ3rWmK59jtnG+qo41nQxbe4ToWNqLOAXQZnkar7utzZT6o/RyYwuJy5XY+JHjyX+vCu9syk4x8yo1i5kARvwfIvU7B4n21NC4iQxtOLttYtlVXhecd0meAR0JJMTbafqUDoHGCY+9GTHbqYs6rYmLPNVjqtm7gLoMwuEadJmb5ZUw1OY4FxUK1Jad9xPWsGX0DfG/5ISQyjEU2ZZ0qKlXZRGYhthcZe6Yz5qgWXfXAfNvGP6Ze1gOL3BoMqlUdPN6xjj30xzyWGFZ2J1p9xB9EbVOy0BssFiZlczP1D3DWwFyqpHo8QWFMBkxorEuzFJEaLvSg7+GSGOtkZALygBvATNAx4STUZBIavFdAKeRVaErtV3QPvRyqBabghc7C04aqmnZWc+m3Okl0Qez9r95G8ixa1K743e5BHGfeqPYepLpSbJQ5WpyEZqJb92G4AspxDSFHZzA59kPwBeuz9t5MzShFtlc5J9R0wffWaBHDhTCOEereaG6IgcT8UkagN+JUz7ZwJc9XZc6MKutv4gI2QdhIRFDEYajXnQ5txS5P561gT9/h0kJiULiw2jiFMH+OzdpmaWJU5mFERzhRpms+XaxtyjbqTzJuIHOKDag/6NaT2e0dzimqd6FQDNaENqJyin/5gUAURHOs4QAqtX3bu/Ju2Glcj6QCB4+QNchsnmh6F6wzdlwiY1q/gmspPrsL9kD7xiS9ZBcYcrKDPFN8C7AN6gpCru5s1vNBc11j6k3uBcDa3uQwwY3J2CmPbWrRiDHi08AhLHNo3kro1O4qJjhByV7sKQ==',
+};
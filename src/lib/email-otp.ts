@@ -4,16 +4,6 @@
  * Uses SMTP server for sending emails via backend API endpoint
  */
 
-/**
- * Generate a random 6-digit OTP code
- * @returns 6-digit OTP code as string
- */
-export function generateEmailOtp(): string {
-  // Generate a random 6-digit number
-  const code = Math.floor(100000 + Math.random() * 900000).toString();
-  return code;
-}
-
 /**
  * Email OTP configuration
  */
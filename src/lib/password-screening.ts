@@ -0,0 +1,137 @@
+import { COMMON_PASSWORD_FILTER } from './common-passwords';
+
+/**
+ * Offline screening against common and breached passwords, plus a strength estimate
+ * for the meter. Mirrors api/_lib/password-screening.js, which enforces the same checks
+ * when a password is reset or changed. The filter is generated by
+ * `npm run build-password-filter`; nothing is sent anywhere.
+ */
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+const SECOND_SEED = 0x5bd1e995;
+const MIN_BASE_LENGTH = 3;
+const MIN_CONTEXT_WORD_LENGTH = 4;
+const SERVICE_WORDS = ['secureauth'];
+
+const SUBSTITUTIONS: Record<string, string> = {
+  0: 'o',
+  1: 'i',
+  3: 'e',
+  4: 'a',
+  5: 's',
+  7: 't',
+  8: 'b',
+  '@': 'a',
+  $: 's',
+  '!': 'i',
+};
+
+const filterBits = Uint8Array.from(atob(COMMON_PASSWORD_FILTER.data), (c) => c.charCodeAt(0));
+
+function fnv1a(bytes: Uint8Array, seed: number): number {
+  let hash = seed >>> 0;
+  for (const byte of bytes) {
+    hash = Math.imul(hash ^ byte, FNV_PRIME) >>> 0;
+  }
+  return hash;
+}
+
+function inFilter(value: string): boolean {
+  const { bits, hashes } = COMMON_PASSWORD_FILTER;
+  const bytes = new TextEncoder().encode(value);
+  const h1 = fnv1a(bytes, FNV_OFFSET);
+  const h2 = fnv1a(bytes, SECOND_SEED) | 1;
+  for (let i = 0; i < hashes; i++) {
+    const index = ((h1 + Math.imul(i, h2)) >>> 0) % bits;
+    if (!(filterBits[index >> 3] & (1 << (index & 7)))) return false;
+  }
+  return true;
+}
+
+/** Lowercase, and the base word without surrounding digits and symbols or substitutions. */
+function screeningForms(value: string): string[] {
+  const lower = value.toLowerCase();
+  const base = lower.replace(/^[^a-z]+|[^a-z]+$/g, '');
+  const forms = new Set([lower]);
+  if (base.length >= MIN_BASE_LENGTH) {
+    forms.add(base);
+    forms.add(base.replace(/[0134578@$!]/g, (c) => SUBSTITUTIONS[c]));
+    forms.add(base.replace(/[0134578@$!]/g, (c) => (c === '1' ? 'l' : SUBSTITUTIONS[c])));
+  }
+  return [...forms];
+}
+
+/** Whether `password` is (a variation of) a common or breached password. */
+export function isCommonPassword(password: string): boolean {
+  return screeningForms(password).some(inFilter);
+}
+
+/**
+ * Words a password should not contain: the service name and the parts of the email
+ * address before the `@` (`jane.doe@x` → jane.doe, jane, doe).
+ */
+export function contextWords(email?: string): string[] {
+  const local = (email || '').toLowerCase().split('@')[0];
+  const words = local
+    ? [local, ...local.split(/[^a-z]+/)].filter((word) => word.length >= MIN_CONTEXT_WORD_LENGTH)
+    : [];
+  return [...new Set([...SERVICE_WORDS, ...words])];
+}
+
+/** Whether `password` contains one of `words` (see contextWords). */
+export function containsContextWord(password: string, words: string[]): boolean {
+  const lower = password.toLowerCase();
+  return words.some((word) => lower.includes(word));
+}
+
+export interface PasswordStrength {
+  /** 0 (very weak) to 4 (very strong) */
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+  /** Estimated guesses needed, as bits */
+  entropy: number;
+}
+
+const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'];
+const SCORE_THRESHOLDS = [28, 36, 60, 80];
+/** Bits credited for a common password or a word from the email address */
+const GUESSABLE_BITS = 4;
+
+function characterPool(password: string): number {
+  let pool = 0;
+  if (/[a-z]/.test(password)) pool += 26;
+  if (/[A-Z]/.test(password)) pool += 26;
+  if (/\d/.test(password)) pool += 10;
+  if (/[^A-Za-z0-9]/.test(password)) pool += 33;
+  return pool;
+}
+
+/**
+ * Rough entropy estimate: each character adds log2 of the character pool, except
+ * repeats and runs (`aaa`, `abc`, `321`), which add one bit. Common passwords and words
+ * from the email address count as a single guess rather than their length.
+ */
+export function estimatePasswordStrength(password: string, words: string[] = []): PasswordStrength {
+  let entropy = 0;
+  if (password && isCommonPassword(password)) {
+    entropy = GUESSABLE_BITS;
+  } else if (password) {
+    let rest = password.toLowerCase();
+    for (const word of words) {
+      if (rest.includes(word)) {
+        rest = rest.split(word).join('');
+        entropy += GUESSABLE_BITS;
+      }
+    }
+    const bitsPerChar = Math.log2(characterPool(password));
+    for (let i = 0; i < rest.length; i++) {
+      const step = i > 0 ? rest.charCodeAt(i) - rest.charCodeAt(i - 1) : NaN;
+      entropy += Math.abs(step) <= 1 ? 1 : bitsPerChar;
+    }
+  }
+
+  const score = SCORE_THRESHOLDS.filter((threshold) => entropy >= threshold)
+    .length as PasswordStrength['score'];
+  return { score, label: STRENGTH_LABELS[score], entropy: Math.round(entropy) };
+}
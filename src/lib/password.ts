@@ -1,52 +1,120 @@
-import bcrypt from 'bcryptjs';
+import { containsContextWord, contextWords, isCommonPassword } from './password-screening';
 
-/**
- * Hash a password using bcrypt
- * @param password Plain text password
- * @returns Hashed password
- */
-export async function hashPassword(password: string): Promise<string> {
-  const saltRounds = 10;
-  return await bcrypt.hash(password, saltRounds);
+/** The stored password policy (`password_policy`; enforced on the server). */
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  /** Recent passwords that cannot be reused, including the current one */
+  historyCount: number;
+  /** Days until a password must be changed at sign-in (0: never) */
+  maxAgeDays: number;
+  /** Days before a changed password can be changed again */
+  minAgeDays: number;
+}
+
+/** Used until the stored policy has loaded (the server's defaults). */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+  historyCount: 5,
+  maxAgeDays: 0,
+  minAgeDays: 0,
+};
+
+export interface PasswordRequirement {
+  label: string;
+  /** Message when the requirement is not met */
+  error: string;
+  test: (password: string) => boolean;
 }
 
 /**
- * Compare a plain text password with a hashed password
- * @param password Plain text password
- * @param hash Hashed password from database
- * @returns True if passwords match, false otherwise
+ * The checks a new password must pass under `policy`, for checklists, including the
+ * offline screening against common passwords and the words of the account's `email`.
+ * Reuse of recent passwords can only be checked by the server.
  */
-export async function comparePassword(password: string, hash: string): Promise<boolean> {
-  return await bcrypt.compare(password, hash);
+export function getPasswordRequirements(
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+  email?: string
+): PasswordRequirement[] {
+  const requirements: PasswordRequirement[] = [
+    {
+      label: `At least ${policy.minLength} characters`,
+      error: `Password must be at least ${policy.minLength} characters long`,
+      test: (p) => p.length >= policy.minLength,
+    },
+  ];
+  if (policy.requireUppercase) {
+    requirements.push({
+      label: 'One uppercase letter',
+      error: 'Password must contain at least one uppercase letter',
+      test: (p) => /[A-Z]/.test(p),
+    });
+  }
+  if (policy.requireLowercase) {
+    requirements.push({
+      label: 'One lowercase letter',
+      error: 'Password must contain at least one lowercase letter',
+      test: (p) => /[a-z]/.test(p),
+    });
+  }
+  if (policy.requireDigit) {
+    requirements.push({
+      label: 'One number',
+      error: 'Password must contain at least one number',
+      test: (p) => /\d/.test(p),
+    });
+  }
+  if (policy.requireSymbol) {
+    requirements.push({
+      label: 'One symbol',
+      error: 'Password must contain at least one symbol',
+      test: (p) => /[^A-Za-z0-9]/.test(p),
+    });
+  }
+  const words = contextWords(email);
+  requirements.push(
+    {
+      label: 'Not a common password',
+      error: 'Password is too common or has appeared in a data breach',
+      test: (p) => p.length > 0 && !isCommonPassword(p),
+    },
+    {
+      label: 'No email or site name',
+      error: 'Password must not contain your email address or the service name',
+      test: (p) => p.length > 0 && !containsContextWord(p, words),
+    }
+  );
+  return requirements;
 }
 
 /**
  * Validate password strength
  * @param password Password to validate
+ * @param policy Password policy to check against (defaults to the built-in rules)
+ * @param email Email address of the account, whose words the password must not contain
  * @returns Object with isValid boolean and errors array
  */
-export function validatePasswordStrength(password: string): {
+export function validatePasswordStrength(
+  password: string,
+  policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+  email?: string
+): {
   isValid: boolean;
   errors: string[];
 } {
-  const errors: string[] = [];
-
-  if (password.length < 8) {
-    errors.push('Password must be at least 8 characters long');
-  }
-  if (!/[A-Z]/.test(password)) {
-    errors.push('Password must contain at least one uppercase letter');
-  }
-  if (!/[a-z]/.test(password)) {
-    errors.push('Password must contain at least one lowercase letter');
-  }
-  if (!/\d/.test(password)) {
-    errors.push('Password must contain at least one number');
-  }
+  const errors = getPasswordRequirements(policy, email)
+    .filter((requirement) => !requirement.test(password))
+    .map((requirement) => requirement.error);
 
   return {
     isValid: errors.length === 0,
     errors,
   };
 }
-
@@ -0,0 +1,158 @@
+/**
+ * Cross-tab session synchronization
+ *
+ * Tabs that share a session (same refresh token family, e.g. a duplicated tab) exchange
+ * token updates, MFA verification and activity over a BroadcastChannel. Logout goes to
+ * every tab of the same user, including tabs that signed in separately.
+ * Exactly one tab per session leads token refreshes, elected with a Web Lock per family,
+ * so two tabs never exchange the same single-use refresh token.
+ */
+
+import type { User } from './api';
+import type { SessionLimits } from './auth-api';
+
+const CHANNEL_NAME = 'secure-access-hub-auth';
+const LEADER_LOCK_PREFIX = 'auth-refresh-leader:';
+
+export type SessionSyncMessage =
+  | {
+      type: 'tokens';
+      accessToken: string;
+      refreshToken: string;
+      limits?: SessionLimits;
+    }
+  | { type: 'mfa-verified'; user: User }
+  | { type: 'activity'; at: number }
+  | { type: 'refresh-request' }
+  | { type: 'logout' };
+
+type Envelope = SessionSyncMessage & { familyId: string; userId: string | null };
+
+let channel: BroadcastChannel | null = null;
+let currentFamilyId: string | null = null;
+let currentUserId: string | null = null;
+let onMessage: ((message: SessionSyncMessage) => void) | null = null;
+let isLeader = false;
+let leaderAbort: AbortController | null = null;
+let releaseLeader: (() => void) | null = null;
+
+function releaseLeadership(): void {
+  isLeader = false;
+  leaderAbort?.abort();
+  leaderAbort = null;
+  releaseLeader?.();
+  releaseLeader = null;
+}
+
+function acquireLeadership(familyId: string): Promise<void> {
+  // Without Web Locks every tab refreshes for itself (the behaviour before sync existed)
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    isLeader = true;
+    return Promise.resolve();
+  }
+
+  const name = `${LEADER_LOCK_PREFIX}${familyId}`;
+  const controller = new AbortController();
+  leaderAbort = controller;
+
+  return new Promise<void>((settled) => {
+    const hold = () => {
+      isLeader = true;
+      settled();
+      // Hold the lock until this tab leaves the family or closes
+      return new Promise<void>((resolve) => {
+        releaseLeader = resolve;
+      });
+    };
+
+    navigator.locks
+      .request(name, { ifAvailable: true }, (lock) => {
+        if (lock) {
+          return hold();
+        }
+        // Another tab leads; queue up to take over when it closes
+        settled();
+        navigator.locks.request(name, { signal: controller.signal }, hold).catch(() => {
+          /* aborted while waiting: this tab switched sessions */
+        });
+        return undefined;
+      })
+      .catch(() => settled());
+  });
+}
+
+/**
+ * Start listening for messages from other tabs
+ * @param handler Called for messages about the session this tab has joined, and for
+ *   logouts of its user
+ */
+export function startSessionSync(handler: (message: SessionSyncMessage) => void): void {
+  onMessage = handler;
+  if (channel || typeof BroadcastChannel === 'undefined') {
+    return;
+  }
+
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<Envelope>) => {
+    const { familyId, userId, ...message } = event.data;
+    const isForThisTab =
+      message.type === 'logout'
+        ? Boolean(userId) && userId === currentUserId
+        : Boolean(familyId) && familyId === currentFamilyId;
+    if (isForThisTab) {
+      onMessage?.(message as SessionSyncMessage);
+    }
+  };
+}
+
+/**
+ * Stop listening and give up refresh leadership
+ */
+export function stopSessionSync(): void {
+  releaseLeadership();
+  channel?.close();
+  channel = null;
+  onMessage = null;
+  currentFamilyId = null;
+  currentUserId = null;
+}
+
+/**
+ * Join the tab group of a session (its token family) of `userId`, or leave it with null.
+ * Resolves once it is known whether this tab leads refreshes.
+ */
+export async function joinSessionSync(
+  familyId: string | null,
+  userId: string | null = null
+): Promise<void> {
+  currentUserId = familyId ? userId : null;
+  if (familyId === currentFamilyId) {
+    return;
+  }
+
+  releaseLeadership();
+  currentFamilyId = familyId;
+  if (familyId) {
+    await acquireLeadership(familyId);
+  }
+}
+
+/**
+ * Whether this tab should run token refreshes for its session
+ */
+export function isRefreshLeader(): boolean {
+  return isLeader;
+}
+
+/**
+ * Send a message to the other tabs of the current session
+ */
+export function broadcastSessionEvent(message: SessionSyncMessage): void {
+  if (channel && currentFamilyId) {
+    channel.postMessage({
+      ...message,
+      familyId: currentFamilyId,
+      userId: currentUserId,
+    } satisfies Envelope);
+  }
+}
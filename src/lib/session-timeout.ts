@@ -1,106 +1,140 @@
-import { verifyAccessToken, refreshAccessToken, isTokenExpired } from './jwt';
-import * as api from './api';
+import { isTokenExpired } from './jwt';
+import { AuthRequestError, refreshSession, validateSession } from './auth-api';
+import type { SessionLimits } from './auth-api';
 
 /**
- * Session timeout configuration (30 minutes)
+ * How long before a forced sign-out the warning dialog is shown
  */
-export const SESSION_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+export const SESSION_WARNING_MS = 60 * 1000; // 1 minute
+
+// Session storage keys (cleared by AuthContext on sign-out)
+const SESSION_LIMITS_KEY = 'auth_session_limits';
+const LAST_ACTIVITY_KEY = 'auth_last_activity';
+
+export interface SessionDeadline {
+  reason: 'idle' | 'absolute';
+  at: number; // epoch ms
+}
+
+/**
+ * Store the idle / absolute limits returned with a token pair
+ */
+export function storeSessionLimits(limits: SessionLimits | undefined): void {
+  if (limits) {
+    sessionStorage.setItem(SESSION_LIMITS_KEY, JSON.stringify(limits));
+  }
+}
+
+/** Last recorded activity (epoch ms), or undefined before the first one */
+function getLastActivity(): number | undefined {
+  return Number(sessionStorage.getItem(LAST_ACTIVITY_KEY)) || undefined;
+}
 
 /**
- * Check if session is expired and handle refresh
+ * Record user activity (resets the idle timer)
+ * @param at Activity time; older times than the stored one are ignored (activity from other tabs)
+ */
+export function recordActivity(at: number = Date.now()): void {
+  if (at > (getLastActivity() ?? 0)) {
+    sessionStorage.setItem(LAST_ACTIVITY_KEY, String(at));
+  }
+}
+
+/**
+ * Forget limits and activity (on sign-out)
+ */
+export function clearSessionActivity(): void {
+  sessionStorage.removeItem(SESSION_LIMITS_KEY);
+  sessionStorage.removeItem(LAST_ACTIVITY_KEY);
+}
+
+/**
+ * Get the earlier of the idle and absolute deadlines
+ * @returns Deadline, or null when no limits are stored
+ */
+export function getSessionDeadline(): SessionDeadline | null {
+  let limits: SessionLimits;
+  try {
+    const stored = sessionStorage.getItem(SESSION_LIMITS_KEY);
+    if (!stored) {
+      return null;
+    }
+    limits = JSON.parse(stored);
+  } catch {
+    return null;
+  }
+
+  const lastActivity = getLastActivity() ?? Date.now();
+  const idleAt = lastActivity + limits.idleTimeoutSeconds * 1000;
+  const absoluteAt = new Date(limits.absoluteExpiresAt).getTime();
+
+  return absoluteAt <= idleAt
+    ? { reason: 'absolute', at: absoluteAt }
+    : { reason: 'idle', at: idleAt };
+}
+
+/**
+ * Check if session is expired or revoked and handle refresh
  * @param accessToken Current access token
  * @param refreshToken Current refresh token
+ * @param options.canRefresh False in tabs that wait for the leading tab to refresh (session-sync.ts)
  * @returns Object with isValid boolean and new tokens if refreshed
  */
 export async function checkSessionTimeout(
   accessToken: string,
-  refreshToken: string | null
+  refreshToken: string | null,
+  { canRefresh = true }: { canRefresh?: boolean } = {}
 ): Promise<{
   isValid: boolean;
   accessToken?: string;
   refreshToken?: string;
   expiresAt?: Date;
+  limits?: SessionLimits;
 }> {
+  // Idle or absolute limit reached: never refresh past it
+  const deadline = getSessionDeadline();
+  if (deadline && Date.now() >= deadline.at) {
+    return { isValid: false };
+  }
+
   // Check if token is expired
   if (isTokenExpired(accessToken)) {
-    // Try to refresh if refresh token exists
-    if (refreshToken) {
-      const newTokenPair = await refreshAccessToken(refreshToken);
-      if (newTokenPair) {
-        // Get user ID from the old token (decode without verification since it's expired)
-        const decoded = JSON.parse(atob(accessToken.split('.')[1]));
-        const userId = decoded.userId;
-
-        if (userId) {
-          try {
-            // Delete old session
-            await api.deleteSession(accessToken);
-            // Create new session
-            await api.createSession(
-              userId,
-              newTokenPair.accessToken,
-              newTokenPair.refreshToken,
-              newTokenPair.expiresAt,
-              null,
-              null
-            );
-          } catch (error) {
-            console.error('Failed to update session:', error);
-          }
-        }
+    // Another tab refreshes this session and will broadcast the new tokens
+    if (!canRefresh) {
+      return { isValid: true };
+    }
 
+    // Try to refresh if refresh token exists (the server swaps the session row)
+    if (refreshToken) {
+      try {
+        const refreshed = await refreshSession(refreshToken, getLastActivity());
+        storeSessionLimits(refreshed.session);
         return {
           isValid: true,
-          accessToken: newTokenPair.accessToken,
-          refreshToken: newTokenPair.refreshToken,
-          expiresAt: newTokenPair.expiresAt,
+          accessToken: refreshed.accessToken,
+          refreshToken: refreshed.refreshToken,
+          expiresAt: new Date(refreshed.expiresAt),
+          limits: refreshed.session,
         };
+      } catch (error) {
+        console.error('Failed to refresh session:', error);
       }
     }
     // If refresh failed, session is invalid
     return { isValid: false };
   }
 
-  // Token is still valid
-  return { isValid: true };
-}
-
-/**
- * Get time until session expires
- * @param accessToken Access token
- * @returns Milliseconds until expiry, or 0 if expired
- */
-export function getTimeUntilExpiry(accessToken: string): number {
-  if (isTokenExpired(accessToken)) {
-    return 0;
-  }
-
+  // Signature and expiry are fine; make sure the session was not signed out, revoked or
+  // idle on the server (which also records the activity reported here)
   try {
-    const decoded = JSON.parse(atob(accessToken.split('.')[1]));
-    const exp = decoded.exp * 1000; // Convert to milliseconds
-    const now = Date.now();
-    return Math.max(0, exp - now);
+    await validateSession(accessToken, getLastActivity());
   } catch (error) {
-    return 0;
-  }
-}
-
-/**
- * Format time remaining until expiry
- * @param ms Milliseconds until expiry
- * @returns Formatted string (e.g., "5 minutes")
- */
-export function formatTimeRemaining(ms: number): string {
-  if (ms <= 0) {
-    return 'expired';
+    if (error instanceof AuthRequestError && error.status === 401) {
+      return { isValid: false };
+    }
+    // Server unreachable or erroring: keep the session and check again next time
+    console.error('Failed to validate session:', error);
   }
 
-  const minutes = Math.floor(ms / (60 * 1000));
-  const seconds = Math.floor((ms % (60 * 1000)) / 1000);
-
-  if (minutes > 0) {
-    return `${minutes} minute${minutes > 1 ? 's' : ''}`;
-  }
-  return `${seconds} second${seconds > 1 ? 's' : ''}`;
+  return { isValid: true };
 }
-
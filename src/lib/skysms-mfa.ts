@@ -1,4 +1,5 @@
 import { sendSkysmsOtp } from '@/lib/skysms-registration';
+import { sessionAuthHeaders } from '@/lib/auth-api';
 
 const MFA_SETUP_OTP_MESSAGE =
   'SecureAuth MFA setup code {{otp}}. Valid 2 minutes. Do not share with anyone.';
@@ -48,7 +49,7 @@ export async function sendSkysmsMfaLoginOtpByUserId(userId: string): Promise<voi
   const url = `${base}/api/skysms/send-mfa-login-otp`;
   const res = await fetch(url, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...sessionAuthHeaders() },
     body: JSON.stringify({ user_id: userId }),
   });
 
@@ -62,31 +63,6 @@ export async function sendSkysmsMfaLoginOtpByUserId(userId: string): Promise<voi
   }
 }
 
-export async function verifySkysmsMfaLogin(userId: string, otp: string): Promise<boolean> {
-  const base = getLocalApiOrigin();
-  if (!base) {
-    throw new Error('Set VITE_EMAIL_API_ENDPOINT to your API server URL.');
-  }
-
-  const url = `${base}/api/skysms/verify-mfa-login`;
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ user_id: userId, otp: otp.trim() }),
-  });
-
-  const data = (await res.json().catch(() => ({}))) as {
-    success?: boolean;
-    message?: string;
-    error?: string;
-  };
-
-  if (!res.ok) {
-    throw new Error(data.message || data.error || `Verification failed (${res.status})`);
-  }
-  return data.success === true;
-}
-
 export async function verifySkysmsMfaSetup(
   userId: string,
   phoneNumber: string,
@@ -100,7 +76,7 @@ export async function verifySkysmsMfaSetup(
   const url = `${base}/api/skysms/verify-mfa-setup`;
   const res = await fetch(url, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...sessionAuthHeaders() },
     body: JSON.stringify({
       user_id: userId,
       phone_number: phoneNumber.trim(),
@@ -84,7 +84,7 @@ export async function verifySkysmsRegistration(
   email: string,
   phoneNumber: string,
   otp: string
-): Promise<{ passwordHash: string } | null> {
+): Promise<boolean> {
   const base = getLocalApiOrigin();
   if (!base) {
     throw new Error('Set VITE_EMAIL_API_ENDPOINT to your API server URL.');
@@ -103,7 +103,6 @@ export async function verifySkysmsRegistration(
 
   const data = (await res.json().catch(() => ({}))) as {
     success?: boolean;
-    passwordHash?: string;
     message?: string;
     error?: string;
   };
@@ -111,8 +110,5 @@ export async function verifySkysmsRegistration(
   if (!res.ok) {
     throw new Error(data.message || data.error || `Verification failed (${res.status})`);
   }
-  if (!data.success || !data.passwordHash) {
-    return null;
-  }
-  return { passwordHash: data.passwordHash };
+  return Boolean(data.success);
 }
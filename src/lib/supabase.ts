@@ -54,11 +54,9 @@ export interface Database {
           password_hash: string;
           role: 'Admin' | 'StandardUser' | 'RestrictedUser';
           mfa_enabled: boolean;
-          mfa_secret: string | null;
-          totp_enabled: boolean;
-          email_otp_enabled: boolean;
-          mfa_phone_number: string | null;
-          sms_otp_enabled: boolean;
+          locked_until: string | null;
+          lock_reason: 'failed_logins' | 'failed_mfa' | 'admin' | null;
+          password_changed_at: string;
           created_at: string;
           updated_at: string;
         };
@@ -68,11 +66,9 @@ export interface Database {
           password_hash: string;
           role?: 'Admin' | 'StandardUser' | 'RestrictedUser';
           mfa_enabled?: boolean;
-          mfa_secret?: string | null;
-          totp_enabled?: boolean;
-          email_otp_enabled?: boolean;
-          mfa_phone_number?: string | null;
-          sms_otp_enabled?: boolean;
+          locked_until?: string | null;
+          lock_reason?: 'failed_logins' | 'failed_mfa' | 'admin' | null;
+          password_changed_at?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -82,11 +78,9 @@ export interface Database {
           password_hash?: string;
           role?: 'Admin' | 'StandardUser' | 'RestrictedUser';
           mfa_enabled?: boolean;
-          mfa_secret?: string | null;
-          totp_enabled?: boolean;
-          email_otp_enabled?: boolean;
-          mfa_phone_number?: string | null;
-          sms_otp_enabled?: boolean;
+          locked_until?: string | null;
+          lock_reason?: 'failed_logins' | 'failed_mfa' | 'admin' | null;
+          password_changed_at?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -159,28 +153,31 @@ export interface Database {
         Row: {
           id: string;
           user_id: string;
-          code: string;
+          code_hash: string;
           type: 'email' | 'totp';
           expires_at: string;
           used: boolean;
+          attempts: number;
           created_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
-          code: string;
+          code_hash: string;
           type: 'email' | 'totp';
           expires_at: string;
           used?: boolean;
+          attempts?: number;
           created_at?: string;
         };
         Update: {
           id?: string;
           user_id?: string;
-          code?: string;
+          code_hash?: string;
           type?: 'email' | 'totp';
           expires_at?: string;
           used?: boolean;
+          attempts?: number;
           created_at?: string;
         };
       };
@@ -188,20 +185,23 @@ export interface Database {
         Row: {
           id: string;
           user_id: string;
-          code: string;
+          code_hash: string;
+          salt: string;
           used: boolean;
           created_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
-          code: string;
+          code_hash: string;
+          salt: string;
           used?: boolean;
           created_at?: string;
         };
         Update: {
           id?: string;
-          code?: string;
+          code_hash?: string;
+          salt?: string;
           used?: boolean;
           created_at?: string;
         };
@@ -229,6 +229,77 @@ export interface Database {
           success?: boolean;
         };
       };
+      password_policy: {
+        Row: {
+          id: number;
+          min_length: number;
+          require_uppercase: boolean;
+          require_lowercase: boolean;
+          require_digit: boolean;
+          require_symbol: boolean;
+          history_count: number;
+          max_age_days: number;
+          min_age_days: number;
+          updated_at: string;
+        };
+        Insert: {
+          id?: number;
+          min_length?: number;
+          require_uppercase?: boolean;
+          require_lowercase?: boolean;
+          require_digit?: boolean;
+          require_symbol?: boolean;
+          history_count?: number;
+          max_age_days?: number;
+          min_age_days?: number;
+          updated_at?: string;
+        };
+        Update: {
+          id?: number;
+          min_length?: number;
+          require_uppercase?: boolean;
+          require_lowercase?: boolean;
+          require_digit?: boolean;
+          require_symbol?: boolean;
+          history_count?: number;
+          max_age_days?: number;
+          min_age_days?: number;
+          updated_at?: string;
+        };
+      };
+      // The anon key can select only user_id, display_name and avatar_url
+      user_profiles: {
+        Row: {
+          user_id: string;
+          display_name: string | null;
+          avatar_url: string | null;
+          phone: string | null;
+          timezone: string | null;
+          locale: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          display_name?: string | null;
+          avatar_url?: string | null;
+          phone?: string | null;
+          timezone?: string | null;
+          locale?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          display_name?: string | null;
+          avatar_url?: string | null;
+          phone?: string | null;
+          timezone?: string | null;
+          locale?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
     };
   };
 }
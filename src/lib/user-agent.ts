@@ -0,0 +1,44 @@
+/**
+ * User agent labels for the session list (e.g. "Chrome on macOS").
+ * Only the common browsers and platforms are recognised; anything else falls back to "Unknown device".
+ */
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+function match(userAgent: string, patterns: Array<[RegExp, string]>): string | null {
+  return patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+}
+
+/**
+ * Describe a user agent as "<browser> on <platform>"
+ * @param userAgent Raw User-Agent header (may be null)
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const platform = match(userAgent, PLATFORMS);
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+  return browser || platform || 'Unknown device';
+}
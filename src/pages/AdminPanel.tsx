@@ -1,13 +1,30 @@
 import { useState, useEffect } from 'react';
 import { Navigate } from 'react-router-dom';
-import { Users, Shield, Activity, Search, MoreVertical, CheckCircle, XCircle, Loader2, Edit, Key, UserX, UserCheck, Filter, X } from 'lucide-react';
+import { Users, Shield, Activity, Search, MoreVertical, CheckCircle, XCircle, Loader2, Edit, Key, UserX, UserCheck, Filter, X, Lock, Unlock, KeyRound, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { useAuth, UserRole } from '@/contexts/AuthContext';
 import DashboardLayout from '@/components/DashboardLayout';
 import * as api from '@/lib/api';
 import type { AuditLog, User } from '@/lib/api';
+import {
+  AuthRequestError,
+  adminChangeUserEmail,
+  assignOathToken,
+  changeUserRole,
+  getPasswordHashStats,
+  getStoredAccessToken,
+  importOathTokens,
+  listOathTokens,
+  lockUser,
+  sendPasswordResetLink,
+  setUserActive,
+  unassignOathToken,
+  unlockUser,
+} from '@/lib/auth-api';
+import type { OathToken, OathTokenImportError, PasswordHashSchemeCount } from '@/lib/auth-api';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -40,18 +57,32 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { getClientIpAddress, getCachedClientIp } from '@/lib/ip-address';
-import { sendEmailOtp } from '@/lib/email-otp';
 import { Badge } from '@/components/ui/badge';
 
+const LOCK_REASON_LABELS: Record<api.AccountLockReason, string> = {
+  failed_logins: 'Locked (failed sign-ins)',
+  failed_mfa: 'Locked (failed MFA)',
+  admin: 'Locked by admin',
+};
+
+function isLocked(u: User): boolean {
+  return Boolean(u.lockedUntil) && new Date(u.lockedUntil!).getTime() > Date.now();
+}
+
 export default function AdminPanel() {
   const { isAuthenticated, user, mfaVerified, isLoading } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
-  const [activeTab, setActiveTab] = useState<'users' | 'logs'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'logs' | 'tokens'>('users');
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [usersList, setUsersList] = useState<User[]>([]);
   const [loading, setLoading] = useState(false);
   const [logsLoading, setLogsLoading] = useState(false);
+  const [oathTokens, setOathTokens] = useState<OathToken[]>([]);
+  const [tokensLoading, setTokensLoading] = useState(false);
+  const [hashStats, setHashStats] = useState<{
+    current: string;
+    schemes: PasswordHashSchemeCount[];
+  } | null>(null);
   const { toast } = useToast();
 
   // Filter states for Users
@@ -68,11 +99,20 @@ export default function AdminPanel() {
   const [changeRoleOpen, setChangeRoleOpen] = useState(false);
   const [resetPasswordOpen, setResetPasswordOpen] = useState(false);
   const [deactivateOpen, setDeactivateOpen] = useState(false);
+  const [lockOpen, setLockOpen] = useState(false);
+  const [importTokensOpen, setImportTokensOpen] = useState(false);
+  const [assignTokenOpen, setAssignTokenOpen] = useState(false);
+  const [unassignTokenOpen, setUnassignTokenOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   
   // Form states
   const [editEmail, setEditEmail] = useState('');
   const [selectedRole, setSelectedRole] = useState<UserRole>('StandardUser');
+  const [lockHours, setLockHours] = useState('24');
+  const [importCsv, setImportCsv] = useState('');
+  const [importErrors, setImportErrors] = useState<OathTokenImportError[]>([]);
+  const [selectedTokenId, setSelectedTokenId] = useState('');
+  const [selectedToken, setSelectedToken] = useState<OathToken | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
 
   // Load users and audit logs
@@ -93,6 +133,13 @@ export default function AdminPanel() {
         } finally {
           setLoading(false);
         }
+
+        // Summary only; the user list works without it
+        try {
+          setHashStats(await getPasswordHashStats(getStoredAccessToken() ?? ''));
+        } catch (error) {
+          console.error('Failed to load password hash statistics:', error);
+        }
       } else if (activeTab === 'logs') {
         try {
           setLogsLoading(true);
@@ -108,6 +155,21 @@ export default function AdminPanel() {
         } finally {
           setLogsLoading(false);
         }
+      } else if (activeTab === 'tokens') {
+        try {
+          setTokensLoading(true);
+          const tokens = await listOathTokens(getStoredAccessToken() ?? '');
+          setOathTokens(tokens);
+        } catch (error) {
+          console.error('Failed to load hardware tokens:', error);
+          toast({
+            title: 'Error',
+            description: 'Failed to load hardware tokens',
+            variant: 'destructive',
+          });
+        } finally {
+          setTokensLoading(false);
+        }
       }
     };
 
@@ -136,39 +198,61 @@ export default function AdminPanel() {
     setDeactivateOpen(true);
   };
 
+  const handleLock = (user: User) => {
+    setSelectedUser(user);
+    setLockHours('24');
+    setLockOpen(true);
+  };
+
+  const handleImportTokens = () => {
+    setImportCsv('');
+    setImportErrors([]);
+    setImportTokensOpen(true);
+  };
+
+  const handleAssignToken = async (user: User) => {
+    setSelectedUser(user);
+    setSelectedTokenId('');
+    setAssignTokenOpen(true);
+
+    // The assign dialog lists the unassigned tokens
+    try {
+      const tokens = await listOathTokens(getStoredAccessToken() ?? '');
+      setOathTokens(tokens);
+    } catch (error) {
+      console.error('Failed to load hardware tokens:', error);
+    }
+  };
+
+  const handleTokenFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImportCsv(await file.text());
+    setImportErrors([]);
+  };
+
   const saveEditUser = async () => {
     if (!selectedUser || !editEmail.trim()) return;
 
     try {
       setActionLoading(true);
-      await api.updateUserEmail(selectedUser.id, editEmail.trim());
-      
-      // Create audit log
-      let ipAddress = getCachedClientIp();
-      if (!ipAddress) {
-        ipAddress = await getClientIpAddress();
-      }
-      const userAgent = navigator.userAgent;
-      await api.createAuditLog(
-        user?.id || null,
-        `Updated user email: ${selectedUser.email} -> ${editEmail.trim()}`,
-        ipAddress,
-        userAgent
+      // Same path as a user's own change: the server emails both addresses and writes
+      // the audit entries; the address changes once the new one is confirmed
+      const { pendingEmail } = await adminChangeUserEmail(
+        getStoredAccessToken() ?? '',
+        selectedUser.id,
+        editEmail.trim()
       );
 
       toast({
-        title: 'Success',
-        description: 'User email updated successfully',
+        title: 'Confirmation sent',
+        description: `The email changes once ${pendingEmail} is confirmed`,
       });
-
-      // Reload users
-      const users = await api.getAllUsers();
-      setUsersList(users);
       setEditUserOpen(false);
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: 'Error',
-        description: error.message || 'Failed to update user email',
+        description:
+          error instanceof AuthRequestError ? error.message : 'Failed to update user email',
         variant: 'destructive',
       });
     } finally {
@@ -181,20 +265,8 @@ export default function AdminPanel() {
 
     try {
       setActionLoading(true);
-      await api.updateUserRole(selectedUser.id, selectedRole);
-      
-      // Create audit log
-      let ipAddress = getCachedClientIp();
-      if (!ipAddress) {
-        ipAddress = await getClientIpAddress();
-      }
-      const userAgent = navigator.userAgent;
-      await api.createAuditLog(
-        user?.id || null,
-        `Changed user role: ${selectedUser.email} -> ${selectedRole}`,
-        ipAddress,
-        userAgent
-      );
+      // The server checks the admin, changes the role and writes the audit entry
+      await changeUserRole(getStoredAccessToken() ?? '', selectedUser.id, selectedRole);
 
       toast({
         title: 'Success',
@@ -221,41 +293,12 @@ export default function AdminPanel() {
 
     try {
       setActionLoading(true);
-      const token = await api.adminResetPassword(selectedUser.id);
-      
-      // Create reset link
-      const resetLink = `${window.location.origin}/reset-password?token=${token}`;
-      
-      // Send email with reset link
-      const emailSent = await sendEmailOtp(
-        selectedUser.email,
-        `Password Reset Link: ${resetLink}`,
-        {
-          subject: 'Password Reset Request (Admin Initiated)',
-        }
-      );
-
-      if (emailSent) {
-        // Create audit log
-        let ipAddress = getCachedClientIp();
-        if (!ipAddress) {
-          ipAddress = await getClientIpAddress();
-        }
-        const userAgent = navigator.userAgent;
-        await api.createAuditLog(
-          user?.id || null,
-          `Password reset initiated for: ${selectedUser.email}`,
-          ipAddress,
-          userAgent
-        );
-
-        toast({
-          title: 'Success',
-          description: 'Password reset email sent successfully',
-        });
-      } else {
-        throw new Error('Failed to send email');
-      }
+      // The server issues the token, emails the link and writes the audit entry
+      await sendPasswordResetLink(getStoredAccessToken() ?? '', selectedUser.id);
+      toast({
+        title: 'Success',
+        description: 'Password reset email sent successfully',
+      });
 
       setResetPasswordOpen(false);
     } catch (error: any) {
@@ -276,24 +319,8 @@ export default function AdminPanel() {
       setActionLoading(true);
       const isCurrentlyActive = selectedUser.isActive !== false;
       
-      if (isCurrentlyActive) {
-        await api.deactivateUser(selectedUser.id);
-      } else {
-        await api.activateUser(selectedUser.id);
-      }
-
-      // Create audit log
-      let ipAddress = getCachedClientIp();
-      if (!ipAddress) {
-        ipAddress = await getClientIpAddress();
-      }
-      const userAgent = navigator.userAgent;
-      await api.createAuditLog(
-        user?.id || null,
-        `${isCurrentlyActive ? 'Deactivated' : 'Activated'} user: ${selectedUser.email}`,
-        ipAddress,
-        userAgent
-      );
+      // The server changes the status, signs a deactivated user out and writes the audit entry
+      await setUserActive(getStoredAccessToken() ?? '', selectedUser.id, !isCurrentlyActive);
 
       toast({
         title: 'Success',
@@ -315,6 +342,146 @@ export default function AdminPanel() {
     }
   };
 
+  const confirmLock = async () => {
+    if (!selectedUser) return;
+
+    try {
+      setActionLoading(true);
+      const isCurrentlyLocked = isLocked(selectedUser);
+
+      // The server changes the lock, signs a locked user out and writes the audit entry
+      const accessToken = getStoredAccessToken() ?? '';
+      if (isCurrentlyLocked) {
+        await unlockUser(accessToken, selectedUser.id);
+      } else {
+        await lockUser(accessToken, selectedUser.id, Number(lockHours));
+      }
+
+      toast({
+        title: 'Success',
+        description: `User ${isCurrentlyLocked ? 'unlocked' : 'locked'} successfully`,
+      });
+
+      // Reload users
+      const users = await api.getAllUsers();
+      setUsersList(users);
+      setLockOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          error instanceof Error
+            ? error.message
+            : `Failed to ${isLocked(selectedUser) ? 'unlock' : 'lock'} user`,
+        variant: 'destructive',
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const confirmImportTokens = async () => {
+    if (!importCsv.trim()) return;
+
+    try {
+      setActionLoading(true);
+      setImportErrors([]);
+      const imported = await importOathTokens(getStoredAccessToken() ?? '', importCsv);
+
+      toast({
+        title: 'Success',
+        description: `Imported ${imported} hardware token${imported === 1 ? '' : 's'}`,
+      });
+
+      // Reload tokens
+      const tokens = await listOathTokens(getStoredAccessToken() ?? '');
+      setOathTokens(tokens);
+      setImportTokensOpen(false);
+    } catch (error) {
+      if (error instanceof AuthRequestError && Array.isArray(error.data.errors)) {
+        setImportErrors(error.data.errors as OathTokenImportError[]);
+      }
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import hardware tokens',
+        variant: 'destructive',
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const confirmAssignToken = async () => {
+    if (!selectedUser || !selectedTokenId) return;
+
+    try {
+      setActionLoading(true);
+      // The server writes the audit entry for the assignment
+      await assignOathToken(getStoredAccessToken() ?? '', selectedTokenId, selectedUser.id);
+
+      toast({
+        title: 'Success',
+        description: `Hardware token assigned to ${selectedUser.email}`,
+      });
+
+      // Reload users (MFA status) and tokens
+      const [users, tokens] = await Promise.all([
+        api.getAllUsers(),
+        listOathTokens(getStoredAccessToken() ?? ''),
+      ]);
+      setUsersList(users);
+      setOathTokens(tokens);
+      setAssignTokenOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to assign hardware token',
+        variant: 'destructive',
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleUnassignToken = (token: OathToken) => {
+    setSelectedToken(token);
+    setUnassignTokenOpen(true);
+  };
+
+  const confirmUnassignToken = async () => {
+    if (!selectedToken) return;
+
+    try {
+      setActionLoading(true);
+      // The server removes the user's TOTP factor if it is this token and writes the audit entry
+      const methodRemoved = await unassignOathToken(getStoredAccessToken() ?? '', selectedToken.id);
+
+      toast({
+        title: 'Success',
+        description: methodRemoved
+          ? `Token ${selectedToken.serial} unassigned and removed as the user's authenticator`
+          : `Token ${selectedToken.serial} unassigned`,
+      });
+
+      // Reload users (MFA status) and tokens
+      const [users, tokens] = await Promise.all([
+        api.getAllUsers(),
+        listOathTokens(getStoredAccessToken() ?? ''),
+      ]);
+      setUsersList(users);
+      setOathTokens(tokens);
+      setUnassignTokenOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to unassign hardware token',
+        variant: 'destructive',
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -349,7 +516,9 @@ export default function AdminPanel() {
   // Filter users based on all criteria
   const filteredUsers = usersList.filter((u) => {
     // Search filter
-    const matchesSearch = u.email.toLowerCase().includes(searchQuery.toLowerCase());
+    const query = searchQuery.toLowerCase();
+    const matchesSearch =
+      u.email.toLowerCase().includes(query) || !!u.displayName?.toLowerCase().includes(query);
     
     // Role filter
     const matchesRole = userRoleFilter === 'all' || u.role === userRoleFilter;
@@ -389,7 +558,8 @@ export default function AdminPanel() {
     const matchesSearch = 
       !logSearchQuery.trim() ||
       log.action.toLowerCase().includes(logSearchQuery.toLowerCase()) ||
-      log.user.toLowerCase().includes(logSearchQuery.toLowerCase());
+      log.user.toLowerCase().includes(logSearchQuery.toLowerCase()) ||
+      !!log.displayName?.toLowerCase().includes(logSearchQuery.toLowerCase());
     
     // Date filter
     const dateFilterStart = getDateFilterStart();
@@ -452,6 +622,13 @@ export default function AdminPanel() {
             <Activity className="h-4 w-4 mr-2" />
             Audit Logs
           </Button>
+          <Button
+            variant={activeTab === 'tokens' ? 'default' : 'ghost'}
+            onClick={() => setActiveTab('tokens')}
+          >
+            <KeyRound className="h-4 w-4 mr-2" />
+            Hardware Tokens
+          </Button>
         </div>
 
         {activeTab === 'users' ? (
@@ -537,6 +714,21 @@ export default function AdminPanel() {
               Showing {filteredUsers.length} of {usersList.length} users
             </div>
 
+            {hashStats && hashStats.schemes.length > 0 && (
+              <div className="mb-4 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <span>Password hashes (new: {hashStats.current}):</span>
+                {hashStats.schemes.map((entry) => (
+                  <Badge
+                    key={entry.label}
+                    variant={entry.current ? 'secondary' : 'outline'}
+                    title={entry.current ? undefined : 'Upgraded at the next sign-in'}
+                  >
+                    {entry.label}: {entry.count}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
             {loading ? (
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -580,7 +772,10 @@ export default function AdminPanel() {
                           className="border-b border-border/50 hover:bg-muted/50 transition-colors"
                         >
                           <td className="py-4 px-4">
-                            <span className="font-medium">{u.email}</span>
+                            <span className="font-medium">{u.displayName || u.email}</span>
+                            {u.displayName && (
+                              <p className="text-xs text-muted-foreground">{u.email}</p>
+                            )}
                           </td>
                           <td className="py-4 px-4">
                             <span
@@ -614,6 +809,15 @@ export default function AdminPanel() {
                                 Inactive
                               </span>
                             )}
+                            {isLocked(u) && (
+                              <span
+                                className="mt-1 flex items-center gap-1 text-xs text-warning"
+                                title={`Locked until ${new Date(u.lockedUntil!).toLocaleString()}`}
+                              >
+                                <Lock className="h-4 w-4" />
+                                {LOCK_REASON_LABELS[u.lockReason ?? 'admin']}
+                              </span>
+                            )}
                           </td>
                           <td className="py-4 px-4 text-muted-foreground text-sm">
                             {new Date(u.createdAt).toLocaleDateString()}
@@ -638,6 +842,23 @@ export default function AdminPanel() {
                                   <Key className="h-4 w-4 mr-2" />
                                   Reset Password
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleLock(u)}>
+                                  {isLocked(u) ? (
+                                    <>
+                                      <Unlock className="h-4 w-4 mr-2" />
+                                      Unlock
+                                    </>
+                                  ) : (
+                                    <>
+                                      <Lock className="h-4 w-4 mr-2" />
+                                      Lock Account
+                                    </>
+                                  )}
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleAssignToken(u)}>
+                                  <KeyRound className="h-4 w-4 mr-2" />
+                                  Assign Hardware Token
+                                </DropdownMenuItem>
                                 <DropdownMenuItem 
                                   className="text-destructive"
                                   onClick={() => handleDeactivate(u)}
@@ -747,7 +968,9 @@ export default function AdminPanel() {
                       </div>
                       <div>
                         <p className="font-medium">{log.action}</p>
-                        <p className="text-sm text-muted-foreground">{log.user}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {log.displayName ? `${log.displayName} (${log.user})` : log.user}
+                        </p>
                       </div>
                     </div>
                     <div className="text-right">
@@ -759,6 +982,89 @@ export default function AdminPanel() {
               </div>
             )}
           </div>
+        ) : activeTab === 'tokens' ? (
+          <div className="glass rounded-xl p-6">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-lg font-semibold">Hardware Tokens</h2>
+              <Button onClick={handleImportTokens}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </Button>
+            </div>
+
+            {/* Results Count */}
+            <div className="mb-4 text-sm text-muted-foreground">
+              {oathTokens.filter((t) => !t.assignedUserId).length} of {oathTokens.length} tokens
+              available
+            </div>
+
+            {tokensLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">
+                        Serial
+                      </th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">
+                        Parameters
+                      </th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">
+                        Assigned To
+                      </th>
+                      <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">
+                        Imported
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {oathTokens.length === 0 ? (
+                      <tr>
+                        <td colSpan={4} className="py-8 text-center text-muted-foreground">
+                          No hardware tokens imported
+                        </td>
+                      </tr>
+                    ) : (
+                      oathTokens.map((t) => (
+                        <tr
+                          key={t.id}
+                          className="border-b border-border/50 hover:bg-muted/50 transition-colors"
+                        >
+                          <td className="py-4 px-4">
+                            <span className="font-medium font-mono">{t.serial}</span>
+                          </td>
+                          <td className="py-4 px-4 text-muted-foreground text-sm">
+                            {t.algorithm}, {t.digits} digits, {t.period}s
+                          </td>
+                          <td className="py-4 px-4 text-sm">
+                            {t.assignedUserId ? (
+                              <div className="flex items-center gap-2">
+                                <span title={t.assignedAt ? new Date(t.assignedAt).toLocaleString() : undefined}>
+                                  {t.assignedEmail ?? t.assignedUserId}
+                                </span>
+                                <Button variant="ghost" size="sm" onClick={() => handleUnassignToken(t)}>
+                                  Unassign
+                                </Button>
+                              </div>
+                            ) : (
+                              <Badge variant="secondary">Available</Badge>
+                            )}
+                          </td>
+                          <td className="py-4 px-4 text-muted-foreground text-sm">
+                            {new Date(t.importedAt).toLocaleDateString()}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
         ) : null}
 
       </div>
@@ -769,7 +1075,8 @@ export default function AdminPanel() {
           <DialogHeader>
             <DialogTitle>Edit User</DialogTitle>
             <DialogDescription>
-              Update the email address for {selectedUser?.email}
+              Change the email address of {selectedUser?.email}. The new address gets a
+              confirmation link, the current one a link to undo the change.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -792,10 +1099,10 @@ export default function AdminPanel() {
               {actionLoading ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Saving...
+                  Sending...
                 </>
               ) : (
-                'Save Changes'
+                'Send Confirmation Link'
               )}
             </Button>
           </DialogFooter>
@@ -903,6 +1210,193 @@ export default function AdminPanel() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Lock/Unlock Dialog */}
+      <Dialog open={lockOpen} onOpenChange={setLockOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedUser && isLocked(selectedUser) ? 'Unlock Account' : 'Lock Account'}</DialogTitle>
+            <DialogDescription>
+              {selectedUser && isLocked(selectedUser)
+                ? `${selectedUser.email} is locked until ${new Date(
+                    selectedUser.lockedUntil!
+                  ).toLocaleString()}. Unlocking lets them sign in again right away.`
+                : `${selectedUser?.email} will be signed out everywhere and cannot sign in until the lock expires.`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedUser && !isLocked(selectedUser) && (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="lockDuration">Lock for</Label>
+                <Select value={lockHours} onValueChange={setLockHours}>
+                  <SelectTrigger id="lockDuration">
+                    <SelectValue placeholder="Select a duration" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">1 hour</SelectItem>
+                    <SelectItem value="24">24 hours</SelectItem>
+                    <SelectItem value="168">7 days</SelectItem>
+                    <SelectItem value="720">30 days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLockOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmLock} disabled={actionLoading}>
+              {actionLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Processing...
+                </>
+              ) : selectedUser && isLocked(selectedUser) ? (
+                'Unlock'
+              ) : (
+                'Lock Account'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Import Hardware Tokens Dialog */}
+      <Dialog open={importTokensOpen} onOpenChange={setImportTokensOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import Hardware Tokens</DialogTitle>
+            <DialogDescription>
+              One token per line: serial, base32 seed, algorithm (SHA1, SHA256 or SHA512) and
+              digits (6 or 8), optionally followed by the period in seconds. Nothing is imported
+              if a line is invalid.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="tokenFile">Seed file</Label>
+              <Input
+                id="tokenFile"
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                onChange={(e) => handleTokenFile(e.target.files?.[0])}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tokenCsv">Contents</Label>
+              <Textarea
+                id="tokenCsv"
+                value={importCsv}
+                onChange={(e) => setImportCsv(e.target.value)}
+                placeholder="serial,seed,algorithm,digits"
+                className="font-mono text-xs h-40"
+              />
+            </div>
+            {importErrors.length > 0 && (
+              <div className="max-h-32 overflow-y-auto rounded-lg bg-destructive/10 border border-destructive/20 p-3 text-sm text-destructive">
+                {importErrors.map((e) => (
+                  <p key={`${e.line}-${e.message}`}>
+                    Line {e.line}: {e.message}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportTokensOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmImportTokens} disabled={actionLoading || !importCsv.trim()}>
+              {actionLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                'Import'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Unassign Hardware Token Dialog */}
+      <Dialog open={unassignTokenOpen} onOpenChange={setUnassignTokenOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Unassign Hardware Token</DialogTitle>
+            <DialogDescription>
+              Token {selectedToken?.serial} goes back to the inventory. If it is still the
+              authenticator of {selectedToken?.assignedEmail ?? 'its user'}, that authenticator is
+              removed and they sign in with their other methods or email codes.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUnassignTokenOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmUnassignToken} disabled={actionLoading}>
+              {actionLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Unassigning...
+                </>
+              ) : (
+                'Unassign Token'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Assign Hardware Token Dialog */}
+      <Dialog open={assignTokenOpen} onOpenChange={setAssignTokenOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign Hardware Token</DialogTitle>
+            <DialogDescription>
+              The token becomes the authenticator for {selectedUser?.email}, replacing any
+              authenticator app or token they have set up. A replaced token goes back to the
+              inventory.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="oathToken">Token</Label>
+              <Select value={selectedTokenId} onValueChange={setSelectedTokenId}>
+                <SelectTrigger id="oathToken">
+                  <SelectValue placeholder="Select an available token" />
+                </SelectTrigger>
+                <SelectContent>
+                  {oathTokens
+                    .filter((t) => !t.assignedUserId)
+                    .map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.serial} ({t.algorithm}, {t.digits} digits)
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAssignTokenOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmAssignToken} disabled={actionLoading || !selectedTokenId}>
+              {actionLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Assigning...
+                </>
+              ) : (
+                'Assign Token'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </DashboardLayout>
   );
 }
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { Shield, Lock, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { usePasswordPolicy } from '@/hooks/use-password-policy';
+import PasswordChecklist from '@/components/PasswordChecklist';
+import { AuthRequestError } from '@/lib/auth-api';
+import { validatePasswordStrength } from '@/lib/password';
+
+/** Required password change after sign-in when the password is past its maximum age. */
+export default function ChangePassword() {
+  const { isAuthenticated, user, mfaVerified, isLoading, changePassword, logout } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const passwordPolicy = usePasswordPolicy();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    if (user && !mfaVerified) {
+      return <Navigate to="/mfa-verify" replace />;
+    }
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!user?.passwordExpired) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    const validation = validatePasswordStrength(password, passwordPolicy, user?.email);
+    if (!validation.isValid) {
+      setError(validation.errors.join(', '));
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      // The server checks the current password and recent passwords and writes the audit entry
+      await changePassword(currentPassword, password);
+      toast({
+        title: 'Password Changed',
+        description: 'Your new password is in effect.',
+      });
+      navigate('/dashboard', { replace: true });
+    } catch (err) {
+      setError(
+        err instanceof AuthRequestError && (err.status === 400 || err.status === 401)
+          ? err.message
+          : 'Failed to change password. Please try again.'
+      );
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center gap-2 mb-8">
+          <Shield className="h-8 w-8 text-primary" />
+          <span className="text-2xl font-semibold text-foreground">SecureAuth</span>
+        </div>
+
+        <div className="bg-card border border-border rounded-lg p-8 shadow-sm">
+          <h2 className="text-2xl font-bold text-foreground mb-2">Password Expired</h2>
+          <p className="text-muted-foreground mb-6">
+            Your password is older than {passwordPolicy.maxAgeDays} days. Choose a new one to
+            continue.
+          </p>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 mb-6 rounded-lg bg-destructive/10 text-destructive border border-destructive/20">
+              <AlertCircle className="h-5 w-5" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="currentPassword" className="text-foreground">Current Password</Label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                <Input
+                  id="currentPassword"
+                  type="password"
+                  placeholder="Enter current password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  className="pl-10"
+                  autoComplete="current-password"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password" className="text-foreground">New Password</Label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Enter new password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="pl-10"
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              {password && (
+                <PasswordChecklist
+                  password={password}
+                  policy={passwordPolicy}
+                  email={user?.email}
+                  checksHistory
+                />
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword" className="text-foreground">Confirm Password</Label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="Confirm new password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="pl-10"
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? 'Changing...' : 'Change Password'}
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={logout}>
+              Sign Out
+            </Button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { Shield, Mail, AlertCircle, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AuthRequestError, confirmEmailChange } from '@/lib/auth-api';
+
+/** Target of the link sent to a new email address; applies the pending change. */
+export default function ConfirmEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [confirmedEmail, setConfirmedEmail] = useState<string | null>(null);
+
+  // Confirming waits for a click so that link scanners opening the email cannot use the link
+  const handleConfirm = async () => {
+    if (!token) return;
+    setError('');
+    setLoading(true);
+
+    try {
+      setConfirmedEmail(await confirmEmailChange(token));
+    } catch (err) {
+      setError(
+        err instanceof AuthRequestError
+          ? err.message
+          : 'Failed to confirm your email address. Please try again.'
+      );
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="w-full max-w-md">
+          <div className="bg-card border border-border rounded-lg p-8 shadow-sm text-center">
+            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-foreground mb-2">Invalid Link</h2>
+            <p className="text-muted-foreground mb-6">
+              This confirmation link is incomplete. Open the link from the email again.
+            </p>
+            <Link to="/login">
+              <Button>Go to Login</Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (confirmedEmail) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="w-full max-w-md">
+          <div className="bg-card border border-border rounded-lg p-8 shadow-sm text-center">
+            <div className="h-16 w-16 rounded-full bg-success/10 flex items-center justify-center mx-auto mb-6">
+              <CheckCircle className="h-8 w-8 text-success" />
+            </div>
+            <h2 className="text-2xl font-bold text-foreground mb-2">Email Address Changed</h2>
+            <p className="text-muted-foreground mb-6">
+              From now on, sign in with {confirmedEmail}.
+            </p>
+            <Link to="/login">
+              <Button className="w-full">Go to Login</Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center gap-2 mb-8">
+          <Shield className="h-8 w-8 text-primary" />
+          <span className="text-2xl font-semibold text-foreground">SecureAuth</span>
+        </div>
+
+        <div className="bg-card border border-border rounded-lg p-8 shadow-sm">
+          <h2 className="text-2xl font-bold text-foreground mb-2">Confirm Email Address</h2>
+          <p className="text-muted-foreground mb-6">
+            Confirm to move your account to this email address. You will sign in with it from
+            now on.
+          </p>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 mb-6 rounded-lg bg-destructive/10 text-destructive border border-destructive/20">
+              <AlertCircle className="h-5 w-5" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          <Button className="w-full" onClick={handleConfirm} disabled={loading}>
+            <Mail className="h-4 w-4 mr-2" />
+            {loading ? 'Confirming...' : 'Confirm Email Address'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
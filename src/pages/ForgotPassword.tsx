@@ -4,9 +4,7 @@ import { Shield, Mail, ArrowLeft, CheckCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import * as api from '@/lib/api';
-import { sendEmailOtp } from '@/lib/email-otp';
-import { getClientIpAddress, getCachedClientIp } from '@/lib/ip-address';
+import { requestPasswordReset } from '@/lib/auth-api';
 
 export default function ForgotPassword() {
   const [email, setEmail] = useState('');
@@ -20,46 +18,9 @@ export default function ForgotPassword() {
     setLoading(true);
 
     try {
-      // Check if user exists
-      const user = await api.getUserByEmail(email);
-      if (!user) {
-        // Don't reveal if user exists or not (security best practice)
-        setSuccess(true);
-        setLoading(false);
-        return;
-      }
-
-      // Generate password reset token
-      const token = await api.createPasswordResetToken(user.id);
-
-      // Create reset link
-      const resetLink = `${window.location.origin}/reset-password?token=${token}`;
-
-      // Send email with reset link
-      // For now, we'll use the email OTP sending function structure
-      // In production, send the actual reset link via email
-      const emailSent = await sendEmailOtp(
-        email,
-        `Password Reset Link: ${resetLink}`,
-        {
-          subject: 'Password Reset Request',
-        }
-      );
-
-      if (emailSent) {
-        // Get IP address for audit log
-        let ipAddress = getCachedClientIp();
-        if (!ipAddress) {
-          ipAddress = await getClientIpAddress();
-        }
-        const userAgent = navigator.userAgent;
-        
-        // Create audit log
-        await api.createAuditLog(user.id, 'Password reset requested', ipAddress, userAgent);
-        setSuccess(true);
-      } else {
-        setError('Failed to send reset email. Please try again.');
-      }
+      // The server emails the link if the account exists and answers the same either way
+      await requestPasswordReset(email);
+      setSuccess(true);
     } catch (err) {
       setError('An error occurred. Please try again.');
       console.error(err);
@@ -1,17 +1,19 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Shield, Mail, Lock, AlertCircle } from 'lucide-react';
+import { Shield, Mail, Lock, AlertCircle, KeyRound } from 'lucide-react';
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useAuth } from '@/contexts/AuthContext';
+import { AuthRequestError } from '@/lib/auth-api';
 
 export default function Login() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  const { login, user, mfaVerified } = useAuth();
+  const { login, loginWithPasskey, user, mfaVerified } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -26,10 +28,37 @@ export default function Login() {
     setLoading(true);
 
     try {
-      await login(email, password);
-      navigate('/mfa-verify');
+      const { requiresMfa, trustedDeviceDays } = await login(email, password);
+      if (requiresMfa) {
+        navigate('/mfa-verify', { state: { trustedDeviceDays } });
+      } else {
+        navigate('/dashboard');
+      }
     } catch (err) {
-      setError('Invalid email or password');
+      // Locked accounts and throttled attempts explain themselves; other failures stay generic
+      setError(
+        err instanceof AuthRequestError && (err.status === 423 || err.status === 429)
+          ? err.message
+          : 'Invalid email or password'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePasskeyLogin = async () => {
+    setError('');
+    setLoading(true);
+
+    try {
+      await loginWithPasskey();
+      navigate('/dashboard');
+    } catch (err) {
+      setError(
+        err instanceof AuthRequestError && err.status === 423
+          ? err.message
+          : 'Passkey sign-in was cancelled or the passkey is not registered'
+      );
     } finally {
       setLoading(false);
     }
@@ -98,6 +127,19 @@ export default function Login() {
             </Button>
           </form>
 
+          {browserSupportsWebAuthn() && (
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full mt-4"
+              onClick={handlePasskeyLogin}
+              disabled={loading}
+            >
+              <KeyRound className="h-4 w-4 mr-2" />
+              Sign in with a passkey
+            </Button>
+          )}
+
           <p className="mt-6 text-center text-sm text-muted-foreground">
             Don't have an account?{' '}
             <Link to="/register" className="text-primary hover:underline font-medium">
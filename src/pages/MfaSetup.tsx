@@ -1,14 +1,16 @@
 import { useState, useEffect } from 'react';
 import { Navigate } from 'react-router-dom';
-import { Shield, Smartphone, Mail, CheckCircle, Copy, AlertCircle, Loader2 } from 'lucide-react';
+import { Shield, Smartphone, Mail, CheckCircle, Copy, AlertCircle, Loader2, KeyRound } from 'lucide-react';
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser';
+import { formatDistanceToNow } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useAuth } from '@/contexts/AuthContext';
 import DashboardLayout from '@/components/DashboardLayout';
 import { useToast } from '@/hooks/use-toast';
-import { generateBackupCodes } from '@/lib/api';
-import { generateTotpCode } from '@/lib/totp';
+import { getMfaMethods, MFA_METHOD_LABELS } from '@/lib/api';
+import type { MfaGateMethod, MfaMethod, OtpType } from '@/lib/api';
 
 export default function MfaSetup() {
   const {
@@ -23,30 +25,61 @@ export default function MfaSetup() {
     verifyTotpSetup,
     verifyEmailOtpSetup,
     verifySmsMfaSetup,
+    setupWebauthn,
+    removeMfaMethod,
+    setPrimaryMfaMethod,
+    regenerateBackupCodes,
+    getBackupCodesRemaining,
   } = useAuth();
-  const [step, setStep] = useState<'choose' | 'totp' | 'email' | 'sms' | 'backup' | 'complete'>('choose');
+  const [step, setStep] = useState<
+    'choose' | 'totp' | 'email' | 'sms' | 'webauthn' | 'backup' | 'complete'
+  >('choose');
   const [verificationCode, setVerificationCode] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const [totpSecret, setTotpSecret] = useState<string | null>(null);
   const [qrCode, setQrCode] = useState<string | null>(null);
   const [totpUri, setTotpUri] = useState<string | null>(null);
+  // Authenticator apps use time-based codes; hardware tokens may be counter-based (HOTP)
+  const [otpType, setOtpType] = useState<OtpType>('totp');
+  const [otpDigits, setOtpDigits] = useState(6);
+  const [otpPeriod, setOtpPeriod] = useState(30);
   const [backupCodes, setBackupCodes] = useState<string[]>([]);
   const [emailOtpSent, setEmailOtpSent] = useState(false);
   const [smsPhone, setSmsPhone] = useState('');
   const [smsOtpSent, setSmsOtpSent] = useState(false);
+  const [securityKeyName, setSecurityKeyName] = useState('');
+  const [methods, setMethods] = useState<MfaMethod[]>([]);
+  const [addingMethod, setAddingMethod] = useState(false);
+  const [updatingMethod, setUpdatingMethod] = useState<MfaGateMethod | null>(null);
+  const [backupCodesRemaining, setBackupCodesRemaining] = useState<number | null>(null);
   const { toast } = useToast();
 
+  // Load enrolled methods and the backup code count whenever the overview is shown
+  useEffect(() => {
+    if (step !== 'choose' || !user) return;
+    getMfaMethods(user.id)
+      .then(setMethods)
+      .catch((error) => console.error('Failed to load MFA methods:', error));
+    getBackupCodesRemaining()
+      .then(setBackupCodesRemaining)
+      .catch((error) => console.error('Failed to count backup codes:', error));
+  }, [step, user, getBackupCodesRemaining]);
+
+  const enrolled = new Set(methods.map((m) => m.method));
+
   // Initialize TOTP setup when step changes to 'totp'
   useEffect(() => {
     if (step === 'totp' && !totpSecret && user) {
       const initializeTotp = async () => {
         try {
           setLoading(true);
-          const { secret, qrCode, uri } = await setupTotp();
-          setTotpSecret(secret);
-          setQrCode(qrCode);
-          setTotpUri(uri);
+          const options = await setupTotp(otpType);
+          setTotpSecret(options.secret);
+          setQrCode(options.qrCode);
+          setTotpUri(options.uri);
+          setOtpDigits(options.digits);
+          setOtpPeriod(options.period);
         } catch (error) {
           setError('Failed to initialize TOTP setup');
           console.error(error);
@@ -56,7 +89,7 @@ export default function MfaSetup() {
       };
       initializeTotp();
     }
-  }, [step, totpSecret, setupTotp, user]);
+  }, [step, totpSecret, otpType, setupTotp, user]);
 
   // Send email OTP when step changes to 'email'
   useEffect(() => {
@@ -115,9 +148,7 @@ export default function MfaSetup() {
       const isValid = await verifySmsMfaSetup(smsPhone, verificationCode);
 
       if (isValid) {
-        const codes = await generateBackupCodes(user!.id);
-        setBackupCodes(codes);
-        setStep('backup');
+        await finishEnrollment();
       } else {
         setError('Invalid or expired code. Please try again.');
       }
@@ -129,6 +160,59 @@ export default function MfaSetup() {
     }
   };
 
+  // Backup codes are issued with the first method; adding another keeps the saved ones
+  const finishEnrollment = async () => {
+    if (methods.length) {
+      setAddingMethod(false);
+      setStep('complete');
+      toast({
+        title: 'Method Added',
+        description: 'You can now use this method when you sign in.',
+      });
+      return;
+    }
+
+    const codes = await regenerateBackupCodes();
+    setBackupCodes(codes);
+    setStep('backup');
+  };
+
+  const handleRegenerateBackupCodes = async () => {
+    try {
+      setLoading(true);
+      setBackupCodes(await regenerateBackupCodes());
+      setStep('backup');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to generate new backup codes.',
+        variant: 'destructive',
+      });
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWebauthnRegister = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const registered = await setupWebauthn(securityKeyName.trim() || undefined);
+
+      if (registered) {
+        await finishEnrollment();
+      } else {
+        setError('Security key registration was cancelled or failed. Please try again.');
+      }
+    } catch (error) {
+      setError('Registration failed. Please try again.');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -148,8 +232,8 @@ export default function MfaSetup() {
     // Clean the code - remove any spaces or non-digits
     const cleanCode = verificationCode.replace(/\D/g, '');
     
-    if (cleanCode.length !== 6) {
-      setError('Please enter a complete 6-digit code');
+    if (cleanCode.length !== otpDigits) {
+      setError(`Please enter a complete ${otpDigits}-digit code`);
       return;
     }
 
@@ -163,15 +247,14 @@ export default function MfaSetup() {
       setError('');
       
       // Verify the code
-      const isValid = await verifyTotpSetup(cleanCode, totpSecret);
+      const isValid = await verifyTotpSetup(cleanCode, totpSecret, otpType);
       
       if (isValid) {
-        // Generate backup codes
-        const codes = await generateBackupCodes(user!.id);
-        setBackupCodes(codes);
-        setStep('backup');
+        await finishEnrollment();
+      } else if (otpType === 'hotp') {
+        setError('Invalid code. Please make sure you added the key to your token correctly and entered the first code it shows.');
       } else {
-        setError('Invalid code. Please make sure: 1) Your phone\'s time is set automatically, 2) You entered the current code (codes change every 30 seconds), 3) You scanned the QR code correctly.');
+        setError(`Invalid code. Please make sure: 1) Your phone's time is set automatically, 2) You entered the current code (codes change every ${otpPeriod} seconds), 3) You scanned the QR code correctly.`);
       }
     } catch (error) {
       setError('Verification failed. Please try again.');
@@ -193,10 +276,7 @@ export default function MfaSetup() {
       const isValid = await verifyEmailOtpSetup(verificationCode);
       
       if (isValid) {
-        // Generate backup codes
-        const codes = await generateBackupCodes(user!.id);
-        setBackupCodes(codes);
-        setStep('backup');
+        await finishEnrollment();
       } else {
         setError('Invalid or expired code. Please try again.');
       }
@@ -218,6 +298,8 @@ export default function MfaSetup() {
 
   const handleDisable = () => {
     disableMfa();
+    setMethods([]);
+    setAddingMethod(false);
     setStep('choose');
     toast({
       title: 'MFA Disabled',
@@ -225,6 +307,54 @@ export default function MfaSetup() {
     });
   };
 
+  const handleSetPrimary = async (method: MfaGateMethod) => {
+    setUpdatingMethod(method);
+    try {
+      await setPrimaryMfaMethod(method);
+      setMethods(await getMfaMethods(user!.id));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to change the primary method.',
+        variant: 'destructive',
+      });
+      console.error(error);
+    } finally {
+      setUpdatingMethod(null);
+    }
+  };
+
+  const handleRemoveMethod = async (method: MfaGateMethod) => {
+    setUpdatingMethod(method);
+    try {
+      setMethods(await removeMfaMethod(method));
+      toast({
+        title: 'Method Removed',
+        description: `${MFA_METHOD_LABELS[method]} can no longer be used to sign in.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to remove the method.',
+        variant: 'destructive',
+      });
+      console.error(error);
+    } finally {
+      setUpdatingMethod(null);
+    }
+  };
+
+  const describeMethod = (method: MfaMethod) =>
+    [
+      method.phoneDisplay,
+      `Added ${formatDistanceToNow(new Date(method.createdAt), { addSuffix: true })}`,
+      method.lastUsedAt
+        ? `Last used ${formatDistanceToNow(new Date(method.lastUsedAt), { addSuffix: true })}`
+        : null,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -243,76 +373,194 @@ export default function MfaSetup() {
           </p>
         </div>
 
-        {user?.mfaEnabled && step === 'choose' ? (
-          <div className="glass rounded-xl p-8 text-center">
-            <div className="h-16 w-16 rounded-full bg-success/10 flex items-center justify-center mx-auto mb-6">
-              <CheckCircle className="h-8 w-8 text-success" />
+        {user?.mfaEnabled && step === 'choose' && !addingMethod ? (
+          <div className="glass rounded-xl p-8">
+            <div className="flex items-center gap-4 mb-6">
+              <div className="h-12 w-12 rounded-full bg-success/10 flex items-center justify-center shrink-0">
+                <CheckCircle className="h-6 w-6 text-success" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold">MFA is Enabled</h2>
+                <p className="text-sm text-muted-foreground">
+                  Any of these methods can be used at sign-in. The primary one is asked for first.
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-4 mb-6">
+              {methods.map((method) => (
+                <div
+                  key={method.id}
+                  className="flex items-center justify-between gap-4 p-4 rounded-lg bg-muted/50"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {MFA_METHOD_LABELS[method.method]}
+                      {method.isPrimary && (
+                        <span className="ml-2 text-xs text-success bg-success/10 px-2 py-1 rounded">
+                          Primary
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {describeMethod(method)}
+                    </p>
+                  </div>
+                  {updatingMethod === method.method ? (
+                    <Loader2 className="h-4 w-4 animate-spin shrink-0" />
+                  ) : (
+                    <div className="flex items-center gap-2 shrink-0">
+                      {!method.isPrimary && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleSetPrimary(method.method)}
+                          disabled={updatingMethod !== null}
+                        >
+                          Make Primary
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveMethod(method.method)}
+                        disabled={updatingMethod !== null}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between gap-4 p-4 rounded-lg bg-muted/50 mb-6">
+              <div>
+                <p className="font-medium">Backup codes</p>
+                <p className="text-sm text-muted-foreground">
+                  {backupCodesRemaining === null
+                    ? 'Counting unused codes...'
+                    : `${backupCodesRemaining} unused ${backupCodesRemaining === 1 ? 'code' : 'codes'} left`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleRegenerateBackupCodes}
+                disabled={loading}
+              >
+                {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Regenerate'}
+              </Button>
+            </div>
+
+            <div className="flex gap-4">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => {
+                  setError('');
+                  setAddingMethod(true);
+                }}
+              >
+                Add Another Method
+              </Button>
+              <Button variant="destructive" className="flex-1" onClick={handleDisable}>
+                Disable MFA
+              </Button>
             </div>
-            <h2 className="text-xl font-semibold mb-2">MFA is Enabled</h2>
-            <p className="text-muted-foreground mb-6">
-              Your account is protected with two-factor authentication.
-            </p>
-            <Button variant="destructive" onClick={handleDisable}>
-              Disable MFA
-            </Button>
           </div>
         ) : step === 'choose' ? (
           <div className="space-y-4">
-            <button
-              onClick={() => setStep('totp')}
-              className="w-full glass rounded-xl p-6 text-left hover:border-primary/50 transition-all group"
-            >
-              <div className="flex items-start gap-4">
-                <div className="h-12 w-12 rounded-lg bg-primary/10 flex items-center justify-center group-hover:bg-primary/20 transition-colors">
-                  <Smartphone className="h-6 w-6 text-primary" />
-                </div>
-                <div>
-                  <h3 className="font-semibold mb-1">Authenticator App</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Use an app like Google Authenticator, Authy, or Microsoft Authenticator
-                  </p>
+            {!enrolled.has('totp') && (
+              <button
+                onClick={() => setStep('totp')}
+                className="w-full glass rounded-xl p-6 text-left hover:border-primary/50 transition-all group"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="h-12 w-12 rounded-lg bg-primary/10 flex items-center justify-center group-hover:bg-primary/20 transition-colors">
+                    <Smartphone className="h-6 w-6 text-primary" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold mb-1">Authenticator App</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Use an app like Google Authenticator, Authy, or Microsoft Authenticator
+                    </p>
+                  </div>
                 </div>
-              </div>
-            </button>
+              </button>
+            )}
 
-            <button
-              onClick={() => setStep('email')}
-              className="w-full glass rounded-xl p-6 text-left hover:border-primary/50 transition-all group"
-            >
-              <div className="flex items-start gap-4">
-                <div className="h-12 w-12 rounded-lg bg-primary/10 flex items-center justify-center group-hover:bg-primary/20 transition-colors">
-                  <Mail className="h-6 w-6 text-primary" />
-                </div>
-                <div>
-                  <h3 className="font-semibold mb-1">Email OTP</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Receive a one-time code via email each time you sign in
-                  </p>
+            {!enrolled.has('email') && (
+              <button
+                onClick={() => setStep('email')}
+                className="w-full glass rounded-xl p-6 text-left hover:border-primary/50 transition-all group"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="h-12 w-12 rounded-lg bg-primary/10 flex items-center justify-center group-hover:bg-primary/20 transition-colors">
+                    <Mail className="h-6 w-6 text-primary" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold mb-1">Email OTP</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Receive a one-time code via email each time you sign in
+                    </p>
+                  </div>
                 </div>
-              </div>
-            </button>
-
-            <button
-              onClick={() => {
-                setSmsPhone('');
-                setSmsOtpSent(false);
-                setVerificationCode('');
-                setStep('sms');
-              }}
-              className="w-full glass rounded-xl p-6 text-left hover:border-primary/50 transition-all group"
-            >
-              <div className="flex items-start gap-4">
-                <div className="h-12 w-12 rounded-lg bg-primary/10 flex items-center justify-center group-hover:bg-primary/20 transition-colors">
-                  <Smartphone className="h-6 w-6 text-primary" />
+              </button>
+            )}
+
+            {!enrolled.has('sms') && (
+              <button
+                onClick={() => {
+                  setSmsPhone('');
+                  setSmsOtpSent(false);
+                  setVerificationCode('');
+                  setStep('sms');
+                }}
+                className="w-full glass rounded-xl p-6 text-left hover:border-primary/50 transition-all group"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="h-12 w-12 rounded-lg bg-primary/10 flex items-center justify-center group-hover:bg-primary/20 transition-colors">
+                    <Smartphone className="h-6 w-6 text-primary" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold mb-1">SMS OTP</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Receive a one-time code via SMS each time you sign in (Philippine mobile)
+                    </p>
+                  </div>
                 </div>
-                <div>
-                  <h3 className="font-semibold mb-1">SMS OTP</h3>
-                  <p className="text-sm text-muted-foreground">
-                    Receive a one-time code via SMS each time you sign in (Philippine mobile)
-                  </p>
+              </button>
+            )}
+
+            {browserSupportsWebAuthn() && !enrolled.has('webauthn') && (
+              <button
+                onClick={() => {
+                  setSecurityKeyName('');
+                  setError('');
+                  setStep('webauthn');
+                }}
+                className="w-full glass rounded-xl p-6 text-left hover:border-primary/50 transition-all group"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="h-12 w-12 rounded-lg bg-primary/10 flex items-center justify-center group-hover:bg-primary/20 transition-colors">
+                    <KeyRound className="h-6 w-6 text-primary" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold mb-1">Security Key or Passkey</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Use a FIDO2 security key, Touch ID, Windows Hello or a phone passkey
+                    </p>
+                  </div>
                 </div>
-              </div>
-            </button>
+              </button>
+            )}
+
+            {addingMethod && (
+              <Button variant="outline" className="w-full" onClick={() => setAddingMethod(false)}>
+                Back
+              </Button>
+            )}
           </div>
         ) : step === 'totp' ? (
           <div className="glass rounded-xl p-8">
@@ -320,6 +568,29 @@ export default function MfaSetup() {
               Set Up Authenticator App
             </h2>
 
+            <div className="flex justify-center gap-2 mb-6">
+              {(['totp', 'hotp'] as const).map((type) => (
+                <Button
+                  key={type}
+                  type="button"
+                  size="sm"
+                  variant={otpType === type ? 'default' : 'outline'}
+                  disabled={loading}
+                  onClick={() => {
+                    if (type === otpType) return;
+                    setOtpType(type);
+                    setTotpSecret(null);
+                    setQrCode(null);
+                    setTotpUri(null);
+                    setVerificationCode('');
+                    setError('');
+                  }}
+                >
+                  {type === 'totp' ? 'Time-based (app)' : 'Counter-based (token)'}
+                </Button>
+              ))}
+            </div>
+
             {loading && !qrCode ? (
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -330,7 +601,9 @@ export default function MfaSetup() {
                   <img src={qrCode} alt="QR Code" className="w-full h-full" />
                 </div>
                 <p className="text-sm text-muted-foreground mb-4">
-                  Scan this QR code with your authenticator app
+                  {otpType === 'hotp'
+                    ? 'Scan this QR code or load the key into your token'
+                    : 'Scan this QR code with your authenticator app'}
                 </p>
                 {totpUri && (
                   <div className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-muted font-mono text-sm break-all">
@@ -362,10 +635,12 @@ export default function MfaSetup() {
 
             <div className="space-y-4">
               <p className="text-sm text-center text-muted-foreground">
-                Enter the 6-digit code from your app
+                {otpType === 'hotp'
+                  ? `Enter the first ${otpDigits}-digit code from your token`
+                  : `Enter the ${otpDigits}-digit code from your app`}
               </p>
               <div className="flex justify-center gap-2">
-                {[0, 1, 2, 3, 4, 5].map((i) => (
+                {Array.from({ length: otpDigits }, (_, i) => i).map((i) => (
                   <input
                     key={i}
                     type="text"
@@ -397,7 +672,7 @@ export default function MfaSetup() {
                   <Button 
                     className="flex-1 glow-primary" 
                     onClick={handleTotpVerify}
-                    disabled={loading || verificationCode.length !== 6}
+                    disabled={loading || verificationCode.length !== otpDigits}
                   >
                     {loading ? (
                       <>
@@ -588,6 +863,58 @@ export default function MfaSetup() {
               </div>
             )}
           </div>
+        ) : step === 'webauthn' ? (
+          <div className="glass rounded-xl p-8">
+            <h2 className="text-xl font-semibold mb-6 text-center">Set Up a Security Key</h2>
+
+            <div className="text-center mb-8">
+              <div className="h-16 w-16 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-4">
+                <KeyRound className="h-8 w-8 text-primary" />
+              </div>
+              <p className="text-muted-foreground mb-4 text-sm max-w-md mx-auto">
+                Your browser will ask you to touch your security key or confirm with your device's
+                fingerprint, face or PIN. Passkeys can also be used to sign in without a password.
+              </p>
+              <Label htmlFor="security-key-name" className="sr-only">
+                Key name
+              </Label>
+              <Input
+                id="security-key-name"
+                placeholder="Name this key (e.g. YubiKey, MacBook)"
+                value={securityKeyName}
+                onChange={(e) => setSecurityKeyName(e.target.value)}
+                maxLength={100}
+                className="max-w-md mx-auto"
+              />
+            </div>
+
+            {error && (
+              <div className="flex items-center gap-2 p-4 mb-6 rounded-lg bg-destructive/10 text-destructive border border-destructive/20">
+                <AlertCircle className="h-5 w-5" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            <div className="flex gap-4 mt-8">
+              <Button variant="outline" className="flex-1" onClick={() => setStep('choose')}>
+                Back
+              </Button>
+              <Button
+                className="flex-1 glow-primary"
+                onClick={handleWebauthnRegister}
+                disabled={loading}
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Waiting for key...
+                  </>
+                ) : (
+                  'Register Security Key'
+                )}
+              </Button>
+            </div>
+          </div>
         ) : step === 'backup' ? (
           <div className="glass rounded-xl p-8">
             <h2 className="text-xl font-semibold mb-2 text-center">
@@ -595,6 +922,7 @@ export default function MfaSetup() {
             </h2>
             <p className="text-muted-foreground text-center mb-6">
               Store these codes in a safe place. You can use them to access your account if you lose your device.
+              Each code works once, and this is the only time they are shown.
             </p>
 
             {backupCodes.length > 0 ? (
@@ -1,23 +1,60 @@
 import { useState, useRef, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { AlertCircle } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { AlertCircle, KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { useAuth } from '@/contexts/AuthContext';
 import * as api from '@/lib/api';
-import { generateEmailOtp, sendEmailOtp } from '@/lib/email-otp';
+import { getStoredAccessToken, requestEmailOtp } from '@/lib/auth-api';
 import { sendSkysmsMfaLoginOtpByUserId } from '@/lib/skysms-mfa';
 
+// Email and SMS codes are sent when the method is selected; other methods need nothing sent
+async function sendSignInCode(method: api.MfaGateMethod, user: api.User): Promise<boolean> {
+  if (method === 'sms') {
+    await sendSkysmsMfaLoginOtpByUserId(user.id);
+    return true;
+  }
+  if (method === 'email') {
+    const accessToken = getStoredAccessToken();
+    if (!accessToken) return false;
+    await requestEmailOtp(accessToken);
+    return true;
+  }
+  return false;
+}
+
+function emptyCode(length: number): string[] {
+  return Array(length).fill('');
+}
+
 export default function MfaVerify() {
   const [code, setCode] = useState(['', '', '', '', '', '']);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  const [mfaType, setMfaType] = useState<'totp' | 'email' | 'sms'>('totp');
-  const [emailOtpSent, setEmailOtpSent] = useState(false);
-  const [smsOtpSent, setSmsOtpSent] = useState(false);
+  const [mfaType, setMfaType] = useState<api.MfaGateMethod>('totp');
+  const [availableMethods, setAvailableMethods] = useState<api.MfaGateMethod[]>([]);
+  const [showMethodPicker, setShowMethodPicker] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
   const [mfaPhoneDisplay, setMfaPhoneDisplay] = useState<string | null>(null);
+  const [trustDevice, setTrustDevice] = useState(false);
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [backupCode, setBackupCode] = useState('');
+  // Code length and type of the enrolled authenticator; HOTP tokens can resync with two codes
+  const [otpDigits, setOtpDigits] = useState(6);
+  const [otpType, setOtpType] = useState<api.OtpType>('totp');
+  const [resyncHotp, setResyncHotp] = useState(false);
+  const [nextCode, setNextCode] = useState('');
+  // Failed checks left before lockout, as reported by the server
+  const [remainingAttempts, setRemainingAttempts] = useState<number | null>(null);
   const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
   const { verifyMfa, user, mfaVerified, isLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Passed by Login from the sign-in response (server setting TRUSTED_DEVICE_DAYS)
+  const trustedDeviceDays = (location.state as { trustedDeviceDays?: number } | null)
+    ?.trustedDeviceDays;
 
   useEffect(() => {
     if (!isLoading && !user) {
@@ -38,42 +75,41 @@ export default function MfaVerify() {
       if (!user) return;
 
       const gate = await api.getMfaGateInfo(user.id);
-      if (gate.method === 'totp') {
-        setMfaType('totp');
-        return;
-      }
-      if (gate.method === 'sms') {
-        setMfaType('sms');
-        setMfaPhoneDisplay(gate.mfaPhoneDisplay);
-        try {
-          await sendSkysmsMfaLoginOtpByUserId(user.id);
-          setSmsOtpSent(true);
-        } catch (error) {
-          console.error('Failed to send SMS MFA code:', error);
-        }
-        return;
-      }
-
-      setMfaType('email');
+      setAvailableMethods(gate.methods);
+      setMfaPhoneDisplay(gate.mfaPhoneDisplay);
+      setOtpDigits(gate.otpDigits);
+      setOtpType(gate.otpType);
+      setMfaType(gate.method);
+      setCode(emptyCode(gate.method === 'totp' ? gate.otpDigits : 6));
       try {
-        const otpCode = generateEmailOtp();
-        const expiresAt = new Date();
-        expiresAt.setSeconds(expiresAt.getSeconds() + 120);
-
-        await api.createOtpCode(user.id, otpCode, 'email', expiresAt);
-        const sent = await sendEmailOtp(user.email, otpCode);
-
-        if (sent) {
-          setEmailOtpSent(true);
-        }
+        setCodeSent(await sendSignInCode(gate.method, user));
       } catch (error) {
-        console.error('Failed to send email OTP:', error);
+        console.error(`Failed to send ${gate.method} MFA code:`, error);
       }
     };
 
     determineMfaType();
   }, [user]);
 
+  const handleSelectMethod = async (method: api.MfaGateMethod) => {
+    if (!user) return;
+
+    setShowMethodPicker(false);
+    setUseBackupCode(false);
+    setMfaType(method);
+    setCodeSent(false);
+    setError('');
+    setResyncHotp(false);
+    setCode(emptyCode(method === 'totp' ? otpDigits : 6));
+    inputRefs.current[0]?.focus();
+    try {
+      setCodeSent(await sendSignInCode(method, user));
+    } catch (error) {
+      console.error(`Failed to send ${method} MFA code:`, error);
+      setError('Could not send the verification code. Try another method.');
+    }
+  };
+
   const handleChange = (index: number, value: string) => {
     if (!/^\d*$/.test(value)) return;
 
@@ -81,7 +117,7 @@ export default function MfaVerify() {
     newCode[index] = value.slice(-1);
     setCode(newCode);
 
-    if (value && index < 5) {
+    if (value && index < code.length - 1) {
       inputRefs.current[index + 1]?.focus();
     }
   };
@@ -94,51 +130,47 @@ export default function MfaVerify() {
 
   const handlePaste = (e: React.ClipboardEvent) => {
     e.preventDefault();
-    const pastedData = e.clipboardData.getData('text').slice(0, 6);
+    const pastedData = e.clipboardData.getData('text').slice(0, code.length);
     if (/^\d+$/.test(pastedData)) {
-      const newCode = pastedData.split('').concat(Array(6 - pastedData.length).fill(''));
+      const newCode = pastedData.split('').concat(emptyCode(code.length - pastedData.length));
       setCode(newCode);
-      inputRefs.current[Math.min(pastedData.length, 5)]?.focus();
+      inputRefs.current[Math.min(pastedData.length, code.length - 1)]?.focus();
     }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    setLoading(true);
 
-    const fullCode = code.join('');
-    
-    // Check if it's a backup code (format: XXXX-XXXX-XXXX, 12 characters with dashes)
-    const isBackupCodeFormat = fullCode.length === 12 && /^\d{4}-\d{4}-\d{4}$/.test(fullCode.replace(/\s/g, ''));
-    const cleanCode = fullCode.replace(/\s/g, '').replace(/-/g, '');
-    
-    if (cleanCode.length < 6 && !isBackupCodeFormat) {
-      setError('Please enter a complete code');
-      setLoading(false);
+    // Backup codes are 12 digits; dashes and spaces are optional
+    const cleanCode = useBackupCode ? backupCode.replace(/[\s-]/g, '') : code.join('');
+    if (useBackupCode ? !/^\d{12}$/.test(cleanCode) : cleanCode.length !== code.length) {
+      setError(useBackupCode ? 'Backup codes have 12 digits' : 'Please enter a complete code');
+      return;
+    }
+    const resyncing = resyncHotp && !useBackupCode && mfaType === 'totp';
+    if (resyncing && nextCode.length !== code.length) {
+      setError('Please enter the next code from your token as well');
       return;
     }
 
+    setLoading(true);
     try {
-      let success = false;
-      
-      // Try backup code first if format matches
-      if (isBackupCodeFormat) {
-        success = await verifyMfa(cleanCode, 'backup');
-      } else if (cleanCode.length === 6) {
-        success = await verifyMfa(cleanCode, mfaType);
-        
-        // If regular MFA fails, try as backup code (in case user entered backup code without dashes)
-        if (!success) {
-          success = await verifyMfa(cleanCode, 'backup');
-        }
-      }
-      
-      if (success) {
+      const result = await verifyMfa(
+        cleanCode,
+        useBackupCode ? 'backup' : mfaType,
+        trustDevice,
+        resyncing ? nextCode : undefined
+      );
+
+      if (result.success) {
         navigate('/dashboard');
       } else {
-        setError('Invalid or expired verification code');
-        setCode(['', '', '', '', '', '']);
+        setError(result.message || 'Invalid or expired verification code');
+        setRemainingAttempts(result.remainingAttempts ?? null);
+        setCode(emptyCode(code.length));
+        setNextCode('');
+        setBackupCode('');
         inputRefs.current[0]?.focus();
       }
     } catch {
@@ -148,58 +180,205 @@ export default function MfaVerify() {
     }
   };
 
+  const handleSecurityKey = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      if ((await verifyMfa('', 'webauthn', trustDevice)).success) {
+        navigate('/dashboard');
+      } else {
+        setError('Security key verification was cancelled or failed');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-6">
       <div className="w-full max-w-md">
         <div className="bg-card border border-border rounded-lg p-8 shadow-sm">
           <h2 className="text-2xl font-bold text-foreground mb-2 text-center">Two-Factor Authentication</h2>
           <p className="text-muted-foreground mb-4 text-center text-sm">
-            {mfaType === 'totp'
-              ? 'Enter the 6-digit code from your authenticator app'
-              : mfaType === 'sms'
-                ? smsOtpSent
-                  ? `Enter the 6-digit code sent via SMS to ${mfaPhoneDisplay || 'your phone'}`
-                  : 'Sending verification code via SMS...'
-                : emailOtpSent
-                  ? `Enter the 6-digit code sent to ${user?.email}`
-                  : 'Sending verification code to your email...'}
+            {useBackupCode
+              ? 'Enter one of your backup codes. Each code works once.'
+              : mfaType === 'webauthn'
+                ? 'Use your security key or passkey to continue'
+                : mfaType === 'totp'
+                  ? otpType === 'hotp'
+                    ? `Enter the ${otpDigits}-digit code from your token`
+                    : `Enter the ${otpDigits}-digit code from your authenticator app`
+                  : mfaType === 'sms'
+                    ? codeSent
+                      ? `Enter the 6-digit code sent via SMS to ${mfaPhoneDisplay || 'your phone'}`
+                      : 'Sending verification code via SMS...'
+                    : codeSent
+                      ? `Enter the 6-digit code sent to ${user?.email}`
+                      : 'Sending verification code to your email...'}
           </p>
-          <p className="text-muted-foreground mb-8 text-center text-xs">
-            Or enter a backup code (12 digits, with or without dashes)
+          <p className="mb-8 text-center text-xs">
+            <button
+              type="button"
+              className="text-primary hover:underline"
+              onClick={() => {
+                setError('');
+                setUseBackupCode(!useBackupCode);
+              }}
+            >
+              {useBackupCode
+                ? `Use ${api.MFA_METHOD_LABELS[mfaType].toLowerCase()} instead`
+                : 'Lost access? Use a backup code'}
+            </button>
           </p>
 
           {error && (
             <div className="flex items-center gap-2 p-3 mb-6 rounded-lg bg-destructive/10 text-destructive border border-destructive/20">
               <AlertCircle className="h-5 w-5" />
-              <span className="text-sm">{error}</span>
+              <div className="text-sm">
+                <p>{error}</p>
+                {remainingAttempts !== null && remainingAttempts > 0 && (
+                  <p className="text-xs">
+                    {remainingAttempts === 1 ? '1 attempt left' : `${remainingAttempts} attempts left`}
+                  </p>
+                )}
+              </div>
             </div>
           )}
 
+          {mfaType === 'webauthn' && !useBackupCode && (
+            <Button
+              type="button"
+              className="w-full mb-6"
+              onClick={handleSecurityKey}
+              disabled={loading}
+            >
+              <KeyRound className="h-4 w-4 mr-2" />
+              Use Security Key
+            </Button>
+          )}
+
           <form onSubmit={handleSubmit}>
-            <div className="flex justify-center gap-2 mb-6" onPaste={handlePaste}>
-              {code.map((digit, index) => (
-                <input
-                  key={index}
-                  ref={(el) => (inputRefs.current[index] = el)}
-                  type="text"
+            {useBackupCode ? (
+              <div className="mb-6">
+                <Label htmlFor="backup-code" className="sr-only">
+                  Backup code
+                </Label>
+                <Input
+                  id="backup-code"
                   inputMode="numeric"
-                  maxLength={1}
-                  value={digit}
-                  onChange={(e) => handleChange(index, e.target.value)}
-                  onKeyDown={(e) => handleKeyDown(index, e)}
-                  className="w-12 h-14 text-center text-xl font-mono rounded border border-input bg-background focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none"
+                  autoComplete="one-time-code"
+                  placeholder="1234-5678-9012"
+                  value={backupCode}
+                  onChange={(e) => setBackupCode(e.target.value)}
+                  maxLength={16}
+                  className="text-center text-lg font-mono"
+                  autoFocus
                 />
-              ))}
+              </div>
+            ) : (
+              mfaType !== 'webauthn' && (
+                <div className="flex justify-center gap-2 mb-6" onPaste={handlePaste}>
+                  {code.map((digit, index) => (
+                    <input
+                      key={index}
+                      ref={(el) => (inputRefs.current[index] = el)}
+                      type="text"
+                      inputMode="numeric"
+                      maxLength={1}
+                      value={digit}
+                      onChange={(e) => handleChange(index, e.target.value)}
+                      onKeyDown={(e) => handleKeyDown(index, e)}
+                      className="w-12 h-14 text-center text-xl font-mono rounded border border-input bg-background focus:border-primary focus:ring-2 focus:ring-primary/20 outline-none"
+                    />
+                  ))}
+                </div>
+              )
+            )}
+
+            {mfaType === 'totp' && otpType === 'hotp' && !useBackupCode && (
+              <div className="mb-6 text-center">
+                {resyncHotp && (
+                  <div className="mb-2">
+                    <Label htmlFor="next-code" className="text-sm text-muted-foreground">
+                      Press the button again and enter the next code
+                    </Label>
+                    <Input
+                      id="next-code"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={nextCode}
+                      onChange={(e) => setNextCode(e.target.value.replace(/\D/g, '').slice(0, otpDigits))}
+                      className="mt-2 text-center text-lg font-mono"
+                    />
+                  </div>
+                )}
+                <button
+                  type="button"
+                  className="text-xs text-primary hover:underline"
+                  onClick={() => {
+                    setResyncHotp(!resyncHotp);
+                    setNextCode('');
+                  }}
+                >
+                  {resyncHotp ? 'Enter a single code' : 'Code not accepted? Resync your token'}
+                </button>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2 mb-6">
+              <Checkbox
+                id="trust-device"
+                checked={trustDevice}
+                onCheckedChange={(checked) => setTrustDevice(checked === true)}
+              />
+              <Label htmlFor="trust-device" className="text-sm font-normal text-muted-foreground">
+                {trustedDeviceDays
+                  ? `Trust this device for ${trustedDeviceDays} days`
+                  : 'Trust this device'}
+              </Label>
             </div>
 
-            <Button 
-              type="submit" 
-              className="w-full" 
-              disabled={loading}
-            >
-              {loading ? 'Verifying...' : 'Verify'}
-            </Button>
+            {(useBackupCode || mfaType !== 'webauthn') && (
+              <Button 
+                type="submit" 
+                className="w-full" 
+                disabled={loading}
+              >
+                {loading ? 'Verifying...' : 'Verify'}
+              </Button>
+            )}
           </form>
+
+          {availableMethods.length > 1 && (
+            <div className="mt-6 text-center">
+              {showMethodPicker ? (
+                <div className="space-y-2">
+                  {availableMethods
+                    .filter((method) => method !== mfaType)
+                    .map((method) => (
+                      <Button
+                        key={method}
+                        type="button"
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => handleSelectMethod(method)}
+                        disabled={loading}
+                      >
+                        {api.MFA_METHOD_LABELS[method]}
+                      </Button>
+                    ))}
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  className="text-sm text-primary hover:underline"
+                  onClick={() => setShowMethodPicker(true)}
+                >
+                  Try another method
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
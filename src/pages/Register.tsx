@@ -1,22 +1,19 @@
 import { useState, useRef, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Shield, AlertCircle, CheckCircle, Mail, Loader2, Smartphone } from 'lucide-react';
+import { Shield, AlertCircle, Mail, Loader2, Smartphone } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { usePasswordPolicy } from '@/hooks/use-password-policy';
+import PasswordChecklist from '@/components/PasswordChecklist';
+import PasswordStrengthMeter from '@/components/PasswordStrengthMeter';
+import { validatePasswordStrength } from '@/lib/password';
 import { normalizePhilippinePhone, maskPhilippinePhoneDisplay } from '@/lib/phone';
 import { cn } from '@/lib/utils';
 
-const passwordRequirements = [
-  { label: 'At least 8 characters', test: (p: string) => p.length >= 8 },
-  { label: 'One uppercase letter', test: (p: string) => /[A-Z]/.test(p) },
-  { label: 'One lowercase letter', test: (p: string) => /[a-z]/.test(p) },
-  { label: 'One number', test: (p: string) => /\d/.test(p) },
-];
-
 type OtpDelivery = 'email' | 'sms';
 
 export default function Register() {
@@ -34,6 +31,7 @@ export default function Register() {
   const { sendRegistrationOtp, verifyRegistrationOtp } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const passwordPolicy = usePasswordPolicy();
   const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
 
   useEffect(() => {
@@ -51,9 +49,9 @@ export default function Register() {
       return;
     }
 
-    const allRequirementsMet = passwordRequirements.every((req) => req.test(password));
-    if (!allRequirementsMet) {
-      setError('Password does not meet requirements');
+    const validation = validatePasswordStrength(password, passwordPolicy, email);
+    if (!validation.isValid) {
+      setError(validation.errors.join(', '));
       return;
     }
 
@@ -305,19 +303,10 @@ export default function Register() {
                     disabled={sendingOtp}
                   />
                   {password && (
-                    <div className="grid grid-cols-2 gap-2 mt-2">
-                      {passwordRequirements.map((req) => (
-                        <div
-                          key={req.label}
-                          className={`flex items-center gap-1 text-xs ${
-                            req.test(password) ? 'text-success' : 'text-muted-foreground'
-                          }`}
-                        >
-                          <CheckCircle className="h-3 w-3" />
-                          <span>{req.label}</span>
-                        </div>
-                      ))}
-                    </div>
+                    <>
+                      <PasswordStrengthMeter password={password} email={email} />
+                      <PasswordChecklist password={password} policy={passwordPolicy} email={email} />
+                    </>
                   )}
                 </div>
 
@@ -4,8 +4,11 @@ import { Shield, Lock, AlertCircle, CheckCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import * as api from '@/lib/api';
-import { hashPassword, validatePasswordStrength } from '@/lib/password';
+import { AuthRequestError, checkPasswordResetToken, resetPassword } from '@/lib/auth-api';
+import { validatePasswordStrength } from '@/lib/password';
+import { usePasswordPolicy } from '@/hooks/use-password-policy';
+import PasswordChecklist from '@/components/PasswordChecklist';
+import PasswordStrengthMeter from '@/components/PasswordStrengthMeter';
 
 export default function ResetPassword() {
   const [searchParams] = useSearchParams();
@@ -18,6 +21,8 @@ export default function ResetPassword() {
   const [loading, setLoading] = useState(false);
   const [success, setSuccess] = useState(false);
   const [tokenValid, setTokenValid] = useState<boolean | null>(null);
+  const [email, setEmail] = useState<string | undefined>();
+  const passwordPolicy = usePasswordPolicy();
 
   useEffect(() => {
     const verifyToken = async () => {
@@ -27,14 +32,15 @@ export default function ResetPassword() {
       }
 
       try {
-        const result = await api.verifyPasswordResetToken(token);
-        setTokenValid(result.valid);
-        if (!result.valid) {
-          setError('Invalid or expired reset token. Please request a new one.');
-        }
+        setEmail(await checkPasswordResetToken(token));
+        setTokenValid(true);
       } catch (err) {
         setTokenValid(false);
-        setError('Failed to verify reset token.');
+        setError(
+          err instanceof AuthRequestError && err.status === 400
+            ? 'Invalid or expired reset token. Please request a new one.'
+            : 'Failed to verify reset token.'
+        );
       }
     };
 
@@ -50,7 +56,7 @@ export default function ResetPassword() {
       return;
     }
 
-    const validation = validatePasswordStrength(password);
+    const validation = validatePasswordStrength(password, passwordPolicy, email);
     if (!validation.isValid) {
       setError(validation.errors.join(', '));
       return;
@@ -64,29 +70,16 @@ export default function ResetPassword() {
     setLoading(true);
 
     try {
-      // Verify token again
-      const tokenResult = await api.verifyPasswordResetToken(token);
-      if (!tokenResult.valid || !tokenResult.userId) {
-        setError('Invalid or expired reset token');
-        setLoading(false);
-        return;
-      }
-
-      // Hash new password
-      const passwordHash = await hashPassword(password);
-
-      // Update password
-      await api.updateUserPassword(tokenResult.userId, passwordHash);
-
-      // Mark token as used
-      await api.markPasswordResetTokenAsUsed(token);
-
-      // Create audit log
-      await api.createAuditLog(tokenResult.userId, 'Password reset completed', null, null);
-
+      // The server checks the token, the password policy and recent passwords, then
+      // uses up the token and writes the audit entry
+      await resetPassword(token, password);
       setSuccess(true);
     } catch (err) {
-      setError('Failed to reset password. Please try again.');
+      setError(
+        err instanceof AuthRequestError && err.status === 400
+          ? err.message
+          : 'Failed to reset password. Please try again.'
+      );
       console.error(err);
     } finally {
       setLoading(false);
@@ -181,6 +174,17 @@ export default function ResetPassword() {
                   required
                 />
               </div>
+              {password && (
+                <>
+                  <PasswordStrengthMeter password={password} email={email} />
+                  <PasswordChecklist
+                    password={password}
+                    policy={passwordPolicy}
+                    email={email}
+                    checksHistory
+                  />
+                </>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -1,14 +1,361 @@
+import { useCallback, useEffect, useState } from 'react';
 import { Navigate } from 'react-router-dom';
-import { User, Lock, Bell, Shield, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { User, Lock, Bell, Shield, Trash2, Loader2, Monitor, ShieldCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { useAuth } from '@/contexts/AuthContext';
 import DashboardLayout from '@/components/DashboardLayout';
+import type { TrustedDevice, UserProfile, UserSession } from '@/lib/api';
+import {
+  AuthRequestError,
+  clearTrustedDevices,
+  getCurrentSessionFamilyId,
+  getCurrentTrustedDeviceId,
+  getProfile,
+  getStoredAccessToken,
+  listSessions,
+  listTrustedDevices,
+  requestEmailChange,
+  revokeOtherSessions,
+  revokeSession,
+  revokeTrustedDevice,
+  storeTrustedDeviceToken,
+} from '@/lib/auth-api';
+import type { PendingEmailChange } from '@/lib/auth-api';
+import { useToast } from '@/hooks/use-toast';
+import { usePasswordPolicy } from '@/hooks/use-password-policy';
+import PasswordChecklist from '@/components/PasswordChecklist';
+import { validatePasswordStrength } from '@/lib/password';
+
+type ProfileForm = Record<keyof Omit<UserProfile, 'updatedAt'>, string>;
+
+const EMPTY_PROFILE_FORM: ProfileForm = {
+  displayName: '',
+  avatarUrl: '',
+  phone: '',
+  timezone: '',
+  locale: '',
+};
 
 export default function Settings() {
-  const { isAuthenticated, user, mfaVerified, isLoading } = useAuth();
+  const {
+    isAuthenticated,
+    user,
+    mfaVerified,
+    isLoading,
+    getBackupCodesRemaining,
+    changePassword,
+    updateProfile,
+  } = useAuth();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const currentFamilyId = getCurrentSessionFamilyId();
+  const currentSession = sessions.find((s) => s.familyId && s.familyId === currentFamilyId);
+  const otherSessions = sessions.filter((s) => s.id !== currentSession?.id);
+  const [trustedDevices, setTrustedDevices] = useState<TrustedDevice[]>([]);
+  const [revokingDeviceId, setRevokingDeviceId] = useState<string | null>(null);
+  const currentDeviceId = user ? getCurrentTrustedDeviceId(user.email) : null;
+  const [backupCodesRemaining, setBackupCodesRemaining] = useState<number | null>(null);
+  const passwordPolicy = usePasswordPolicy();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [newEmail, setNewEmail] = useState('');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [changingEmail, setChangingEmail] = useState(false);
+  const [pendingEmail, setPendingEmail] = useState<PendingEmailChange | null>(null);
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [profileForm, setProfileForm] = useState<ProfileForm>(EMPTY_PROFILE_FORM);
+  const [profileErrors, setProfileErrors] = useState<Partial<ProfileForm>>({});
+  const [savingProfile, setSavingProfile] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    if (!user) return;
+    try {
+      setSessionsLoading(true);
+      setSessions(await listSessions(getStoredAccessToken() ?? ''));
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load active sessions',
+        variant: 'destructive',
+      });
+    } finally {
+      setSessionsLoading(false);
+    }
+  }, [user, toast]);
+
+  const loadTrustedDevices = useCallback(async () => {
+    if (!user) return;
+    try {
+      setTrustedDevices(await listTrustedDevices(getStoredAccessToken() ?? ''));
+    } catch (error) {
+      console.error('Error loading trusted devices:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load trusted devices',
+        variant: 'destructive',
+      });
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadSessions();
+      loadTrustedDevices();
+    }
+  }, [isAuthenticated, loadSessions, loadTrustedDevices]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    getProfile(getStoredAccessToken() ?? '')
+      .then((profile) =>
+        setProfileForm({
+          displayName: profile.displayName ?? '',
+          avatarUrl: profile.avatarUrl ?? '',
+          phone: profile.phone ?? '',
+          timezone: profile.timezone ?? '',
+          locale: profile.locale ?? '',
+        })
+      )
+      .catch((error) => console.error('Error loading profile:', error));
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (isAuthenticated && user?.mfaEnabled) {
+      getBackupCodesRemaining()
+        .then(setBackupCodesRemaining)
+        .catch((error) => console.error('Error counting backup codes:', error));
+    }
+  }, [isAuthenticated, user?.mfaEnabled, getBackupCodesRemaining]);
+
+  const handleRevokeSession = async (session: UserSession) => {
+    if (!user) return;
+    try {
+      setRevokingId(session.id);
+      // The server deletes the row and writes the audit entry
+      await revokeSession(getStoredAccessToken() ?? '', session.id);
+      toast({
+        title: 'Session revoked',
+        description: `${session.device} has been signed out`,
+      });
+      await loadSessions();
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke session',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    if (!user || !currentSession) return;
+    try {
+      setRevokingId('others');
+      const count = await revokeOtherSessions(getStoredAccessToken() ?? '');
+      toast({
+        title: 'Signed out other sessions',
+        description: `${count} session${count === 1 ? '' : 's'} revoked`,
+      });
+      await loadSessions();
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to sign out other sessions',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeTrustedDevice = async (device: TrustedDevice) => {
+    if (!user) return;
+    try {
+      setRevokingDeviceId(device.id);
+      await revokeTrustedDevice(getStoredAccessToken() ?? '', device.id);
+      if (device.id === currentDeviceId) {
+        storeTrustedDeviceToken(user.email, null);
+      }
+      toast({
+        title: 'Device no longer trusted',
+        description: `${device.device} will ask for a verification code at the next sign-in`,
+      });
+      await loadTrustedDevices();
+    } catch (error) {
+      console.error('Error revoking trusted device:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke trusted device',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevokingDeviceId(null);
+    }
+  };
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setEmailError('');
+
+    try {
+      setChangingEmail(true);
+      // Nothing changes until the link sent to the new address is opened
+      const pending = await requestEmailChange(
+        getStoredAccessToken() ?? '',
+        newEmail.trim(),
+        emailPassword
+      );
+      setPendingEmail(pending);
+      setNewEmail('');
+      setEmailPassword('');
+      toast({
+        title: 'Confirmation sent',
+        description: `Open the link sent to ${pending.pendingEmail} to finish the change`,
+      });
+    } catch (error) {
+      console.error('Error changing email:', error);
+      setEmailError(
+        error instanceof AuthRequestError && error.status >= 400 && error.status < 500
+          ? error.message
+          : 'Failed to change your email address. Please try again.'
+      );
+    } finally {
+      setChangingEmail(false);
+    }
+  };
+
+  const setProfileField = (field: keyof ProfileForm, value: string) => {
+    setProfileForm((form) => ({ ...form, [field]: value }));
+  };
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setProfileErrors({});
+
+    try {
+      setSavingProfile(true);
+      // The server validates every field; nothing is saved if one is refused
+      await updateProfile(profileForm);
+      toast({
+        title: 'Profile saved',
+        description: 'Your profile has been updated',
+      });
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      const errors = error instanceof AuthRequestError ? error.data.errors : undefined;
+      if (Array.isArray(errors)) {
+        setProfileErrors(
+          Object.fromEntries(
+            (errors as { field: keyof ProfileForm; message: string }[]).map(
+              ({ field, message }) => [field, message]
+            )
+          )
+        );
+      } else {
+        toast({
+          title: 'Error',
+          description: 'Failed to save your profile',
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordError('');
+
+    if (newPassword !== confirmPassword) {
+      setPasswordError('Passwords do not match');
+      return;
+    }
+    const validation = validatePasswordStrength(newPassword, passwordPolicy, user?.email);
+    if (!validation.isValid) {
+      setPasswordError(validation.errors.join(', '));
+      return;
+    }
+
+    try {
+      setChangingPassword(true);
+      // The server re-checks the current password and writes the audit entry and email
+      const revoked = await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      toast({
+        title: 'Password updated',
+        description:
+          revoked > 0
+            ? `${revoked} other session${revoked === 1 ? ' was' : 's were'} signed out`
+            : 'Your new password is in effect',
+      });
+      await Promise.all([loadSessions(), loadTrustedDevices()]);
+    } catch (error) {
+      console.error('Error changing password:', error);
+      setPasswordError(
+        error instanceof AuthRequestError && (error.status === 400 || error.status === 401)
+          ? error.message
+          : 'Failed to change password. Please try again.'
+      );
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  const handleRevokeAllTrustedDevices = async () => {
+    if (!user) return;
+    try {
+      setRevokingDeviceId('all');
+      const count = await clearTrustedDevices(getStoredAccessToken() ?? '');
+      storeTrustedDeviceToken(user.email, null);
+      toast({
+        title: 'Trusted devices revoked',
+        description: `${count} device${count === 1 ? '' : 's'} will ask for a verification code again`,
+      });
+      await loadTrustedDevices();
+    } catch (error) {
+      console.error('Error revoking trusted devices:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke trusted devices',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevokingDeviceId(null);
+    }
+  };
+
+  const describeTrustedDevice = (device: TrustedDevice) =>
+    [
+      device.ipAddress || 'Unknown IP',
+      `Trusted ${formatDistanceToNow(new Date(device.createdAt), { addSuffix: true })}`,
+      `Expires ${formatDistanceToNow(new Date(device.expiresAt), { addSuffix: true })}`,
+    ].join(' • ');
+
+  const describeSession = (session: UserSession) =>
+    [
+      session.ipAddress || 'Unknown IP',
+      `Signed in ${formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}`,
+      session.id === currentSession?.id
+        ? 'Active now'
+        : `Last seen ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`,
+    ].join(' • ');
 
   if (isLoading) {
     return (
@@ -52,11 +399,119 @@ export default function Settings() {
                 <Input id="role" value={user?.role} disabled />
               </div>
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="name">Display Name</Label>
-              <Input id="name" placeholder="Enter your name" />
-            </div>
-            <Button>Save Changes</Button>
+            <form onSubmit={handleChangeEmail} className="space-y-4 border-t border-border pt-4">
+              <p className="font-medium">Change Email</p>
+              {pendingEmail && (
+                <p className="text-sm text-muted-foreground">
+                  Waiting for confirmation of {pendingEmail.pendingEmail}. Open the link sent there
+                  before {new Date(pendingEmail.expiresAt).toLocaleString()}; until then, sign in
+                  with {user?.email}.
+                </p>
+              )}
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="newEmail">New Email</Label>
+                  <Input
+                    id="newEmail"
+                    type="email"
+                    value={newEmail}
+                    onChange={(e) => setNewEmail(e.target.value)}
+                    autoComplete="email"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="emailPassword">Current Password</Label>
+                  <Input
+                    id="emailPassword"
+                    type="password"
+                    value={emailPassword}
+                    onChange={(e) => setEmailPassword(e.target.value)}
+                    autoComplete="current-password"
+                  />
+                </div>
+              </div>
+              {emailError && <p className="text-sm text-destructive">{emailError}</p>}
+              <Button
+                type="submit"
+                variant="outline"
+                disabled={changingEmail || !newEmail.trim() || !emailPassword}
+              >
+                {changingEmail && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Send Confirmation Link
+              </Button>
+            </form>
+            <form onSubmit={handleSaveProfile} className="space-y-4 border-t border-border pt-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Display Name</Label>
+                  <Input
+                    id="name"
+                    placeholder="Enter your name"
+                    value={profileForm.displayName}
+                    onChange={(e) => setProfileField('displayName', e.target.value)}
+                    autoComplete="name"
+                  />
+                  {profileErrors.displayName && (
+                    <p className="text-sm text-destructive">{profileErrors.displayName}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="avatarUrl">Avatar URL</Label>
+                  <Input
+                    id="avatarUrl"
+                    type="url"
+                    placeholder="https://"
+                    value={profileForm.avatarUrl}
+                    onChange={(e) => setProfileField('avatarUrl', e.target.value)}
+                  />
+                  {profileErrors.avatarUrl && (
+                    <p className="text-sm text-destructive">{profileErrors.avatarUrl}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="phone">Phone</Label>
+                  <Input
+                    id="phone"
+                    type="tel"
+                    placeholder="+639171234567"
+                    value={profileForm.phone}
+                    onChange={(e) => setProfileField('phone', e.target.value)}
+                    autoComplete="tel"
+                  />
+                  {profileErrors.phone && (
+                    <p className="text-sm text-destructive">{profileErrors.phone}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="timezone">Time Zone</Label>
+                  <Input
+                    id="timezone"
+                    placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+                    value={profileForm.timezone}
+                    onChange={(e) => setProfileField('timezone', e.target.value)}
+                  />
+                  {profileErrors.timezone && (
+                    <p className="text-sm text-destructive">{profileErrors.timezone}</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="locale">Locale</Label>
+                  <Input
+                    id="locale"
+                    placeholder={navigator.language}
+                    value={profileForm.locale}
+                    onChange={(e) => setProfileField('locale', e.target.value)}
+                  />
+                  {profileErrors.locale && (
+                    <p className="text-sm text-destructive">{profileErrors.locale}</p>
+                  )}
+                </div>
+              </div>
+              <Button type="submit" disabled={savingProfile}>
+                {savingProfile && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Changes
+              </Button>
+            </form>
           </div>
         </div>
 
@@ -87,23 +542,83 @@ export default function Settings() {
                 </Button>
               </div>
             </div>
+            {user?.mfaEnabled && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium">Backup Codes</p>
+                  <p className="text-sm text-muted-foreground">
+                    One-time codes for signing in without your second factor
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span
+                    className={`text-sm ${
+                      backupCodesRemaining !== null && backupCodesRemaining < 2
+                        ? 'text-destructive'
+                        : 'text-muted-foreground'
+                    }`}
+                  >
+                    {backupCodesRemaining === null ? '...' : `${backupCodesRemaining} left`}
+                  </span>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href="/mfa-setup">Regenerate</a>
+                  </Button>
+                </div>
+              </div>
+            )}
             <div className="border-t border-border pt-6">
               <p className="font-medium mb-4">Change Password</p>
-              <div className="space-y-4">
+              <form onSubmit={handleChangePassword} className="space-y-4">
                 <div className="space-y-2">
                   <Label htmlFor="current">Current Password</Label>
-                  <Input id="current" type="password" />
+                  <Input
+                    id="current"
+                    type="password"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    autoComplete="current-password"
+                  />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="new">New Password</Label>
-                  <Input id="new" type="password" />
+                  <Input
+                    id="new"
+                    type="password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    autoComplete="new-password"
+                  />
+                  {newPassword && (
+                    <PasswordChecklist
+                      password={newPassword}
+                      policy={passwordPolicy}
+                      email={user?.email}
+                      checksHistory
+                    />
+                  )}
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="confirm">Confirm New Password</Label>
-                  <Input id="confirm" type="password" />
+                  <Input
+                    id="confirm"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    autoComplete="new-password"
+                  />
+                  {confirmPassword && confirmPassword !== newPassword && (
+                    <p className="text-xs text-destructive">Passwords do not match</p>
+                  )}
                 </div>
-                <Button>Update Password</Button>
-              </div>
+                {passwordError && <p className="text-sm text-destructive">{passwordError}</p>}
+                <Button
+                  type="submit"
+                  disabled={changingPassword || !currentPassword || !newPassword || !confirmPassword}
+                >
+                  {changingPassword && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Update Password
+                </Button>
+              </form>
             </div>
           </div>
         </div>
@@ -138,23 +653,123 @@ export default function Settings() {
             <h2 className="text-lg font-semibold">Active Sessions</h2>
           </div>
           <div className="space-y-4">
-            <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
-              <div>
-                <p className="font-medium">Current Session</p>
-                <p className="text-sm text-muted-foreground">
-                  Chrome on macOS • Active now
-                </p>
+            {sessionsLoading && sessions.length === 0 ? (
+              <div className="flex items-center justify-center py-6 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                Loading sessions...
               </div>
-              <span className="text-xs text-success bg-success/10 px-2 py-1 rounded">
-                Current
-              </span>
-            </div>
-            <Button variant="outline" className="w-full">
+            ) : sessions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No active sessions found.</p>
+            ) : (
+              [...(currentSession ? [currentSession] : []), ...otherSessions].map((session) => (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between gap-4 p-4 rounded-lg bg-muted/50"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Monitor className="h-5 w-5 text-muted-foreground shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium">{session.device}</p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {describeSession(session)}
+                      </p>
+                    </div>
+                  </div>
+                  {session.id === currentSession?.id ? (
+                    <span className="text-xs text-success bg-success/10 px-2 py-1 rounded">
+                      Current
+                    </span>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevokeSession(session)}
+                      disabled={revokingId !== null}
+                    >
+                      {revokingId === session.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        'Revoke'
+                      )}
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleRevokeOtherSessions}
+              disabled={!currentSession || otherSessions.length === 0 || revokingId !== null}
+            >
+              {revokingId === 'others' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Sign Out All Other Sessions
             </Button>
           </div>
         </div>
 
+        {/* Trusted Devices Section */}
+        <div className="glass rounded-xl p-6">
+          <div className="flex items-center gap-3 mb-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            <h2 className="text-lg font-semibold">Trusted Devices</h2>
+          </div>
+          <p className="text-sm text-muted-foreground mb-6">
+            These devices skip the verification code at sign-in. Changing your password or
+            resetting MFA revokes all of them.
+          </p>
+          <div className="space-y-4">
+            {trustedDevices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No trusted devices.</p>
+            ) : (
+              trustedDevices.map((device) => (
+                <div
+                  key={device.id}
+                  className="flex items-center justify-between gap-4 p-4 rounded-lg bg-muted/50"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Monitor className="h-5 w-5 text-muted-foreground shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium">
+                        {device.device}
+                        {device.id === currentDeviceId && (
+                          <span className="ml-2 text-xs text-success bg-success/10 px-2 py-1 rounded">
+                            This device
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {describeTrustedDevice(device)}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevokeTrustedDevice(device)}
+                    disabled={revokingDeviceId !== null}
+                  >
+                    {revokingDeviceId === device.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      'Revoke'
+                    )}
+                  </Button>
+                </div>
+              ))
+            )}
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleRevokeAllTrustedDevices}
+              disabled={trustedDevices.length === 0 || revokingDeviceId !== null}
+            >
+              {revokingDeviceId === 'all' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Revoke All Trusted Devices
+            </Button>
+          </div>
+        </div>
+
         {/* Danger Zone */}
         <div className="glass rounded-xl p-6 border-destructive/20">
           <div className="flex items-center gap-3 mb-6">
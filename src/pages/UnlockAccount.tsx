@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { Shield, Unlock, AlertCircle, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AuthRequestError, unlockAccount } from '@/lib/auth-api';
+
+export default function UnlockAccount() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [success, setSuccess] = useState(false);
+
+  // Unlocking waits for a click so that link scanners opening the email cannot use the link
+  const handleUnlock = async () => {
+    if (!token) return;
+    setError('');
+    setLoading(true);
+
+    try {
+      await unlockAccount(token);
+      setSuccess(true);
+    } catch (err) {
+      setError(
+        err instanceof AuthRequestError
+          ? err.message
+          : 'Failed to unlock your account. Please try again.'
+      );
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="w-full max-w-md">
+          <div className="bg-card border border-border rounded-lg p-8 shadow-sm text-center">
+            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-foreground mb-2">Invalid Link</h2>
+            <p className="text-muted-foreground mb-6">
+              This unlock link is incomplete. Open the link from the email again.
+            </p>
+            <Link to="/login">
+              <Button>Go to Login</Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (success) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-6">
+        <div className="w-full max-w-md">
+          <div className="bg-card border border-border rounded-lg p-8 shadow-sm text-center">
+            <div className="h-16 w-16 rounded-full bg-success/10 flex items-center justify-center mx-auto mb-6">
+              <CheckCircle className="h-8 w-8 text-success" />
+            </div>
+            <h2 className="text-2xl font-bold text-foreground mb-2">Account Unlocked</h2>
+            <p className="text-muted-foreground mb-6">
+              Your account has been unlocked. If you did not cause the failed attempts, change
+              your password after signing in.
+            </p>
+            <Link to="/login">
+              <Button className="w-full">Go to Login</Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center gap-2 mb-8">
+          <Shield className="h-8 w-8 text-primary" />
+          <span className="text-2xl font-semibold text-foreground">SecureAuth</span>
+        </div>
+
+        <div className="bg-card border border-border rounded-lg p-8 shadow-sm">
+          <h2 className="text-2xl font-bold text-foreground mb-2">Unlock Account</h2>
+          <p className="text-muted-foreground mb-6">
+            Your account was locked after too many failed attempts. Unlock it to sign in again.
+          </p>
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 mb-6 rounded-lg bg-destructive/10 text-destructive border border-destructive/20">
+              <AlertCircle className="h-5 w-5" />
+              <span className="text-sm">{error}</span>
+            </div>
+          )}
+
+          <Button className="w-full" onClick={handleUnlock} disabled={loading}>
+            <Unlock className="h-4 w-4 mr-2" />
+            {loading ? 'Unlocking...' : 'Unlock My Account'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -21,12 +21,10 @@ CREATE TABLE IF NOT EXISTS users (
   password_hash VARCHAR(255) NOT NULL,
   role VARCHAR(20) NOT NULL DEFAULT 'StandardUser' CHECK (role IN ('Admin', 'StandardUser', 'RestrictedUser')),
   mfa_enabled BOOLEAN DEFAULT FALSE,
-  mfa_secret VARCHAR(255) NULL,
-  totp_enabled BOOLEAN DEFAULT FALSE,
-  email_otp_enabled BOOLEAN DEFAULT FALSE,
-  mfa_phone_number VARCHAR(20) NULL,
-  sms_otp_enabled BOOLEAN DEFAULT FALSE,
   is_active BOOLEAN DEFAULT TRUE,
+  locked_until TIMESTAMP WITH TIME ZONE NULL,
+  lock_reason VARCHAR(20) NULL CHECK (lock_reason IN ('failed_logins', 'failed_mfa', 'admin')),
+  password_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -37,9 +35,14 @@ CREATE TABLE IF NOT EXISTS sessions (
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   token TEXT NOT NULL UNIQUE,
   refresh_token TEXT NULL,
+  family_id UUID NULL,
   expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
   ip_address VARCHAR(45) NULL,
   user_agent TEXT NULL,
+  last_seen_at TIMESTAMP WITH TIME ZONE NULL,
+  last_activity_at TIMESTAMP WITH TIME ZONE NULL,
+  mfa_verified_at TIMESTAMP WITH TIME ZONE NULL,
+  password_expired BOOLEAN NOT NULL DEFAULT FALSE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -55,22 +58,24 @@ CREATE TABLE IF NOT EXISTS audit_logs (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
--- OTP codes table (for MFA)
+-- OTP codes table (for MFA; HMAC of the code, written by the server only)
 CREATE TABLE IF NOT EXISTS otp_codes (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  code VARCHAR(10) NOT NULL,
+  code_hash VARCHAR(64) NOT NULL,
   type VARCHAR(10) NOT NULL CHECK (type IN ('email', 'totp')),
   expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
   used BOOLEAN DEFAULT FALSE,
+  attempts INTEGER NOT NULL DEFAULT 0,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
--- Backup codes table (for MFA recovery)
+-- Backup codes table (for MFA recovery; salted scrypt hashes, written by the server only)
 CREATE TABLE IF NOT EXISTS backup_codes (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  code VARCHAR(20) NOT NULL,
+  code_hash VARCHAR(64) NOT NULL,
+  salt VARCHAR(32) NOT NULL,
   used BOOLEAN DEFAULT FALSE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -88,31 +93,235 @@ CREATE TABLE IF NOT EXISTS failed_login_attempts (
 CREATE TABLE IF NOT EXISTS password_reset_tokens (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-  token VARCHAR(255) NOT NULL UNIQUE,
+  token_hash CHAR(64) UNIQUE NOT NULL,
   expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
   used BOOLEAN DEFAULT FALSE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
--- Email verification OTPs table (for registration)
+-- Email verification OTPs table (for registration; code_hash is NULL for SkySMS delivery)
 CREATE TABLE IF NOT EXISTS email_verification_otps (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   email VARCHAR(255) NOT NULL,
-  code VARCHAR(40) NOT NULL,
+  code_hash VARCHAR(64) NULL,
   password_hash VARCHAR(255) NOT NULL,
   expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
   used BOOLEAN DEFAULT FALSE,
+  attempts INTEGER NOT NULL DEFAULT 0,
   phone_number VARCHAR(20) NULL,
   otp_delivery VARCHAR(20) NOT NULL DEFAULT 'email',
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- JWT signing keys (asymmetric; private keys readable by the service role only)
+CREATE TABLE IF NOT EXISTS jwt_signing_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kid VARCHAR(64) UNIQUE NOT NULL,
+  alg VARCHAR(10) NOT NULL CHECK (alg IN ('RS256', 'EdDSA')),
+  public_jwk JSONB NOT NULL,
+  private_jwk JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retiring')),
+  retire_after TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Trusted devices (skip MFA until expires_at; tokens are issued and checked by the server)
+CREATE TABLE IF NOT EXISTS trusted_devices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL,
+  platform_hash VARCHAR(64) NOT NULL,
+  user_agent TEXT NULL,
+  ip_address VARCHAR(45) NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enrolled second factors (several per user; the primary one is offered first at sign-in)
+CREATE TABLE IF NOT EXISTS user_mfa_methods (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  method VARCHAR(20) NOT NULL CHECK (method IN ('totp', 'email', 'sms', 'webauthn')),
+  secret TEXT NULL, -- TOTP seed, envelope-encrypted by the server
+  phone_number VARCHAR(20) NULL,
+  totp_last_step BIGINT NULL,
+  totp_drift SMALLINT NULL,
+  otp_type VARCHAR(4) NOT NULL DEFAULT 'totp' CHECK (otp_type IN ('totp', 'hotp')),
+  otp_algorithm VARCHAR(6) NOT NULL DEFAULT 'SHA1' CHECK (otp_algorithm IN ('SHA1', 'SHA256', 'SHA512')),
+  otp_digits SMALLINT NOT NULL DEFAULT 6 CHECK (otp_digits IN (6, 8)),
+  otp_period SMALLINT NOT NULL DEFAULT 30,
+  hotp_counter BIGINT NOT NULL DEFAULT 0,
+  is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+  last_used_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, method)
+);
+
+-- WebAuthn credentials (security keys and passkeys; public keys only)
+CREATE TABLE IF NOT EXISTS webauthn_credentials (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  credential_id TEXT UNIQUE NOT NULL,
+  public_key TEXT NOT NULL,
+  counter BIGINT NOT NULL DEFAULT 0,
+  transports JSONB NULL,
+  device_type VARCHAR(20) NULL,
+  backed_up BOOLEAN DEFAULT FALSE,
+  name VARCHAR(100) NOT NULL DEFAULT 'Security key',
+  last_used_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- WebAuthn ceremony challenges (single use; service role only)
+CREATE TABLE IF NOT EXISTS webauthn_challenges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NULL REFERENCES users(id) ON DELETE CASCADE,
+  challenge TEXT UNIQUE NOT NULL,
+  purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('registration', 'mfa', 'login')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- MFA verification attempts (rate limiting; service role only)
+CREATE TABLE IF NOT EXISTS mfa_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_family_id UUID NULL,
+  method VARCHAR(10) NOT NULL,
+  success BOOLEAN NOT NULL DEFAULT FALSE,
+  ip_address VARCHAR(45) NULL,
+  attempted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Password policy (single row; the browser reads it, only the server writes it)
+CREATE TABLE IF NOT EXISTS password_policy (
+  id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  min_length SMALLINT NOT NULL DEFAULT 8 CHECK (min_length BETWEEN 8 AND 128),
+  require_uppercase BOOLEAN NOT NULL DEFAULT TRUE,
+  require_lowercase BOOLEAN NOT NULL DEFAULT TRUE,
+  require_digit BOOLEAN NOT NULL DEFAULT TRUE,
+  require_symbol BOOLEAN NOT NULL DEFAULT FALSE,
+  history_count SMALLINT NOT NULL DEFAULT 5 CHECK (history_count BETWEEN 0 AND 24),
+  max_age_days SMALLINT NOT NULL DEFAULT 0 CHECK (max_age_days >= 0),
+  min_age_days SMALLINT NOT NULL DEFAULT 0 CHECK (min_age_days >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO password_policy (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- Previous password hashes (reuse check; service role only)
+CREATE TABLE IF NOT EXISTS password_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  password_hash VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Hardware OATH token inventory (seeds envelope-encrypted; service role only)
+CREATE TABLE IF NOT EXISTS oath_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  serial VARCHAR(64) UNIQUE NOT NULL,
+  secret TEXT NOT NULL,
+  algorithm VARCHAR(6) NOT NULL DEFAULT 'SHA1' CHECK (algorithm IN ('SHA1', 'SHA256', 'SHA512')),
+  digits SMALLINT NOT NULL DEFAULT 6 CHECK (digits IN (6, 8)),
+  period SMALLINT NOT NULL DEFAULT 30,
+  assigned_user_id UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Pending email address changes (link tokens hashed; service role only)
+CREATE TABLE IF NOT EXISTS email_change_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  old_email VARCHAR(255) NOT NULL,
+  new_email VARCHAR(255) NOT NULL,
+  confirm_token_hash CHAR(64) UNIQUE NOT NULL,
+  revert_token_hash CHAR(64) UNIQUE NOT NULL,
+  requested_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  status VARCHAR(10) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'confirmed', 'reverted', 'cancelled')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  confirmed_at TIMESTAMP WITH TIME ZONE NULL,
+  reverted_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Optional profile details (browser reads display name and avatar only)
+CREATE TABLE IF NOT EXISTS user_profiles (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  display_name VARCHAR(80) NULL,
+  avatar_url TEXT NULL,
+  phone VARCHAR(16) NULL,
+  timezone VARCHAR(64) NULL,
+  locale VARCHAR(35) NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Existing databases: add SkySMS columns (safe if already applied)
 ALTER TABLE email_verification_otps
   ADD COLUMN IF NOT EXISTS phone_number VARCHAR(20) NULL,
   ADD COLUMN IF NOT EXISTS otp_delivery VARCHAR(20) NOT NULL DEFAULT 'email';
-ALTER TABLE email_verification_otps
-  ALTER COLUMN code TYPE VARCHAR(40);
+
+-- Existing databases: OTP codes are HMAC'd now (migrations/20260508_hashed_otp_codes.sql
+-- deletes the old plaintext codes and replaces the code columns)
+
+-- Existing databases: the per-method MFA columns on users moved to user_mfa_methods.
+-- Run migrations/20260506_user_mfa_methods.sql to copy enrolled methods and drop the columns.
+
+-- Existing databases: backup codes are hashed now (migrations/20260507_hashed_backup_codes.sql
+-- deletes the old plaintext codes and replaces the code column)
+
+-- Existing databases: password reset tokens are hashed now
+-- (migrations/20260524_hashed_password_reset_tokens.sql deletes the old plaintext tokens)
+
+-- Existing databases: refresh token families, last-seen time and MFA completion
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS family_id UUID NULL,
+  ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE NULL,
+  ADD COLUMN IF NOT EXISTS mfa_verified_at TIMESTAMP WITH TIME ZONE NULL;
+
+-- Existing databases: account lockout
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE NULL,
+  ADD COLUMN IF NOT EXISTS lock_reason VARCHAR(20) NULL
+    CHECK (lock_reason IN ('failed_logins', 'failed_mfa', 'admin'));
+
+-- Existing databases: TOTP replay protection and clock drift
+ALTER TABLE user_mfa_methods
+  ADD COLUMN IF NOT EXISTS totp_last_step BIGINT NULL,
+  ADD COLUMN IF NOT EXISTS totp_drift SMALLINT NULL;
+
+-- Existing databases: TOTP secrets are encrypted now (migrations/20260513_encrypted_mfa_secrets.sql;
+-- then run `npm run reencrypt-mfa-secrets` to encrypt the existing ones)
+ALTER TABLE user_mfa_methods
+  ALTER COLUMN secret TYPE TEXT;
+
+-- Existing databases: per-credential TOTP parameters and HOTP
+ALTER TABLE user_mfa_methods
+  ADD COLUMN IF NOT EXISTS otp_type VARCHAR(4) NOT NULL DEFAULT 'totp'
+    CHECK (otp_type IN ('totp', 'hotp')),
+  ADD COLUMN IF NOT EXISTS otp_algorithm VARCHAR(6) NOT NULL DEFAULT 'SHA1'
+    CHECK (otp_algorithm IN ('SHA1', 'SHA256', 'SHA512')),
+  ADD COLUMN IF NOT EXISTS otp_digits SMALLINT NOT NULL DEFAULT 6
+    CHECK (otp_digits IN (6, 8)),
+  ADD COLUMN IF NOT EXISTS otp_period SMALLINT NOT NULL DEFAULT 30,
+  ADD COLUMN IF NOT EXISTS hotp_counter BIGINT NOT NULL DEFAULT 0;
+
+-- Existing databases: password age (passwords start aging when this runs)
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+-- Existing databases: sessions limited to the password change while the password is expired
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS password_expired BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Existing databases: last user activity for the idle timeout
+-- (migrations/20260527_session_idle_timeout.sql also fills it in for open sessions)
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMP WITH TIME ZONE NULL;
 
 -- ============================================
 -- 3. INDEXES (for better performance)
@@ -126,6 +335,8 @@ CREATE INDEX IF NOT EXISTS idx_users_is_active ON users(is_active);
 CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token);
 CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_family_id ON sessions(family_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_last_seen_at ON sessions(last_seen_at);
 
 -- Audit logs indexes
 CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs(user_id);
@@ -133,27 +344,60 @@ CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs(created_at);
 
 -- OTP codes indexes
 CREATE INDEX IF NOT EXISTS idx_otp_codes_user_id ON otp_codes(user_id);
-CREATE INDEX IF NOT EXISTS idx_otp_codes_code ON otp_codes(code);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_otp_codes_active
+  ON otp_codes(user_id, type) WHERE NOT used;
 CREATE INDEX IF NOT EXISTS idx_otp_codes_expires_at ON otp_codes(expires_at);
 
 -- Backup codes indexes
 CREATE INDEX IF NOT EXISTS idx_backup_codes_user_id ON backup_codes(user_id);
-CREATE INDEX IF NOT EXISTS idx_backup_codes_code ON backup_codes(code);
 
 -- Failed login attempts indexes
 CREATE INDEX IF NOT EXISTS idx_failed_login_attempts_email ON failed_login_attempts(email);
 CREATE INDEX IF NOT EXISTS idx_failed_login_attempts_attempted_at ON failed_login_attempts(attempted_at);
+CREATE INDEX IF NOT EXISTS idx_failed_login_attempts_ip_address
+  ON failed_login_attempts(ip_address, attempted_at);
+
+-- MFA attempts indexes
+CREATE INDEX IF NOT EXISTS idx_mfa_attempts_user_id_attempted_at
+  ON mfa_attempts(user_id, attempted_at);
+
+-- Password history indexes
+CREATE INDEX IF NOT EXISTS idx_password_history_user_id_created_at
+  ON password_history(user_id, created_at);
+
+-- OATH tokens indexes
+CREATE INDEX IF NOT EXISTS idx_oath_tokens_assigned_user_id ON oath_tokens(assigned_user_id);
+
+-- Email change requests indexes
+CREATE INDEX IF NOT EXISTS idx_email_change_requests_user_id_status
+  ON email_change_requests(user_id, status);
 
 -- Password reset tokens indexes
 CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
-CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_token ON password_reset_tokens(token);
 CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_expires_at ON password_reset_tokens(expires_at);
 
 -- Email verification OTPs indexes
 CREATE INDEX IF NOT EXISTS idx_email_verification_otps_email ON email_verification_otps(email);
-CREATE INDEX IF NOT EXISTS idx_email_verification_otps_code ON email_verification_otps(code);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_verification_otps_active
+  ON email_verification_otps(email) WHERE NOT used;
 CREATE INDEX IF NOT EXISTS idx_email_verification_otps_expires_at ON email_verification_otps(expires_at);
 
+-- JWT signing keys indexes
+CREATE INDEX IF NOT EXISTS idx_jwt_signing_keys_status ON jwt_signing_keys(status);
+
+-- Trusted devices indexes
+CREATE INDEX IF NOT EXISTS idx_trusted_devices_user_id ON trusted_devices(user_id);
+CREATE INDEX IF NOT EXISTS idx_trusted_devices_expires_at ON trusted_devices(expires_at);
+
+-- MFA methods indexes
+CREATE INDEX IF NOT EXISTS idx_user_mfa_methods_user_id ON user_mfa_methods(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_mfa_methods_primary
+  ON user_mfa_methods(user_id) WHERE is_primary;
+
+-- WebAuthn indexes
+CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user_id ON webauthn_credentials(user_id);
+CREATE INDEX IF NOT EXISTS idx_webauthn_challenges_expires_at ON webauthn_challenges(expires_at);
+
 -- ============================================
 -- 4. FUNCTIONS
 -- ============================================
@@ -198,13 +442,36 @@ CREATE TRIGGER update_sessions_updated_at
 
 -- Enable RLS on all tables
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+-- No anon policy for sessions: only the server reads tokens and revokes sessions
 ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+-- Audit entries are written only by the server; the browser reads them for the admin log
 ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+-- No anon policy for otp_codes or email_verification_otps: only the server checks codes
 ALTER TABLE otp_codes ENABLE ROW LEVEL SECURITY;
+-- No anon policy for backup_codes: only the server (service role) may read the hashes
 ALTER TABLE backup_codes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE failed_login_attempts ENABLE ROW LEVEL SECURITY;
+-- No anon policy for password_reset_tokens: only the server issues and checks reset links
 ALTER TABLE password_reset_tokens ENABLE ROW LEVEL SECURITY;
 ALTER TABLE email_verification_otps ENABLE ROW LEVEL SECURITY;
+-- No anon policy for jwt_signing_keys: only the service role (server) may read private keys
+ALTER TABLE jwt_signing_keys ENABLE ROW LEVEL SECURITY;
+-- No anon policy for trusted_devices: only the server lists, issues and revokes them
+ALTER TABLE trusted_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_mfa_methods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webauthn_credentials ENABLE ROW LEVEL SECURITY;
+-- No anon policy for webauthn_challenges: only the service role (server) may read them
+ALTER TABLE webauthn_challenges ENABLE ROW LEVEL SECURITY;
+-- No anon policy for mfa_attempts: only the server counts verification failures
+ALTER TABLE mfa_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_policy ENABLE ROW LEVEL SECURITY;
+-- No anon policy for password_history: only the server checks password reuse
+ALTER TABLE password_history ENABLE ROW LEVEL SECURITY;
+-- No anon policy for oath_tokens: only the server handles token seeds
+ALTER TABLE oath_tokens ENABLE ROW LEVEL SECURITY;
+-- No anon policy for email_change_requests: only the server handles the link tokens
+ALTER TABLE email_change_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
 
 -- ============================================
 -- 7. RLS POLICIES (Allow anon access for custom JWT auth)
@@ -214,6 +481,8 @@ ALTER TABLE email_verification_otps ENABLE ROW LEVEL SECURITY;
 DROP POLICY IF EXISTS "Users can read own data" ON users;
 DROP POLICY IF EXISTS "Users can update own data" ON users;
 DROP POLICY IF EXISTS "Service role can manage users" ON users;
+DROP POLICY IF EXISTS "Allow anon to insert users" ON users;
+DROP POLICY IF EXISTS "Allow anon to update users" ON users;
 DROP POLICY IF EXISTS "Service role can manage sessions" ON sessions;
 DROP POLICY IF EXISTS "Allow anon to manage sessions" ON sessions;
 DROP POLICY IF EXISTS "Service role can manage audit_logs" ON audit_logs;
@@ -225,9 +494,18 @@ DROP POLICY IF EXISTS "Service role can manage backup_codes" ON backup_codes;
 DROP POLICY IF EXISTS "Allow anon to manage backup codes" ON backup_codes;
 DROP POLICY IF EXISTS "Service role can manage failed_login_attempts" ON failed_login_attempts;
 DROP POLICY IF EXISTS "Allow anon to manage failed login attempts" ON failed_login_attempts;
+DROP POLICY IF EXISTS "Allow anon to read failed login attempts" ON failed_login_attempts;
 DROP POLICY IF EXISTS "Service role can manage password_reset_tokens" ON password_reset_tokens;
 DROP POLICY IF EXISTS "Allow anon to manage password reset tokens" ON password_reset_tokens;
 DROP POLICY IF EXISTS "Allow anon to manage email verification OTPs" ON email_verification_otps;
+DROP POLICY IF EXISTS "Allow anon to read trusted devices" ON trusted_devices;
+DROP POLICY IF EXISTS "Allow anon to revoke trusted devices" ON trusted_devices;
+DROP POLICY IF EXISTS "Allow anon to manage mfa methods" ON user_mfa_methods;
+DROP POLICY IF EXISTS "Allow anon to read mfa methods" ON user_mfa_methods;
+DROP POLICY IF EXISTS "Allow anon to read webauthn credentials" ON webauthn_credentials;
+DROP POLICY IF EXISTS "Allow anon to remove webauthn credentials" ON webauthn_credentials;
+DROP POLICY IF EXISTS "Allow anon to read password policy" ON password_policy;
+DROP POLICY IF EXISTS "Allow anon to read user profiles" ON user_profiles;
 
 -- Users table policies
 CREATE POLICY "Allow anon to read users for auth" ON users
@@ -235,69 +513,58 @@ CREATE POLICY "Allow anon to read users for auth" ON users
   TO anon
   USING (true);
 
-CREATE POLICY "Allow anon to insert users" ON users
-  FOR INSERT
-  TO anon
-  WITH CHECK (true);
+-- Only the server creates and changes accounts (registration, MFA, locks, admin handlers)
+REVOKE INSERT, UPDATE ON users FROM anon;
 
-CREATE POLICY "Allow anon to update users" ON users
-  FOR UPDATE
-  TO anon
-  USING (true)
-  WITH CHECK (true);
-
--- Sessions table policies
-CREATE POLICY "Allow anon to manage sessions" ON sessions
-  FOR ALL
-  TO anon
-  USING (true)
-  WITH CHECK (true);
+-- Password hashes stay server-side; the browser reads the other columns
+REVOKE SELECT ON users FROM anon;
+GRANT SELECT (id, email, role, mfa_enabled, is_active, locked_until, lock_reason,
+  password_changed_at, created_at, updated_at) ON users TO anon;
 
 -- Audit logs table policies
-CREATE POLICY "Allow anon to insert audit logs" ON audit_logs
-  FOR INSERT
-  TO anon
-  WITH CHECK (true);
-
 CREATE POLICY "Allow anon to read audit logs" ON audit_logs
   FOR SELECT
   TO anon
   USING (true);
 
--- OTP codes table policies
-CREATE POLICY "Allow anon to manage otp codes" ON otp_codes
-  FOR ALL
+-- Failed login attempts: the browser reads them for admin stats; only the server records them
+CREATE POLICY "Allow anon to read failed login attempts" ON failed_login_attempts
+  FOR SELECT
   TO anon
-  USING (true)
-  WITH CHECK (true);
+  USING (true);
 
--- Backup codes table policies
-CREATE POLICY "Allow anon to manage backup codes" ON backup_codes
-  FOR ALL
+-- MFA methods: the browser reads the non-secret columns; only the server enrols, changes
+-- the primary method and removes methods
+CREATE POLICY "Allow anon to read mfa methods" ON user_mfa_methods
+  FOR SELECT
   TO anon
-  USING (true)
-  WITH CHECK (true);
+  USING (true);
+
+REVOKE ALL ON user_mfa_methods FROM anon;
+GRANT SELECT (id, user_id, method, phone_number, otp_type, otp_digits, is_primary, created_at, last_used_at)
+  ON user_mfa_methods TO anon;
 
--- Failed login attempts table policies
-CREATE POLICY "Allow anon to manage failed login attempts" ON failed_login_attempts
-  FOR ALL
+-- WebAuthn credentials: the browser lists them; only the server registers and removes
+CREATE POLICY "Allow anon to read webauthn credentials" ON webauthn_credentials
+  FOR SELECT
   TO anon
-  USING (true)
-  WITH CHECK (true);
+  USING (true);
 
--- Password reset tokens table policies
-CREATE POLICY "Allow anon to manage password reset tokens" ON password_reset_tokens
-  FOR ALL
+-- Password policy: the browser reads the rules for its checklist
+CREATE POLICY "Allow anon to read password policy" ON password_policy
+  FOR SELECT
   TO anon
-  USING (true)
-  WITH CHECK (true);
+  USING (true);
 
--- Email verification OTPs table policies
-CREATE POLICY "Allow anon to manage email verification OTPs" ON email_verification_otps
-  FOR ALL
+-- User profiles: the browser reads display names and avatars; only the server writes, and
+-- the phone number, time zone and locale stay server-side
+CREATE POLICY "Allow anon to read user profiles" ON user_profiles
+  FOR SELECT
   TO anon
-  USING (true)
-  WITH CHECK (true);
+  USING (true);
+
+REVOKE SELECT ON user_profiles FROM anon;
+GRANT SELECT (user_id, display_name, avatar_url) ON user_profiles TO anon;
 
 -- ============================================
 -- SETUP COMPLETE!
@@ -0,0 +1,18 @@
+-- Asymmetric JWT signing keys (RS256 / EdDSA). Private keys are only read with the service role.
+CREATE TABLE IF NOT EXISTS jwt_signing_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kid VARCHAR(64) UNIQUE NOT NULL,
+  alg VARCHAR(10) NOT NULL CHECK (alg IN ('RS256', 'EdDSA')),
+  public_jwk JSONB NOT NULL,
+  private_jwk JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retiring')),
+  retire_after TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jwt_signing_keys_status ON jwt_signing_keys(status);
+
+-- RLS on with no anon policy: only the service role (server) can read or write keys
+ALTER TABLE jwt_signing_keys ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN jwt_signing_keys.status IS 'active = may sign; retiring = verify only until retire_after';
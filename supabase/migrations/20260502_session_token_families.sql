@@ -0,0 +1,8 @@
+-- Refresh token families: every refresh token issued for one sign-in shares the session's family_id.
+-- A refresh token presented after it was rotated revokes the whole family (audit: refresh_token_reuse).
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS family_id UUID NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_family_id ON sessions(family_id);
+
+COMMENT ON COLUMN sessions.family_id IS 'Refresh token family (familyId claim); refresh_token holds the only unused token';
@@ -0,0 +1,7 @@
+-- Session list in Settings: when each session was last active
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_last_seen_at ON sessions(last_seen_at);
+
+COMMENT ON COLUMN sessions.last_seen_at IS 'Updated on sign-in, refresh and the periodic /api/auth/session check';
@@ -0,0 +1,38 @@
+-- Trusted devices: browsers that skip the second factor until expires_at (api/_lib/trusted-devices.js).
+-- Only the server issues and checks device tokens; the browser may list and revoke its user's devices.
+CREATE TABLE IF NOT EXISTS trusted_devices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) NOT NULL,
+  platform_hash VARCHAR(64) NOT NULL,
+  user_agent TEXT NULL,
+  ip_address VARCHAR(45) NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trusted_devices_user_id ON trusted_devices(user_id);
+CREATE INDEX IF NOT EXISTS idx_trusted_devices_expires_at ON trusted_devices(expires_at);
+
+ALTER TABLE trusted_devices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow anon to read trusted devices" ON trusted_devices;
+DROP POLICY IF EXISTS "Allow anon to revoke trusted devices" ON trusted_devices;
+
+CREATE POLICY "Allow anon to read trusted devices" ON trusted_devices
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Allow anon to revoke trusted devices" ON trusted_devices
+  FOR DELETE
+  TO anon
+  USING (true);
+
+COMMENT ON COLUMN trusted_devices.token_hash IS 'SHA-256 of the signed device token; the token itself is never stored';
+COMMENT ON COLUMN trusted_devices.platform_hash IS 'SHA-256 of the User-Agent without version numbers (browser and OS binding)';
+
+-- When the second factor was completed for a session (password-only sessions stay NULL)
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS mfa_verified_at TIMESTAMP WITH TIME ZONE NULL;
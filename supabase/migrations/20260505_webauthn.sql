@@ -0,0 +1,48 @@
+-- WebAuthn security keys and passkeys (api/_lib/webauthn.js).
+-- Credentials hold public keys only; the browser may list and remove its user's keys.
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS webauthn_enabled BOOLEAN DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS webauthn_credentials (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  credential_id TEXT UNIQUE NOT NULL,
+  public_key TEXT NOT NULL,
+  counter BIGINT NOT NULL DEFAULT 0,
+  transports JSONB NULL,
+  device_type VARCHAR(20) NULL,
+  backed_up BOOLEAN DEFAULT FALSE,
+  name VARCHAR(100) NOT NULL DEFAULT 'Security key',
+  last_used_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Single-use ceremony challenges (server only; user_id is NULL for passkey sign-in)
+CREATE TABLE IF NOT EXISTS webauthn_challenges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NULL REFERENCES users(id) ON DELETE CASCADE,
+  challenge TEXT UNIQUE NOT NULL,
+  purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('registration', 'mfa', 'login')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user_id ON webauthn_credentials(user_id);
+CREATE INDEX IF NOT EXISTS idx_webauthn_challenges_expires_at ON webauthn_challenges(expires_at);
+
+ALTER TABLE webauthn_credentials ENABLE ROW LEVEL SECURITY;
+-- No anon policy for webauthn_challenges: only the service role (server) may read them
+ALTER TABLE webauthn_challenges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow anon to read webauthn credentials" ON webauthn_credentials;
+DROP POLICY IF EXISTS "Allow anon to remove webauthn credentials" ON webauthn_credentials;
+
+CREATE POLICY "Allow anon to read webauthn credentials" ON webauthn_credentials
+  FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Allow anon to remove webauthn credentials" ON webauthn_credentials
+  FOR DELETE
+  TO anon
+  USING (true);
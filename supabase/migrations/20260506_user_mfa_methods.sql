@@ -0,0 +1,73 @@
+-- Several second factors per user (replaces the per-method columns on users).
+-- One row per method; the primary method is offered first at sign-in.
+-- users.mfa_enabled stays as "has at least one method".
+CREATE TABLE IF NOT EXISTS user_mfa_methods (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  method VARCHAR(20) NOT NULL CHECK (method IN ('totp', 'email', 'sms', 'webauthn')),
+  secret VARCHAR(255) NULL,
+  phone_number VARCHAR(20) NULL,
+  is_primary BOOLEAN NOT NULL DEFAULT FALSE,
+  last_used_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, method)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_mfa_methods_user_id ON user_mfa_methods(user_id);
+-- At most one primary method per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_mfa_methods_primary
+  ON user_mfa_methods(user_id) WHERE is_primary;
+
+-- Copy the enrolled method of existing users (skipped once the old columns are gone)
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'mfa_secret'
+  ) THEN
+    INSERT INTO user_mfa_methods (user_id, method, secret)
+      SELECT id, 'totp', mfa_secret FROM users WHERE mfa_secret IS NOT NULL
+      ON CONFLICT (user_id, method) DO NOTHING;
+    INSERT INTO user_mfa_methods (user_id, method, phone_number)
+      SELECT id, 'sms', mfa_phone_number FROM users
+      WHERE sms_otp_enabled AND mfa_phone_number IS NOT NULL
+      ON CONFLICT (user_id, method) DO NOTHING;
+    INSERT INTO user_mfa_methods (user_id, method)
+      SELECT id, 'email' FROM users WHERE email_otp_enabled
+      ON CONFLICT (user_id, method) DO NOTHING;
+    INSERT INTO user_mfa_methods (user_id, method)
+      SELECT id, 'webauthn' FROM users WHERE webauthn_enabled
+      ON CONFLICT (user_id, method) DO NOTHING;
+
+    -- Same precedence the sign-in page used before
+    UPDATE user_mfa_methods m SET is_primary = TRUE
+    FROM (
+      SELECT DISTINCT ON (user_id) id FROM user_mfa_methods
+      ORDER BY user_id,
+        CASE method WHEN 'webauthn' THEN 0 WHEN 'totp' THEN 1 WHEN 'sms' THEN 2 ELSE 3 END
+    ) p
+    WHERE m.id = p.id
+      AND NOT EXISTS (
+        SELECT 1 FROM user_mfa_methods o WHERE o.user_id = m.user_id AND o.is_primary
+      );
+  END IF;
+END $$;
+
+ALTER TABLE users
+  DROP COLUMN IF EXISTS mfa_secret,
+  DROP COLUMN IF EXISTS totp_enabled,
+  DROP COLUMN IF EXISTS email_otp_enabled,
+  DROP COLUMN IF EXISTS mfa_phone_number,
+  DROP COLUMN IF EXISTS sms_otp_enabled,
+  DROP COLUMN IF EXISTS webauthn_enabled;
+
+ALTER TABLE user_mfa_methods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow anon to manage mfa methods" ON user_mfa_methods;
+
+-- Same access as the users table, which held these columns before
+CREATE POLICY "Allow anon to manage mfa methods" ON user_mfa_methods
+  FOR ALL
+  TO anon
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,22 @@
+-- Backup codes are generated by the server and stored as salted scrypt hashes
+-- (api/_lib/backup-codes.js). Plaintext codes cannot be converted, so they are deleted;
+-- users generate a new set on the MFA Setup page.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'backup_codes' AND column_name = 'code'
+  ) THEN
+    DELETE FROM backup_codes;
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_backup_codes_code;
+
+ALTER TABLE backup_codes
+  DROP COLUMN IF EXISTS code,
+  ADD COLUMN IF NOT EXISTS code_hash VARCHAR(64) NOT NULL,
+  ADD COLUMN IF NOT EXISTS salt VARCHAR(32) NOT NULL;
+
+-- No anon policy: only the server (service role) reads hashes or marks codes used
+DROP POLICY IF EXISTS "Allow anon to manage backup codes" ON backup_codes;
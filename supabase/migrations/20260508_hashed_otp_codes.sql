@@ -0,0 +1,42 @@
+-- Email OTP codes are generated by the server and stored as an HMAC under OTP_HMAC_KEY
+-- (api/_lib/otp-codes.js). Existing plaintext codes are short-lived, so they are deleted;
+-- anyone mid-registration or mid-sign-in requests a new code.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'otp_codes' AND column_name = 'code'
+  ) THEN
+    DELETE FROM otp_codes;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'email_verification_otps' AND column_name = 'code'
+  ) THEN
+    DELETE FROM email_verification_otps;
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_otp_codes_code;
+DROP INDEX IF EXISTS idx_email_verification_otps_code;
+
+ALTER TABLE otp_codes
+  DROP COLUMN IF EXISTS code,
+  ADD COLUMN IF NOT EXISTS code_hash VARCHAR(64) NOT NULL,
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+
+-- code_hash is NULL for SkySMS registrations (the provider checks those codes)
+ALTER TABLE email_verification_otps
+  DROP COLUMN IF EXISTS code,
+  ADD COLUMN IF NOT EXISTS code_hash VARCHAR(64) NULL,
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+
+-- One active code per user and purpose, and one pending registration per email
+CREATE UNIQUE INDEX IF NOT EXISTS idx_otp_codes_active
+  ON otp_codes(user_id, type) WHERE NOT used;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_verification_otps_active
+  ON email_verification_otps(email) WHERE NOT used;
+
+-- No anon policies: only the server (service role) issues and checks codes
+DROP POLICY IF EXISTS "Allow anon to manage otp codes" ON otp_codes;
+DROP POLICY IF EXISTS "Allow anon to manage email verification OTPs" ON email_verification_otps;
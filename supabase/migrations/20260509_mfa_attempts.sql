@@ -0,0 +1,17 @@
+-- Second-factor checks at sign-in, for the MFA rate limit (api/_lib/rate-limit.js).
+-- Failures since the last success are counted per user and per sign-in (token family).
+-- Only the server reads and writes this table.
+CREATE TABLE IF NOT EXISTS mfa_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_family_id UUID NULL,
+  method VARCHAR(10) NOT NULL,
+  success BOOLEAN NOT NULL DEFAULT FALSE,
+  ip_address VARCHAR(45) NULL,
+  attempted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_attempts_user_id_attempted_at
+  ON mfa_attempts(user_id, attempted_at);
+
+ALTER TABLE mfa_attempts ENABLE ROW LEVEL SECURITY;
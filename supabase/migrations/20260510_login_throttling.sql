@@ -0,0 +1,13 @@
+-- Per-address login throttling (api/_lib/rate-limit.js) counts failures by ip_address.
+CREATE INDEX IF NOT EXISTS idx_failed_login_attempts_ip_address
+  ON failed_login_attempts(ip_address, attempted_at);
+
+-- Only the server records sign-in attempts; the browser may still read them (admin stats),
+-- but can no longer delete its own failures to reset the limits
+DROP POLICY IF EXISTS "Allow anon to manage failed login attempts" ON failed_login_attempts;
+DROP POLICY IF EXISTS "Allow anon to read failed login attempts" ON failed_login_attempts;
+
+CREATE POLICY "Allow anon to read failed login attempts" ON failed_login_attempts
+  FOR SELECT
+  TO anon
+  USING (true);
@@ -0,0 +1,7 @@
+-- Account lockout (api/_lib/account-lock.js): sign-in and token refresh are refused while
+-- locked_until is in the future. lock_reason says who locked it; only locks from failed
+-- sign-ins or MFA codes can be cleared with the emailed unlock link.
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE NULL,
+  ADD COLUMN IF NOT EXISTS lock_reason VARCHAR(20) NULL
+    CHECK (lock_reason IN ('failed_logins', 'failed_mfa', 'admin'));
@@ -0,0 +1,6 @@
+-- TOTP replay protection (api/_lib/totp.js): the last accepted time step is stored per user,
+-- and codes for that step or an earlier one are refused. totp_drift is the learned offset
+-- of the user's authenticator clock in 30-second steps (NULL until the first sign-in).
+ALTER TABLE user_mfa_methods
+  ADD COLUMN IF NOT EXISTS totp_last_step BIGINT NULL,
+  ADD COLUMN IF NOT EXISTS totp_drift SMALLINT NULL;
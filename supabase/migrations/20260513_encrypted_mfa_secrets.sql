@@ -0,0 +1,6 @@
+-- TOTP secrets are stored envelope-encrypted (api/_lib/mfa-secrets.js), which is longer
+-- than a base32 seed. After applying this, set MFA_MASTER_KEY on the server and run
+-- `npm run reencrypt-mfa-secrets` to encrypt the existing plaintext secrets; until then
+-- their authenticator codes are refused.
+ALTER TABLE user_mfa_methods
+  ALTER COLUMN secret TYPE TEXT;
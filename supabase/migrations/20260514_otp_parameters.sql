@@ -0,0 +1,13 @@
+-- Authenticator parameters are stored per credential (api/_lib/totp.js), so changing
+-- TOTP_ALGORITHM, TOTP_DIGITS or TOTP_PERIOD only affects new enrolments. otp_type 'hotp'
+-- is a counter-based credential; hotp_counter is the next counter value it accepts.
+-- Existing credentials keep the previous fixed parameters (SHA1, 6 digits, 30 seconds).
+ALTER TABLE user_mfa_methods
+  ADD COLUMN IF NOT EXISTS otp_type VARCHAR(4) NOT NULL DEFAULT 'totp'
+    CHECK (otp_type IN ('totp', 'hotp')),
+  ADD COLUMN IF NOT EXISTS otp_algorithm VARCHAR(6) NOT NULL DEFAULT 'SHA1'
+    CHECK (otp_algorithm IN ('SHA1', 'SHA256', 'SHA512')),
+  ADD COLUMN IF NOT EXISTS otp_digits SMALLINT NOT NULL DEFAULT 6
+    CHECK (otp_digits IN (6, 8)),
+  ADD COLUMN IF NOT EXISTS otp_period SMALLINT NOT NULL DEFAULT 30,
+  ADD COLUMN IF NOT EXISTS hotp_counter BIGINT NOT NULL DEFAULT 0;
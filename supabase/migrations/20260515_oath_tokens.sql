@@ -0,0 +1,19 @@
+-- Hardware OATH token inventory (api/_lib/oath-tokens.js). Admins import TOTP key fobs
+-- from the vendor's seed file and assign them to users; the assigned seed is copied into
+-- the user's user_mfa_methods row. Seeds are envelope-encrypted like other TOTP secrets.
+-- Only the server reads and writes this table.
+CREATE TABLE IF NOT EXISTS oath_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  serial VARCHAR(64) UNIQUE NOT NULL,
+  secret TEXT NOT NULL,
+  algorithm VARCHAR(6) NOT NULL DEFAULT 'SHA1' CHECK (algorithm IN ('SHA1', 'SHA256', 'SHA512')),
+  digits SMALLINT NOT NULL DEFAULT 6 CHECK (digits IN (6, 8)),
+  period SMALLINT NOT NULL DEFAULT 30,
+  assigned_user_id UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_oath_tokens_assigned_user_id ON oath_tokens(assigned_user_id);
+
+ALTER TABLE oath_tokens ENABLE ROW LEVEL SECURITY;
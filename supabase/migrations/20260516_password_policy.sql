@@ -0,0 +1,41 @@
+-- Password policy (api/_lib/password-policy.js). The single row holds the rules; edit it
+-- to change them. The browser reads it for the checklist, only the server writes it.
+-- history_count includes the current password (0 allows reuse); max_age_days 0 means
+-- passwords do not expire. Existing passwords start aging when this migration runs.
+CREATE TABLE IF NOT EXISTS password_policy (
+  id SMALLINT PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  min_length SMALLINT NOT NULL DEFAULT 8 CHECK (min_length BETWEEN 8 AND 128),
+  require_uppercase BOOLEAN NOT NULL DEFAULT TRUE,
+  require_lowercase BOOLEAN NOT NULL DEFAULT TRUE,
+  require_digit BOOLEAN NOT NULL DEFAULT TRUE,
+  require_symbol BOOLEAN NOT NULL DEFAULT FALSE,
+  history_count SMALLINT NOT NULL DEFAULT 5 CHECK (history_count BETWEEN 0 AND 24),
+  max_age_days SMALLINT NOT NULL DEFAULT 0 CHECK (max_age_days >= 0),
+  min_age_days SMALLINT NOT NULL DEFAULT 0 CHECK (min_age_days >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO password_policy (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+-- Previous password hashes per user, for the reuse check (service role only)
+CREATE TABLE IF NOT EXISTS password_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  password_hash VARCHAR(255) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user_id_created_at
+  ON password_history(user_id, created_at);
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+ALTER TABLE password_policy ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow anon to read password policy" ON password_policy;
+CREATE POLICY "Allow anon to read password policy" ON password_policy
+  FOR SELECT
+  TO anon
+  USING (true);
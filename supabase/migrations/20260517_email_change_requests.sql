@@ -0,0 +1,23 @@
+-- Pending email address changes (api/_lib/email-change.js). A change waits here until the
+-- new address is confirmed; the old address can revert it for a week. Link tokens are
+-- stored as SHA-256 hashes. Only the server reads and writes this table.
+CREATE TABLE IF NOT EXISTS email_change_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  old_email VARCHAR(255) NOT NULL,
+  new_email VARCHAR(255) NOT NULL,
+  confirm_token_hash CHAR(64) UNIQUE NOT NULL,
+  revert_token_hash CHAR(64) UNIQUE NOT NULL,
+  requested_by UUID NULL REFERENCES users(id) ON DELETE SET NULL,
+  status VARCHAR(10) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'confirmed', 'reverted', 'cancelled')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  confirmed_at TIMESTAMP WITH TIME ZONE NULL,
+  reverted_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_change_requests_user_id_status
+  ON email_change_requests(user_id, status);
+
+ALTER TABLE email_change_requests ENABLE ROW LEVEL SECURITY;
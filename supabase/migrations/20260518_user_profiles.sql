@@ -0,0 +1,24 @@
+-- Optional personal details of an account (api/_lib/user-profiles.js). Only the server
+-- writes profiles; the browser may read the display name and avatar of any user, for
+-- admin lists and audit logs, but not the phone number, time zone or locale.
+CREATE TABLE IF NOT EXISTS user_profiles (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  display_name VARCHAR(80) NULL,
+  avatar_url TEXT NULL,
+  phone VARCHAR(16) NULL,
+  timezone VARCHAR(64) NULL,
+  locale VARCHAR(35) NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow anon to read user profiles" ON user_profiles;
+CREATE POLICY "Allow anon to read user profiles" ON user_profiles
+  FOR SELECT
+  TO anon
+  USING (true);
+
+REVOKE SELECT ON user_profiles FROM anon;
+GRANT SELECT (user_id, display_name, avatar_url) ON user_profiles TO anon;
@@ -0,0 +1,16 @@
+-- Second factors are changed only by the server (api/_lib/mfa-methods.js and the setup
+-- handlers). The anon key may read the columns the MFA pages show, never the encrypted
+-- seed or the replay counters, and may no longer insert, update or delete rows. Security
+-- keys are removed together with the method, also on the server.
+DROP POLICY IF EXISTS "Allow anon to manage mfa methods" ON user_mfa_methods;
+DROP POLICY IF EXISTS "Allow anon to read mfa methods" ON user_mfa_methods;
+CREATE POLICY "Allow anon to read mfa methods" ON user_mfa_methods
+  FOR SELECT
+  TO anon
+  USING (true);
+
+REVOKE ALL ON user_mfa_methods FROM anon;
+GRANT SELECT (id, user_id, method, phone_number, otp_type, otp_digits, is_primary, created_at, last_used_at)
+  ON user_mfa_methods TO anon;
+
+DROP POLICY IF EXISTS "Allow anon to remove webauthn credentials" ON webauthn_credentials;
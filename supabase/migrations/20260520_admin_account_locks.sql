@@ -0,0 +1,6 @@
+-- Account locks are set and cleared only by the server (api/_lib/account-lock.js): failed
+-- sign-ins, the emailed unlock link and the admin lock/unlock handlers. The anon key keeps
+-- updating the other columns the browser still writes, but not `locked_until` or
+-- `lock_reason`.
+REVOKE UPDATE ON users FROM anon;
+GRANT UPDATE (role, mfa_enabled, is_active, updated_at) ON users TO anon;
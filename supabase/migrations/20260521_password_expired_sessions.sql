@@ -0,0 +1,5 @@
+-- Sessions signed in with an expired password (api/_lib/auth.js). Until the password is
+-- changed, the server accepts such a session only for the second factor and the password
+-- change (api/_lib/sessions.js).
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS password_expired BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,4 @@
+-- Sessions are created, listed and revoked only by the server (api/_lib/auth.js and
+-- api/_lib/user-sessions.js). The anon key could read every token and write
+-- `mfa_verified_at` and `password_expired`, so it loses all access to the table.
+DROP POLICY IF EXISTS "Allow anon to manage sessions" ON sessions;
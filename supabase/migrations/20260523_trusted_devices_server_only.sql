@@ -0,0 +1,5 @@
+-- Trusted devices are listed and revoked through the server (api/_lib/trusted-devices.js),
+-- which takes the user from the bearer token and writes the audit entries. The anon key
+-- could read and delete any user's devices, so it loses all access to the table.
+DROP POLICY IF EXISTS "Allow anon to read trusted devices" ON trusted_devices;
+DROP POLICY IF EXISTS "Allow anon to revoke trusted devices" ON trusted_devices;
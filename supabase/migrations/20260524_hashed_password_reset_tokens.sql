@@ -0,0 +1,21 @@
+-- Password reset links are issued by the server (api/_lib/password-policy.js), which
+-- emails a random token and stores only its SHA-256 hash. Plaintext tokens cannot be
+-- converted, so they are deleted; users request a new link.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'password_reset_tokens' AND column_name = 'token'
+  ) THEN
+    DELETE FROM password_reset_tokens;
+  END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_password_reset_tokens_token;
+
+ALTER TABLE password_reset_tokens
+  DROP COLUMN IF EXISTS token,
+  ADD COLUMN IF NOT EXISTS token_hash CHAR(64) UNIQUE NOT NULL;
+
+-- No anon policy: only the server issues and checks reset tokens
+DROP POLICY IF EXISTS "Allow anon to manage password reset tokens" ON password_reset_tokens;
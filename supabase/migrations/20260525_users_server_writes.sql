@@ -0,0 +1,8 @@
+-- Accounts are created and changed only by the server: registration (api/_lib/otp-codes.js),
+-- MFA enrolment (api/_lib/mfa-methods.js), account locks and the admin role and activation
+-- handlers (api/_lib/admin-users.js). With UPDATE on `role` any visitor could make
+-- themselves an Admin, so the anon key may no longer insert or update users.
+DROP POLICY IF EXISTS "Allow anon to insert users" ON users;
+DROP POLICY IF EXISTS "Allow anon to update users" ON users;
+
+REVOKE INSERT, UPDATE ON users FROM anon;
@@ -0,0 +1,5 @@
+-- Password hashes are read only by the server. The anon key keeps reading the columns the
+-- browser shows (admin users table, dashboard counts), but not `password_hash`.
+REVOKE SELECT ON users FROM anon;
+GRANT SELECT (id, email, role, mfa_enabled, is_active, locked_until, lock_reason,
+  password_changed_at, created_at, updated_at) ON users TO anon;
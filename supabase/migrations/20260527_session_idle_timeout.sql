@@ -0,0 +1,11 @@
+-- Idle timeout on the server: the last user activity of each session. The browser reports
+-- its activity and every authenticated request counts, so /api/auth/session and
+-- /api/auth/refresh reject sessions idle for longer than their role allows.
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMP WITH TIME ZONE NULL;
+
+-- Sessions from before this migration start from their last check-in
+UPDATE sessions SET last_activity_at = COALESCE(last_seen_at, created_at)
+  WHERE last_activity_at IS NULL;
+
+COMMENT ON COLUMN sessions.last_activity_at IS 'Last user activity; sessions idle past the role''s idle timeout are rejected';
@@ -0,0 +1,4 @@
+-- Audit entries are written only by the server (insertAuditLog in api/_lib/supabase.js).
+-- The anon key could insert entries for any user, or the browser could skip them, so it
+-- keeps read access for the admin audit log but can no longer insert.
+DROP POLICY IF EXISTS "Allow anon to insert audit logs" ON audit_logs;